@@ -0,0 +1,10 @@
+// Runs after auth: only administrators get through
+const admin = (req, res, next) => {
+  if (!req.user || !req.user.isAdmin) {
+    return res.status(403).json({ error: 'Admin access required' });
+  }
+
+  next();
+};
+
+module.exports = admin;
@@ -0,0 +1,266 @@
+const mongoose = require('mongoose');
+
+const bidSchema = new mongoose.Schema({
+  bidderId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  amount: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  timestamp: {
+    type: Date,
+    default: Date.now
+  },
+  // Placed by the proxy engine on the bidder's behalf
+  isAutomatic: {
+    type: Boolean,
+    default: false
+  },
+  // Landed inside the soft-close window and pushed endTime out
+  triggeredExtension: {
+    type: Boolean,
+    default: false
+  }
+});
+
+// Hidden maximum a bidder is willing to reach
+const proxyBidSchema = new mongoose.Schema({
+  bidderId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  maxAmount: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+const auctionSchema = new mongoose.Schema({
+  vehicleId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Vehicle',
+    required: true
+  },
+  sellerId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  title: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 200
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: 2000
+  },
+  startingBid: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  buyNowPrice: {
+    type: Number,
+    min: 0
+  },
+  // Lowest price the seller will accept; kept private to the server
+  reservePrice: {
+    type: Number,
+    min: 0
+  },
+  currentBid: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  highestBidderId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  bids: [bidSchema],
+  proxyBids: {
+    type: [proxyBidSchema],
+    select: false
+  },
+  // Bids landing this close to the end extend the auction by the same amount
+  softCloseMinutes: {
+    type: Number,
+    default: 2,
+    min: 0,
+    max: 15
+  },
+  startTime: {
+    type: Date,
+    default: Date.now
+  },
+  endTime: {
+    type: Date,
+    required: true
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  views: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  completedAt: {
+    type: Date
+  },
+  winnerId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  finalPrice: {
+    type: Number,
+    min: 0
+  },
+  status: {
+    type: String,
+    enum: ['active', 'completed', 'failed', 'cancelled'],
+    default: 'active'
+  }
+}, {
+  timestamps: true,
+  // Bids are validated against a loaded copy; a save from a stale copy must fail instead of overwriting
+  optimisticConcurrency: true
+});
+
+// Indexes for better performance
+auctionSchema.index({ sellerId: 1 });
+auctionSchema.index({ vehicleId: 1 });
+auctionSchema.index({ isActive: 1, endTime: 1 });
+auctionSchema.index({ status: 1 });
+
+// Virtual for the minimum amount the next bid must reach
+auctionSchema.virtual('minimumNextBid').get(function() {
+  if (!this.bids || this.bids.length === 0) {
+    return this.startingBid;
+  }
+  return this.currentBid + auctionSchema.statics.getBidIncrement(this.currentBid);
+});
+
+// Virtuals exposing reserve status without revealing the amount
+auctionSchema.virtual('hasReserve').get(function() {
+  return !!this.reservePrice;
+});
+
+auctionSchema.virtual('reserveMet').get(function() {
+  return !this.reservePrice || (this.bids.length > 0 && this.currentBid >= this.reservePrice);
+});
+
+// Virtual to check if bidding time is over
+auctionSchema.virtual('hasEnded').get(function() {
+  return new Date() >= this.endTime;
+});
+
+// Bid increments scale with the current price
+auctionSchema.statics.getBidIncrement = function(amount) {
+  if (amount < 1000) return 25;
+  if (amount < 5000) return 50;
+  if (amount < 25000) return 100;
+  if (amount < 100000) return 250;
+  return 500;
+};
+
+// Method to place a bid, letting proxy maximums answer automatically.
+// Expects proxyBids to be selected. Returns whether the end time moved.
+auctionSchema.methods.placeBid = function(bidderId, { amount, maxBid } = {}) {
+  const Auction = this.constructor;
+  const now = new Date();
+  const bidder = bidderId.toString();
+  const isHighest = () => this.highestBidderId && this.highestBidderId.toString() === bidder;
+
+  const pushBid = (id, bidAmount, isAutomatic) => {
+    this.bids.push({ bidderId: id, amount: bidAmount, timestamp: now, isAutomatic });
+    this.currentBid = bidAmount;
+    this.highestBidderId = id;
+    return this.bids[this.bids.length - 1];
+  };
+
+  // Record or raise the bidder's hidden maximum
+  if (maxBid) {
+    const existing = this.proxyBids.find(p => p.bidderId.toString() === bidder);
+    if (existing) {
+      existing.maxAmount = Math.max(existing.maxAmount, maxBid);
+      existing.updatedAt = now;
+    } else {
+      this.proxyBids.push({ bidderId, maxAmount: maxBid, updatedAt: now });
+    }
+  }
+
+  // Raising the cap while already winning doesn't place a visible bid
+  const placedBid = isHighest() && maxBid ? null : pushBid(bidderId, amount || this.minimumNextBid, false);
+
+  const proxyMaxFor = (id) => {
+    const proxy = this.proxyBids.find(p => p.bidderId.toString() === id.toString());
+    return proxy ? proxy.maxAmount : 0;
+  };
+
+  // Let competing proxies answer until nobody can beat the leader
+  for (let round = 0; round <= this.proxyBids.length; round++) {
+    const leaderId = this.highestBidderId;
+    const challenger = this.proxyBids
+      .filter(p => p.bidderId.toString() !== leaderId.toString() && p.maxAmount >= this.minimumNextBid)
+      .sort((a, b) => b.maxAmount - a.maxAmount || a.updatedAt - b.updatedAt)[0];
+
+    if (!challenger) break;
+
+    const leaderMax = Math.max(proxyMaxFor(leaderId), this.currentBid);
+
+    if (challenger.maxAmount > leaderMax) {
+      if (leaderMax > this.currentBid) {
+        pushBid(leaderId, leaderMax, true);
+      }
+      pushBid(challenger.bidderId, Math.min(challenger.maxAmount, leaderMax + Auction.getBidIncrement(leaderMax)), true);
+    } else {
+      pushBid(challenger.bidderId, challenger.maxAmount, true);
+      pushBid(leaderId, Math.min(leaderMax, challenger.maxAmount + Auction.getBidIncrement(challenger.maxAmount)), true);
+    }
+  }
+
+  // Soft close: a bid in the final minutes keeps the auction open a little longer
+  let extended = false;
+  const windowMs = (this.softCloseMinutes || 0) * 60 * 1000;
+  if (placedBid && windowMs > 0 && this.endTime.getTime() - now.getTime() < windowMs) {
+    this.endTime = new Date(now.getTime() + windowMs);
+    placedBid.triggeredExtension = true;
+    extended = true;
+  }
+
+  return { extended };
+};
+
+// Method to increment views
+auctionSchema.methods.incrementViews = function() {
+  this.views += 1;
+  return this.save();
+};
+
+// Ensure virtual fields are serialized
+auctionSchema.set('toJSON', {
+  virtuals: true,
+  transform: (doc, ret) => {
+    // Proxy maximums and the reserve stay private to the server
+    delete ret.proxyBids;
+    delete ret.reservePrice;
+    return ret;
+  }
+});
+
+module.exports = mongoose.model('Auction', auctionSchema);
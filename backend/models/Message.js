@@ -1,5 +1,44 @@
 const mongoose = require('mongoose');
 
+const MAX_MESSAGE_ATTACHMENTS = 5;
+
+// Photos and PDFs (service records, title scans) uploaded before the message is sent
+const attachmentSchema = new mongoose.Schema({
+  url: {
+    type: String,
+    required: true
+  },
+  kind: {
+    type: String,
+    enum: ['image', 'pdf'],
+    required: true
+  },
+  name: {
+    type: String,
+    trim: true,
+    maxlength: 200
+  },
+  size: Number // Bytes
+}, { _id: false });
+
+// A previous version of a message, kept for trade-linked conversations
+const messageEditSchema = new mongoose.Schema({
+  content: {
+    type: String,
+    default: ''
+  },
+  attachments: [attachmentSchema],
+  action: {
+    type: String,
+    enum: ['edited', 'unsent'],
+    required: true
+  },
+  changedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: false });
+
 const messageSchema = new mongoose.Schema({
   senderId: {
     type: mongoose.Schema.Types.ObjectId,
@@ -13,14 +52,29 @@ const messageSchema = new mongoose.Schema({
   },
   content: {
     type: String,
-    required: true,
+    // A message may be attachments only, and an unsent message is empty
+    required: function() {
+      return !this.unsentAt && (!this.attachments || this.attachments.length === 0);
+    },
     trim: true,
+    default: '',
     maxlength: 2000 // Limit message length
   },
+  attachments: {
+    type: [attachmentSchema],
+    validate: {
+      validator: attachments => attachments.length <= MAX_MESSAGE_ATTACHMENTS,
+      message: `A message can carry at most ${MAX_MESSAGE_ATTACHMENTS} attachments`
+    }
+  },
   timestamp: {
     type: Date,
     default: Date.now
   },
+  // Set once the receiver has a live connection or loads the message
+  deliveredAt: {
+    type: Date
+  },
   read: {
     type: Boolean,
     default: false
@@ -37,6 +91,18 @@ const messageSchema = new mongoose.Schema({
     type: mongoose.Schema.Types.ObjectId,
     ref: 'Listing',
     required: false
+  },
+  editedAt: {
+    type: Date
+  },
+  // Unsent messages stay as a placeholder so the conversation keeps its shape
+  unsentAt: {
+    type: Date
+  },
+  // Only filled for trade-linked messages, so disputes can see what was said before
+  editHistory: {
+    type: [messageEditSchema],
+    select: false
   }
 }, {
   timestamps: true
@@ -56,6 +122,7 @@ messageSchema.index({
   timestamp: -1 
 });
 
-module.exports = mongoose.model('Message', messageSchema); 
+module.exports = mongoose.model('Message', messageSchema);
+module.exports.MAX_MESSAGE_ATTACHMENTS = MAX_MESSAGE_ATTACHMENTS; 
  
  
\ No newline at end of file
@@ -0,0 +1,94 @@
+const mongoose = require('mongoose');
+
+const offerHistorySchema = new mongoose.Schema({
+  action: {
+    type: String,
+    enum: ['offered', 'countered', 'accepted', 'declined', 'withdrawn', 'expired'],
+    required: true
+  },
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  amount: {
+    type: Number,
+    min: 0
+  },
+  message: {
+    type: String,
+    default: ''
+  },
+  timestamp: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// A cash offer on a listing, negotiated between the buyer and the seller
+const offerSchema = new mongoose.Schema({
+  listingId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Listing',
+    required: true
+  },
+  vehicleId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Vehicle',
+    required: true
+  },
+  sellerId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  buyerId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  // The price currently on the table - the buyer's offer or the latest counter
+  amount: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  message: {
+    type: String,
+    trim: true,
+    maxlength: 1000,
+    default: ''
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'countered', 'accepted', 'declined', 'withdrawn', 'expired'],
+    default: 'pending'
+  },
+  // Whoever set the current amount; the other side is the one to respond
+  lastActionBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  // Optional deadline for the price on the table; reset by every counter
+  expiresAt: {
+    type: Date
+  },
+  respondedAt: {
+    type: Date
+  },
+  history: [offerHistorySchema]
+}, {
+  timestamps: true
+});
+
+// Indexes for better performance
+offerSchema.index({ buyerId: 1, createdAt: -1 });
+offerSchema.index({ sellerId: 1, createdAt: -1 });
+offerSchema.index({ listingId: 1, status: 1 });
+offerSchema.index({ status: 1, expiresAt: 1 });
+
+// Ensure virtual fields are serialized
+offerSchema.set('toJSON', { virtuals: true });
+
+module.exports = mongoose.model('Offer', offerSchema);
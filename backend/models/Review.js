@@ -1,5 +1,27 @@
 const mongoose = require('mongoose');
 
+const reviewReportSchema = new mongoose.Schema({
+  reporterId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  reason: {
+    type: String,
+    enum: ['abusive', 'spam', 'off_topic', 'false_information', 'other'],
+    required: true
+  },
+  details: {
+    type: String,
+    trim: true,
+    maxlength: 500
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
 const reviewSchema = new mongoose.Schema({
   reviewerId: {
     type: mongoose.Schema.Types.ObjectId,
@@ -28,6 +50,28 @@ const reviewSchema = new mongoose.Schema({
     trim: true,
     maxlength: 1000
   },
+  // Set by the server only: true when a completed trade or sale connects the two users
+  verified: {
+    type: Boolean,
+    default: false
+  },
+  // The reviewee's one public reply
+  reply: {
+    comment: {
+      type: String,
+      trim: true,
+      maxlength: 1000
+    },
+    createdAt: Date
+  },
+  reports: [reviewReportSchema],
+  // 'pending' reviews are hidden from profiles and ratings until an admin restores or removes them
+  moderationStatus: {
+    type: String,
+    enum: ['visible', 'pending', 'approved', 'removed'],
+    default: 'visible'
+  },
+  moderatedAt: Date,
   createdAt: {
     type: Date,
     default: Date.now
@@ -49,6 +93,7 @@ reviewSchema.index({ revieweeId: 1 });
 reviewSchema.index({ reviewerId: 1 });
 reviewSchema.index({ tradeId: 1 });
 reviewSchema.index({ createdAt: -1 });
+reviewSchema.index({ moderationStatus: 1 });
 
 // NEW: Compound index to allow only one review per reviewer for each reviewee
 reviewSchema.index({ reviewerId: 1, revieweeId: 1 }, { unique: true });
@@ -0,0 +1,67 @@
+const mongoose = require('mongoose');
+
+const saleSchema = new mongoose.Schema({
+  sellerId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  // Missing when a listing is marked sold to someone off the platform
+  buyerId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  vehicleId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Vehicle',
+    required: true
+  },
+  listingId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Listing'
+  },
+  auctionId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Auction'
+  },
+  tradeId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Trade'
+  },
+  // Set when the listing sold through an accepted cash offer
+  offerId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Offer'
+  },
+  type: {
+    type: String,
+    enum: ['listing', 'auction', 'trade'],
+    required: true
+  },
+  finalPrice: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  completedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes for better performance
+saleSchema.index({ sellerId: 1, completedAt: -1 });
+saleSchema.index({ buyerId: 1, completedAt: -1 });
+saleSchema.index({ auctionId: 1 }, { unique: true, sparse: true });
+// A completed trade records one sale per vehicle the receiver gave up
+saleSchema.index(
+  { tradeId: 1, vehicleId: 1 },
+  { unique: true, partialFilterExpression: { tradeId: { $exists: true } } }
+);
+
+// Ensure virtual fields are serialized
+saleSchema.set('toJSON', { virtuals: true });
+
+module.exports = mongoose.model('Sale', saleSchema);
@@ -3,7 +3,7 @@ const mongoose = require('mongoose');
 const tradeHistorySchema = new mongoose.Schema({
   action: {
     type: String,
-    enum: ['created', 'countered', 'accepted', 'rejected', 'cancelled', 'completed', 'declined'],
+    enum: ['created', 'countered', 'accepted', 'rejected', 'cancelled', 'completed', 'declined', 'expired', 'checklist_confirmed'],
     required: true
   },
   userId: {
@@ -31,6 +31,14 @@ const tradeHistorySchema = new mongoose.Schema({
     type: mongoose.Schema.Types.ObjectId,
     ref: 'Vehicle'
   }],
+  requestedVehicleIds: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Vehicle'
+  }],
+  // Set on 'checklist_confirmed' entries
+  checklistItem: {
+    type: String
+  },
   message: {
     type: String,
     default: ''
@@ -38,10 +46,10 @@ const tradeHistorySchema = new mongoose.Schema({
 });
 
 const tradeSchema = new mongoose.Schema({
+  // Missing for bundle trades made straight from the receiver's garage
   listingId: {
     type: mongoose.Schema.Types.ObjectId,
-    ref: 'Listing',
-    required: true
+    ref: 'Listing'
   },
   
   // Store listing data before it gets deleted
@@ -72,7 +80,7 @@ const tradeSchema = new mongoose.Schema({
   },
   status: {
     type: String,
-    enum: ['pending', 'accepted', 'rejected', 'completed', 'cancelled', 'countered', 'pending_acceptance', 'declined'],
+    enum: ['pending', 'accepted', 'rejected', 'completed', 'cancelled', 'countered', 'pending_acceptance', 'declined', 'expired'],
     default: 'pending'
   },
   
@@ -101,6 +109,12 @@ const tradeSchema = new mongoose.Schema({
     ref: 'Vehicle'
   }],
   
+  // Receiver's vehicles the offerer wants, listed or not (includes the listing vehicle)
+  requestedVehicleIds: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Vehicle'
+  }],
+  
   // Acceptance tracking
   offererAccepted: {
     type: Boolean,
@@ -133,7 +147,45 @@ const tradeSchema = new mongoose.Schema({
   },
   completedAt: {
     type: Date
-  }
+  },
+  
+  // Optional deadline for the offer or counter on the table; reset by every counter
+  expiresAt: {
+    type: Date
+  },
+  expiryReminderSentAt: {
+    type: Date
+  },
+  
+  // Hand-over steps each side has confirmed; ownership only moves once every item is in
+  completionChecklist: [{
+    _id: false,
+    role: {
+      type: String,
+      enum: ['offerer', 'receiver'],
+      required: true
+    },
+    item: {
+      type: String,
+      enum: ['titleTransferred', 'keysHandedOver', 'cashReceived', 'inspectionDone'],
+      required: true
+    },
+    userId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+    confirmedAt: {
+      type: Date,
+      default: Date.now
+    }
+  }],
+
+  // Parties who moved this finished trade out of their default trade lists
+  archivedBy: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  }]
 });
 
 // Update the updatedAt field before saving
@@ -146,8 +198,10 @@ tradeSchema.pre('save', function(next) {
 tradeSchema.index({ offererUserId: 1 });
 tradeSchema.index({ receiverUserId: 1 });
 tradeSchema.index({ listingId: 1 });
+tradeSchema.index({ requestedVehicleIds: 1 });
 tradeSchema.index({ status: 1 });
 tradeSchema.index({ updatedAt: -1 });
+tradeSchema.index({ status: 1, expiresAt: 1 });
 
 module.exports = mongoose.model('Trade', tradeSchema); 
  
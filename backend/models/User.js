@@ -1,6 +1,40 @@
 const mongoose = require('mongoose');
 const bcrypt = require('bcryptjs');
 
+const savedSearchSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 50
+  },
+  searchTerm: {
+    type: String,
+    trim: true,
+    default: ''
+  },
+  make: {
+    type: String,
+    default: 'all'
+  },
+  minPrice: Number,
+  maxPrice: Number,
+  minYear: Number,
+  maxYear: Number,
+  maxMileage: Number,
+  transmission: {
+    type: String,
+    enum: ['manual', 'automatic', ''],
+    default: ''
+  },
+  sortBy: {
+    type: String,
+    default: 'newest'
+  }
+}, {
+  timestamps: true
+});
+
 const userSchema = new mongoose.Schema({
   username: {
     type: String,
@@ -56,6 +90,25 @@ const userSchema = new mongoose.Schema({
   isActive: {
     type: Boolean,
     default: true
+  },
+  // Set directly in the database; no API route can grant it
+  isAdmin: {
+    type: Boolean,
+    default: false
+  },
+  // Private to the owner; fetched explicitly with .select('+savedSearches')
+  savedSearches: {
+    type: [savedSearchSchema],
+    select: false
+  },
+  // Watchlist is private too; fetched with .select('+watchedListings +watchedAuctions')
+  watchedListings: {
+    type: [{ type: mongoose.Schema.Types.ObjectId, ref: 'Listing' }],
+    select: false
+  },
+  watchedAuctions: {
+    type: [{ type: mongoose.Schema.Types.ObjectId, ref: 'Auction' }],
+    select: false
   }
 }, {
   timestamps: true
@@ -28,6 +28,12 @@ const vehicleSchema = new mongoose.Schema({
     trim: true,
     uppercase: true
   },
+  // Whether this vehicle holds its VIN against other garages. Released once it sells through a
+  // listing (the record stays with the seller) or when its owner's account is deactivated.
+  vinClaimed: {
+    type: Boolean,
+    default: true
+  },
   mileage: {
     type: Number,
     required: true,
@@ -80,6 +86,12 @@ const vehicleSchema = new mongoose.Schema({
 
 // Indexes for better performance
 vehicleSchema.index({ ownerId: 1 });
+// A VIN identifies one physical car; this backs up the route's conflict check when two saves race.
+// Only claimed VINs are unique, matching the check; services/vinClaims.js dedupes older data before building it.
+vehicleSchema.index(
+  { vin: 1 },
+  { name: 'vin_claimed_unique', unique: true, partialFilterExpression: { vin: { $type: 'string' }, vinClaimed: true } }
+);
 vehicleSchema.index({ make: 1, model: 1 });
 vehicleSchema.index({ year: 1 });
 vehicleSchema.index({ isListed: 1 });
@@ -0,0 +1,85 @@
+const express = require('express');
+const auth = require('../middleware/auth');
+const admin = require('../middleware/admin');
+const Review = require('../models/Review');
+const { runIntegrityCheck } = require('../services/integrityChecker');
+const { updateRevieweeRating } = require('../services/reviewModeration');
+
+const router = express.Router();
+
+// @route   POST /api/admin/integrity
+// @desc    Check vehicles, listings and trades for inconsistent data.
+//          Runs as a dry run unless dryRun is explicitly false; repairs are safe to repeat.
+// @access  Admin
+router.post('/integrity', auth, admin, async (req, res) => {
+  try {
+    const dryRun = req.body.dryRun !== false;
+
+    console.log(`🩺 Integrity check requested by ${req.user.username} (${dryRun ? 'dry run' : 'repair'})`);
+
+    const report = await runIntegrityCheck({ dryRun });
+
+    res.json(report);
+
+  } catch (error) {
+    console.error('Integrity check error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   GET /api/admin/reviews/reported
+// @desc    Reviews hidden by a report and waiting for a decision
+// @access  Admin
+router.get('/reviews/reported', auth, admin, async (req, res) => {
+  try {
+    const reviews = await Review.find({ moderationStatus: 'pending' })
+      .populate('reviewerId', 'username avatar')
+      .populate('revieweeId', 'username avatar')
+      .populate('reports.reporterId', 'username')
+      .sort({ updatedAt: 1 });
+
+    res.json(reviews);
+
+  } catch (error) {
+    console.error('Get reported reviews error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   POST /api/admin/reviews/:id/moderate
+// @desc    Restore a reported review or remove it for good
+// @access  Admin
+router.post('/reviews/:id/moderate', auth, admin, async (req, res) => {
+  try {
+    const { action } = req.body;
+
+    if (!['restore', 'remove'].includes(action)) {
+      return res.status(400).json({ error: 'Action must be restore or remove' });
+    }
+
+    const review = await Review.findOneAndUpdate(
+      { _id: req.params.id, moderationStatus: 'pending' },
+      {
+        moderationStatus: action === 'restore' ? 'approved' : 'removed',
+        moderatedAt: new Date()
+      },
+      { new: true }
+    );
+
+    if (!review) {
+      return res.status(404).json({ error: 'No reported review waiting for moderation' });
+    }
+
+    await updateRevieweeRating(review.revieweeId);
+
+    console.log(`🛡️ Review ${review._id} ${action === 'restore' ? 'restored' : 'removed'} by ${req.user.username}`);
+
+    res.json({ id: review._id.toString(), moderationStatus: review.moderationStatus });
+
+  } catch (error) {
+    console.error('Moderate review error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+module.exports = router;
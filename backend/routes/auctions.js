@@ -0,0 +1,390 @@
+const express = require('express');
+const Auction = require('../models/Auction');
+const Vehicle = require('../models/Vehicle');
+const Listing = require('../models/Listing');
+const auth = require('../middleware/auth');
+const { AUCTION_POPULATE, settleAuction } = require('../services/auctionCloser');
+
+const router = express.Router();
+
+// Allowed auction lengths in days
+const AUCTION_DURATIONS = [1, 3, 5, 7];
+
+// Sellers may pull an auction only shortly after creating it
+const CANCEL_WINDOW_MINUTES = 10;
+
+// How many times a bid is re-validated when other bids keep landing first
+const MAX_BID_ATTEMPTS = 3;
+
+// @route   GET /api/auctions
+// @desc    Get all active auctions
+// @access  Public
+router.get('/', async (req, res) => {
+  try {
+    const auctions = await Auction.find({ status: 'active', isActive: true })
+      .populate(AUCTION_POPULATE)
+      .sort({ endTime: 1 });
+
+    res.json(auctions);
+  } catch (error) {
+    console.error('Get auctions error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   GET /api/auctions/my
+// @desc    Get user's auctions
+// @access  Private
+router.get('/my', auth, async (req, res) => {
+  try {
+    const auctions = await Auction.find({ sellerId: req.user._id })
+      .populate(AUCTION_POPULATE)
+      .sort({ createdAt: -1 });
+
+    res.json(auctions);
+  } catch (error) {
+    console.error('Get my auctions error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   GET /api/auctions/:id
+// @desc    Get single auction by ID
+// @access  Public
+router.get('/:id', async (req, res) => {
+  try {
+    const auction = await Auction.findById(req.params.id).populate(AUCTION_POPULATE);
+
+    if (!auction) {
+      return res.status(404).json({ error: 'Auction not found' });
+    }
+
+    // Increment views (don't wait for it)
+    auction.incrementViews().catch(err => console.error('Error incrementing views:', err));
+
+    res.json(auction);
+  } catch (error) {
+    console.error('Get auction error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   POST /api/auctions
+// @desc    Create new auction
+// @access  Private
+router.post('/', auth, async (req, res) => {
+  try {
+    const {
+      vehicleId,
+      title,
+      description,
+      startingBid,
+      buyNowPrice,
+      reservePrice,
+      durationDays = 7,
+      softCloseMinutes
+    } = req.body;
+
+    // Validation
+    if (!vehicleId || !title || startingBid === undefined) {
+      return res.status(400).json({ error: 'Vehicle, title, and starting bid are required' });
+    }
+
+    if (Number(startingBid) <= 0) {
+      return res.status(400).json({ error: 'Starting bid must be greater than zero' });
+    }
+
+    if (buyNowPrice !== undefined && buyNowPrice !== null && Number(buyNowPrice) <= Number(startingBid)) {
+      return res.status(400).json({ error: 'Buy now price must be higher than the starting bid' });
+    }
+
+    if (reservePrice !== undefined && reservePrice !== null) {
+      if (Number(reservePrice) < Number(startingBid)) {
+        return res.status(400).json({ error: 'Reserve price cannot be lower than the starting bid' });
+      }
+      if (buyNowPrice && Number(reservePrice) > Number(buyNowPrice)) {
+        return res.status(400).json({ error: 'Reserve price cannot be higher than the buy now price' });
+      }
+    }
+
+    if (!AUCTION_DURATIONS.includes(Number(durationDays))) {
+      return res.status(400).json({ error: `Auction duration must be one of ${AUCTION_DURATIONS.join(', ')} days` });
+    }
+
+    // Check if vehicle exists and belongs to user
+    const vehicle = await Vehicle.findOne({
+      _id: vehicleId,
+      ownerId: req.user._id
+    });
+
+    if (!vehicle) {
+      return res.status(404).json({ error: 'Vehicle not found' });
+    }
+
+    // 🩹 Self-healing check for orphaned listings
+    if (vehicle.isListed && vehicle.listingId) {
+      const existingListing = await Listing.findById(vehicle.listingId);
+      if (!existingListing || !existingListing.isActive) {
+        console.warn(`Orphaned listing found for vehicle ${vehicle._id}. Correcting state.`);
+        vehicle.isListed = false;
+        vehicle.listingId = null;
+        await vehicle.save();
+      }
+    }
+
+    // Check if vehicle is already listed, in auction, or in trade
+    if (vehicle.isListed || vehicle.isAuctioned || vehicle.isInTrade) {
+      let message = 'Vehicle is already ';
+      if (vehicle.isListed) message += 'listed';
+      else if (vehicle.isAuctioned) message += 'in auction';
+      else if (vehicle.isInTrade) message += 'in an active trade';
+      return res.status(400).json({ error: message });
+    }
+
+    const now = new Date();
+    const auction = new Auction({
+      vehicleId,
+      sellerId: req.user._id,
+      title,
+      description,
+      startingBid: Number(startingBid),
+      buyNowPrice: buyNowPrice ? Number(buyNowPrice) : undefined,
+      reservePrice: reservePrice ? Number(reservePrice) : undefined,
+      softCloseMinutes: softCloseMinutes !== undefined ? Number(softCloseMinutes) : undefined,
+      currentBid: 0,
+      startTime: now,
+      endTime: new Date(now.getTime() + Number(durationDays) * 24 * 60 * 60 * 1000)
+    });
+
+    await auction.save();
+
+    // Update vehicle status
+    vehicle.isAuctioned = true;
+    vehicle.auctionId = auction._id;
+    await vehicle.save();
+
+    await auction.populate(AUCTION_POPULATE);
+
+    res.status(201).json(auction);
+
+  } catch (error) {
+    console.error('Create auction error:', error);
+
+    if (error.name === 'ValidationError') {
+      const messages = Object.values(error.errors).map(val => val.message);
+      return res.status(400).json({ error: messages.join('. ') });
+    }
+
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   POST /api/auctions/:id/bids
+// @desc    Place a bid, optionally with a hidden proxy maximum
+// @access  Private
+router.post('/:id/bids', auth, async (req, res) => {
+  try {
+    const amount = req.body.amount !== undefined ? Number(req.body.amount) : undefined;
+    const maxBid = req.body.maxBid !== undefined && req.body.maxBid !== null ? Number(req.body.maxBid) : undefined;
+
+    if (maxBid === undefined && (!amount || amount <= 0)) {
+      return res.status(400).json({ error: 'A valid bid amount is required' });
+    }
+
+    if (maxBid !== undefined && (!maxBid || maxBid <= 0)) {
+      return res.status(400).json({ error: 'A valid maximum bid is required' });
+    }
+
+    // Auctions use optimistic concurrency: when another bid saves first, reload and re-check against it
+    let auction;
+    let previousHighestBidderId;
+    let bidCountBefore;
+    let extended;
+
+    for (let attempt = 1; ; attempt++) {
+      auction = await Auction.findById(req.params.id).select('+proxyBids');
+
+      if (!auction) {
+        return res.status(404).json({ error: 'Auction not found' });
+      }
+
+      if (auction.status !== 'active' || !auction.isActive || auction.hasEnded) {
+        return res.status(400).json({ error: 'This auction is no longer accepting bids' });
+      }
+
+      if (auction.sellerId.toString() === req.user.id) {
+        return res.status(400).json({ error: 'You cannot bid on your own auction' });
+      }
+
+      const isHighestBidder = auction.highestBidderId && auction.highestBidderId.toString() === req.user.id;
+
+      if (maxBid !== undefined) {
+        // The leader may only raise their cap; everyone else must at least open at the minimum
+        const floor = isHighestBidder ? auction.currentBid + 1 : auction.minimumNextBid;
+        if (maxBid < floor) {
+          return res.status(400).json({
+            error: `Maximum bid must be at least $${floor.toLocaleString()}`
+          });
+        }
+        if (amount !== undefined && amount > maxBid) {
+          return res.status(400).json({ error: 'Bid amount cannot exceed your maximum bid' });
+        }
+      }
+
+      if (amount !== undefined && !(maxBid !== undefined && isHighestBidder) && amount < auction.minimumNextBid) {
+        return res.status(400).json({
+          error: `Bid must be at least $${auction.minimumNextBid.toLocaleString()}`
+        });
+      }
+
+      previousHighestBidderId = auction.highestBidderId ? auction.highestBidderId.toString() : null;
+      bidCountBefore = auction.bids.length;
+
+      ({ extended } = auction.placeBid(req.user._id, { amount, maxBid }));
+
+      try {
+        await auction.save();
+        break;
+      } catch (error) {
+        if (error.name !== 'VersionError') {
+          throw error;
+        }
+        if (attempt === MAX_BID_ATTEMPTS) {
+          return res.status(409).json({ error: 'The auction changed while placing your bid, please try again' });
+        }
+      }
+    }
+
+    await auction.populate(AUCTION_POPULATE);
+
+    // 🔗 WEBSOCKET: Push the new bids to everyone watching
+    if (req.app.locals.webSocket && auction.bids.length > bidCountBefore) {
+      req.app.locals.webSocket.broadcastToAll({
+        type: 'BID_PLACED',
+        data: {
+          auction,
+          bids: auction.bids.slice(bidCountBefore),
+          previousHighestBidderId
+        },
+        timestamp: new Date().toISOString()
+      });
+
+      if (extended) {
+        console.log(`⏱️ Auction ${auction._id} extended to ${auction.endTime.toISOString()}`);
+        req.app.locals.webSocket.broadcastToAll({
+          type: 'AUCTION_EXTENDED',
+          data: auction,
+          timestamp: new Date().toISOString()
+        });
+      }
+    }
+
+    res.status(201).json(auction);
+
+  } catch (error) {
+    console.error('Place bid error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   POST /api/auctions/:id/buy-now
+// @desc    Buy the vehicle at the buy-now price, ending the auction
+// @access  Private
+router.post('/:id/buy-now', auth, async (req, res) => {
+  try {
+    const auction = await Auction.findById(req.params.id);
+
+    if (!auction) {
+      return res.status(404).json({ error: 'Auction not found' });
+    }
+
+    if (auction.status !== 'active' || !auction.isActive || auction.hasEnded) {
+      return res.status(400).json({ error: 'This auction is no longer available' });
+    }
+
+    if (auction.sellerId.toString() === req.user.id) {
+      return res.status(400).json({ error: 'You cannot buy your own vehicle' });
+    }
+
+    if (!auction.buyNowPrice) {
+      return res.status(400).json({ error: 'This auction does not offer buy now' });
+    }
+
+    if (auction.currentBid >= auction.buyNowPrice) {
+      return res.status(400).json({ error: 'Bidding has already passed the buy now price' });
+    }
+
+    const settled = await settleAuction(auction._id, req.app.locals.webSocket, { buyerId: req.user._id });
+
+    if (!settled) {
+      return res.status(400).json({ error: 'This auction is no longer available' });
+    }
+
+    res.json(settled);
+
+  } catch (error) {
+    console.error('Buy now error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   POST /api/auctions/:id/cancel
+// @desc    Cancel an auction (seller only, before any bids)
+// @access  Private
+router.post('/:id/cancel', auth, async (req, res) => {
+  try {
+    const auction = await Auction.findOne({
+      _id: req.params.id,
+      sellerId: req.user._id
+    });
+
+    if (!auction) {
+      return res.status(404).json({ error: 'Auction not found' });
+    }
+
+    if (auction.status !== 'active') {
+      return res.status(400).json({ error: `Auction is already ${auction.status}` });
+    }
+
+    if (auction.bids.length > 0) {
+      return res.status(400).json({ error: 'Auction cannot be cancelled once bids have been placed' });
+    }
+
+    const minutesSinceCreated = (Date.now() - auction.createdAt.getTime()) / (1000 * 60);
+    if (minutesSinceCreated > CANCEL_WINDOW_MINUTES) {
+      return res.status(400).json({
+        error: `Auction cannot be removed after ${CANCEL_WINDOW_MINUTES} minutes of creation`
+      });
+    }
+
+    auction.status = 'cancelled';
+    auction.isActive = false;
+    auction.completedAt = new Date();
+    await auction.save();
+
+    // Update vehicle status
+    await Vehicle.updateOne(
+      { _id: auction.vehicleId },
+      { isAuctioned: false, auctionId: null }
+    );
+
+    // 🔗 WEBSOCKET: Let everyone drop the auction from their view
+    if (req.app.locals.webSocket) {
+      await auction.populate(AUCTION_POPULATE);
+
+      req.app.locals.webSocket.broadcastToAll({
+        type: 'AUCTION_ENDED',
+        data: auction,
+        timestamp: new Date().toISOString()
+      }, req.user._id);
+    }
+
+    res.json({ message: 'Auction cancelled successfully' });
+
+  } catch (error) {
+    console.error('Cancel auction error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+module.exports = router;
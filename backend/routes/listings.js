@@ -1,12 +1,49 @@
 const express = require('express');
+const mongoose = require('mongoose');
 const Listing = require('../models/Listing');
 const Vehicle = require('../models/Vehicle');
+const User = require('../models/User');
 const auth = require('../middleware/auth');
+const { markListingSold } = require('../services/listingSales');
 
 const router = express.Router();
 
+// Sortable fields and where they live after the vehicle lookup
+const SORT_FIELDS = {
+  lastRenewed: { path: 'lastRenewed', type: 'date' },
+  createdAt: { path: 'createdAt', type: 'date' },
+  price: { path: 'price', type: 'number' },
+  views: { path: 'views', type: 'number' },
+  mileage: { path: 'vehicle.mileage', type: 'number' },
+  year: { path: 'vehicle.year', type: 'number' }
+};
+
+// Width of the year facet buckets
+const YEAR_BAND_SIZE = 5;
+
+const MAX_PAGE_SIZE = 50;
+
+const escapeRegex = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Cursors are opaque to clients: the last row's sort value and id
+const encodeCursor = (listing, sortField) => {
+  const value = sortField.path.split('.').reduce((obj, key) => (obj ? obj[key] : undefined), listing);
+  return Buffer.from(JSON.stringify({ v: value, id: listing._id })).toString('base64url');
+};
+
+const decodeCursor = (cursor, sortField) => {
+  const { v, id } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    throw new Error('Invalid cursor');
+  }
+  return {
+    value: sortField.type === 'date' ? new Date(v) : Number(v),
+    id: new mongoose.Types.ObjectId(id)
+  };
+};
+
 // @route   GET /api/listings
-// @desc    Get all active listings with search and filters
+// @desc    Search active listings with facets and cursor pagination
 // @access  Public
 router.get('/', async (req, res) => {
   try {
@@ -18,21 +55,25 @@ router.get('/', async (req, res) => {
       maxPrice, 
       minYear, 
       maxYear,
+      minMileage,
+      maxMileage,
+      transmission,
+      ids,
       tags,
       sortBy = 'lastRenewed',
       order = 'desc',
+      cursor,
       page = 1,
       limit = 20
     } = req.query;
 
+    const sortField = SORT_FIELDS[sortBy] || SORT_FIELDS.lastRenewed;
+    const sortOrder = order === 'asc' ? 1 : -1;
+    const pageSize = Math.min(Math.max(Number(limit) || 20, 1), MAX_PAGE_SIZE);
+
     // Build match stage for listings
     let listingMatch = { isActive: true };
 
-    // Search in title, description, and tags
-    if (search) {
-      listingMatch.$text = { $search: search };
-    }
-
     // Price filters
     if (minPrice || maxPrice) {
       listingMatch.price = {};
@@ -46,19 +87,71 @@ router.get('/', async (req, res) => {
       listingMatch.tags = { $in: tagArray };
     }
 
-    // Build vehicle match stage
-    let vehicleMatch = {};
-    if (make) vehicleMatch.make = new RegExp(make, 'i');
-    if (model) vehicleMatch.model = new RegExp(model, 'i');
-    if (minYear) vehicleMatch.year = { ...vehicleMatch.year, $gte: Number(minYear) };
-    if (maxYear) vehicleMatch.year = { ...vehicleMatch.year, $lte: Number(maxYear) };
+    // Restrict to specific listings (e.g. a user's watchlist)
+    if (ids) {
+      listingMatch._id = {
+        $in: ids.split(',')
+          .filter(id => mongoose.Types.ObjectId.isValid(id))
+          .map(id => new mongoose.Types.ObjectId(id))
+      };
+    }
 
-    // Build sort object
-    const sortOrder = order === 'desc' ? -1 : 1;
-    const sortObj = { [sortBy]: sortOrder };
+    // Build vehicle match stage (make is applied separately so its facet can show every make)
+    let vehicleMatch = {};
+    if (model) vehicleMatch['vehicle.model'] = new RegExp(escapeRegex(model), 'i');
+    if (minYear || maxYear) {
+      vehicleMatch['vehicle.year'] = {};
+      if (minYear) vehicleMatch['vehicle.year'].$gte = Number(minYear);
+      if (maxYear) vehicleMatch['vehicle.year'].$lte = Number(maxYear);
+    }
+    if (minMileage || maxMileage) {
+      vehicleMatch['vehicle.mileage'] = {};
+      if (minMileage) vehicleMatch['vehicle.mileage'].$gte = Number(minMileage);
+      if (maxMileage) vehicleMatch['vehicle.mileage'].$lte = Number(maxMileage);
+    }
+    if (transmission) vehicleMatch['vehicle.transmission'] = transmission;
+
+    // Every search word must appear in the title, description, tags, make or model
+    const searchMatch = search
+      ? {
+          $and: search.trim().split(/\s+/).map(word => {
+            const pattern = new RegExp(escapeRegex(word), 'i');
+            return {
+              $or: [
+                { title: pattern },
+                { description: pattern },
+                { tags: pattern },
+                { 'vehicle.make': pattern },
+                { 'vehicle.model': pattern }
+              ]
+            };
+          })
+        }
+      : null;
+
+    const makeMatch = make ? [{ $match: { 'vehicle.make': new RegExp(`^${escapeRegex(make)}$`, 'i') } }] : [];
+
+    // Keyset pagination: resume strictly after the cursor row
+    let cursorMatch = [];
+    if (cursor) {
+      let decoded;
+      try {
+        decoded = decodeCursor(cursor, sortField);
+      } catch (error) {
+        return res.status(400).json({ error: 'Invalid cursor' });
+      }
+      const comparator = sortOrder === 1 ? '$gt' : '$lt';
+      cursorMatch = [{
+        $match: {
+          $or: [
+            { [sortField.path]: { [comparator]: decoded.value } },
+            { [sortField.path]: decoded.value, _id: { [comparator]: decoded.id } }
+          ]
+        }
+      }];
+    }
 
-    // Calculate pagination
-    const skip = (Number(page) - 1) * Number(limit);
+    const skip = cursor ? 0 : (Number(page) - 1) * pageSize;
 
     // Use aggregation pipeline for better performance
     const pipeline = [
@@ -71,94 +164,97 @@ router.get('/', async (req, res) => {
           from: 'vehicles',
           localField: 'vehicleId',
           foreignField: '_id',
-          as: 'vehicleData'
+          as: 'vehicle'
         }
       },
       
       // Unwind vehicle data
-      { $unwind: '$vehicleData' },
+      { $unwind: '$vehicle' },
       
-      // Match vehicle criteria
-      ...(Object.keys(vehicleMatch).length > 0 ? [
-        {
-          $match: Object.keys(vehicleMatch).reduce((acc, key) => {
-            acc[`vehicleData.${key}`] = vehicleMatch[key];
-            return acc;
-          }, {})
-        }
-      ] : []),
-      
-      // Lookup seller data
-      {
-        $lookup: {
-          from: 'users',
-          localField: 'sellerId',
-          foreignField: '_id',
-          as: 'sellerData',
-          pipeline: [
-            {
-              $project: {
-                username: 1,
-                firstName: 1,
-                lastName: 1,
-                rating: 1,
-                reviewCount: 1,
-                location: 1,
-                avatar: 1
-              }
-            }
-          ]
-        }
-      },
-      
-      // Unwind seller data
-      { $unwind: '$sellerData' },
+      // Match vehicle criteria and search text
+      ...(Object.keys(vehicleMatch).length > 0 ? [{ $match: vehicleMatch }] : []),
+      ...(searchMatch ? [{ $match: searchMatch }] : []),
       
-      // Add computed fields while preserving original IDs
-      {
-        $addFields: {
-          vehicle: '$vehicleData',
-          seller: '$sellerData'
-        }
-      },
-      
-      // Remove temporary fields
-      {
-        $project: {
-          vehicleData: 0,
-          sellerData: 0
-        }
-      },
-      
-      // Sort
-      { $sort: sortObj },
-      
-      // Facet for pagination
       {
         $facet: {
           data: [
+            ...makeMatch,
+            ...cursorMatch,
+            { $sort: { [sortField.path]: sortOrder, _id: sortOrder } },
             { $skip: skip },
-            { $limit: Number(limit) }
+            // One extra row tells us whether there's another page
+            { $limit: pageSize + 1 },
+
+            // Lookup seller data
+            {
+              $lookup: {
+                from: 'users',
+                localField: 'sellerId',
+                foreignField: '_id',
+                as: 'seller',
+                pipeline: [
+                  {
+                    $project: {
+                      username: 1,
+                      firstName: 1,
+                      lastName: 1,
+                      rating: 1,
+                      reviewCount: 1,
+                      location: 1,
+                      avatar: 1
+                    }
+                  }
+                ]
+              }
+            },
+            { $unwind: '$seller' }
           ],
           count: [
-            { $count: "total" }
+            ...makeMatch,
+            { $count: 'total' }
+          ],
+          makes: [
+            { $group: { _id: '$vehicle.make', count: { $sum: 1 } } },
+            { $sort: { count: -1, _id: 1 } }
+          ],
+          yearBands: [
+            ...makeMatch,
+            {
+              $group: {
+                _id: { $multiply: [{ $floor: { $divide: ['$vehicle.year', YEAR_BAND_SIZE] } }, YEAR_BAND_SIZE] },
+                count: { $sum: 1 }
+              }
+            },
+            { $sort: { _id: -1 } }
+          ],
+          transmissions: [
+            ...makeMatch,
+            { $group: { _id: '$vehicle.transmission', count: { $sum: 1 } } },
+            { $sort: { count: -1 } }
           ]
         }
       }
     ];
 
     const [result] = await Listing.aggregate(pipeline);
-    const listings = result.data || [];
+    const hasNext = result.data.length > pageSize;
+    const listings = result.data.slice(0, pageSize);
     const total = result.count[0]?.total || 0;
 
     res.json({
       listings,
       pagination: {
         current: Number(page),
-        pages: Math.ceil(total / Number(limit)),
+        pages: Math.ceil(total / pageSize),
         total,
-        hasNext: skip + listings.length < total,
-        hasPrev: Number(page) > 1
+        hasNext,
+        hasPrev: !!cursor || Number(page) > 1,
+        nextCursor: hasNext ? encodeCursor(listings[listings.length - 1], sortField) : null
+      },
+      facets: {
+        makes: result.makes.map(f => ({ value: f._id, count: f.count })),
+        yearBands: result.yearBands.map(f => ({ from: f._id, to: f._id + YEAR_BAND_SIZE - 1, count: f.count })),
+        transmissions: result.transmissions.map(f => ({ value: f._id, count: f.count }))
       }
     });
 
@@ -445,6 +541,12 @@ router.delete('/:id', auth, async (req, res) => {
     // Delete listing
     await Listing.deleteOne({ _id: req.params.id });
 
+    // Drop it from everyone's watchlist
+    await User.updateMany(
+      { watchedListings: listing._id },
+      { $pull: { watchedListings: listing._id } }
+    );
+
     // 🔗 WEBSOCKET: Broadcast listing deletion to all users
     if (req.app.locals.webSocket) {
       req.app.locals.webSocket.broadcastToAll({
@@ -467,7 +569,11 @@ router.delete('/:id', auth, async (req, res) => {
 // @access  Private
 router.post('/:id/deactivate', auth, async (req, res) => {
   try {
-    const { soldTo } = req.body;
+    const { soldPrice } = req.body;
+
+    if (soldPrice !== undefined && !(Number(soldPrice) >= 0)) {
+      return res.status(400).json({ error: 'Sold price must be a valid amount' });
+    }
 
     const listing = await Listing.findOne({
       _id: req.params.id,
@@ -478,20 +584,13 @@ router.post('/:id/deactivate', auth, async (req, res) => {
       return res.status(404).json({ error: 'Listing not found' });
     }
 
-    listing.isActive = false;
-    listing.soldAt = new Date();
-    if (soldTo) listing.soldTo = soldTo;
-
-    await listing.save();
-
-    // Update vehicle status
-    const vehicle = await Vehicle.findById(listing.vehicleId);
-    if (vehicle) {
-      vehicle.isListed = false;
-      vehicle.listingId = null;
-      await vehicle.save();
+    if (listing.soldAt) {
+      return res.status(400).json({ error: 'Listing is already marked as sold' });
     }
 
+    // The buyer is only the seller's word here, so no buyer is recorded; sales to a user go through an accepted offer
+    await markListingSold(listing, { soldPrice }, req.app.locals.webSocket, req.user._id);
+
     res.json({ message: 'Listing marked as sold' });
 
   } catch (error) {
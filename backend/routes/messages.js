@@ -1,10 +1,109 @@
 const express = require('express');
+const mongoose = require('mongoose');
 const Message = require('../models/Message');
 const User = require('../models/User');
 const auth = require('../middleware/auth');
+const { markConversationRead } = require('../services/messageReceipts');
 
 const router = express.Router();
 
+const ATTACHMENT_KINDS = ['image', 'pdf'];
+
+// How long after sending a message its sender may still edit it
+const MESSAGE_EDIT_WINDOW_MINUTES = 15;
+
+const escapeRegex = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Upper bound on how many conversation messages one request may load
+const MAX_CONVERSATION_PAGE_SIZE = 100;
+
+// Conversation messages on either side of a cursor message; _id breaks ties between equal timestamps
+const olderThan = (cursor) => ({
+  $or: [
+    { timestamp: { $lt: cursor.timestamp } },
+    { timestamp: cursor.timestamp, _id: { $lt: cursor._id } }
+  ]
+});
+const newerThan = (cursor) => ({
+  $or: [
+    { timestamp: { $gt: cursor.timestamp } },
+    { timestamp: cursor.timestamp, _id: { $gt: cursor._id } }
+  ]
+});
+
+// Same shape the POST route returns, for pushing edits and unsends
+const formatMessage = (message) => ({
+  id: message._id.toString(),
+  senderId: message.senderId.toString(),
+  receiverId: message.receiverId.toString(),
+  content: message.content,
+  attachments: message.attachments,
+  timestamp: message.timestamp.toISOString(),
+  read: message.read,
+  deliveredAt: message.deliveredAt,
+  readAt: message.readAt,
+  tradeId: message.tradeId,
+  listingId: message.listingId,
+  editedAt: message.editedAt,
+  unsentAt: message.unsentAt
+});
+
+// 🔗 WEBSOCKET: Update the message in place for both participants
+const broadcastMessageUpdate = (webSocket, message) => {
+  if (!webSocket) return;
+
+  const payload = {
+    type: 'MESSAGE_UPDATED',
+    data: formatMessage(message),
+    timestamp: new Date().toISOString()
+  };
+
+  webSocket.broadcastToUser(message.senderId.toString(), payload);
+  webSocket.broadcastToUser(message.receiverId.toString(), payload);
+};
+
+// Load a message the current user sent, or send the matching error
+async function findOwnMessage(req, res) {
+  const message = await Message.findById(req.params.id).select('+editHistory');
+
+  if (!message) {
+    res.status(404).json({ message: 'Message not found' });
+    return null;
+  }
+
+  if (message.senderId.toString() !== req.user.id) {
+    res.status(403).json({ message: 'Only the sender can change a message' });
+    return null;
+  }
+
+  if (message.unsentAt) {
+    res.status(400).json({ message: 'This message was already unsent' });
+    return null;
+  }
+
+  return message;
+}
+
+// Keep only well-formed attachments that point at an uploaded file
+const sanitizeAttachments = (attachments) => {
+  if (!Array.isArray(attachments)) return null;
+
+  const sanitized = attachments.map(attachment => ({
+    url: attachment && attachment.url,
+    kind: attachment && attachment.kind,
+    name: attachment && typeof attachment.name === 'string' ? attachment.name.slice(0, 200) : undefined,
+    size: attachment && Number(attachment.size) > 0 ? Number(attachment.size) : undefined
+  }));
+
+  const valid = sanitized.every(attachment =>
+    typeof attachment.url === 'string' &&
+    attachment.url.startsWith('https://') &&
+    ATTACHMENT_KINDS.includes(attachment.kind)
+  );
+
+  return valid ? sanitized : null;
+};
+
 // Get all messages for the authenticated user with pagination
 router.get('/my', auth, async (req, res) => {
   try {
@@ -47,12 +146,14 @@ router.get('/my', auth, async (req, res) => {
   }
 });
 
-// Get messages for a specific conversation
+// Get messages for a specific conversation, either by page (page 1 is the newest) or
+// around a message: ?before=<id> loads older ones, ?after=<id> newer ones and ?around=<id> a window centred on it
 router.get('/conversation/:userId', auth, async (req, res) => {
   try {
     const { userId } = req.params;
+    const { before, after, around } = req.query;
     const page = parseInt(req.query.page) || 1;
-    const limit = parseInt(req.query.limit) || 50;
+    const limit = Math.min(parseInt(req.query.limit) || 50, MAX_CONVERSATION_PAGE_SIZE);
     const skip = (page - 1) * limit;
 
     // Validate that the other user exists
@@ -61,18 +162,60 @@ router.get('/conversation/:userId', auth, async (req, res) => {
       return res.status(404).json({ message: 'User not found' });
     }
 
-    const messages = await Message.find({
+    const conversationFilter = {
       $or: [
         { senderId: req.user.id, receiverId: userId },
         { senderId: userId, receiverId: req.user.id }
       ]
-    })
-    .sort({ timestamp: -1 })
-    .skip(skip)
-    .limit(limit)
-    .populate('senderId', 'username email avatar')
-    .populate('receiverId', 'username email avatar')
-    .lean();
+    };
+
+    const findMessages = (filter, sort, count) => Message.find(filter)
+      .sort(sort)
+      .limit(count)
+      .populate('senderId', 'username email avatar')
+      .populate('receiverId', 'username email avatar')
+      .lean();
+
+    const total = await Message.countDocuments(conversationFilter);
+    let messages;
+    let hasNext;
+    let hasPrev;
+
+    const cursorId = before || after || around;
+    if (cursorId) {
+      if (!mongoose.Types.ObjectId.isValid(cursorId)) {
+        return res.status(400).json({ message: 'Invalid message id' });
+      }
+
+      const cursor = await Message.findOne({ _id: cursorId, ...conversationFilter }).select('timestamp').lean();
+      if (!cursor) {
+        return res.status(404).json({ message: 'Message not found' });
+      }
+
+      // One extra message is fetched on each side only to tell whether more are left there
+      const olderLimit = before ? limit : after ? 0 : Math.ceil(limit / 2);
+      const newerLimit = limit - olderLimit;
+
+      const older = olderLimit > 0
+        ? await findMessages(
+          { $and: [conversationFilter, before ? olderThan(cursor) : { $nor: [newerThan(cursor)] }] },
+          { timestamp: -1, _id: -1 },
+          olderLimit + 1
+        )
+        : [];
+      const newer = newerLimit > 0
+        ? await findMessages({ $and: [conversationFilter, newerThan(cursor)] }, { timestamp: 1, _id: 1 }, newerLimit + 1)
+        : [];
+
+      messages = [...older.slice(0, olderLimit).reverse(), ...newer.slice(0, newerLimit)];
+      hasPrev = after ? true : older.length > olderLimit;
+      hasNext = before ? true : newer.length > newerLimit;
+    } else {
+      const newestFirst = await findMessages(conversationFilter, { timestamp: -1 }, limit).skip(skip);
+      messages = newestFirst.reverse(); // Reverse to get chronological order
+      hasNext = page > 1;
+      hasPrev = skip + messages.length < total;
+    }
 
     // Format messages for frontend
     const formattedMessages = messages.map(msg => ({
@@ -87,15 +230,94 @@ router.get('/conversation/:userId', auth, async (req, res) => {
         id: msg.receiverId._id.toString()
       } : msg.receiverId,
       timestamp: msg.timestamp.toISOString()
-    })).reverse(); // Reverse to get chronological order
+    }));
 
-    res.json(formattedMessages);
+    // hasPrev means older messages are still left to load, hasNext newer ones
+    res.json({
+      messages: formattedMessages,
+      pagination: {
+        current: page,
+        pages: Math.ceil(total / limit),
+        total,
+        hasNext,
+        hasPrev
+      }
+    });
   } catch (error) {
     console.error('Error fetching conversation messages:', error);
     res.status(500).json({ message: 'Server error', error: error.message });
   }
 });
 
+// Search the content of every message the user sent or received
+router.get('/search', auth, async (req, res) => {
+  try {
+    const query = (req.query.q || '').trim();
+    const page = parseInt(req.query.page) || 1;
+    const limit = Math.min(parseInt(req.query.limit) || 20, 50);
+    const skip = (page - 1) * limit;
+
+    if (query.length < 2) {
+      return res.status(400).json({ message: 'Search for at least 2 characters' });
+    }
+
+    // A substring match rather than $text, which only matches whole words and so misses partial VINs
+    const filter = {
+      content: new RegExp(escapeRegex(query), 'i'),
+      $or: [
+        { senderId: req.user.id },
+        { receiverId: req.user.id }
+      ],
+      unsentAt: null
+    };
+
+    const total = await Message.countDocuments(filter);
+    const messages = await Message.find(filter)
+      .sort({ timestamp: -1 })
+      .skip(skip)
+      .limit(limit)
+      .populate('senderId', 'username avatar')
+      .populate('receiverId', 'username avatar')
+      .lean();
+
+    // The client opens a result by loading the conversation around its id, so no position is needed here
+    const results = messages.map((msg) => {
+      const senderId = msg.senderId._id.toString();
+      const receiverId = msg.receiverId._id.toString();
+      const otherUser = senderId === req.user.id ? msg.receiverId : msg.senderId;
+
+      return {
+        id: msg._id.toString(),
+        senderId,
+        receiverId,
+        content: msg.content,
+        timestamp: msg.timestamp.toISOString(),
+        tradeId: msg.tradeId,
+        listingId: msg.listingId,
+        conversationId: [senderId, receiverId].sort().join('-'),
+        otherUser: {
+          id: otherUser._id.toString(),
+          username: otherUser.username,
+          avatar: otherUser.avatar
+        }
+      };
+    });
+
+    res.json({
+      results,
+      pagination: {
+        current: page,
+        pages: Math.ceil(total / limit),
+        total,
+        hasNext: skip + results.length < total
+      }
+    });
+  } catch (error) {
+    console.error('Error searching messages:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
 // Get conversations list with last message and unread count
 router.get('/conversations', auth, async (req, res) => {
   try {
@@ -154,6 +376,10 @@ router.get('/conversations', auth, async (req, res) => {
       {
         $unwind: '$otherUser'
       },
+      {
+        // Aggregates ignore select: false, so drop the audit trail by hand
+        $unset: 'lastMessage.editHistory'
+      },
       {
         $project: {
           id: { $concat: [{ $toString: '$_id' }, '-', { $toString: req.user._id }] },
@@ -185,14 +411,24 @@ router.post('/', auth, async (req, res) => {
   try {
     const {
       receiverId,
-      content,
+      content = '',
       tradeId,
       listingId
     } = req.body;
 
+    const attachments = req.body.attachments === undefined ? [] : sanitizeAttachments(req.body.attachments);
+
+    if (!attachments) {
+      return res.status(400).json({ message: 'Attachments must be uploaded images or PDFs' });
+    }
+
+    if (attachments.length > Message.MAX_MESSAGE_ATTACHMENTS) {
+      return res.status(400).json({ message: `A message can carry at most ${Message.MAX_MESSAGE_ATTACHMENTS} attachments` });
+    }
+
     // Validate required fields
-    if (!receiverId || !content || !content.trim()) {
-      return res.status(400).json({ message: 'Receiver ID and content are required' });
+    if (!receiverId || (!content.trim() && attachments.length === 0)) {
+      return res.status(400).json({ message: 'Receiver ID and content or an attachment are required' });
     }
 
     // Check if receiver exists
@@ -206,14 +442,20 @@ router.post('/', auth, async (req, res) => {
       return res.status(400).json({ message: 'Cannot send message to yourself' });
     }
 
+    // The WebSocket push below reaches the receiver right away when they're online
+    const webSocket = req.app.locals.webSocket;
+    const receiverOnline = !!webSocket && webSocket.getActiveUsers().includes(receiverId);
+
     // Create the message
     const message = new Message({
       senderId: req.user.id,
       receiverId,
       content: content.trim(),
+      attachments,
       tradeId: tradeId || undefined,
       listingId: listingId || undefined,
-      read: false
+      read: false,
+      deliveredAt: receiverOnline ? new Date() : undefined
     });
 
     await message.save();
@@ -224,8 +466,10 @@ router.post('/', auth, async (req, res) => {
       senderId: req.user.id,
       receiverId,
       content: message.content,
+      attachments: message.attachments,
       timestamp: message.timestamp.toISOString(),
       read: message.read,
+      deliveredAt: message.deliveredAt,
       tradeId: message.tradeId,
       listingId: message.listingId
     };
@@ -270,22 +514,12 @@ router.post('/conversation/:userId/read', auth, async (req, res) => {
   try {
     const { userId } = req.params;
 
-    // Mark all unread messages from this user as read
-    const result = await Message.updateMany(
-      {
-        senderId: userId,
-        receiverId: req.user.id,
-        read: false
-      },
-      { 
-        read: true,
-        readAt: new Date()
-      }
-    );
+    // Mark all unread messages from this user as read and send the receipt
+    const count = await markConversationRead(req.user.id, userId, req.app.locals.webSocket);
 
     res.json({ 
       message: 'Messages marked as read', 
-      count: result.modifiedCount 
+      count
     });
   } catch (error) {
     console.error('Error marking messages as read:', error);
@@ -305,22 +539,12 @@ router.post('/:conversationId/read', auth, async (req, res) => {
       return res.status(400).json({ message: 'Invalid conversation ID' });
     }
 
-    // Mark all unread messages from the other user as read
-    const result = await Message.updateMany(
-      {
-        senderId: otherUserId,
-        receiverId: req.user.id,
-        read: false
-      },
-      { 
-        read: true,
-        readAt: new Date()
-      }
-    );
+    // Mark all unread messages from the other user as read and send the receipt
+    const count = await markConversationRead(req.user.id, otherUserId, req.app.locals.webSocket);
 
     res.json({ 
       message: 'Messages marked as read', 
-      count: result.modifiedCount 
+      count
     });
   } catch (error) {
     console.error('Error marking messages as read:', error);
@@ -343,24 +567,111 @@ router.get('/unread/count', auth, async (req, res) => {
   }
 });
 
-// Delete a message (only sender can delete)
+// Edit a message (only the sender, within the edit window)
+router.put('/:id', auth, async (req, res) => {
+  try {
+    const content = (req.body.content || '').trim();
+
+    const message = await findOwnMessage(req, res);
+    if (!message) return;
+
+    const editDeadline = message.timestamp.getTime() + MESSAGE_EDIT_WINDOW_MINUTES * 60 * 1000;
+    if (Date.now() > editDeadline) {
+      return res.status(400).json({ message: `Messages can only be edited for ${MESSAGE_EDIT_WINDOW_MINUTES} minutes after sending` });
+    }
+
+    if (!content && message.attachments.length === 0) {
+      return res.status(400).json({ message: 'Content is required' });
+    }
+
+    if (content === message.content) {
+      return res.status(400).json({ message: 'The message is unchanged' });
+    }
+
+    const editedAt = new Date();
+
+    // Trade conversations keep every earlier version for dispute resolution
+    if (message.tradeId) {
+      message.editHistory.push({
+        content: message.content,
+        attachments: message.attachments,
+        action: 'edited',
+        changedAt: editedAt
+      });
+    }
+
+    message.content = content;
+    message.editedAt = editedAt;
+    await message.save();
+
+    console.log(`✏️ Message ${message._id} edited by ${req.user.id}`);
+
+    broadcastMessageUpdate(req.app.locals.webSocket, message);
+
+    res.json(formatMessage(message));
+  } catch (error) {
+    console.error('Error editing message:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Unsend a message (only the sender). It stays in the conversation as an empty placeholder.
 router.delete('/:id', auth, async (req, res) => {
   try {
-    const message = await Message.findById(req.params.id);
-    
+    const message = await findOwnMessage(req, res);
+    if (!message) return;
+
+    const unsentAt = new Date();
+
+    if (message.tradeId) {
+      message.editHistory.push({
+        content: message.content,
+        attachments: message.attachments,
+        action: 'unsent',
+        changedAt: unsentAt
+      });
+    }
+
+    message.content = '';
+    message.attachments = [];
+    message.unsentAt = unsentAt;
+    await message.save();
+
+    console.log(`🗑️ Message ${message._id} unsent by ${req.user.id}`);
+
+    broadcastMessageUpdate(req.app.locals.webSocket, message);
+
+    res.json(formatMessage(message));
+  } catch (error) {
+    console.error('Error unsending message:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Get the earlier versions of a trade-linked message (either participant)
+router.get('/:id/history', auth, async (req, res) => {
+  try {
+    const message = await Message.findById(req.params.id).select('+editHistory');
+
     if (!message) {
       return res.status(404).json({ message: 'Message not found' });
     }
 
-    // Only sender can delete
-    if (message.senderId.toString() !== req.user.id) {
-      return res.status(403).json({ message: 'Only the sender can delete a message' });
+    const participants = [message.senderId.toString(), message.receiverId.toString()];
+    if (!participants.includes(req.user.id)) {
+      return res.status(403).json({ message: 'Not authorized to view this message' });
     }
 
-    await Message.findByIdAndDelete(req.params.id);
-    res.json({ message: 'Message deleted successfully' });
+    if (!message.tradeId) {
+      return res.status(404).json({ message: 'Edit history is only kept for trade-linked messages' });
+    }
+
+    res.json({
+      ...formatMessage(message),
+      editHistory: message.editHistory
+    });
   } catch (error) {
-    console.error('Error deleting message:', error);
+    console.error('Error fetching message history:', error);
     res.status(500).json({ message: 'Server error', error: error.message });
   }
 });
@@ -0,0 +1,440 @@
+const express = require('express');
+const Offer = require('../models/Offer');
+const Listing = require('../models/Listing');
+const Vehicle = require('../models/Vehicle');
+const auth = require('../middleware/auth');
+const { markListingSold } = require('../services/listingSales');
+const {
+  OPEN_OFFER_STATUSES,
+  OFFER_POPULATE,
+  broadcastOffer
+} = require('../services/offerExpirer');
+
+const router = express.Router();
+
+// Deadlines a buyer or seller can put on the price they name
+const OFFER_EXPIRY_HOURS = [24, 72, 168];
+
+// undefined when no expiry was requested, null when the requested one isn't allowed
+function getExpiryDate(expiresInHours) {
+  if (expiresInHours === undefined || expiresInHours === null || expiresInHours === '') return undefined;
+  const hours = Number(expiresInHours);
+  if (!OFFER_EXPIRY_HOURS.includes(hours)) return null;
+  return new Date(Date.now() + hours * 60 * 60 * 1000);
+}
+
+const isOfferExpired = (offer) => !!offer.expiresAt && offer.expiresAt <= new Date();
+
+// Load an open offer the current user has to respond to, or send the matching error
+async function findOfferToRespond(req, res) {
+  const offer = await Offer.findById(req.params.id);
+
+  if (!offer) {
+    res.status(404).json({ error: 'Offer not found' });
+    return null;
+  }
+
+  const isBuyer = offer.buyerId.toString() === req.user.id;
+  const isSeller = offer.sellerId.toString() === req.user.id;
+
+  if (!isBuyer && !isSeller) {
+    res.status(403).json({ error: 'Not authorized to respond to this offer' });
+    return null;
+  }
+
+  if (!OPEN_OFFER_STATUSES.includes(offer.status)) {
+    res.status(400).json({ error: `This offer is already ${offer.status}` });
+    return null;
+  }
+
+  if (offer.lastActionBy.toString() === req.user.id) {
+    res.status(400).json({ error: 'Waiting for the other party to respond' });
+    return null;
+  }
+
+  // The expirer only sweeps periodically, so a lapsed price may still read as open
+  if (isOfferExpired(offer)) {
+    res.status(400).json({ error: 'This offer has expired' });
+    return null;
+  }
+
+  return offer;
+}
+
+// Apply a response only while the offer is still open, unexpired and in the state it was loaded in,
+// so an accept, a decline, a counter, a withdrawal and the expirer can't overwrite one another
+function claimOffer(offer, update) {
+  return Offer.findOneAndUpdate(
+    {
+      _id: offer._id,
+      status: { $in: OPEN_OFFER_STATUSES },
+      lastActionBy: offer.lastActionBy,
+      $or: [{ expiresAt: null }, { expiresAt: { $gt: new Date() } }]
+    },
+    update,
+    { new: true }
+  );
+}
+
+// @route   GET /api/offers/my
+// @desc    Get offers the current user made or received
+// @access  Private
+router.get('/my', auth, async (req, res) => {
+  try {
+    const offers = await Offer.find({
+      $or: [{ buyerId: req.user._id }, { sellerId: req.user._id }]
+    })
+      .populate(OFFER_POPULATE)
+      .sort({ updatedAt: -1 });
+
+    res.json(offers);
+
+  } catch (error) {
+    console.error('Get my offers error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   GET /api/offers/listing/:listingId
+// @desc    Get offers on a listing - all of them for the seller, only their own for a buyer
+// @access  Private
+router.get('/listing/:listingId', auth, async (req, res) => {
+  try {
+    const listing = await Listing.findById(req.params.listingId);
+
+    if (!listing) {
+      return res.status(404).json({ error: 'Listing not found' });
+    }
+
+    const filter = { listingId: listing._id };
+    if (listing.sellerId.toString() !== req.user.id) {
+      filter.buyerId = req.user._id;
+    }
+
+    const offers = await Offer.find(filter)
+      .populate(OFFER_POPULATE)
+      .sort({ updatedAt: -1 });
+
+    res.json(offers);
+
+  } catch (error) {
+    console.error('Get listing offers error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   POST /api/offers
+// @desc    Make a cash offer on a listing
+// @access  Private
+router.post('/', auth, async (req, res) => {
+  try {
+    const { listingId, message = '', expiresInHours } = req.body;
+    const amount = Number(req.body.amount);
+
+    if (!amount || amount <= 0) {
+      return res.status(400).json({ error: 'A valid offer amount is required' });
+    }
+
+    const expiresAt = getExpiryDate(expiresInHours);
+    if (expiresAt === null) {
+      return res.status(400).json({ error: `Offers can expire after ${OFFER_EXPIRY_HOURS.join(', ')} hours` });
+    }
+
+    const listing = await Listing.findById(listingId);
+
+    if (!listing || !listing.isActive || listing.soldAt) {
+      return res.status(404).json({ error: 'Listing not found or no longer available' });
+    }
+
+    if (listing.sellerId.toString() === req.user.id) {
+      return res.status(400).json({ error: 'You cannot make an offer on your own listing' });
+    }
+
+    const existing = await Offer.findOne({
+      listingId: listing._id,
+      buyerId: req.user._id,
+      status: { $in: OPEN_OFFER_STATUSES }
+    });
+
+    if (existing) {
+      return res.status(400).json({ error: 'You already have an open offer on this listing' });
+    }
+
+    const offer = new Offer({
+      listingId: listing._id,
+      vehicleId: listing.vehicleId,
+      sellerId: listing.sellerId,
+      buyerId: req.user._id,
+      amount,
+      message,
+      lastActionBy: req.user._id,
+      expiresAt,
+      history: [{
+        action: 'offered',
+        userId: req.user._id,
+        amount,
+        message
+      }]
+    });
+
+    await offer.save();
+    await offer.populate(OFFER_POPULATE);
+
+    console.log(`💵 Offer of $${amount} made on listing ${listing._id}`);
+
+    // 🔗 WEBSOCKET: Let the seller know straight away
+    broadcastOffer(req.app.locals.webSocket, offer, 'OFFER_CREATED');
+
+    res.status(201).json(offer);
+
+  } catch (error) {
+    console.error('Create offer error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   POST /api/offers/:id/accept
+// @desc    Accept the price on the table and sell the listing at it
+// @access  Private
+router.post('/:id/accept', auth, async (req, res) => {
+  try {
+    const offer = await findOfferToRespond(req, res);
+    if (!offer) return;
+
+    const listing = await Listing.findById(offer.listingId);
+
+    if (!listing || !listing.isActive || listing.soldAt) {
+      return res.status(400).json({ error: 'This listing is no longer available' });
+    }
+
+    const vehicle = await Vehicle.findById(offer.vehicleId);
+    if (vehicle && vehicle.isInTrade) {
+      return res.status(400).json({ error: 'This vehicle is currently part of a pending trade' });
+    }
+
+    const acceptedAt = new Date();
+
+    // Claim the offer atomically so a withdrawal or the expirer can't race the sale
+    const accepted = await claimOffer(offer, {
+      status: 'accepted',
+      respondedAt: acceptedAt,
+      $push: {
+        history: {
+          action: 'accepted',
+          userId: req.user._id,
+          amount: offer.amount,
+          timestamp: acceptedAt
+        }
+      }
+    });
+
+    if (!accepted) {
+      return res.status(409).json({ error: 'This offer changed before it could be accepted' });
+    }
+
+    await markListingSold(listing, {
+      soldTo: accepted.buyerId,
+      soldPrice: accepted.amount,
+      offerId: accepted._id
+    }, req.app.locals.webSocket);
+
+    await accepted.populate(OFFER_POPULATE);
+    broadcastOffer(req.app.locals.webSocket, accepted, 'OFFER_UPDATED');
+
+    // The vehicle is gone, so every other open offer on it is declined
+    const otherOffers = await Offer.find({
+      listingId: listing._id,
+      _id: { $ne: accepted._id },
+      status: { $in: OPEN_OFFER_STATUSES }
+    });
+
+    for (const other of otherOffers) {
+      const declined = await Offer.findOneAndUpdate(
+        { _id: other._id, status: { $in: OPEN_OFFER_STATUSES } },
+        {
+          status: 'declined',
+          respondedAt: acceptedAt,
+          $push: {
+            history: {
+              action: 'declined',
+              userId: accepted.sellerId,
+              amount: other.amount,
+              message: 'The vehicle was sold to another buyer',
+              timestamp: acceptedAt
+            }
+          }
+        },
+        { new: true }
+      );
+      if (!declined) continue;
+
+      await declined.populate(OFFER_POPULATE);
+      broadcastOffer(req.app.locals.webSocket, declined, 'OFFER_UPDATED');
+    }
+
+    console.log(`🤝 Offer ${accepted._id} accepted at $${accepted.amount}`);
+
+    res.json(accepted);
+
+  } catch (error) {
+    console.error('Accept offer error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   POST /api/offers/:id/decline
+// @desc    Decline the price on the table
+// @access  Private
+router.post('/:id/decline', auth, async (req, res) => {
+  try {
+    const offer = await findOfferToRespond(req, res);
+    if (!offer) return;
+
+    const { message = '' } = req.body;
+    const declinedAt = new Date();
+
+    const declined = await claimOffer(offer, {
+      status: 'declined',
+      respondedAt: declinedAt,
+      $push: {
+        history: {
+          action: 'declined',
+          userId: req.user._id,
+          amount: offer.amount,
+          message,
+          timestamp: declinedAt
+        }
+      }
+    });
+
+    if (!declined) {
+      return res.status(409).json({ error: 'This offer changed before it could be declined' });
+    }
+
+    await declined.populate(OFFER_POPULATE);
+
+    broadcastOffer(req.app.locals.webSocket, declined, 'OFFER_UPDATED');
+
+    res.json(declined);
+
+  } catch (error) {
+    console.error('Decline offer error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   POST /api/offers/:id/counter
+// @desc    Answer with a different price
+// @access  Private
+router.post('/:id/counter', auth, async (req, res) => {
+  try {
+    const { message = '', expiresInHours } = req.body;
+    const amount = Number(req.body.amount);
+
+    if (!amount || amount <= 0) {
+      return res.status(400).json({ error: 'A valid counter amount is required' });
+    }
+
+    const expiresAt = getExpiryDate(expiresInHours);
+    if (expiresAt === null) {
+      return res.status(400).json({ error: `Counters can expire after ${OFFER_EXPIRY_HOURS.join(', ')} hours` });
+    }
+
+    const offer = await findOfferToRespond(req, res);
+    if (!offer) return;
+
+    if (amount === offer.amount) {
+      return res.status(400).json({ error: 'Counter with a different amount, or accept the offer instead' });
+    }
+
+    const counteredAt = new Date();
+
+    const countered = await claimOffer(offer, {
+      status: 'countered',
+      amount,
+      message,
+      lastActionBy: req.user._id,
+      respondedAt: counteredAt,
+      // A counter without a deadline drops the previous one
+      ...(expiresAt ? { expiresAt } : { $unset: { expiresAt: 1 } }),
+      $push: {
+        history: {
+          action: 'countered',
+          userId: req.user._id,
+          amount,
+          message,
+          timestamp: counteredAt
+        }
+      }
+    });
+
+    if (!countered) {
+      return res.status(409).json({ error: 'This offer changed before it could be countered' });
+    }
+
+    await countered.populate(OFFER_POPULATE);
+
+    broadcastOffer(req.app.locals.webSocket, countered, 'OFFER_UPDATED');
+
+    res.json(countered);
+
+  } catch (error) {
+    console.error('Counter offer error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   POST /api/offers/:id/withdraw
+// @desc    Withdraw an open offer (buyer only)
+// @access  Private
+router.post('/:id/withdraw', auth, async (req, res) => {
+  try {
+    const offer = await Offer.findOne({
+      _id: req.params.id,
+      buyerId: req.user._id
+    });
+
+    if (!offer) {
+      return res.status(404).json({ error: 'Offer not found' });
+    }
+
+    if (!OPEN_OFFER_STATUSES.includes(offer.status)) {
+      return res.status(400).json({ error: `This offer is already ${offer.status}` });
+    }
+
+    if (isOfferExpired(offer)) {
+      return res.status(400).json({ error: 'This offer has expired' });
+    }
+
+    const withdrawnAt = new Date();
+
+    const withdrawn = await claimOffer(offer, {
+      status: 'withdrawn',
+      respondedAt: withdrawnAt,
+      $push: {
+        history: {
+          action: 'withdrawn',
+          userId: req.user._id,
+          amount: offer.amount,
+          timestamp: withdrawnAt
+        }
+      }
+    });
+
+    if (!withdrawn) {
+      return res.status(409).json({ error: 'This offer changed before it could be withdrawn' });
+    }
+
+    await withdrawn.populate(OFFER_POPULATE);
+
+    broadcastOffer(req.app.locals.webSocket, withdrawn, 'OFFER_UPDATED');
+
+    res.json(withdrawn);
+
+  } catch (error) {
+    console.error('Withdraw offer error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+module.exports = router;
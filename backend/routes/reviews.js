@@ -3,9 +3,30 @@ const Review = require('../models/Review');
 const User = require('../models/User');
 const Trade = require('../models/Trade');
 const auth = require('../middleware/auth');
+const {
+  PUBLIC_REVIEW_STATUSES,
+  REVIEW_REPORT_REASONS,
+  REPORTS_TO_HIDE_REVIEW,
+  updateRevieweeRating,
+  hasCompletedTransaction
+} = require('../services/reviewModeration');
 
 const router = express.Router();
 
+// Shape a populated review for the client; reports stay private to admins
+const transformReview = (review) => {
+  const { reports, ...rest } = typeof review.toObject === 'function' ? review.toObject() : review;
+
+  return {
+    ...rest,
+    id: rest._id.toString(),
+    reviewerId: typeof rest.reviewerId === 'object' ? rest.reviewerId._id.toString() : rest.reviewerId,
+    revieweeId: typeof rest.revieweeId === 'object' ? rest.revieweeId._id.toString() : rest.revieweeId,
+    reviewer: rest.reviewerId, // Keep the populated reviewer object
+    _id: undefined
+  };
+};
+
 // Create or update a review
 router.post('/', auth, async (req, res) => {
   try {
@@ -27,20 +48,22 @@ router.post('/', auth, async (req, res) => {
       return res.status(404).json({ message: 'User to review not found' });
     }
 
-    // Optional: If tradeId is provided, verify the trade exists and user was involved
+    // Optional: If tradeId is provided, verify the trade exists and was between the two users
     if (tradeId) {
       const trade = await Trade.findById(tradeId);
       if (!trade) {
         return res.status(404).json({ message: 'Trade not found' });
       }
 
-      // Verify user was involved in the trade
-      if (trade.offererUserId.toString() !== req.user.id && 
-          trade.receiverUserId.toString() !== req.user.id) {
-        return res.status(403).json({ message: 'You can only reference trades you were involved in' });
+      const parties = [trade.offererUserId.toString(), trade.receiverUserId.toString()];
+      if (!parties.includes(req.user.id) || !parties.includes(revieweeId)) {
+        return res.status(403).json({ message: 'You can only reference trades between you and this user' });
       }
     }
 
+    // ✅ Verified only when the two users actually did business together
+    const verified = await hasCompletedTransaction(req.user._id, revieweeId);
+
     // Check if review already exists (one review per user pair)
     const existingReview = await Review.findOne({
       reviewerId: req.user.id,
@@ -55,6 +78,7 @@ router.post('/', auth, async (req, res) => {
       existingReview.rating = rating;
       existingReview.comment = comment || '';
       if (tradeId) existingReview.tradeId = tradeId;
+      existingReview.verified = verified;
       existingReview.updatedAt = new Date();
       
       review = await existingReview.save();
@@ -67,7 +91,8 @@ router.post('/', auth, async (req, res) => {
         revieweeId,
         tradeId: tradeId || undefined,
         rating,
-        comment: comment || ''
+        comment: comment || '',
+        verified
       });
 
       try {
@@ -82,16 +107,7 @@ router.post('/', auth, async (req, res) => {
     }
 
     // Update user's rating and review count
-    const reviews = await Review.find({ revieweeId });
-    const totalRating = reviews.reduce((sum, r) => sum + r.rating, 0);
-    const averageRating = totalRating / reviews.length;
-
-    await User.findByIdAndUpdate(revieweeId, {
-      rating: Math.round(averageRating * 10) / 10, // Round to 1 decimal place
-      reviewCount: reviews.length
-    });
-
-    console.log(`📊 Updated user ${revieweeId} rating to ${Math.round(averageRating * 10) / 10} (${reviews.length} reviews)`);
+    await updateRevieweeRating(revieweeId);
 
     // Populate the review for response
     await review.populate([
@@ -101,8 +117,7 @@ router.post('/', auth, async (req, res) => {
     ]);
 
     res.status(isUpdate ? 200 : 201).json({
-      ...review.toObject(),
-      id: review._id.toString(),
+      ...transformReview(review),
       isUpdate
     });
   } catch (error) {
@@ -114,21 +129,18 @@ router.post('/', auth, async (req, res) => {
 // Get reviews for a user
 router.get('/user/:userId', async (req, res) => {
   try {
-    const reviews = await Review.find({ revieweeId: req.params.userId })
+    // Reviews reported as abusive stay hidden until an admin restores them
+    const reviews = await Review.find({
+      revieweeId: req.params.userId,
+      moderationStatus: { $in: PUBLIC_REVIEW_STATUSES }
+    })
       .populate('reviewerId', 'username avatar firstName lastName')
       .populate('tradeId', 'createdAt completedAt status')
       .sort({ updatedAt: -1 }) // Sort by most recently updated
       .lean(); // Use lean for better performance
 
     // Transform the response to ensure proper ID mapping
-    const transformedReviews = reviews.map(review => ({
-      ...review,
-      id: review._id.toString(),
-      reviewerId: typeof review.reviewerId === 'object' ? review.reviewerId._id.toString() : review.reviewerId,
-      revieweeId: typeof review.revieweeId === 'object' ? review.revieweeId._id.toString() : review.revieweeId,
-      reviewer: review.reviewerId, // Keep the populated reviewer object
-      _id: undefined
-    }));
+    const transformedReviews = reviews.map(transformReview);
 
     console.log(`📋 Fetched ${transformedReviews.length} reviews for user ${req.params.userId}`);
     res.json(transformedReviews);
@@ -156,13 +168,8 @@ router.get('/between/:targetUserId', auth, async (req, res) => {
 
     // Transform the response
     const transformedReview = {
-      ...review,
-      id: review._id.toString(),
-      reviewerId: typeof review.reviewerId === 'object' ? review.reviewerId._id.toString() : review.reviewerId,
-      revieweeId: typeof review.revieweeId === 'object' ? review.revieweeId._id.toString() : review.revieweeId,
-      reviewer: review.reviewerId,
-      reviewee: review.revieweeId,
-      _id: undefined
+      ...transformReview(review),
+      reviewee: review.revieweeId
     };
 
     res.json(transformedReview);
@@ -172,6 +179,93 @@ router.get('/between/:targetUserId', auth, async (req, res) => {
   }
 });
 
+// Post the reviewee's one public reply to a review
+router.post('/:id/reply', auth, async (req, res) => {
+  try {
+    const comment = (req.body.comment || '').trim();
+
+    if (!comment) {
+      return res.status(400).json({ message: 'Reply text is required' });
+    }
+
+    const review = await Review.findById(req.params.id);
+
+    if (!review || !PUBLIC_REVIEW_STATUSES.includes(review.moderationStatus)) {
+      return res.status(404).json({ message: 'Review not found' });
+    }
+
+    if (review.revieweeId.toString() !== req.user.id) {
+      return res.status(403).json({ message: 'Only the reviewed user can reply' });
+    }
+
+    if (review.reply && review.reply.comment) {
+      return res.status(400).json({ message: 'You have already replied to this review' });
+    }
+
+    review.reply = { comment, createdAt: new Date() };
+    await review.save();
+
+    await review.populate([
+      { path: 'reviewerId', select: 'username avatar firstName lastName' },
+      { path: 'tradeId', select: 'createdAt completedAt status' }
+    ]);
+
+    console.log(`💬 User ${req.user.id} replied to review ${review._id}`);
+    res.json(transformReview(review));
+  } catch (error) {
+    console.error('Error replying to review:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Report a review; enough reports from other users hide it until an admin looks at it
+router.post('/:id/report', auth, async (req, res) => {
+  try {
+    const { reason, details = '' } = req.body;
+
+    if (!REVIEW_REPORT_REASONS.includes(reason)) {
+      return res.status(400).json({ message: `Reason must be one of: ${REVIEW_REPORT_REASONS.join(', ')}` });
+    }
+
+    const review = await Review.findById(req.params.id);
+
+    if (!review || review.moderationStatus === 'removed') {
+      return res.status(404).json({ message: 'Review not found' });
+    }
+
+    if (review.reviewerId.toString() === req.user.id) {
+      return res.status(400).json({ message: 'You cannot report your own review' });
+    }
+
+    if (review.reports.some(report => report.reporterId.toString() === req.user.id)) {
+      return res.status(400).json({ message: 'You have already reported this review' });
+    }
+
+    review.reports.push({ reporterId: req.user._id, reason, details });
+
+    // The reviewee can flag a review but not take it down alone, and reports never hide a review
+    // an admin already approved; every report is still kept for the record
+    const revieweeId = review.revieweeId.toString();
+    const reporterCount = review.reports.filter(report => report.reporterId.toString() !== revieweeId).length;
+    const hidden = review.moderationStatus === 'visible' && reporterCount >= REPORTS_TO_HIDE_REVIEW;
+    if (hidden) {
+      review.moderationStatus = 'pending';
+    }
+
+    await review.save();
+
+    if (hidden) {
+      await updateRevieweeRating(review.revieweeId);
+    }
+
+    console.log(`🚩 Review ${review._id} reported by ${req.user.id} (${reason})`);
+    res.json({ message: 'Review reported', hidden });
+  } catch (error) {
+    console.error('Error reporting review:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
 // Get all reviews (for admin or debugging)
 router.get('/', auth, async (req, res) => {
   try {
@@ -179,6 +273,7 @@ router.get('/', auth, async (req, res) => {
       .populate('reviewerId', 'username avatar firstName lastName')
       .populate('revieweeId', 'username avatar firstName lastName')
       .populate('tradeId')
+      .select('-reports')
       .sort({ updatedAt: -1 });
 
     res.json(reviews);
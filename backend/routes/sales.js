@@ -0,0 +1,43 @@
+const express = require('express');
+const Sale = require('../models/Sale');
+const auth = require('../middleware/auth');
+
+const router = express.Router();
+
+// @route   GET /api/sales/my
+// @desc    Get sales and purchases for the current user
+// @access  Private
+router.get('/my', auth, async (req, res) => {
+  try {
+    const sales = await Sale.find({
+      $or: [{ sellerId: req.user._id }, { buyerId: req.user._id }]
+    })
+      .populate('vehicleId')
+      .sort({ completedAt: -1 });
+
+    res.json(sales);
+  } catch (error) {
+    console.error('Get my sales error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   GET /api/sales/user/:userId
+// @desc    Get completed sales and purchases for a user
+// @access  Public
+router.get('/user/:userId', async (req, res) => {
+  try {
+    const sales = await Sale.find({
+      $or: [{ sellerId: req.params.userId }, { buyerId: req.params.userId }]
+    })
+      .populate('vehicleId', 'make model year images')
+      .sort({ completedAt: -1 });
+
+    res.json(sales);
+  } catch (error) {
+    console.error('Get user sales error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+module.exports = router;
@@ -1,12 +1,76 @@
 const express = require('express');
+const mongoose = require('mongoose');
 const Trade = require('../models/Trade');
 const User = require('../models/User');
 const Vehicle = require('../models/Vehicle');
 const Listing = require('../models/Listing');
+const Sale = require('../models/Sale');
 const auth = require('../middleware/auth');
+const {
+  TRADE_TRANSITIONS,
+  TRADE_SIDE_EFFECTS,
+  TRADE_EXPIRY_HOURS,
+  getTradeRole,
+  getTradeTerms,
+  getChecklistItems,
+  isChecklistItemConfirmed,
+  getTradeEventForStatus,
+  getTradeEventError,
+  getAcceptanceFlags,
+  isTerminalTradeStatus
+} = require('../utils/tradeStateMachine');
 
 const router = express.Router();
 
+// Statuses in which a trade still holds its vehicles
+const ACTIVE_TRADE_STATUSES = ['pending', 'accepted', 'pending_acceptance', 'countered'];
+
+// Works for both raw ObjectIds and populated documents
+const toIdString = (value) => (value && value._id ? value._id : value).toString();
+
+// Turns the optional expiresInHours from an offer or counter into a deadline.
+// Returns undefined for offers that stay open and null for windows we don't offer.
+function getExpiryDate(expiresInHours) {
+  if (expiresInHours === undefined || expiresInHours === null || expiresInHours === '') return undefined;
+  const hours = Number(expiresInHours);
+  if (!TRADE_EXPIRY_HOURS.includes(hours)) return null;
+  return new Date(Date.now() + hours * 60 * 60 * 1000);
+}
+
+// An open trade past its deadline is over even if the expirer hasn't swept it yet
+function isTradeExpired(trade) {
+  return !!TRADE_TRANSITIONS[trade.status]?.expire && !!trade.expiresAt && trade.expiresAt <= new Date();
+}
+
+// Which vehicles change hands when the trade completes, as id strings
+function getTradeTransfers(trade) {
+  const { offererGives, receiverGives } = getTradeTerms(trade);
+  return {
+    fromOfferer: offererGives.map(toIdString),
+    fromReceiver: receiverGives.map(toIdString)
+  };
+}
+
+// Clear the trade flags this trade set so its vehicles can be relisted; never another trade's lock
+async function releaseTradeVehicles(trade) {
+  const allVehicleIds = [
+    ...trade.offererVehicleIds,
+    ...(trade.receiverVehicleIds || []),
+    ...getTradeTransfers(trade).fromReceiver
+  ];
+
+  if (allVehicleIds.length === 0) return 0;
+
+  await Vehicle.updateMany(
+    { _id: { $in: allVehicleIds }, tradeId: trade._id },
+    {
+      isInTrade: false,
+      tradeId: null
+    }
+  );
+  return allVehicleIds.length;
+}
+
 // Get all trades for the authenticated user
 router.get('/', auth, async (req, res) => {
   try {
@@ -22,9 +86,10 @@ router.get('/', auth, async (req, res) => {
 
     console.log(`📊 Found ${tradesWithMissingListings.length} total trades for user ${req.user.id}`);
 
-    // Delete trades where listing is null (listing was deleted)
+    // Delete trades where listing is null (listing was deleted).
+    // Bundle trades never had a listing, so only trades that lost theirs are removed.
     const tradesToDelete = tradesWithMissingListings
-      .filter(trade => !trade.listingId)
+      .filter(trade => !trade.listingId && !trade.requestedVehicleIds?.length)
       .map(trade => trade._id);
 
     console.log(`🗑️ Found ${tradesToDelete.length} trades with missing listings to delete`);
@@ -58,11 +123,13 @@ router.get('/', auth, async (req, res) => {
     .populate('receiverUserId', 'username email avatar rating reviewCount')
     .populate('listingId')
     .populate('offererVehicleIds')
-    .populate('receiverVehicleIds');
+    .populate('receiverVehicleIds')
+    .populate('requestedVehicleIds');
 
     // Filter out any remaining trades with missing listings (just in case)
-    const validTrades = trades.filter(trade => trade.listingId != null);
-    const invalidTrades = trades.filter(trade => trade.listingId == null);
+    const hasTarget = trade => trade.listingId != null || trade.requestedVehicleIds.length > 0;
+    const validTrades = trades.filter(hasTarget);
+    const invalidTrades = trades.filter(trade => !hasTarget(trade));
 
     if (invalidTrades.length > 0) {
       console.log(`⚠️ Found ${invalidTrades.length} additional trades with null listings after cleanup`);
@@ -77,110 +144,128 @@ router.get('/', auth, async (req, res) => {
   }
 });
 
-// @route   DELETE /api/trades/cleanup
-// @desc    Cleanup corrupted trades (missing listings)
+// Actions that can be applied to many trades at once
+const BULK_TRADE_ACTIONS = ['reject', 'cancel', 'archive', 'unarchive'];
+const MAX_BULK_TRADES = 100;
+
+// @route   POST /api/trades/bulk
+// @desc    Reject, cancel, archive or unarchive several trades at once.
+//          Each trade is checked on its own; the ones that can't take the action are reported back.
 // @access  Private
-router.delete('/cleanup', auth, async (req, res) => {
+router.post('/bulk', auth, async (req, res) => {
   try {
-    // Find all trades for this user
-    const userTrades = await Trade.find({
-      $or: [
-        { offererUserId: req.user.id },
-        { receiverUserId: req.user.id }
-      ]
-    }).populate('listingId');
+    const { action, tradeIds } = req.body;
 
-    // Find trades with missing listings
-    const corruptedTrades = userTrades.filter(trade => !trade.listingId);
-    
-    if (corruptedTrades.length === 0) {
-      return res.json({ 
-        message: 'No corrupted trades found',
-        deletedCount: 0
-      });
+    if (!BULK_TRADE_ACTIONS.includes(action)) {
+      return res.status(400).json({ message: `Bulk action must be one of ${BULK_TRADE_ACTIONS.join(', ')}` });
     }
 
-    // Delete corrupted trades
-    const tradeIds = corruptedTrades.map(trade => trade._id);
-    const result = await Trade.deleteMany({ _id: { $in: tradeIds } });
+    if (!Array.isArray(tradeIds) || tradeIds.length === 0) {
+      return res.status(400).json({ message: 'Select at least one trade' });
+    }
 
-    console.log(`Cleaned up ${result.deletedCount} corrupted trades for user ${req.user.id}`);
+    if (tradeIds.length > MAX_BULK_TRADES) {
+      return res.status(400).json({ message: `At most ${MAX_BULK_TRADES} trades can be updated at once` });
+    }
 
-    res.json({ 
-      message: `Successfully removed ${result.deletedCount} corrupted trades`,
-      deletedCount: result.deletedCount,
-      deletedTradeIds: tradeIds
-    });
+    const validIds = tradeIds.filter(id => mongoose.Types.ObjectId.isValid(id));
+    const trades = await Trade.find({ _id: { $in: validIds } });
+    const tradesById = new Map(trades.map(trade => [trade._id.toString(), trade]));
 
-  } catch (error) {
-    console.error('Error cleaning up corrupted trades:', error);
-    res.status(500).json({ message: 'Server error', error: error.message });
-  }
-});
+    const succeeded = [];
+    const failed = [];
+    const changedTrades = [];
 
-// @route   POST /api/trades/cleanup-vehicles
-// @desc    Cleanup vehicles with incorrect listing/auction flags
-// @access  Private
-router.post('/cleanup-vehicles', auth, async (req, res) => {
-  try {
-    console.log(`🧹 Starting vehicle flag cleanup for user ${req.user.id}`);
-    
-    // Find all vehicles owned by the user
-    const userVehicles = await Vehicle.find({ ownerId: req.user.id });
-    
-    let cleanedCount = 0;
-    
-    for (const vehicle of userVehicles) {
-      let needsUpdate = false;
-      const updates = {};
-      
-      // Check if vehicle is marked as listed but has no active listing
-      if (vehicle.isListed) {
-        const activeListing = await Listing.findOne({
-          vehicleId: vehicle._id,
-          isActive: true
-        });
-        
-        if (!activeListing) {
-          updates.isListed = false;
-          updates.listingId = null;
-          needsUpdate = true;
-          console.log(`🔧 Vehicle ${vehicle._id} marked as listed but no active listing found`);
-        }
+    console.log(`📦 Bulk ${action} of ${tradeIds.length} trades by user ${req.user.id}`);
+
+    for (const tradeId of tradeIds) {
+      const trade = tradesById.get(String(tradeId));
+
+      if (!trade || !getTradeRole(trade, req.user.id)) {
+        failed.push({ id: tradeId, message: 'Trade not found' });
+        continue;
       }
-      
-      // Check if vehicle is marked as auctioned but not in any active trades
-      if (vehicle.isAuctioned) {
-        const activeTrades = await Trade.find({
-          $or: [
-            { offererVehicleIds: vehicle._id },
-            { receiverVehicleIds: vehicle._id }
-          ],
-          status: { $in: ['pending', 'accepted', 'pending_acceptance', 'countered'] }
-        });
-        
-        if (activeTrades.length === 0) {
-          updates.isAuctioned = false;
-          needsUpdate = true;
-          console.log(`🔧 Vehicle ${vehicle._id} marked as auctioned but no active trades found`);
+
+      if (action === 'archive' || action === 'unarchive') {
+        if (!isTerminalTradeStatus(trade.status)) {
+          failed.push({ id: tradeId, message: `Only finished trades can be archived, this one is ${trade.status}` });
+          continue;
         }
+
+        // Archiving only hides the trade for this user, so the other party isn't told
+        await Trade.updateOne(
+          { _id: trade._id },
+          action === 'archive'
+            ? { $addToSet: { archivedBy: req.user._id } }
+            : { $pull: { archivedBy: req.user._id } }
+        );
+        succeeded.push(tradeId);
+        continue;
       }
-      
-      if (needsUpdate) {
-        await Vehicle.updateOne({ _id: vehicle._id }, updates);
-        cleanedCount++;
+
+      const guardError = getTradeEventError(trade, action, req.user.id);
+      if (guardError) {
+        failed.push({ id: tradeId, message: guardError });
+        continue;
+      }
+
+      const nextStatus = action === 'reject' ? 'rejected' : 'cancelled';
+      const role = getTradeRole(trade, req.user.id);
+
+      Object.assign(trade, getAcceptanceFlags(trade, action, role));
+      trade.status = nextStatus;
+      trade.updatedAt = new Date();
+      trade.tradeHistory.push({
+        action: nextStatus,
+        userId: req.user.id,
+        timestamp: new Date(),
+        offererCashAmount: trade.offererCashAmount,
+        offererVehicleIds: trade.offererVehicleIds,
+        receiverCashAmount: trade.receiverCashAmount,
+        receiverVehicleIds: trade.receiverVehicleIds
+      });
+
+      if (TRADE_SIDE_EFFECTS[action].includes('releaseVehicles')) {
+        await releaseTradeVehicles(trade);
       }
+
+      await trade.save();
+      succeeded.push(tradeId);
+      changedTrades.push(trade._id);
     }
-    
-    console.log(`✅ Cleaned up ${cleanedCount} vehicles for user ${req.user.id}`);
-    
-    res.json({
-      message: `Successfully cleaned up ${cleanedCount} vehicles`,
-      cleanedCount
-    });
-    
+
+    // 🔗 WEBSOCKET: Tell both parties about every rejected or cancelled trade
+    if (req.app.locals.webSocket && changedTrades.length > 0) {
+      const socket = req.app.locals.webSocket;
+      const populatedTrades = await Trade.find({ _id: { $in: changedTrades } })
+        .populate('offererUserId', 'username email avatar rating reviewCount')
+        .populate('receiverUserId', 'username email avatar rating reviewCount')
+        .populate('listingId')
+        .populate('offererVehicleIds')
+        .populate('receiverVehicleIds')
+        .populate('requestedVehicleIds')
+        .lean();
+
+      for (const populatedTrade of populatedTrades) {
+        const tradeWithId = {
+          ...populatedTrade,
+          id: populatedTrade._id.toString(),
+          _id: undefined
+        };
+        [populatedTrade.offererUserId, populatedTrade.receiverUserId].forEach(user => {
+          socket.broadcastToUser(user._id.toString(), {
+            type: 'TRADE_UPDATED',
+            data: tradeWithId
+          });
+        });
+      }
+    }
+
+    console.log(`✅ Bulk ${action}: ${succeeded.length} succeeded, ${failed.length} failed`);
+
+    res.json({ action, succeeded, failed });
   } catch (error) {
-    console.error('Error cleaning up vehicle flags:', error);
+    console.error('Error applying bulk trade action:', error);
     res.status(500).json({ message: 'Server error', error: error.message });
   }
 });
@@ -193,7 +278,8 @@ router.get('/:id', auth, async (req, res) => {
       .populate('receiverUserId', 'username email avatar rating reviewCount')
       .populate('listingId')
       .populate('offererVehicleIds')
-      .populate('receiverVehicleIds');
+      .populate('receiverVehicleIds')
+      .populate('requestedVehicleIds');
 
     if (!trade) {
       return res.status(404).json({ message: 'Trade not found' });
@@ -220,18 +306,22 @@ router.post('/', auth, async (req, res) => {
       receiverUserId,
       offererCashAmount,
       offererVehicleIds,
-      message
+      requestedVehicleIds = [],
+      message,
+      expiresInHours
     } = req.body;
 
-    // Validate required fields
-    if (!listingId || !receiverUserId) {
-      return res.status(400).json({ message: 'Listing ID and receiver ID are required' });
+    // Validate required fields - a trade targets a listing, some of the receiver's vehicles, or both
+    if (!receiverUserId) {
+      return res.status(400).json({ message: 'Receiver ID is required' });
+    }
+    if (!listingId && requestedVehicleIds.length === 0) {
+      return res.status(400).json({ message: 'Pick a listing or at least one of their vehicles to trade for' });
     }
 
-    // Check if listing exists and is active
-    const listing = await Listing.findById(listingId).populate('vehicleId').populate('sellerId');
-    if (!listing || !listing.isActive) {
-      return res.status(404).json({ message: 'Listing not found or inactive' });
+    const expiresAt = getExpiryDate(expiresInHours);
+    if (expiresAt === null) {
+      return res.status(400).json({ message: `Offers can expire after ${TRADE_EXPIRY_HOURS.join(', ')} hours` });
     }
 
     // Check if user is trying to trade with themselves
@@ -239,26 +329,63 @@ router.post('/', auth, async (req, res) => {
       return res.status(400).json({ message: 'Cannot create trade with yourself' });
     }
 
-    // Check if user already has an active trade for this listing
+    // Check if listing exists and is active
+    let listing = null;
+    if (listingId) {
+      listing = await Listing.findById(listingId).populate('vehicleId').populate('sellerId');
+      if (!listing || !listing.isActive) {
+        return res.status(404).json({ message: 'Listing not found or inactive' });
+      }
+      if (listing.sellerId._id.toString() !== receiverUserId) {
+        return res.status(400).json({ message: 'Listing does not belong to the receiver' });
+      }
+    }
+
+    // The listing vehicle is always part of the bundle
+    const allRequestedIds = [...new Set([
+      ...(listing ? [listing.vehicleId._id.toString()] : []),
+      ...requestedVehicleIds.map(String)
+    ])];
+
+    // Check if receiver exists
+    const receiver = await User.findById(receiverUserId);
+    if (!receiver) {
+      return res.status(404).json({ message: 'Receiver not found' });
+    }
+
+    // Validate requested vehicles belong to the receiver
+    const requestedVehicles = await Vehicle.find({
+      _id: { $in: allRequestedIds },
+      ownerId: receiverUserId
+    });
+
+    if (requestedVehicles.length !== allRequestedIds.length) {
+      return res.status(400).json({ message: 'Some requested vehicles do not belong to the receiver' });
+    }
+
+    if (requestedVehicles.some(v => v.isAuctioned)) {
+      return res.status(400).json({ 
+        message: 'Some requested vehicles are currently in auction and cannot be traded' 
+      });
+    }
+
+    // Check if user already has an active trade for any of these vehicles
     const existingTrade = await Trade.findOne({
-      listingId: listingId,
       offererUserId: req.user.id,
-      status: { $in: ['pending', 'accepted', 'pending_acceptance', 'countered'] }
+      status: { $in: ACTIVE_TRADE_STATUSES },
+      $or: [
+        { requestedVehicleIds: { $in: allRequestedIds } },
+        ...(listingId ? [{ listingId }] : [])
+      ]
     });
 
     if (existingTrade) {
       return res.status(400).json({ 
-        message: 'You already have an active trade for this listing. Please cancel or complete the existing trade first.',
+        message: 'You already have an active trade for one of these vehicles. Please cancel or complete the existing trade first.',
         existingTradeId: existingTrade._id
       });
     }
 
-    // Check if receiver exists
-    const receiver = await User.findById(receiverUserId);
-    if (!receiver) {
-      return res.status(404).json({ message: 'Receiver not found' });
-    }
-
     // Validate offered vehicles belong to the user
     if (offererVehicleIds && offererVehicleIds.length > 0) {
       const vehicles = await Vehicle.find({
@@ -286,25 +413,30 @@ router.post('/', auth, async (req, res) => {
       timestamp: new Date(),
       offererCashAmount: offererCashAmount || 0,
       offererVehicleIds: offererVehicleIds || [],
+      requestedVehicleIds: allRequestedIds,
       message
     };
 
     // Create the trade with listing data stored
     const trade = new Trade({
-      listingId,
-      listingData: {
+      listingId: listing ? listing._id : undefined,
+      listingData: listing ? {
         title: listing.title,
         description: listing.description,
         price: listing.price,
         vehicleId: listing.vehicleId._id,
         sellerId: listing.sellerId._id,
         createdAt: listing.createdAt
-      },
+      } : undefined,
       offererUserId: req.user.id,
       receiverUserId,
       status: 'pending',
       offererCashAmount: offererCashAmount || 0,
       offererVehicleIds: offererVehicleIds || [],
+      requestedVehicleIds: allRequestedIds,
+      // Making an offer means agreeing to its terms
+      offererAccepted: true,
+      expiresAt,
       message: message || '',
       tradeHistory: [historyEntry]
     });
@@ -317,6 +449,7 @@ router.post('/', auth, async (req, res) => {
       { path: 'receiverUserId', select: 'username email avatar rating reviewCount' },
       { path: 'listingId' },
       { path: 'offererVehicleIds' },
+      { path: 'requestedVehicleIds' },
     ]);
 
     // 🔗 WEBSOCKET: Broadcast trade creation to both users with full population
@@ -354,7 +487,7 @@ router.put('/:id', auth, async (req, res) => {
     console.log(`🔍 PUT /api/trades/${req.params.id} - User: ${req.user.id}`);
     console.log('📦 Request body:', JSON.stringify(req.body, null, 2));
     
-    const trade = await Trade.findById(req.params.id);
+    let trade = await Trade.findById(req.params.id);
     
     if (!trade) {
       console.log('❌ Trade not found');
@@ -382,102 +515,65 @@ router.put('/:id', auth, async (req, res) => {
       counterMessage
     } = req.body;
 
-    // Validate status transitions
-    const validTransitions = {
-      'pending': ['accepted', 'rejected', 'cancelled', 'countered'],
-      'countered': ['accepted', 'rejected', 'cancelled', 'countered'],
-      'accepted': ['completed', 'declined'],
-      'rejected': [],
-      'cancelled': [],
-      'completed': [],
-      'declined': []
-    };
-
+    // Validate the status transition and whose turn it is against the shared state machine
     console.log(`🔄 Status transition check: ${trade.status} -> ${status}`);
-    if (!validTransitions[trade.status].includes(status)) {
+    const event = getTradeEventForStatus(trade.status, status);
+    if (!event) {
       console.log(`❌ Invalid status transition from ${trade.status} to ${status}`);
       return res.status(400).json({ 
         message: `Cannot transition from ${trade.status} to ${status}` 
       });
     }
-    console.log(`✅ Status transition valid`);
 
-    // Validate permissions for different actions
-    if (status === 'cancelled') {
-      console.log(`🔍 Checking cancellation permissions`);
-      // Allow both offerer and receiver to cancel, but check if they're involved in the trade
-      const isOfferer = trade.offererUserId.toString() === req.user.id;
-      const isReceiver = trade.receiverUserId.toString() === req.user.id;
-      
-      if (!isOfferer && !isReceiver) {
-        console.log(`❌ User not involved in trade for cancellation`);
-        return res.status(403).json({ message: 'Only parties involved in the trade can cancel it' });
-      }
-      console.log(`✅ Cancellation permission granted`);
+    const guardError = getTradeEventError(trade, event, req.user.id);
+    if (guardError) {
+      console.log(`❌ Permission denied for user ${req.user.id} to ${event} trade ${trade._id}: ${guardError}`);
+      return res.status(403).json({ message: guardError });
     }
+    console.log(`✅ ${event} allowed for user ${req.user.id}`);
 
-    // For accept/reject, only the receiver can do these actions (but both can counter)
-    if (['accepted', 'rejected'].includes(status)) {
-      console.log(`🔍 Checking accept/reject permissions`);
-
-      let isAllowed = false;
-
-      // Scenario 1: Accepting/rejecting the initial offer. Only the receiver can do this.
-      if (trade.status === 'pending' && trade.receiverUserId.toString() === req.user.id) {
-        console.log('✅ Allowing action: User is receiver of a pending trade.');
-        isAllowed = true;
-      }
-      
-      // Scenario 2: Accepting/rejecting a counter-offer.
-      if (trade.status === 'countered') {
-        // The user taking action should NOT be the one who last countered.
-        if (trade.lastCounteredBy) {
-          // If lastCounteredBy is set, only allow the other party to accept/reject
-          if (trade.lastCounteredBy.toString() !== req.user.id) {
-            console.log('✅ Allowing action: User is recipient of a counter-offer.');
-            isAllowed = true;
-          } else {
-            console.log(`❌ User ${req.user.id} is the same as lastCounteredBy ${trade.lastCounteredBy}`);
-          }
-        } else {
-          // If lastCounteredBy is not set (legacy trade), allow both parties to accept/reject
-          console.log('⚠️ Legacy trade without lastCounteredBy - allowing both parties to accept/reject');
-          isAllowed = true;
-        }
-      }
+    if (isTradeExpired(trade)) {
+      console.log(`❌ Trade ${trade._id} expired at ${trade.expiresAt.toISOString()}`);
+      return res.status(400).json({ message: 'This trade has expired' });
+    }
 
-      if (!isAllowed) {
-        console.log(`❌ Permission denied for user ${req.user.id} to ${status} trade ${trade._id} with status ${trade.status}`);
-        return res.status(403).json({ 
-          message: 'It is not your turn to accept or reject this trade.' 
-        });
-      }
+    // What the trade looked like when we read it; the update below only applies if it still does
+    const claimFilter = {
+      _id: trade._id,
+      status: trade.status,
+      lastCounteredBy: trade.lastCounteredBy ?? null,
+      ...(TRADE_TRANSITIONS[trade.status].expire && {
+        $or: [{ expiresAt: null }, { expiresAt: { $gt: new Date() } }]
+      })
+    };
 
-      console.log(`✅ Accept/reject permission granted`);
-    }
+    const role = getTradeRole(trade, req.user.id);
+    const sideEffects = TRADE_SIDE_EFFECTS[event];
 
     // For counter offers, validate and handle unified counter system
-    if (status === 'countered') {
+    if (event === 'counter') {
       console.log(`🔄 Processing counter offer`);
       const {
         counterVehicleIds = [],
         counterCashAmount = 0,
-        counterMessage = ''
+        counterMessage = '',
+        expiresInHours
       } = req.body;
 
+      // Every counter sets its own deadline (or none), replacing the one on the previous terms
+      const expiresAt = getExpiryDate(expiresInHours);
+      if (expiresAt === null) {
+        return res.status(400).json({ message: `Counters can expire after ${TRADE_EXPIRY_HOURS.join(', ')} hours` });
+      }
+
       console.log(`📋 Counter data:`, { counterVehicleIds, counterCashAmount, counterMessage });
 
       // Determine if current user is the original offerer or receiver
-      const isOriginalOfferer = trade.offererUserId.toString() === req.user.id;
-      const isOriginalReceiver = trade.receiverUserId.toString() === req.user.id;
+      const isOriginalOfferer = role === 'offerer';
+      const isOriginalReceiver = role === 'receiver';
 
       console.log(`👤 User roles:`, { isOriginalOfferer, isOriginalReceiver });
 
-      if (!isOriginalOfferer && !isOriginalReceiver) {
-        console.log(`❌ User not authorized to counter`);
-        return res.status(403).json({ message: 'You are not authorized to counter this trade' });
-      }
-
       // Validate counter vehicles based on who is countering
       if (counterVehicleIds.length > 0) {
         console.log(`🚗 Validating ${counterVehicleIds.length} counter vehicles`);
@@ -550,6 +646,8 @@ router.put('/:id', auth, async (req, res) => {
 
       trade.counterMessage = counterMessage;
       trade.lastCounteredBy = req.user.id; // Set who made the last counter
+      trade.expiresAt = expiresAt;
+      trade.expiryReminderSentAt = undefined;
       console.log(`✅ Counter offer processing complete`);
     }
 
@@ -557,6 +655,7 @@ router.put('/:id', auth, async (req, res) => {
     // Update trade
     trade.status = status;
     trade.updatedAt = new Date();
+    Object.assign(trade, getAcceptanceFlags(trade, event, role));
 
     // Add to trade history
     const historyEntry = {
@@ -572,21 +671,30 @@ router.put('/:id', auth, async (req, res) => {
 
     trade.tradeHistory.push(historyEntry);
 
+    // Declining ends an accepted trade for good
+    if (event === 'decline') {
+      trade.completedAt = new Date();
+    }
+
+    // Apply the change only if nobody else (including the expirer) moved the trade since we read it.
+    // Completing claims the trade inside its own transaction below.
+    if (!sideEffects.includes('transferVehicles')) {
+      const claimed = await Trade.findOneAndUpdate(claimFilter, trade.getChanges(), { new: true });
+      if (!claimed) {
+        console.log(`❌ Trade ${trade._id} changed before it could be ${status}`);
+        return res.status(409).json({ message: `This trade changed before it could be ${status}` });
+      }
+      trade = claimed;
+    }
+
     // If trade is accepted, remove all involved vehicles from listings and mark as in trade
-    if (status === 'accepted') {
+    if (sideEffects.includes('lockVehicles')) {
       console.log(`🔄 Trade ${trade._id} accepted - removing vehicles from listings`);
       
-      // Get all vehicle IDs involved in the trade (including main listing vehicle)
-      const allVehicleIds = [
-        ...trade.offererVehicleIds,
-        ...(trade.receiverVehicleIds || [])
-      ];
-      
-      // Add the main listing vehicle ID
-      if (trade.listingData?.vehicleId) {
-        allVehicleIds.push(trade.listingData.vehicleId.toString());
-        console.log(`🔄 Added main listing vehicle ${trade.listingData.vehicleId} to trade processing`);
-      }
+      // Get all vehicle IDs that will change hands (every requested vehicle plus the offerer's side)
+      const { fromOfferer, fromReceiver } = getTradeTransfers(trade);
+      const allVehicleIds = [...fromOfferer, ...fromReceiver];
+      console.log(`🔄 Trade bundle: ${fromOfferer.length} vehicles from offerer, ${fromReceiver.length} from receiver`);
 
       if (allVehicleIds.length > 0) {
         // Deactivate listings for all involved vehicles (only if they are currently listed)
@@ -615,12 +723,22 @@ router.put('/:id', auth, async (req, res) => {
         console.log(`🔄 Updated ${allVehicleIds.length} vehicles - removed listing flags and marked as in trade`);
       }
 
-      // Cancel all other pending/active trades for this listing since it's now accepted
+    }
+
+    if (sideEffects.includes('cancelOverlappingTrades')) {
+      const { fromOfferer, fromReceiver } = getTradeTransfers(trade);
+      const allVehicleIds = [...fromOfferer, ...fromReceiver];
+
+      // Cancel all other pending/active trades for this listing or any bundled vehicle since they're now taken
       const cancelledTrades = await Trade.updateMany(
         {
-          listingId: trade.listingId,
           _id: { $ne: trade._id },
-          status: { $in: ['pending', 'countered'] }
+          status: { $in: ['pending', 'countered'] },
+          $or: [
+            ...(trade.listingId ? [{ listingId: trade.listingId }] : []),
+            { requestedVehicleIds: { $in: allVehicleIds } },
+            { offererVehicleIds: { $in: allVehicleIds } }
+          ]
         },
         {
           status: 'cancelled',
@@ -629,74 +747,104 @@ router.put('/:id', auth, async (req, res) => {
       );
       
       if (cancelledTrades.modifiedCount > 0) {
-        console.log(`🚫 Cancelled ${cancelledTrades.modifiedCount} other trades for accepted listing ${trade.listingId}`);
+        console.log(`🚫 Cancelled ${cancelledTrades.modifiedCount} other trades involving vehicles in accepted trade ${trade._id}`);
       }
     }
 
     // If trade is completed, transfer vehicle ownership and mark listing as sold
-    if (status === 'completed') {
+    if (sideEffects.includes('transferVehicles')) {
       console.log(`🔄 Completing trade ${trade._id} - transferring ownership`);
-      
-      // 🚗 CRITICAL FIX: Transfer the main listing vehicle to offerer
-      const listingVehicleId = trade.listingData?.vehicleId;
-      if (listingVehicleId) {
-        await Vehicle.updateOne(
-          { _id: listingVehicleId },
-          { 
-            ownerId: trade.offererUserId,
-            isListed: false,
-            isAuctioned: false,
-            listingId: null,
-            isInTrade: false,
-            tradeId: null
+
+      const { fromOfferer, fromReceiver } = getTradeTransfers(trade);
+      const releasedFlags = {
+        isListed: false,
+        isAuctioned: false,
+        listingId: null,
+        isInTrade: false,
+        tradeId: null
+      };
+
+      // Every vehicle moves only if it still belongs to the party giving it up
+      const transfers = [
+        ...fromOfferer.map(vehicleId => ({
+          updateOne: {
+            filter: { _id: vehicleId, ownerId: trade.offererUserId },
+            update: { ...releasedFlags, ownerId: trade.receiverUserId }
           }
-        );
-        console.log(`🔄 ✅ MAIN VEHICLE TRANSFER: Transferred listing vehicle ${listingVehicleId} from receiver to offerer`);
-      }
-      
-      // Transfer offerer's vehicles to receiver
-      if (trade.offererVehicleIds.length > 0) {
-        await Vehicle.updateMany(
-          { _id: { $in: trade.offererVehicleIds } },
-          { 
-            ownerId: trade.receiverUserId,
-            isListed: false,
-            isAuctioned: false,
-            listingId: null,
-            isInTrade: false,
-            tradeId: null
+        })),
+        ...fromReceiver.map(vehicleId => ({
+          updateOne: {
+            filter: { _id: vehicleId, ownerId: trade.receiverUserId },
+            update: { ...releasedFlags, ownerId: trade.offererUserId }
           }
-        );
-        console.log(`🔄 Transferred ${trade.offererVehicleIds.length} vehicles from offerer to receiver`);
-      }
+        }))
+      ];
 
-      // Transfer receiver's counter-offered vehicles to offerer (if any)
-      if (trade.receiverVehicleIds && trade.receiverVehicleIds.length > 0) {
-        await Vehicle.updateMany(
-          { _id: { $in: trade.receiverVehicleIds } },
-          { 
-            ownerId: trade.offererUserId,
-            isListed: false,
-            isAuctioned: false,
-            listingId: null,
-            isInTrade: false,
-            tradeId: null
+      // 🔒 All transfers, the sold listing and the sales ledger commit together or not at all
+      const session = await mongoose.startSession();
+      let completionError = null;
+      try {
+        await session.withTransaction(async () => {
+          // Claim the trade first so a repeated request can't transfer the vehicles twice
+          const claimed = await Trade.updateOne(
+            { _id: trade._id, status: 'accepted' },
+            { status: 'completed', completedAt: new Date(), updatedAt: new Date() },
+            { session }
+          );
+          if (claimed.modifiedCount !== 1) {
+            completionError = 'This trade is no longer waiting to be completed';
+            throw new Error(completionError);
+          }
+
+          if (transfers.length > 0) {
+            const result = await Vehicle.bulkWrite(transfers, { session });
+            if (result.matchedCount !== transfers.length) {
+              completionError = 'Some vehicles in this trade have changed owner - the trade cannot be completed';
+              throw new Error(completionError);
+            }
+          }
+          console.log(`🔄 ✅ Transferred ${fromOfferer.length} vehicles to receiver and ${fromReceiver.length} vehicles to offerer`);
+
+          const offeredVehicles = await Vehicle.find({ _id: { $in: fromOfferer } }).session(session);
+          const offeredValue = offeredVehicles.reduce((sum, v) => sum + (v.customPrice || v.estimatedValue), 0);
+
+          // Mark the original listing as sold
+          const listing = trade.listingId ? await Listing.findById(trade.listingId).session(session) : null;
+          if (listing) {
+            listing.isActive = false;
+            listing.soldAt = new Date();
+            listing.soldTo = trade.offererUserId;
+            listing.soldPrice = trade.offererCashAmount + offeredValue;
+            await listing.save({ session });
+            console.log(`✅ Marked listing ${listing._id} as sold due to completed trade ${trade._id}`);
           }
-        );
-        console.log(`🔄 Transferred ${trade.receiverVehicleIds.length} counter-offered vehicles from receiver to offerer`);
-      }
 
-      // Mark the original listing as sold
-      const listing = await Listing.findById(trade.listingId);
-      if (listing) {
-        listing.isActive = false;
-        listing.soldAt = new Date();
-        listing.soldTo = trade.offererUserId;
-        listing.soldPrice = trade.offererCashAmount + 
-          (await Vehicle.find({ _id: { $in: trade.offererVehicleIds } }))
-            .reduce((sum, v) => sum + (v.customPrice || v.estimatedValue), 0);
-        await listing.save();
-        console.log(`✅ Marked listing ${listing._id} as sold due to completed trade ${trade._id}`);
+          // 💰 Record every vehicle the receiver gave up in the sales ledger
+          const receivedVehicles = await Vehicle.find({ _id: { $in: fromReceiver } }).session(session);
+          if (receivedVehicles.length > 0) {
+            await Sale.insertMany(receivedVehicles.map(vehicle => {
+              const isListingVehicle = listing && listing.vehicleId.toString() === vehicle._id.toString();
+              return {
+                sellerId: trade.receiverUserId,
+                buyerId: trade.offererUserId,
+                vehicleId: vehicle._id,
+                listingId: isListingVehicle ? listing._id : undefined,
+                tradeId: trade._id,
+                type: 'trade',
+                finalPrice: isListingVehicle ? listing.soldPrice : (vehicle.customPrice || vehicle.estimatedValue || 0),
+                completedAt: new Date()
+              };
+            }), { session });
+          }
+        });
+      } catch (error) {
+        if (completionError) {
+          console.log(`❌ Trade ${trade._id} completion aborted: ${completionError}`);
+          return res.status(409).json({ message: completionError });
+        }
+        throw error;
+      } finally {
+        await session.endSession();
       }
 
       trade.completedAt = new Date();
@@ -712,6 +860,7 @@ router.put('/:id', auth, async (req, res) => {
           .populate('listingId')
           .populate('offererVehicleIds')
           .populate('receiverVehicleIds')
+          .populate('requestedVehicleIds')
           .lean();
 
         const completedTradeWithId = {
@@ -732,8 +881,18 @@ router.put('/:id', auth, async (req, res) => {
       }
     }
 
-    // If trade is cancelled, handle same as rejected (keep vehicles listed)
-    if (status === 'cancelled') {
+    // Rejected, cancelled and declined trades clear trade flags so the vehicles can be relisted
+    if (sideEffects.includes('releaseVehicles')) {
+      console.log(`🔄 Trade ${trade._id} ${status} - clearing trade flags from vehicles`);
+      
+      const releasedCount = await releaseTradeVehicles(trade);
+      if (releasedCount > 0) {
+        console.log(`🔄 Cleared trade flags from ${releasedCount} vehicles - they can now be relisted`);
+      }
+    }
+
+    // If trade is cancelled, skip the broadcast (vehicles remain in their current state for relisting)
+    if (event === 'cancel') {
       console.log(`✅ Trade ${trade._id} cancelled - vehicles remain in their current state for relisting`);
       
       await trade.save();
@@ -754,56 +913,6 @@ router.put('/:id', auth, async (req, res) => {
       return res.json(tradeWithId);
     }
 
-    // Handle declined trades - mark as declined and restore vehicle availability
-    if (status === 'declined') {
-      console.log(`🔄 Trade ${trade._id} declined - restoring vehicle availability`);
-        
-      // Get all vehicle IDs involved in the trade
-      const allVehicleIds = [
-        ...trade.offererVehicleIds,
-        ...(trade.receiverVehicleIds || [])
-      ];
-
-      if (allVehicleIds.length > 0) {
-        // Clear trade flags from vehicles - they can now be relisted
-        await Vehicle.updateMany(
-          { _id: { $in: allVehicleIds } },
-          { 
-            isInTrade: false,
-            tradeId: null
-          }
-        );
-        console.log(`🔄 Cleared trade flags from ${allVehicleIds.length} vehicles - they can now be relisted`);
-      }
-
-      trade.completedAt = new Date();
-    }
-
-    // For rejected and cancelled trades, also clear trade flags
-    if (['rejected', 'cancelled'].includes(status)) {
-      console.log(`🔄 Trade ${trade._id} ${status} - clearing trade flags from vehicles`);
-      
-      // Get all vehicle IDs involved in the trade
-      const allVehicleIds = [
-        ...trade.offererVehicleIds,
-        ...(trade.receiverVehicleIds || [])
-      ];
-
-      if (allVehicleIds.length > 0) {
-        // Clear trade flags from vehicles - they can now be relisted
-        await Vehicle.updateMany(
-          { _id: { $in: allVehicleIds } },
-          { 
-            isInTrade: false,
-            tradeId: null
-          }
-        );
-        console.log(`🔄 Cleared trade flags from ${allVehicleIds.length} vehicles - they can now be relisted`);
-    }
-    }
-
-
-
     console.log(`💾 Saving trade to database...`);
     await trade.save();
     console.log(`✅ Trade saved successfully`);
@@ -833,6 +942,7 @@ router.put('/:id', auth, async (req, res) => {
         .populate('listingId')
         .populate('offererVehicleIds')
         .populate('receiverVehicleIds')
+        .populate('requestedVehicleIds')
         .lean();
 
       const fullTradeWithId = {
@@ -860,6 +970,101 @@ router.put('/:id', auth, async (req, res) => {
   }
 });
 
+// Confirm one hand-over step on an accepted trade (title, keys, cash, inspection)
+router.post('/:id/checklist', auth, async (req, res) => {
+  try {
+    const { item } = req.body;
+    const trade = await Trade.findById(req.params.id);
+
+    if (!trade) {
+      return res.status(404).json({ message: 'Trade not found' });
+    }
+
+    const role = getTradeRole(trade, req.user.id);
+    if (!role) {
+      return res.status(403).json({ message: 'Only parties involved in the trade can confirm checklist items' });
+    }
+
+    if (trade.status !== 'accepted') {
+      return res.status(400).json({ message: 'Checklist items can only be confirmed on an accepted trade' });
+    }
+
+    // Each side only ticks off the steps that are theirs to confirm
+    if (!getChecklistItems(trade, role).includes(item)) {
+      return res.status(400).json({ message: 'That checklist item is not yours to confirm on this trade' });
+    }
+
+    if (isChecklistItemConfirmed(trade, role, item)) {
+      return res.status(400).json({ message: 'You already confirmed this checklist item' });
+    }
+
+    // The filter re-checks the confirmation in the same write, so a double submit can't record it twice
+    const confirmedAt = new Date();
+    const { modifiedCount } = await Trade.updateOne(
+      {
+        _id: trade._id,
+        status: 'accepted',
+        completionChecklist: { $not: { $elemMatch: { role, item } } }
+      },
+      {
+        $push: {
+          completionChecklist: { role, item, userId: req.user.id, confirmedAt },
+          tradeHistory: {
+            action: 'checklist_confirmed',
+            userId: req.user.id,
+            timestamp: confirmedAt,
+            checklistItem: item,
+            offererCashAmount: trade.offererCashAmount,
+            offererVehicleIds: trade.offererVehicleIds,
+            receiverCashAmount: trade.receiverCashAmount,
+            receiverVehicleIds: trade.receiverVehicleIds,
+            requestedVehicleIds: trade.requestedVehicleIds
+          }
+        }
+      }
+    );
+
+    if (modifiedCount === 0) {
+      return res.status(400).json({ message: 'You already confirmed this checklist item' });
+    }
+
+    console.log(`☑️ ${role} confirmed ${item} on trade ${trade._id}`);
+
+    const populatedTrade = await Trade.findById(trade._id)
+      .populate('offererUserId', 'username email avatar rating reviewCount')
+      .populate('receiverUserId', 'username email avatar rating reviewCount')
+      .populate('listingId')
+      .populate('offererVehicleIds')
+      .populate('receiverVehicleIds')
+      .populate('requestedVehicleIds')
+      .lean();
+
+    const tradeWithId = {
+      ...populatedTrade,
+      id: populatedTrade._id.toString(),
+      _id: undefined
+    };
+
+    // 🔗 WEBSOCKET: Both parties watch the checklist fill up
+    if (req.app.locals.webSocket) {
+      const socket = req.app.locals.webSocket;
+      socket.broadcastToUser(trade.offererUserId.toString(), {
+        type: 'TRADE_UPDATED',
+        data: tradeWithId
+      });
+      socket.broadcastToUser(trade.receiverUserId.toString(), {
+        type: 'TRADE_UPDATED',
+        data: tradeWithId
+      });
+    }
+
+    res.json(tradeWithId);
+  } catch (error) {
+    console.error('Error confirming checklist item:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
 // Delete a trade (by either party if pending/countered)
 router.delete('/:id', auth, async (req, res) => {
   try {
@@ -0,0 +1,95 @@
+const express = require('express');
+const cloudinary = require('cloudinary').v2;
+const auth = require('../middleware/auth');
+
+const router = express.Router();
+
+cloudinary.config({
+  cloud_name: process.env.CLOUDINARY_CLOUD_NAME,
+  api_key: process.env.CLOUDINARY_API_KEY,
+  api_secret: process.env.CLOUDINARY_API_SECRET
+});
+
+// PDFs arrive base64 encoded inside the JSON body, which is capped at 10mb
+const MAX_DOCUMENT_BYTES = 5 * 1024 * 1024;
+
+const IMAGE_DATA_URL = /^data:image\/(png|jpe?g|gif|webp|heic|heif);base64,/;
+const PDF_DATA_URL = /^data:application\/pdf;base64,/;
+
+// Folders are client-chosen, so keep them to a single plain segment
+const sanitizeFolder = (folder, fallback) =>
+  typeof folder === 'string' && /^[a-z0-9-]{1,40}$/i.test(folder) ? folder : fallback;
+
+const isConfigured = () => !!(
+  process.env.CLOUDINARY_CLOUD_NAME &&
+  process.env.CLOUDINARY_API_KEY &&
+  process.env.CLOUDINARY_API_SECRET
+);
+
+// @route   POST /api/upload/image
+// @desc    Upload a base64 image and get back its hosted URL
+// @access  Private
+router.post('/image', auth, async (req, res) => {
+  try {
+    const { image, folder } = req.body;
+
+    if (!isConfigured()) {
+      return res.status(503).json({ error: 'Uploads are not configured on this server' });
+    }
+
+    if (typeof image !== 'string' || !IMAGE_DATA_URL.test(image)) {
+      return res.status(400).json({ error: 'A base64 encoded image is required' });
+    }
+
+    const result = await cloudinary.uploader.upload(image, {
+      folder: sanitizeFolder(folder, 'cartrade'),
+      resource_type: 'image'
+    });
+
+    console.log(`🖼️ Image uploaded by ${req.user.username}: ${result.public_id}`);
+
+    res.json({ url: result.secure_url });
+
+  } catch (error) {
+    console.error('Image upload error:', error);
+    res.status(500).json({ error: 'Failed to upload image' });
+  }
+});
+
+// @route   POST /api/upload/document
+// @desc    Upload a base64 PDF and get back its hosted URL
+// @access  Private
+router.post('/document', auth, async (req, res) => {
+  try {
+    const { document, folder } = req.body;
+
+    if (!isConfigured()) {
+      return res.status(503).json({ error: 'Uploads are not configured on this server' });
+    }
+
+    if (typeof document !== 'string' || !PDF_DATA_URL.test(document)) {
+      return res.status(400).json({ error: 'A base64 encoded PDF is required' });
+    }
+
+    const size = Buffer.byteLength(document.replace(PDF_DATA_URL, ''), 'base64');
+    if (size > MAX_DOCUMENT_BYTES) {
+      return res.status(400).json({ error: `Documents must be ${MAX_DOCUMENT_BYTES / 1024 / 1024}MB or smaller` });
+    }
+
+    // 'raw' keeps the PDF as-is instead of rasterising it into an image
+    const result = await cloudinary.uploader.upload(document, {
+      folder: sanitizeFolder(folder, 'documents'),
+      resource_type: 'raw'
+    });
+
+    console.log(`📄 Document uploaded by ${req.user.username}: ${result.public_id}`);
+
+    res.json({ url: result.secure_url, size });
+
+  } catch (error) {
+    console.error('Document upload error:', error);
+    res.status(500).json({ error: 'Failed to upload document' });
+  }
+});
+
+module.exports = router;
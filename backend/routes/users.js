@@ -62,6 +62,183 @@ router.post('/batch', async (req, res) => {
   }
 });
 
+// Saved searches are capped to keep LISTING_ADDED matching cheap on the client
+const MAX_SAVED_SEARCHES = 20;
+
+// @route   GET /api/users/me/saved-searches
+// @desc    Get current user's saved listing searches
+// @access  Private
+router.get('/me/saved-searches', auth, async (req, res) => {
+  try {
+    const user = await User.findById(req.user._id).select('+savedSearches');
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    res.json(user.savedSearches);
+  } catch (error) {
+    console.error('Get saved searches error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   POST /api/users/me/saved-searches
+// @desc    Save a named listing search
+// @access  Private
+router.post('/me/saved-searches', auth, async (req, res) => {
+  try {
+    const { name, searchTerm, make, minPrice, maxPrice, minYear, maxYear, maxMileage, transmission, sortBy } = req.body;
+
+    if (!name || !name.trim()) {
+      return res.status(400).json({ error: 'Saved search name is required' });
+    }
+
+    const user = await User.findById(req.user._id).select('+savedSearches');
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    if (user.savedSearches.length >= MAX_SAVED_SEARCHES) {
+      return res.status(400).json({ error: `You can save up to ${MAX_SAVED_SEARCHES} searches` });
+    }
+
+    if (user.savedSearches.some(search => search.name.toLowerCase() === name.trim().toLowerCase())) {
+      return res.status(400).json({ error: 'A saved search with this name already exists' });
+    }
+
+    user.savedSearches.push({ name, searchTerm, make, minPrice, maxPrice, minYear, maxYear, maxMileage, transmission, sortBy });
+    await user.save();
+
+    res.status(201).json(user.savedSearches[user.savedSearches.length - 1]);
+  } catch (error) {
+    console.error('Create saved search error:', error);
+
+    if (error.name === 'ValidationError') {
+      const messages = Object.values(error.errors).map(val => val.message);
+      return res.status(400).json({ error: messages.join('. ') });
+    }
+
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   DELETE /api/users/me/saved-searches/:searchId
+// @desc    Delete a saved listing search
+// @access  Private
+router.delete('/me/saved-searches/:searchId', auth, async (req, res) => {
+  try {
+    const user = await User.findById(req.user._id).select('+savedSearches');
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const search = user.savedSearches.id(req.params.searchId);
+    if (!search) {
+      return res.status(404).json({ error: 'Saved search not found' });
+    }
+
+    search.deleteOne();
+    await user.save();
+
+    res.json({ message: 'Saved search deleted successfully' });
+  } catch (error) {
+    console.error('Delete saved search error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// Maps watchlist item types in the URL to their User fields
+const WATCHLIST_FIELDS = {
+  listing: 'watchedListings',
+  auction: 'watchedAuctions'
+};
+
+const formatWatchlist = (user) => ({
+  listingIds: user.watchedListings || [],
+  auctionIds: user.watchedAuctions || []
+});
+
+// @route   GET /api/users/me/watchlist
+// @desc    Get current user's watched listings and auctions
+// @access  Private
+router.get('/me/watchlist', auth, async (req, res) => {
+  try {
+    const user = await User.findById(req.user._id).select('+watchedListings +watchedAuctions');
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    res.json(formatWatchlist(user));
+  } catch (error) {
+    console.error('Get watchlist error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   POST /api/users/me/watchlist/:type/:itemId
+// @desc    Watch a listing or auction
+// @access  Private
+router.post('/me/watchlist/:type/:itemId', auth, async (req, res) => {
+  try {
+    const field = WATCHLIST_FIELDS[req.params.type];
+    if (!field) {
+      return res.status(400).json({ error: 'Watchlist type must be listing or auction' });
+    }
+
+    const user = await User.findByIdAndUpdate(
+      req.user._id,
+      { $addToSet: { [field]: req.params.itemId } },
+      { new: true }
+    ).select('+watchedListings +watchedAuctions');
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    res.json(formatWatchlist(user));
+  } catch (error) {
+    console.error('Add to watchlist error:', error);
+
+    if (error.name === 'CastError') {
+      return res.status(400).json({ error: 'Invalid item ID' });
+    }
+
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   DELETE /api/users/me/watchlist/:type/:itemId
+// @desc    Stop watching a listing or auction
+// @access  Private
+router.delete('/me/watchlist/:type/:itemId', auth, async (req, res) => {
+  try {
+    const field = WATCHLIST_FIELDS[req.params.type];
+    if (!field) {
+      return res.status(400).json({ error: 'Watchlist type must be listing or auction' });
+    }
+
+    const user = await User.findByIdAndUpdate(
+      req.user._id,
+      { $pull: { [field]: req.params.itemId } },
+      { new: true }
+    ).select('+watchedListings +watchedAuctions');
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    res.json(formatWatchlist(user));
+  } catch (error) {
+    console.error('Remove from watchlist error:', error);
+
+    if (error.name === 'CastError') {
+      return res.status(400).json({ error: 'Invalid item ID' });
+    }
+
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
 // @route   GET /api/users/:id
 // @desc    Get user profile by ID
 // @access  Public
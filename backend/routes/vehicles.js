@@ -2,9 +2,35 @@ const express = require('express');
 const Vehicle = require('../models/Vehicle');
 const Listing = require('../models/Listing');
 const auth = require('../middleware/auth');
+const { normalizeVin, validateVin } = require('../utils/vin');
+const { releaseVinClaim } = require('../services/vinClaims');
 
 const router = express.Router();
 
+// A VIN identifies one physical car, so it may only be claimed by one active garage.
+// Returns the vehicle already holding this VIN, if any.
+async function findVinConflict(vin, excludeVehicleId) {
+  const query = { vin, vinClaimed: true };
+  if (excludeVehicleId) {
+    query._id = { $ne: excludeVehicleId };
+  }
+
+  const vehicle = await Vehicle.findOne(query).populate('ownerId', 'isActive');
+  if (!vehicle || (vehicle.ownerId && vehicle.ownerId.isActive !== false)) {
+    return vehicle;
+  }
+
+  // A deleted or deactivated owner doesn't hold the VIN; release it so the unique index agrees
+  await releaseVinClaim(vehicle._id);
+  return null;
+}
+
+function vinConflictError(conflict, userId) {
+  return conflict.ownerId._id.equals(userId)
+    ? 'Vehicle with this VIN already exists in your garage'
+    : 'This VIN is already registered to a vehicle in another garage';
+}
+
 // @route   GET /api/vehicles
 // @desc    Get user's vehicles (garage)
 // @access  Private
@@ -88,14 +114,16 @@ router.post('/', auth, async (req, res) => {
       return res.status(400).json({ error: 'All required fields must be provided' });
     }
 
-    // Check if VIN already exists for this user
-    const existingVehicle = await Vehicle.findOne({ 
-      vin: vin.toUpperCase(), 
-      ownerId: req.user._id 
-    });
+    const vinValidation = validateVin(vin);
+    if (!vinValidation.valid) {
+      return res.status(400).json({ error: vinValidation.error });
+    }
+
+    // Check if VIN is already in this or another garage
+    const existingVehicle = await findVinConflict(normalizeVin(vin));
 
     if (existingVehicle) {
-      return res.status(400).json({ error: 'Vehicle with this VIN already exists in your garage' });
+      return res.status(409).json({ error: vinConflictError(existingVehicle, req.user._id) });
     }
 
     const vehicle = new Vehicle({
@@ -103,7 +131,7 @@ router.post('/', auth, async (req, res) => {
       make,
       model,
       year,
-      vin: vin.toUpperCase(),
+      vin: normalizeVin(vin),
       mileage,
       transmission,
       estimatedValue,
@@ -132,6 +160,11 @@ router.post('/', auth, async (req, res) => {
       const messages = Object.values(error.errors).map(val => val.message);
       return res.status(400).json({ error: messages.join('. ') });
     }
+
+    // Another save claimed the VIN between the conflict check and this write
+    if (error.code === 11000 && error.keyPattern && error.keyPattern.vin) {
+      return res.status(409).json({ error: 'This VIN is already registered to another vehicle' });
+    }
     
     res.status(500).json({ error: 'Server error' });
   }
@@ -153,16 +186,17 @@ router.put('/:id', auth, async (req, res) => {
       return res.status(404).json({ error: 'Vehicle not found' });
     }
 
-    // If VIN is being changed, check for duplicates
-    if (vin && vin.toUpperCase() !== vehicle.vin) {
-      const existingVehicle = await Vehicle.findOne({ 
-        vin: vin.toUpperCase(), 
-        ownerId: req.user._id,
-        _id: { $ne: req.params.id }
-      });
+    // If VIN is being changed, validate it and check for duplicates
+    if (vin && normalizeVin(vin) !== vehicle.vin) {
+      const vinValidation = validateVin(vin);
+      if (!vinValidation.valid) {
+        return res.status(400).json({ error: vinValidation.error });
+      }
+
+      const existingVehicle = await findVinConflict(normalizeVin(vin), req.params.id);
 
       if (existingVehicle) {
-        return res.status(400).json({ error: 'Vehicle with this VIN already exists in your garage' });
+        return res.status(409).json({ error: vinConflictError(existingVehicle, req.user._id) });
       }
     }
 
@@ -173,7 +207,10 @@ router.put('/:id', auth, async (req, res) => {
     if (make) vehicle.make = make;
     if (model) vehicle.model = model;
     if (year) vehicle.year = year;
-    if (vin) vehicle.vin = vin.toUpperCase();
+    if (vin && normalizeVin(vin) !== vehicle.vin) {
+      vehicle.vin = normalizeVin(vin);
+      vehicle.vinClaimed = true; // Passed the conflict check above, so it holds the new VIN
+    }
     if (mileage !== undefined) vehicle.mileage = mileage;
     if (transmission) vehicle.transmission = transmission;
     if (estimatedValue !== undefined) vehicle.estimatedValue = estimatedValue;
@@ -221,6 +258,11 @@ router.put('/:id', auth, async (req, res) => {
       const messages = Object.values(error.errors).map(val => val.message);
       return res.status(400).json({ error: messages.join('. ') });
     }
+
+    // Another save claimed the VIN between the conflict check and this write
+    if (error.code === 11000 && error.keyPattern && error.keyPattern.vin) {
+      return res.status(409).json({ error: 'This VIN is already registered to another vehicle' });
+    }
     
     res.status(500).json({ error: 'Server error' });
   }
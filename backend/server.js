@@ -15,6 +15,16 @@ const userRoutes = require('./routes/users');
 const tradeRoutes = require('./routes/trades');
 const messageRoutes = require('./routes/messages');
 const reviewRoutes = require('./routes/reviews');
+const auctionRoutes = require('./routes/auctions');
+const saleRoutes = require('./routes/sales');
+const offerRoutes = require('./routes/offers');
+const adminRoutes = require('./routes/admin');
+const uploadRoutes = require('./routes/upload');
+const { startAuctionCloser } = require('./services/auctionCloser');
+const { startTradeExpirer } = require('./services/tradeExpirer');
+const { startOfferExpirer } = require('./services/offerExpirer');
+const { markMessagesDelivered } = require('./services/messageReceipts');
+const { migrateVinClaims } = require('./services/vinClaims');
 
 const app = express();
 const server = http.createServer(app);
@@ -64,6 +74,10 @@ wss.on('connection', (ws, req) => {
   }
   activeConnections.get(userId).add(ws);
 
+  // Anything sent while they were offline has now reached them
+  markMessagesDelivered(userId, app.locals.webSocket)
+    .catch(error => console.error('❌ Error marking messages delivered:', error));
+
   // Handle incoming messages
   ws.on('message', (data) => {
     try {
@@ -170,6 +184,18 @@ app.locals.webSocket = {
 // Connect to MongoDB
 connectDB();
 
+// Resolve VINs shared between garages by older releases and build the unique VIN index
+migrateVinClaims();
+
+// Settle auctions once their end time passes
+startAuctionCloser(app.locals.webSocket);
+
+// Expire trade offers past their deadline and remind both parties beforehand
+startTradeExpirer(app.locals.webSocket);
+
+// Expire listing offers whose price has lapsed
+startOfferExpirer(app.locals.webSocket);
+
 // Performance middleware
 // app.use(compression()); // Compress responses
 
@@ -223,6 +249,11 @@ app.use('/api/users', userRoutes);
 app.use('/api/trades', tradeRoutes);
 app.use('/api/messages', messageRoutes);
 app.use('/api/reviews', reviewRoutes);
+app.use('/api/auctions', auctionRoutes);
+app.use('/api/sales', saleRoutes);
+app.use('/api/offers', offerRoutes);
+app.use('/api/admin', adminRoutes);
+app.use('/api/upload', uploadRoutes);
 
 // Health check endpoint
 app.get('/api/health', (req, res) => {
@@ -0,0 +1,142 @@
+const Auction = require('../models/Auction');
+const Vehicle = require('../models/Vehicle');
+const Sale = require('../models/Sale');
+
+// How often to sweep for auctions past their end time
+const CLOSE_INTERVAL_MS = 30 * 1000;
+
+const AUCTION_POPULATE = [
+  { path: 'vehicleId' },
+  { path: 'sellerId', select: 'username firstName lastName rating reviewCount location avatar' },
+  { path: 'bids.bidderId', select: 'username avatar' }
+];
+
+// Settle an auction: decide the outcome, hand the vehicle over and record the sale.
+// Passing buyerId settles immediately at the buy-now price.
+async function settleAuction(auctionId, webSocket, { buyerId } = {}) {
+  // Claim the auction atomically so the closer and buy-now can't both settle it.
+  // status stays 'active' until the save below, so the claim has to match on the flag it flips.
+  const claim = { _id: auctionId, status: 'active', isActive: true };
+  if (!buyerId) {
+    // A soft-close bid may have pushed endTime out since the closer found this auction
+    claim.endTime = { $lte: new Date() };
+  }
+
+  const auction = await Auction.findOneAndUpdate(
+    claim,
+    // Bumping the version makes a bid loaded before the claim fail its save and re-check
+    { $set: { isActive: false }, $inc: { __v: 1 } },
+    { new: true }
+  );
+
+  if (!auction) {
+    return null;
+  }
+
+  let winnerId = null;
+  let finalPrice = null;
+
+  if (buyerId) {
+    winnerId = buyerId;
+    finalPrice = auction.buyNowPrice;
+  } else if (auction.bids.length > 0 && auction.reserveMet) {
+    winnerId = auction.highestBidderId;
+    finalPrice = auction.currentBid;
+  }
+
+  auction.completedAt = new Date();
+
+  if (winnerId) {
+    auction.status = 'completed';
+    auction.winnerId = winnerId;
+    auction.finalPrice = finalPrice;
+    if (buyerId) {
+      auction.endTime = auction.completedAt;
+    }
+  } else {
+    auction.status = 'failed';
+  }
+
+  await auction.save();
+
+  if (winnerId) {
+    // 🚗 Transfer the vehicle to the winner
+    await Vehicle.updateOne(
+      { _id: auction.vehicleId },
+      {
+        ownerId: winnerId,
+        isListed: false,
+        isAuctioned: false,
+        listingId: null,
+        auctionId: null,
+        isInTrade: false,
+        tradeId: null
+      }
+    );
+
+    await Sale.create({
+      sellerId: auction.sellerId,
+      buyerId: winnerId,
+      vehicleId: auction.vehicleId,
+      auctionId: auction._id,
+      type: 'auction',
+      finalPrice,
+      completedAt: auction.completedAt
+    });
+
+    console.log(`🔨 ✅ Auction ${auction._id} sold to ${winnerId} for $${finalPrice}`);
+  } else {
+    // Reserve not met or no bids - the seller keeps the vehicle
+    await Vehicle.updateOne(
+      { _id: auction.vehicleId },
+      { isAuctioned: false, auctionId: null }
+    );
+
+    console.log(`🔨 ❌ Auction ${auction._id} closed without a sale`);
+  }
+
+  await auction.populate(AUCTION_POPULATE);
+
+  // 🔗 WEBSOCKET: Tell everyone the auction is over
+  if (webSocket) {
+    webSocket.broadcastToAll({
+      type: 'AUCTION_ENDED',
+      data: auction,
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  return auction;
+}
+
+// Periodically close auctions whose end time has passed
+function startAuctionCloser(webSocket) {
+  const closeExpiredAuctions = async () => {
+    try {
+      const expired = await Auction.find({
+        status: 'active',
+        isActive: true,
+        endTime: { $lte: new Date() }
+      }).select('_id');
+
+      for (const { _id } of expired) {
+        await settleAuction(_id, webSocket);
+      }
+
+      if (expired.length > 0) {
+        console.log(`🔨 Closed ${expired.length} expired auction(s)`);
+      }
+    } catch (error) {
+      console.error('❌ Auction closer error:', error);
+    }
+  };
+
+  closeExpiredAuctions();
+  return setInterval(closeExpiredAuctions, CLOSE_INTERVAL_MS);
+}
+
+module.exports = {
+  AUCTION_POPULATE,
+  settleAuction,
+  startAuctionCloser
+};
@@ -0,0 +1,221 @@
+const Vehicle = require('../models/Vehicle');
+const Listing = require('../models/Listing');
+const Trade = require('../models/Trade');
+const Auction = require('../models/Auction');
+
+// Statuses in which a trade may still hold its vehicles
+const ACTIVE_TRADE_STATUSES = ['pending', 'accepted', 'pending_acceptance', 'countered'];
+
+// One reason code per kind of inconsistency; the admin view groups problems by these
+const INTEGRITY_CODES = {
+  VEHICLE_IN_TRADE_WITHOUT_ACTIVE_TRADE: 'VEHICLE_IN_TRADE_WITHOUT_ACTIVE_TRADE',
+  VEHICLE_LISTED_WITHOUT_ACTIVE_LISTING: 'VEHICLE_LISTED_WITHOUT_ACTIVE_LISTING',
+  VEHICLE_AUCTIONED_WITHOUT_ACTIVE_AUCTION: 'VEHICLE_AUCTIONED_WITHOUT_ACTIVE_AUCTION',
+  LISTING_VEHICLE_MISSING: 'LISTING_VEHICLE_MISSING',
+  TRADE_LISTING_MISSING: 'TRADE_LISTING_MISSING'
+};
+
+const idSet = (docs, key = '_id') => new Set(docs.map(doc => doc[key] && doc[key].toString()));
+
+const describeVehicle = (vehicle) => `${vehicle.year} ${vehicle.make} ${vehicle.model}`;
+
+// Each check finds its problems and knows how to repair one.
+// Repairs re-check their condition in the update filter, so running them twice changes nothing.
+const CHECKS = [
+  {
+    code: INTEGRITY_CODES.VEHICLE_IN_TRADE_WITHOUT_ACTIVE_TRADE,
+    async find() {
+      const vehicles = await Vehicle.find({ isInTrade: true }).select('_id tradeId make model year').lean();
+      const activeTrades = await Trade.find({
+        _id: { $in: vehicles.map(vehicle => vehicle.tradeId).filter(Boolean) },
+        status: { $in: ACTIVE_TRADE_STATUSES }
+      }).select('_id').lean();
+      const activeTradeIds = idSet(activeTrades);
+
+      return vehicles
+        .filter(vehicle => !vehicle.tradeId || !activeTradeIds.has(vehicle.tradeId.toString()))
+        .map(vehicle => ({
+          entity: 'vehicle',
+          entityId: vehicle._id.toString(),
+          reason: vehicle.tradeId
+            ? `${describeVehicle(vehicle)} is marked in trade ${vehicle.tradeId}, which is missing or no longer active`
+            : `${describeVehicle(vehicle)} is marked in a trade but points at none`,
+          tradeId: vehicle.tradeId || null
+        }));
+    },
+    async repair(problem) {
+      const result = await Vehicle.updateOne(
+        { _id: problem.entityId, isInTrade: true, tradeId: problem.tradeId },
+        { isInTrade: false, tradeId: null }
+      );
+      return result.modifiedCount > 0;
+    }
+  },
+  {
+    code: INTEGRITY_CODES.VEHICLE_LISTED_WITHOUT_ACTIVE_LISTING,
+    async find() {
+      const vehicles = await Vehicle.find({ isListed: true }).select('_id make model year').lean();
+      const activeListings = await Listing.find({
+        vehicleId: { $in: vehicles.map(vehicle => vehicle._id) },
+        isActive: true
+      }).select('vehicleId').lean();
+      const listedVehicleIds = idSet(activeListings, 'vehicleId');
+
+      return vehicles
+        .filter(vehicle => !listedVehicleIds.has(vehicle._id.toString()))
+        .map(vehicle => ({
+          entity: 'vehicle',
+          entityId: vehicle._id.toString(),
+          reason: `${describeVehicle(vehicle)} is marked listed but has no active listing`
+        }));
+    },
+    async repair(problem) {
+      const activeListing = await Listing.exists({ vehicleId: problem.entityId, isActive: true });
+      if (activeListing) return false;
+
+      const result = await Vehicle.updateOne(
+        { _id: problem.entityId, isListed: true },
+        { isListed: false, listingId: null }
+      );
+      return result.modifiedCount > 0;
+    }
+  },
+  {
+    code: INTEGRITY_CODES.VEHICLE_AUCTIONED_WITHOUT_ACTIVE_AUCTION,
+    async find() {
+      const vehicles = await Vehicle.find({ isAuctioned: true }).select('_id make model year').lean();
+      const activeAuctions = await Auction.find({
+        vehicleId: { $in: vehicles.map(vehicle => vehicle._id) },
+        status: 'active'
+      }).select('vehicleId').lean();
+      const auctionedVehicleIds = idSet(activeAuctions, 'vehicleId');
+
+      return vehicles
+        .filter(vehicle => !auctionedVehicleIds.has(vehicle._id.toString()))
+        .map(vehicle => ({
+          entity: 'vehicle',
+          entityId: vehicle._id.toString(),
+          reason: `${describeVehicle(vehicle)} is marked auctioned but has no active auction`
+        }));
+    },
+    async repair(problem) {
+      const activeAuction = await Auction.exists({ vehicleId: problem.entityId, status: 'active' });
+      if (activeAuction) return false;
+
+      const result = await Vehicle.updateOne(
+        { _id: problem.entityId, isAuctioned: true },
+        { isAuctioned: false, auctionId: null }
+      );
+      return result.modifiedCount > 0;
+    }
+  },
+  {
+    code: INTEGRITY_CODES.LISTING_VEHICLE_MISSING,
+    async find() {
+      const listings = await Listing.find({ isActive: true }).select('_id vehicleId title').lean();
+      const vehicles = await Vehicle.find({
+        _id: { $in: listings.map(listing => listing.vehicleId).filter(Boolean) }
+      }).select('_id').lean();
+      const existingVehicleIds = idSet(vehicles);
+
+      return listings
+        .filter(listing => !listing.vehicleId || !existingVehicleIds.has(listing.vehicleId.toString()))
+        .map(listing => ({
+          entity: 'listing',
+          entityId: listing._id.toString(),
+          reason: `Active listing "${listing.title}" points at vehicle ${listing.vehicleId}, which no longer exists`
+        }));
+    },
+    async repair(problem) {
+      // Deactivate rather than delete: sales and trades may still reference the listing
+      const result = await Listing.updateOne(
+        { _id: problem.entityId, isActive: true },
+        { isActive: false, deactivatedAt: new Date(), deactivatedReason: 'Vehicle no longer exists' }
+      );
+      return result.modifiedCount > 0;
+    }
+  },
+  {
+    code: INTEGRITY_CODES.TRADE_LISTING_MISSING,
+    async find() {
+      const trades = await Trade.find({ listingId: { $ne: null } })
+        .select('_id listingId status requestedVehicleIds')
+        .lean();
+      const listings = await Listing.find({ _id: { $in: trades.map(trade => trade.listingId) } }).select('_id').lean();
+      const existingListingIds = idSet(listings);
+
+      return trades
+        .filter(trade => !existingListingIds.has(trade.listingId.toString()))
+        .map(trade => ({
+          entity: 'trade',
+          entityId: trade._id.toString(),
+          reason: `${trade.status} trade points at listing ${trade.listingId}, which was deleted`,
+          listingId: trade.listingId.toString(),
+          // Trades that still name the vehicles they ask for survive as bundle trades
+          keepAsBundle: (trade.requestedVehicleIds || []).length > 0
+        }));
+    },
+    async repair(problem) {
+      const listingStillMissing = !(await Listing.exists({ _id: problem.listingId }));
+      if (!listingStillMissing) return false;
+
+      if (problem.keepAsBundle) {
+        const result = await Trade.updateOne(
+          { _id: problem.entityId, listingId: problem.listingId },
+          { $unset: { listingId: 1 } }
+        );
+        return result.modifiedCount > 0;
+      }
+
+      // Nothing left to trade for: free anything it locked and remove it, as loading trades already does
+      await Vehicle.updateMany({ tradeId: problem.entityId }, { isInTrade: false, tradeId: null });
+      const result = await Trade.deleteOne({ _id: problem.entityId, listingId: problem.listingId });
+      return result.deletedCount > 0;
+    }
+  }
+];
+
+/**
+ * Look for data that disagrees with itself and optionally repair it.
+ * @param {Object} options
+ * @param {boolean} options.dryRun - Report only; nothing is written.
+ * @returns {Promise<Object>} - Every problem with its reason code, and counts per code.
+ */
+async function runIntegrityCheck({ dryRun = true } = {}) {
+  const problems = [];
+
+  for (const check of CHECKS) {
+    const found = await check.find();
+
+    for (const problem of found) {
+      const repaired = dryRun ? false : await check.repair(problem);
+      problems.push({
+        code: check.code,
+        entity: problem.entity,
+        entityId: problem.entityId,
+        reason: problem.reason,
+        repaired
+      });
+    }
+  }
+
+  const counts = Object.fromEntries(Object.values(INTEGRITY_CODES).map(code => [
+    code,
+    problems.filter(problem => problem.code === code).length
+  ]));
+
+  console.log(`🩺 Integrity check (${dryRun ? 'dry run' : 'repair'}): ${problems.length} problem(s) found` +
+    (dryRun ? '' : `, ${problems.filter(problem => problem.repaired).length} repaired`));
+
+  return {
+    dryRun,
+    checkedAt: new Date().toISOString(),
+    problems,
+    counts
+  };
+}
+
+module.exports = {
+  INTEGRITY_CODES,
+  runIntegrityCheck
+};
@@ -0,0 +1,53 @@
+const Vehicle = require('../models/Vehicle');
+const Sale = require('../models/Sale');
+const { releaseVinClaim } = require('./vinClaims');
+
+// Mark a listing sold: record the sale, take the vehicle off the market and tell watchers.
+// Shared by the seller's manual deactivate and accepted cash offers; only the latter pass soldTo.
+async function markListingSold(listing, { soldTo, soldPrice, offerId } = {}, webSocket, excludeUserId) {
+  listing.isActive = false;
+  listing.soldAt = new Date();
+  if (soldTo) listing.soldTo = soldTo;
+  listing.soldPrice = soldPrice !== undefined ? Number(soldPrice) : listing.price;
+
+  await listing.save();
+
+  // 💰 Record the sale in the ledger
+  await Sale.create({
+    sellerId: listing.sellerId,
+    buyerId: soldTo || undefined,
+    vehicleId: listing.vehicleId,
+    listingId: listing._id,
+    offerId,
+    type: 'listing',
+    finalPrice: listing.soldPrice,
+    completedAt: listing.soldAt
+  });
+
+  // Update vehicle status; the record stays in the seller's garage but the buyer may now register the VIN
+  const vehicle = await Vehicle.findById(listing.vehicleId);
+  if (vehicle) {
+    vehicle.isListed = false;
+    vehicle.listingId = null;
+    await vehicle.save();
+    await releaseVinClaim(vehicle._id);
+  }
+
+  // 🔗 WEBSOCKET: Let watchers know the listing is gone
+  if (webSocket) {
+    await listing.populate('vehicleId');
+    await listing.populate('sellerId', 'username firstName lastName rating reviewCount');
+
+    webSocket.broadcastToAll({
+      type: 'LISTING_UPDATED',
+      data: listing,
+      timestamp: new Date().toISOString()
+    }, excludeUserId);
+  }
+
+  return listing;
+}
+
+module.exports = {
+  markListingSold
+};
@@ -0,0 +1,60 @@
+const Message = require('../models/Message');
+
+// Tell each sender which of their messages changed state, in one event per sender
+const broadcastReceipts = (webSocket, type, messages, data) => {
+  if (!webSocket || messages.length === 0) return;
+
+  const idsBySender = new Map();
+  messages.forEach(message => {
+    const senderId = message.senderId.toString();
+    if (!idsBySender.has(senderId)) idsBySender.set(senderId, []);
+    idsBySender.get(senderId).push(message._id.toString());
+  });
+
+  idsBySender.forEach((messageIds, senderId) => {
+    webSocket.broadcastToUser(senderId, {
+      type,
+      data: { ...data, messageIds },
+      timestamp: new Date().toISOString()
+    });
+  });
+};
+
+// Stamp deliveredAt on everything waiting for a receiver who just came online
+async function markMessagesDelivered(receiverId, webSocket) {
+  const undelivered = await Message.find({ receiverId, deliveredAt: null }).select('_id senderId').lean();
+  if (undelivered.length === 0) return 0;
+
+  const deliveredAt = new Date();
+  await Message.updateMany(
+    { _id: { $in: undelivered.map(message => message._id) }, deliveredAt: null },
+    { deliveredAt }
+  );
+
+  broadcastReceipts(webSocket, 'MESSAGES_DELIVERED', undelivered, { receiverId, deliveredAt });
+
+  console.log(`📬 Marked ${undelivered.length} message(s) delivered to ${receiverId}`);
+  return undelivered.length;
+}
+
+// Mark a conversation read for its receiver and let the sender know
+async function markConversationRead(receiverId, senderId, webSocket) {
+  const unread = await Message.find({ senderId, receiverId, read: false }).select('_id senderId').lean();
+  if (unread.length === 0) return 0;
+
+  const readAt = new Date();
+  const unreadIds = unread.map(message => message._id);
+
+  await Message.updateMany({ _id: { $in: unreadIds } }, { read: true, readAt });
+  // Reading implies delivery, even if the receiver never had a live connection
+  await Message.updateMany({ _id: { $in: unreadIds }, deliveredAt: null }, { deliveredAt: readAt });
+
+  broadcastReceipts(webSocket, 'MESSAGES_READ', unread, { readerId: receiverId, readAt });
+
+  return unread.length;
+}
+
+module.exports = {
+  markMessagesDelivered,
+  markConversationRead
+};
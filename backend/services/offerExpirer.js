@@ -0,0 +1,94 @@
+const Offer = require('../models/Offer');
+
+// How often to sweep for offers past their deadline
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+// Offers still waiting on a response
+const OPEN_OFFER_STATUSES = ['pending', 'countered'];
+
+const OFFER_POPULATE = [
+  { path: 'listingId', select: 'price isActive soldAt sellerId vehicleId' },
+  { path: 'vehicleId', select: 'make model year images mileage' },
+  { path: 'sellerId', select: 'username avatar rating reviewCount' },
+  { path: 'buyerId', select: 'username avatar rating reviewCount' }
+];
+
+// Push an offer to both the buyer and the seller
+const broadcastOffer = (webSocket, offer, type) => {
+  if (!webSocket) return;
+
+  const message = {
+    type,
+    data: offer,
+    timestamp: new Date().toISOString()
+  };
+
+  webSocket.broadcastToUser((offer.buyerId._id || offer.buyerId).toString(), message);
+  webSocket.broadcastToUser((offer.sellerId._id || offer.sellerId).toString(), message);
+};
+
+// Move one offer to 'expired', recording whose price lapsed in the history
+async function expireOffer(offerId, webSocket) {
+  const offer = await Offer.findById(offerId);
+  if (!offer) return null;
+
+  const expiredAt = new Date();
+
+  // Claim the offer atomically so a last-second accept or counter wins over the sweeper
+  const claimed = await Offer.findOneAndUpdate(
+    { _id: offer._id, status: { $in: OPEN_OFFER_STATUSES }, expiresAt: { $lte: expiredAt } },
+    {
+      status: 'expired',
+      respondedAt: expiredAt,
+      $push: {
+        history: {
+          action: 'expired',
+          userId: offer.lastActionBy,
+          amount: offer.amount,
+          timestamp: expiredAt
+        }
+      }
+    },
+    { new: true }
+  ).populate(OFFER_POPULATE);
+
+  if (!claimed) return null;
+
+  broadcastOffer(webSocket, claimed, 'OFFER_UPDATED');
+
+  console.log(`⌛ Offer ${claimed._id} expired`);
+  return claimed;
+}
+
+// Periodically expire offers past their deadline
+function startOfferExpirer(webSocket) {
+  const sweepOffers = async () => {
+    try {
+      const expired = await Offer.find({
+        status: { $in: OPEN_OFFER_STATUSES },
+        expiresAt: { $lte: new Date() }
+      }).select('_id');
+
+      for (const { _id } of expired) {
+        await expireOffer(_id, webSocket);
+      }
+
+      if (expired.length > 0) {
+        console.log(`⌛ Expired ${expired.length} offer(s)`);
+      }
+    } catch (error) {
+      console.error('❌ Offer expirer error:', error);
+    }
+  };
+
+  sweepOffers();
+  return setInterval(sweepOffers, SWEEP_INTERVAL_MS);
+}
+
+module.exports = {
+  OPEN_OFFER_STATUSES,
+  OFFER_POPULATE,
+  broadcastOffer,
+  expireOffer,
+  startOfferExpirer
+};
@@ -0,0 +1,71 @@
+const Review = require('../models/Review');
+const User = require('../models/User');
+const Trade = require('../models/Trade');
+const Sale = require('../models/Sale');
+
+// Reviews that show on profiles and count toward a user's rating
+const PUBLIC_REVIEW_STATUSES = ['visible', 'approved'];
+
+const REVIEW_REPORT_REASONS = ['abusive', 'spam', 'off_topic', 'false_information', 'other'];
+
+// Distinct reporters, not counting the reviewee, it takes to hide a review before an admin looks at it
+const REPORTS_TO_HIDE_REVIEW = 3;
+
+// Recalculate a user's rating from their public reviews only
+async function updateRevieweeRating(revieweeId) {
+  const reviews = await Review.find({
+    revieweeId,
+    moderationStatus: { $in: PUBLIC_REVIEW_STATUSES }
+  }).select('rating').lean();
+
+  const totalRating = reviews.reduce((sum, r) => sum + r.rating, 0);
+  const rating = reviews.length > 0 ? Math.round((totalRating / reviews.length) * 10) / 10 : 0; // Round to 1 decimal place
+
+  await User.findByIdAndUpdate(revieweeId, {
+    rating,
+    reviewCount: reviews.length
+  });
+
+  console.log(`📊 Updated user ${revieweeId} rating to ${rating} (${reviews.length} reviews)`);
+  return { rating, reviewCount: reviews.length };
+}
+
+// A completed trade or a platform-settled sale between the two users, in either direction
+async function hasCompletedTransaction(userId, otherUserId) {
+  const trade = await Trade.exists({
+    status: 'completed',
+    $or: [
+      { offererUserId: userId, receiverUserId: otherUserId },
+      { offererUserId: otherUserId, receiverUserId: userId }
+    ]
+  });
+  if (trade) return true;
+
+  // Only sales the platform settled count: a seller marking a listing sold can name any buyer
+  const sale = await Sale.exists({
+    $and: [
+      {
+        $or: [
+          { sellerId: userId, buyerId: otherUserId },
+          { sellerId: otherUserId, buyerId: userId }
+        ]
+      },
+      {
+        $or: [
+          { offerId: { $exists: true } },
+          { auctionId: { $exists: true } },
+          { tradeId: { $exists: true } }
+        ]
+      }
+    ]
+  });
+  return !!sale;
+}
+
+module.exports = {
+  PUBLIC_REVIEW_STATUSES,
+  REVIEW_REPORT_REASONS,
+  REPORTS_TO_HIDE_REVIEW,
+  updateRevieweeRating,
+  hasCompletedTransaction
+};
@@ -0,0 +1,143 @@
+const Trade = require('../models/Trade');
+const Vehicle = require('../models/Vehicle');
+const { TRADE_TRANSITIONS, TRADE_SIDE_EFFECTS } = require('../utils/tradeStateMachine');
+
+// How often to sweep for trades past their deadline
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+// How long before the deadline both parties get a reminder
+const REMINDER_LEAD_MS = 6 * 60 * 60 * 1000;
+
+// Statuses an expiry can fire from, straight from the state machine
+const EXPIRABLE_STATUSES = Object.keys(TRADE_TRANSITIONS).filter(status => TRADE_TRANSITIONS[status].expire);
+
+const fetchTradeForBroadcast = async (tradeId) => {
+  const trade = await Trade.findById(tradeId)
+    .populate('offererUserId', 'username email avatar rating reviewCount')
+    .populate('receiverUserId', 'username email avatar rating reviewCount')
+    .populate('listingId')
+    .populate('offererVehicleIds')
+    .populate('receiverVehicleIds')
+    .populate('requestedVehicleIds')
+    .lean();
+
+  return {
+    ...trade,
+    id: trade._id.toString(),
+    _id: undefined
+  };
+};
+
+const broadcastToParties = (webSocket, trade, message) => {
+  if (!webSocket) return;
+  webSocket.broadcastToUser(trade.offererUserId._id.toString(), message);
+  webSocket.broadcastToUser(trade.receiverUserId._id.toString(), message);
+};
+
+// Move one trade to 'expired', recording whose offer lapsed in the history
+async function expireTrade(tradeId, webSocket) {
+  const trade = await Trade.findById(tradeId);
+  if (!trade) return null;
+
+  const expiredAt = new Date();
+
+  // Claim the trade atomically so a last-second accept or counter wins over the sweeper
+  const claimed = await Trade.findOneAndUpdate(
+    { _id: trade._id, status: { $in: EXPIRABLE_STATUSES }, expiresAt: { $lte: expiredAt } },
+    {
+      status: 'expired',
+      updatedAt: expiredAt,
+      $push: {
+        tradeHistory: {
+          action: 'expired',
+          userId: trade.lastCounteredBy || trade.offererUserId,
+          timestamp: expiredAt,
+          offererCashAmount: trade.offererCashAmount,
+          offererVehicleIds: trade.offererVehicleIds,
+          receiverCashAmount: trade.receiverCashAmount,
+          receiverVehicleIds: trade.receiverVehicleIds,
+          requestedVehicleIds: trade.requestedVehicleIds
+        }
+      }
+    },
+    { new: true }
+  );
+
+  if (!claimed) return null;
+
+  if (TRADE_SIDE_EFFECTS.expire.includes('releaseVehicles')) {
+    await Vehicle.updateMany({ tradeId: claimed._id }, { isInTrade: false, tradeId: null });
+  }
+
+  const tradeWithId = await fetchTradeForBroadcast(claimed._id);
+  broadcastToParties(webSocket, tradeWithId, {
+    type: 'TRADE_UPDATED',
+    data: tradeWithId
+  });
+
+  console.log(`⌛ Trade ${claimed._id} expired`);
+  return claimed;
+}
+
+// Remind both parties once when an open trade is close to its deadline
+async function sendExpiryReminder(tradeId, webSocket) {
+  const claimed = await Trade.findOneAndUpdate(
+    { _id: tradeId, status: { $in: EXPIRABLE_STATUSES }, expiryReminderSentAt: null },
+    { expiryReminderSentAt: new Date() },
+    { new: true }
+  );
+
+  if (!claimed) return null;
+
+  const tradeWithId = await fetchTradeForBroadcast(claimed._id);
+  broadcastToParties(webSocket, tradeWithId, {
+    type: 'TRADE_EXPIRING',
+    data: tradeWithId
+  });
+
+  console.log(`⏰ Sent expiry reminder for trade ${claimed._id}`);
+  return claimed;
+}
+
+// Periodically expire trades past their deadline and remind parties of ones that are close
+function startTradeExpirer(webSocket) {
+  const sweepTrades = async () => {
+    try {
+      const now = new Date();
+
+      const expired = await Trade.find({
+        status: { $in: EXPIRABLE_STATUSES },
+        expiresAt: { $lte: now }
+      }).select('_id');
+
+      for (const { _id } of expired) {
+        await expireTrade(_id, webSocket);
+      }
+
+      const expiringSoon = await Trade.find({
+        status: { $in: EXPIRABLE_STATUSES },
+        expiresAt: { $gt: now, $lte: new Date(now.getTime() + REMINDER_LEAD_MS) },
+        expiryReminderSentAt: null
+      }).select('_id');
+
+      for (const { _id } of expiringSoon) {
+        await sendExpiryReminder(_id, webSocket);
+      }
+
+      if (expired.length > 0) {
+        console.log(`⌛ Expired ${expired.length} trade(s)`);
+      }
+    } catch (error) {
+      console.error('❌ Trade expirer error:', error);
+    }
+  };
+
+  sweepTrades();
+  return setInterval(sweepTrades, SWEEP_INTERVAL_MS);
+}
+
+module.exports = {
+  REMINDER_LEAD_MS,
+  expireTrade,
+  startTradeExpirer
+};
@@ -0,0 +1,86 @@
+const Vehicle = require('../models/Vehicle');
+const Listing = require('../models/Listing');
+const User = require('../models/User');
+
+// Indexes on vin from earlier releases: a plain lookup index, then a unique one that also covered released VINs
+const LEGACY_VIN_INDEXES = ['vin_1', 'vin_unique'];
+
+// Give up a vehicle's hold on its VIN so another garage can register the car
+async function releaseVinClaim(vehicleId) {
+  await Vehicle.updateOne({ _id: vehicleId, vinClaimed: true }, { vinClaimed: false });
+}
+
+// Decide vinClaimed for vehicles saved before it existed. Earlier releases let several garages
+// hold the same VIN, so each VIN is given to one vehicle rather than set on all of them.
+async function backfillVinClaims() {
+  const unmarked = { vinClaimed: { $exists: false } };
+
+  // Owners that are gone or deactivated never held their VINs against anyone
+  const activeOwnerIds = await User.find({ isActive: { $ne: false } }).distinct('_id');
+  await Vehicle.updateMany({ ...unmarked, ownerId: { $nin: activeOwnerIds } }, { vinClaimed: false });
+
+  // A car its seller still has on file after selling it through a listing belongs to the buyer now
+  const soldListings = await Listing.find({ soldAt: { $ne: null } }).select('vehicleId sellerId').lean();
+  if (soldListings.length > 0) {
+    await Vehicle.bulkWrite(soldListings.map(listing => ({
+      updateOne: {
+        filter: { ...unmarked, _id: listing.vehicleId, ownerId: listing.sellerId, isListed: false },
+        update: { vinClaimed: false }
+      }
+    })));
+  }
+
+  // Of the rest, the most recently registered car keeps each VIN
+  const groups = await Vehicle.aggregate([
+    { $match: unmarked },
+    { $sort: { createdAt: -1 } },
+    { $group: { _id: '$vin', vehicleIds: { $push: '$_id' } } }
+  ]);
+
+  let duplicateCount = 0;
+  for (const { _id: vin, vehicleIds } of groups) {
+    const [keeperId, ...otherIds] = vehicleIds;
+    if (otherIds.length > 0) {
+      duplicateCount++;
+      await Vehicle.updateMany({ _id: { $in: otherIds } }, { vinClaimed: false });
+      console.log(`🚗 VIN ${vin} was in ${vehicleIds.length} garages; vehicle ${keeperId} keeps it`);
+    }
+
+    try {
+      await Vehicle.updateOne({ _id: keeperId }, { vinClaimed: true });
+    } catch (error) {
+      // Registered since this release started, so that newer vehicle already holds the VIN
+      if (error.code !== 11000) throw error;
+      await Vehicle.updateOne({ _id: keeperId }, { vinClaimed: false });
+    }
+  }
+
+  console.log(`🚗 Backfilled VIN claims for ${groups.length} VIN(s), ${duplicateCount} of them duplicated`);
+}
+
+// Run once at startup: backfill claims if needed, then swap the old vin indexes for the claimed-VIN unique one.
+// Every step only touches what still needs it, so running it again changes nothing.
+async function migrateVinClaims() {
+  try {
+    if (await Vehicle.exists({ vinClaimed: { $exists: false } })) {
+      await backfillVinClaims();
+    }
+
+    // A fresh database has no vehicles collection to list indexes on yet
+    const existingIndexes = await Vehicle.collection.indexes().catch(() => []);
+    for (const { name } of existingIndexes) {
+      if (LEGACY_VIN_INDEXES.includes(name)) {
+        await Vehicle.collection.dropIndex(name);
+        console.log(`🚗 Dropped legacy vehicle index ${name}`);
+      }
+    }
+    await Vehicle.createIndexes();
+  } catch (error) {
+    console.error('❌ VIN claim migration error:', error);
+  }
+}
+
+module.exports = {
+  releaseVinClaim,
+  migrateVinClaims
+};
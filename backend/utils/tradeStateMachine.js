@@ -0,0 +1,207 @@
+// Generated from src/utils/tradeStateMachine.ts by scripts/generate-shared.js - do not edit by hand.
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.isTerminalTradeStatus = exports.isChecklistComplete = exports.isChecklistItemConfirmed = exports.getChecklistItems = exports.getTradeTerms = exports.getAcceptanceFlags = exports.getAvailableTradeEvents = exports.getTradeEventError = exports.getTradeEventForStatus = exports.isTradeTurn = exports.getTradeRole = exports.TRADE_CHECKLIST_ITEMS = exports.TRADE_EXPIRY_HOURS = exports.TRADE_SIDE_EFFECTS = exports.TRADE_TRANSITIONS = exports.TRADE_STATUSES = void 0;
+exports.TRADE_STATUSES = [
+    'pending', 'countered', 'accepted', 'pending_acceptance', 'rejected', 'cancelled', 'completed', 'declined', 'expired'
+];
+exports.TRADE_TRANSITIONS = {
+    pending: { accept: 'accepted', reject: 'rejected', counter: 'countered', cancel: 'cancelled', expire: 'expired' },
+    countered: { accept: 'accepted', reject: 'rejected', counter: 'countered', cancel: 'cancelled', expire: 'expired' },
+    accepted: { complete: 'completed', decline: 'declined' },
+    // Legacy status from before accepting moved straight to 'accepted'; it can only be cleaned up
+    pending_acceptance: {},
+    rejected: {},
+    cancelled: {},
+    completed: {},
+    declined: {},
+    expired: {},
+};
+exports.TRADE_SIDE_EFFECTS = {
+    accept: ['lockVehicles', 'cancelOverlappingTrades'],
+    reject: ['releaseVehicles'],
+    counter: [],
+    cancel: ['releaseVehicles'],
+    complete: ['transferVehicles', 'markListingSold', 'recordSales'],
+    decline: ['releaseVehicles'],
+    expire: ['releaseVehicles'],
+};
+// Expiry windows offered when making an offer or counter
+exports.TRADE_EXPIRY_HOURS = [24, 72, 168];
+// Hand-over steps each side confirms on an accepted trade before ownership moves
+exports.TRADE_CHECKLIST_ITEMS = {
+    titleTransferred: 'Title transferred',
+    keysHandedOver: 'Keys handed over',
+    cashReceived: 'Cash received',
+    inspectionDone: 'Inspection done',
+};
+// Populated users arrive as objects from the API and the WebSocket; the backend also passes raw ObjectIds
+const toId = (value) => {
+    if (!value)
+        return undefined;
+    if (typeof value === 'string')
+        return value;
+    return String(value._id || value.id || value);
+};
+/**
+ * Works out which side of the trade a user is on.
+ * @param {TradeParties} trade - The trade.
+ * @param {string} userId - The acting user.
+ * @returns {TradeRole | null} - null when the user isn't part of the trade.
+ */
+const getTradeRole = (trade, userId) => {
+    if (!userId)
+        return null;
+    if (toId(trade.offererUserId) === String(userId))
+        return 'offerer';
+    if (toId(trade.receiverUserId) === String(userId))
+        return 'receiver';
+    return null;
+};
+exports.getTradeRole = getTradeRole;
+/**
+ * Whether it's this side's move on an open offer - the side that didn't make the terms on the table.
+ * @param {TradeParties} trade - The trade.
+ * @param {TradeRole} role - The side asking.
+ * @returns {boolean} - True when they may accept, reject or counter.
+ */
+const isTradeTurn = (trade, role) => {
+    if (trade.status === 'pending')
+        return role === 'receiver';
+    if (trade.status !== 'countered')
+        return false;
+    if (trade.lastCounteredBy) {
+        const counteredBy = toId(trade.lastCounteredBy) === toId(trade.offererUserId) ? 'offerer' : 'receiver';
+        return role !== counteredBy;
+    }
+    // Counters from before lastCounteredBy existed: whoever hasn't agreed to the current terms, else either side
+    if (!!trade.offererAccepted !== !!trade.receiverAccepted) {
+        return role === 'offerer' ? !trade.offererAccepted : !trade.receiverAccepted;
+    }
+    return true;
+};
+exports.isTradeTurn = isTradeTurn;
+/**
+ * Finds the event that moves a trade between two statuses (the API receives the target status).
+ * @param {TradeStatus} from - The current status.
+ * @param {TradeStatus} to - The requested status.
+ * @returns {TradeEvent | null} - null when no event makes that move.
+ */
+const getTradeEventForStatus = (from, to) => {
+    const transitions = exports.TRADE_TRANSITIONS[from] || {};
+    const match = Object.keys(transitions).find(event => transitions[event] === to);
+    return match || null;
+};
+exports.getTradeEventForStatus = getTradeEventForStatus;
+/**
+ * Checks an event against the transition table and the guards.
+ * @param {TradeParties} trade - The trade.
+ * @param {TradeEvent} event - What the user wants to do.
+ * @param {string} userId - The acting user.
+ * @returns {string | null} - Why the event isn't allowed, or null when it is.
+ */
+const getTradeEventError = (trade, event, userId) => {
+    var _a;
+    const role = (0, exports.getTradeRole)(trade, userId);
+    if (!role)
+        return 'Only parties involved in the trade can act on it';
+    const nextStatus = (_a = exports.TRADE_TRANSITIONS[trade.status]) === null || _a === void 0 ? void 0 : _a[event];
+    if (!nextStatus)
+        return `Cannot ${event} a trade that is ${trade.status}`;
+    switch (event) {
+        case 'expire':
+            return 'Trades only expire when their deadline passes';
+        case 'accept':
+        case 'reject':
+        case 'counter':
+            return (0, exports.isTradeTurn)(trade, role) ? null : 'It is not your turn to respond to this trade';
+        case 'cancel':
+            // Withdrawing is for the side whose terms are on the table; the other side rejects instead
+            return (0, exports.isTradeTurn)(trade, role) ? 'Reject the offer instead of cancelling it' : null;
+        case 'complete':
+            return (0, exports.isChecklistComplete)(trade) ? null : 'Both parties must confirm every checklist item first';
+        case 'decline':
+            return null;
+    }
+};
+exports.getTradeEventError = getTradeEventError;
+/**
+ * Lists the events a user may fire right now, for deciding which buttons to show.
+ * @param {TradeParties} trade - The trade.
+ * @param {string} userId - The current user.
+ * @returns {TradeEvent[]} - The allowed events.
+ */
+const getAvailableTradeEvents = (trade, userId) => Object.keys(exports.TRADE_TRANSITIONS[trade.status] || {})
+    .filter(event => (0, exports.getTradeEventError)(trade, event, userId) === null);
+exports.getAvailableTradeEvents = getAvailableTradeEvents;
+/**
+ * The acceptance flags after an event. Making an offer or counter means agreeing to those terms,
+ * so the proposer's flag is set and the other side's is cleared until they respond.
+ * @param {TradeParties} trade - The trade before the event.
+ * @param {TradeEvent} event - The event.
+ * @param {TradeRole} role - Who fired it.
+ * @returns {{ offererAccepted: boolean, receiverAccepted: boolean }} - The new flags.
+ */
+const getAcceptanceFlags = (trade, event, role) => {
+    if (event === 'counter') {
+        return { offererAccepted: role === 'offerer', receiverAccepted: role === 'receiver' };
+    }
+    if (event === 'accept') {
+        return { offererAccepted: true, receiverAccepted: true };
+    }
+    return { offererAccepted: !!trade.offererAccepted, receiverAccepted: !!trade.receiverAccepted };
+};
+exports.getAcceptanceFlags = getAcceptanceFlags;
+/**
+ * The terms that change hands on completion. The offerer gives whatever the latest counter settled on;
+ * the receiver gives every requested vehicle. Positive cash goes from the offerer to the receiver.
+ * @param {TradeParties} trade - The trade.
+ * @returns {{ offererGives: string[], receiverGives: string[], cashFromOfferer: number }} - The settled terms.
+ */
+const getTradeTerms = (trade) => {
+    var _a;
+    const receiverCounteredLast = !!trade.lastCounteredBy && toId(trade.lastCounteredBy) === toId(trade.receiverUserId);
+    // Trades created before bundles only ever asked for the listing vehicle
+    const receiverGives = trade.requestedVehicleIds && trade.requestedVehicleIds.length > 0
+        ? trade.requestedVehicleIds
+        : (((_a = trade.listingData) === null || _a === void 0 ? void 0 : _a.vehicleId) ? [trade.listingData.vehicleId] : []);
+    return {
+        offererGives: (receiverCounteredLast ? trade.receiverVehicleIds : trade.offererVehicleIds) || [],
+        receiverGives,
+        cashFromOfferer: (receiverCounteredLast ? trade.receiverCashAmount : trade.offererCashAmount) || 0,
+    };
+};
+exports.getTradeTerms = getTradeTerms;
+/**
+ * The checklist items one side confirms: handing over title and keys for what they give,
+ * inspecting what they get and receiving any cash owed to them.
+ * @param {TradeParties} trade - The trade.
+ * @param {TradeRole} role - The side asking.
+ * @returns {TradeChecklistItem[]} - Their items, in hand-over order.
+ */
+const getChecklistItems = (trade, role) => {
+    const { offererGives, receiverGives, cashFromOfferer } = (0, exports.getTradeTerms)(trade);
+    const gives = role === 'offerer' ? offererGives : receiverGives;
+    const gets = role === 'offerer' ? receiverGives : offererGives;
+    const cashIn = role === 'offerer' ? -cashFromOfferer : cashFromOfferer;
+    const items = [];
+    if (gives.length > 0)
+        items.push('titleTransferred', 'keysHandedOver');
+    if (cashIn > 0)
+        items.push('cashReceived');
+    if (gets.length > 0)
+        items.push('inspectionDone');
+    return items;
+};
+exports.getChecklistItems = getChecklistItems;
+const isChecklistItemConfirmed = (trade, role, item) => (trade.completionChecklist || []).some(entry => entry.role === role && entry.item === item);
+exports.isChecklistItemConfirmed = isChecklistItemConfirmed;
+/**
+ * Whether both sides have confirmed every item on their checklist.
+ * @param {TradeParties} trade - The trade.
+ * @returns {boolean} - True once ownership may be transferred.
+ */
+const isChecklistComplete = (trade) => ['offerer', 'receiver'].every(role => (0, exports.getChecklistItems)(trade, role).every(item => (0, exports.isChecklistItemConfirmed)(trade, role, item)));
+exports.isChecklistComplete = isChecklistComplete;
+const isTerminalTradeStatus = (status) => Object.keys(exports.TRADE_TRANSITIONS[status] || {}).length === 0;
+exports.isTerminalTradeStatus = isTerminalTradeStatus;
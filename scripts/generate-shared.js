@@ -0,0 +1,46 @@
+#!/usr/bin/env node
+
+// Rules the UI and the API must agree on are written once under src/utils and compiled
+// into CommonJS for the backend, which is deployed on its own and can't import from src.
+// Run `npm run generate:shared` after editing one of the sources below.
+
+const fs = require('fs');
+const path = require('path');
+const ts = require('typescript');
+
+const ROOT = path.join(__dirname, '..');
+
+const SHARED_MODULES = [
+  { source: 'src/utils/tradeStateMachine.ts', target: 'backend/utils/tradeStateMachine.js' },
+  { source: 'src/utils/vin.ts', target: 'backend/utils/vin.js' },
+];
+
+function renderSharedModule(source) {
+  const input = fs.readFileSync(path.join(ROOT, source), 'utf8');
+  const { outputText } = ts.transpileModule(input, {
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2019,
+      removeComments: false
+    },
+    fileName: source
+  });
+
+  return `// Generated from ${source} by scripts/generate-shared.js - do not edit by hand.\n${outputText}`;
+}
+
+function generateSharedModules() {
+  SHARED_MODULES.forEach(({ source, target }) => {
+    fs.writeFileSync(path.join(ROOT, target), renderSharedModule(source));
+    console.log(`✅ ${source} → ${target}`);
+  });
+}
+
+if (require.main === module) {
+  generateSharedModules();
+}
+
+module.exports = {
+  SHARED_MODULES,
+  renderSharedModule
+};
@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
+import { Routes, Route, Navigate } from 'react-router-dom';
 import { useApp } from './context/AppContext.tsx';
 import { Navigation } from './components/layout/Navigation.tsx';
 import { SmartAuthForm } from './components/auth/SmartAuthForm.tsx';
@@ -11,9 +12,10 @@ import { MessagesView } from './components/messages/MessagesView.tsx';
 import { ProfileView } from './components/profile/ProfileView.tsx';
 import { NotificationContainer } from './components/common/NotificationContainer.tsx';
 import { UserSearchView } from './components/users/UserSearchView.tsx';
+import { AdminView } from './components/admin/AdminView.tsx';
 
 function AppContent() {
-  const { state, activeTab, setActiveTab, loadAllListings } = useApp();
+  const { state, activeTab } = useApp();
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   const [isNavHovered, setIsNavHovered] = useState(false);
 
@@ -36,26 +38,21 @@ function AppContent() {
     return <SmartAuthForm />;
   }
 
-  const renderContent = () => {
-    switch (activeTab) {
-      case 'garage':
-        return <GarageView />;
-      case 'listings':
-        return <ListingsView />;
-      case 'auctions':
-        return <AuctionsView />;
-      case 'trades':
-        return <TradesView />;
-      case 'messages':
-        return <MessagesView />;
-      case 'profile':
-        return <ProfileView />;
-      case 'users':
-        return <UserSearchView />;
-      default:
-        return <GarageView />;
-    }
-  };
+  // Every tab has its own URL, and detail screens take the item id so they can be deep linked
+  const renderContent = () => (
+    <Routes>
+      <Route path="/" element={<Navigate to="/garage" replace />} />
+      <Route path="/garage/:vehicleId?" element={<GarageView />} />
+      <Route path="/listings/:listingId?" element={<ListingsView />} />
+      <Route path="/auctions" element={<AuctionsView />} />
+      <Route path="/trades/:tradeId?" element={<TradesView />} />
+      <Route path="/messages/:userId?" element={<MessagesView />} />
+      <Route path="/profile" element={<ProfileView />} />
+      <Route path="/users/:userId?" element={<UserSearchView />} />
+      <Route path="/admin" element={<AdminView />} />
+      <Route path="*" element={<Navigate to="/garage" replace />} />
+    </Routes>
+  );
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-background-900 via-background-800 to-background-900">
@@ -84,7 +81,7 @@ function AppContent() {
                 transition={{ duration: 0.1 }}
                 className="h-full"
               >
-                <MessagesView />
+                {renderContent()}
               </motion.div>
             </AnimatePresence>
           </div>
@@ -0,0 +1,251 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Navigate } from 'react-router-dom';
+import { ShieldCheck, Search, Wrench, CheckCircle, AlertTriangle, Flag, RotateCcw, Trash2 } from 'lucide-react';
+import { useApp } from '../../context/AppContext.tsx';
+import ApiService from '../../services/apiService.ts';
+import { IntegrityCode, IntegrityReport, ReportedReview, ReviewReportReason } from '../../types/index.ts';
+
+// What each reason code means; keep in sync with backend/services/integrityChecker.js
+const CODE_LABELS: Record<IntegrityCode, string> = {
+  VEHICLE_IN_TRADE_WITHOUT_ACTIVE_TRADE: 'Vehicles locked by a trade that is no longer active',
+  VEHICLE_LISTED_WITHOUT_ACTIVE_LISTING: 'Vehicles marked listed without an active listing',
+  VEHICLE_AUCTIONED_WITHOUT_ACTIVE_AUCTION: 'Vehicles marked auctioned without an active auction',
+  LISTING_VEHICLE_MISSING: 'Active listings whose vehicle no longer exists',
+  TRADE_LISTING_MISSING: 'Trades pointing at a deleted listing',
+};
+
+const REPORT_REASON_LABELS: Record<ReviewReportReason, string> = {
+  abusive: 'Abusive',
+  spam: 'Spam',
+  off_topic: 'Off topic',
+  false_information: 'False information',
+  other: 'Other',
+};
+
+export function AdminView() {
+  const { state, runIntegrityCheck, showSuccess, showError } = useApp();
+  const [report, setReport] = useState<IntegrityReport | null>(null);
+  const [running, setRunning] = useState<'dryRun' | 'repair' | null>(null);
+  const [reportedReviews, setReportedReviews] = useState<ReportedReview[]>([]);
+  const [moderatingId, setModeratingId] = useState<string | null>(null);
+
+  const isAdmin = !!state.currentUser?.isAdmin;
+
+  const loadReportedReviews = useCallback(async () => {
+    try {
+      setReportedReviews(await ApiService.getReportedReviews());
+    } catch (error) {
+      console.error('Error loading reported reviews:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isAdmin) {
+      loadReportedReviews();
+    }
+  }, [isAdmin, loadReportedReviews]);
+
+  if (!isAdmin) {
+    return <Navigate to="/garage" replace />;
+  }
+
+  const handleRun = async (dryRun: boolean) => {
+    if (!dryRun && !window.confirm('Repair every problem found? Repairs write to the database and cannot be undone.')) {
+      return;
+    }
+
+    setRunning(dryRun ? 'dryRun' : 'repair');
+    try {
+      const result = await runIntegrityCheck(dryRun);
+      setReport(result);
+
+      if (!dryRun) {
+        const repairedCount = result.problems.filter(problem => problem.repaired).length;
+        showSuccess('Repair Complete', `${repairedCount} of ${result.problems.length} problem(s) repaired.`);
+      }
+    } catch (error) {
+      showError('Integrity Check Failed', error instanceof Error ? error.message : 'Please try again.');
+    } finally {
+      setRunning(null);
+    }
+  };
+
+  const handleModerate = async (review: ReportedReview, action: 'restore' | 'remove') => {
+    if (action === 'remove' && !window.confirm(`Remove @${review.reviewerId.username}'s review for good?`)) {
+      return;
+    }
+
+    setModeratingId(review._id);
+    try {
+      await ApiService.moderateReview(review._id, action);
+      setReportedReviews(prev => prev.filter(r => r._id !== review._id));
+      showSuccess(action === 'restore' ? 'Review Restored' : 'Review Removed');
+    } catch (error) {
+      showError('Moderation Failed', error instanceof Error ? error.message : 'Please try again.');
+    } finally {
+      setModeratingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-primary-100">Admin</h1>
+          <p className="text-primary-300 mt-1">
+            Repair inconsistent data and moderate reported reviews
+          </p>
+        </div>
+        <ShieldCheck className="w-8 h-8 text-primary-300" />
+      </div>
+
+      <div className="glass-effect rounded-xl p-6 space-y-4">
+        <div className="flex flex-wrap gap-3">
+          <button
+            onClick={() => handleRun(true)}
+            disabled={running !== null}
+            className="btn-primary flex items-center space-x-2 disabled:opacity-50"
+          >
+            <Search className="w-4 h-4" />
+            <span>{running === 'dryRun' ? 'Checking...' : 'Run Dry Run'}</span>
+          </button>
+          <button
+            onClick={() => handleRun(false)}
+            disabled={running !== null}
+            className="flex items-center space-x-2 px-4 py-2 rounded-lg bg-red-500/10 hover:bg-red-500/20 text-red-400 border border-red-500/20 transition-colors disabled:opacity-50"
+          >
+            <Wrench className="w-4 h-4" />
+            <span>{running === 'repair' ? 'Repairing...' : 'Repair'}</span>
+          </button>
+        </div>
+        <p className="text-sm text-primary-400">
+          A dry run only reports problems. Repairs are safe to run again; anything already fixed is left alone.
+        </p>
+      </div>
+
+      {/* Reviews hidden by a report */}
+      <div className="glass-effect rounded-xl p-6">
+        <h2 className="text-lg font-semibold text-primary-100 mb-4 flex items-center">
+          <Flag className="w-5 h-5 mr-2" />
+          Reported Reviews
+          {reportedReviews.length > 0 && (
+            <span className="ml-2 bg-red-500 text-white text-xs px-2 py-0.5 rounded-full">{reportedReviews.length}</span>
+          )}
+        </h2>
+        {reportedReviews.length === 0 ? (
+          <p className="text-sm text-primary-400">No reviews are waiting for moderation.</p>
+        ) : (
+          <div className="space-y-3">
+            {reportedReviews.map(review => (
+              <div key={review._id} className="bg-primary-800/30 rounded-lg p-4">
+                <div className="flex items-start justify-between">
+                  <div className="min-w-0">
+                    <p className="text-sm text-primary-200">
+                      @{review.reviewerId.username} → @{review.revieweeId.username}
+                      <span className="text-primary-400"> · {review.rating}/5</span>
+                      {review.verified && <span className="text-green-400"> · Verified</span>}
+                    </p>
+                    {review.comment && (
+                      <p className="text-sm text-primary-300 mt-1">{review.comment}</p>
+                    )}
+                  </div>
+                  <div className="flex space-x-2 flex-shrink-0 ml-3">
+                    <button
+                      onClick={() => handleModerate(review, 'restore')}
+                      disabled={moderatingId === review._id}
+                      className="flex items-center space-x-1 px-3 py-1.5 rounded-lg bg-green-500/10 hover:bg-green-500/20 text-green-400 border border-green-500/20 text-sm transition-colors disabled:opacity-50"
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                      <span>Restore</span>
+                    </button>
+                    <button
+                      onClick={() => handleModerate(review, 'remove')}
+                      disabled={moderatingId === review._id}
+                      className="flex items-center space-x-1 px-3 py-1.5 rounded-lg bg-red-500/10 hover:bg-red-500/20 text-red-400 border border-red-500/20 text-sm transition-colors disabled:opacity-50"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                      <span>Remove</span>
+                    </button>
+                  </div>
+                </div>
+                <div className="mt-3 space-y-1">
+                  {review.reports.map((reviewReport, index) => (
+                    <p key={index} className="text-xs text-primary-400">
+                      <span className="text-red-300">{REPORT_REASON_LABELS[reviewReport.reason]}</span>
+                      {' '}by @{typeof reviewReport.reporterId === 'object' ? reviewReport.reporterId.username : 'unknown'}
+                      {reviewReport.details && <span className="italic"> – "{reviewReport.details}"</span>}
+                      <span className="text-primary-500"> · {new Date(reviewReport.createdAt).toLocaleDateString()}</span>
+                    </p>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {report && (
+        <>
+          {/* Counts per reason code */}
+          <div className="glass-effect rounded-xl p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-lg font-semibold text-primary-100">
+                {report.dryRun ? 'Dry Run' : 'Repair'} Results
+              </h2>
+              <span className="text-sm text-primary-400">
+                {new Date(report.checkedAt).toLocaleString()}
+              </span>
+            </div>
+            <div className="space-y-2">
+              {(Object.keys(CODE_LABELS) as IntegrityCode[]).map(code => (
+                <div key={code} className="flex items-center justify-between bg-primary-800/30 rounded-lg px-3 py-2">
+                  <div>
+                    <p className="text-sm text-primary-100">{CODE_LABELS[code]}</p>
+                    <p className="text-xs text-primary-500 font-mono">{code}</p>
+                  </div>
+                  <span className={`text-lg font-bold ${report.counts[code] ? 'text-yellow-400' : 'text-green-400'}`}>
+                    {report.counts[code] || 0}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Every problem found */}
+          <div className="glass-effect rounded-xl p-6">
+            <h2 className="text-lg font-semibold text-primary-100 mb-4">Problems</h2>
+            {report.problems.length === 0 ? (
+              <div className="flex items-center space-x-2 text-green-400">
+                <CheckCircle className="w-5 h-5" />
+                <span>Everything is consistent.</span>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                {report.problems.map(problem => (
+                  <div key={`${problem.code}-${problem.entityId}`} className="flex items-start justify-between bg-primary-800/30 rounded-lg p-3">
+                    <div className="min-w-0">
+                      <p className="text-sm text-primary-100">{problem.reason}</p>
+                      <p className="text-xs text-primary-500 font-mono mt-1">
+                        {problem.code} · {problem.entity} {problem.entityId}
+                      </p>
+                    </div>
+                    {report.dryRun ? (
+                      <AlertTriangle className="w-4 h-4 text-yellow-400 flex-shrink-0 ml-2" />
+                    ) : (
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium flex-shrink-0 ml-2 ${
+                        problem.repaired ? 'bg-green-500/20 text-green-300' : 'bg-primary-700/40 text-primary-300'
+                      }`}>
+                        {problem.repaired ? 'Repaired' : 'Unchanged'}
+                      </span>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,212 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { X, Gavel, DollarSign, TrendingUp, Clock, Zap, Timer } from 'lucide-react';
+import { useApp } from '../../context/AppContext.tsx';
+import { Auction, Bid, Vehicle, User } from '../../types/index.ts';
+
+interface AuctionBidModalProps {
+  auction: Auction & { vehicle?: Vehicle; seller?: User };
+  onClose: () => void;
+}
+
+export function AuctionBidModal({ auction, onClose }: AuctionBidModalProps) {
+  const { state, placeBid } = useApp();
+  const minimumBid = auction.minimumNextBid ?? (auction.bids.length > 0 ? auction.currentBid + 1 : auction.startingBid);
+  const [amount, setAmount] = useState<number>(minimumBid);
+  const [useProxy, setUseProxy] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isOwnAuction = auction.sellerId === state.currentUser?.id;
+  const isHighestBidder = !!state.currentUser && auction.highestBidderId === state.currentUser.id;
+  const sortedBids = [...auction.bids].sort(
+    (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+  ) as Array<Bid & { bidder?: { username: string } }>;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    // The current leader can raise their hidden maximum without outbidding themselves
+    const floor = useProxy && isHighestBidder ? auction.currentBid + 1 : minimumBid;
+    if (amount < floor) {
+      setError(`Your ${useProxy ? 'maximum' : 'bid'} must be at least $${floor.toLocaleString()}.`);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      if (useProxy) {
+        await placeBid(auction.id, undefined, amount);
+      } else {
+        await placeBid(auction.id, amount);
+      }
+      onClose();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to place bid. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50"
+      onClick={(e) => e.target === e.currentTarget && onClose()}
+    >
+      <motion.div
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.9, opacity: 0 }}
+        className="glass-effect rounded-2xl p-6 w-full max-w-lg max-h-[90vh] overflow-y-auto"
+      >
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center space-x-3">
+            <div className="w-10 h-10 bg-purple-500 rounded-full flex items-center justify-center">
+              <Gavel className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <h2 className="text-2xl font-bold text-primary-100">Place Bid</h2>
+              <p className="text-primary-300">{auction.title}</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-primary-800/50 rounded-full transition-colors"
+          >
+            <X className="w-5 h-5 text-primary-300" />
+          </button>
+        </div>
+
+        {/* Current State */}
+        <div className="grid grid-cols-2 gap-4 mb-6">
+          <div className="p-3 bg-primary-800/30 rounded-lg">
+            <p className="text-xs text-primary-400">Current Bid</p>
+            <div className="flex items-center space-x-1">
+              <TrendingUp className="w-4 h-4 text-green-400" />
+              <span className="text-lg font-bold text-green-400">
+                {auction.bids.length > 0 ? `$${auction.currentBid.toLocaleString()}` : 'No bids'}
+              </span>
+            </div>
+          </div>
+          <div className="p-3 bg-primary-800/30 rounded-lg">
+            <p className="text-xs text-primary-400">Minimum Bid</p>
+            <span className="text-lg font-bold text-primary-100">
+              ${minimumBid.toLocaleString()}
+            </span>
+          </div>
+        </div>
+
+        {isOwnAuction ? (
+          <p className="text-sm text-primary-300 mb-6">You cannot bid on your own auction.</p>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4 mb-6">
+            {isHighestBidder && (
+              <p className="text-sm text-green-400">You are currently the highest bidder.</p>
+            )}
+            <label className="flex items-center space-x-2 text-sm text-primary-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={useProxy}
+                onChange={(e) => setUseProxy(e.target.checked)}
+                className="rounded"
+              />
+              <span>Bid automatically up to a maximum</span>
+            </label>
+            {useProxy && (
+              <p className="text-xs text-primary-400">
+                Your maximum stays hidden. We'll bid the smallest amount needed to keep you in the lead, up to your cap.
+              </p>
+            )}
+            <div className="relative">
+              <DollarSign className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-primary-400" />
+              <input
+                type="number"
+                value={amount}
+                onChange={(e) => setAmount(Number(e.target.value))}
+                className="input-field pl-10"
+                min={useProxy && isHighestBidder ? auction.currentBid + 1 : minimumBid}
+                required
+              />
+            </div>
+            {error && (
+              <p className="text-sm text-red-400">{error}</p>
+            )}
+            <button
+              type="submit"
+              disabled={loading}
+              className="w-full btn-primary flex items-center justify-center space-x-2 disabled:opacity-50"
+            >
+              <Gavel className="w-4 h-4" />
+              <span>
+                {loading
+                  ? 'Placing Bid...'
+                  : useProxy
+                    ? `Set Max $${(amount || 0).toLocaleString()}`
+                    : `Bid $${(amount || 0).toLocaleString()}`}
+              </span>
+            </button>
+          </form>
+        )}
+
+        {!!auction.softCloseMinutes && (
+          <div className="flex items-center space-x-2 text-xs text-primary-400 mb-6">
+            <Timer className="w-4 h-4" />
+            <span>
+              Bids in the final {auction.softCloseMinutes} minute{auction.softCloseMinutes !== 1 ? 's' : ''} extend the auction.
+            </span>
+          </div>
+        )}
+
+        {/* Bid History */}
+        <div>
+          <h3 className="text-lg font-semibold text-primary-100 mb-3">Bid History</h3>
+          {sortedBids.length === 0 ? (
+            <p className="text-sm text-primary-400">Be the first to bid on this vehicle.</p>
+          ) : (
+            <div className="space-y-2">
+              {sortedBids.map((bid, index) => (
+                <div
+                  key={bid.id}
+                  className={`flex items-center justify-between p-3 rounded-lg ${
+                    index === 0 ? 'bg-green-500/10 border border-green-500/30' : 'bg-primary-800/30'
+                  }`}
+                >
+                  <div>
+                    <div className="flex items-center space-x-2">
+                      <p className="text-sm font-medium text-primary-200">
+                        {bid.bidderId === state.currentUser?.id ? 'You' : bid.bidder?.username || 'Bidder'}
+                      </p>
+                      {bid.isAutomatic && (
+                        <span className="flex items-center space-x-1 px-2 py-0.5 rounded-full bg-blue-500/20 text-blue-300 text-xs">
+                          <Zap className="w-3 h-3" />
+                          <span>Auto</span>
+                        </span>
+                      )}
+                      {bid.triggeredExtension && (
+                        <span className="flex items-center space-x-1 px-2 py-0.5 rounded-full bg-yellow-500/20 text-yellow-300 text-xs">
+                          <Timer className="w-3 h-3" />
+                          <span>Extended</span>
+                        </span>
+                      )}
+                    </div>
+                    <div className="flex items-center space-x-1 text-xs text-primary-400">
+                      <Clock className="w-3 h-3" />
+                      <span>{new Date(bid.timestamp).toLocaleString()}</span>
+                    </div>
+                  </div>
+                  <span className={`font-bold ${index === 0 ? 'text-green-400' : 'text-primary-200'}`}>
+                    ${bid.amount.toLocaleString()}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+}
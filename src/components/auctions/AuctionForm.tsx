@@ -0,0 +1,286 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { X, Gavel, DollarSign, Clock } from 'lucide-react';
+import { useApp } from '../../context/AppContext.tsx';
+import { Vehicle } from '../../types/index.ts';
+
+interface AuctionFormProps {
+  vehicle: Vehicle;
+  onClose: () => void;
+}
+
+// Auction lengths accepted by the backend
+const DURATION_OPTIONS = [1, 3, 5, 7];
+
+// Soft-close windows in minutes (0 disables extensions)
+const SOFT_CLOSE_OPTIONS = [0, 2, 5, 10];
+
+export function AuctionForm({ vehicle, onClose }: AuctionFormProps) {
+  const { addAuction } = useApp();
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const suggestedValue = vehicle.customPrice || vehicle.estimatedValue;
+
+  const [formData, setFormData] = useState({
+    title: `${vehicle.year} ${vehicle.make} ${vehicle.model}`,
+    description: '',
+    startingBid: Math.round(suggestedValue * 0.6),
+    buyNowPrice: '' as number | '',
+    reservePrice: '' as number | '',
+    durationDays: 7,
+    softCloseMinutes: 2,
+  });
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({
+      ...prev,
+      [name]: name === 'title' || name === 'description'
+        ? value
+        : (name === 'buyNowPrice' || name === 'reservePrice') && value === '' ? '' : Number(value)
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (formData.startingBid <= 0) {
+      setError('Starting bid must be greater than zero.');
+      return;
+    }
+
+    if (formData.buyNowPrice !== '' && formData.buyNowPrice <= formData.startingBid) {
+      setError('Buy now price must be higher than the starting bid.');
+      return;
+    }
+
+    if (formData.reservePrice !== '') {
+      if (formData.reservePrice < formData.startingBid) {
+        setError('Reserve price cannot be lower than the starting bid.');
+        return;
+      }
+      if (formData.buyNowPrice !== '' && formData.reservePrice > formData.buyNowPrice) {
+        setError('Reserve price cannot be higher than the buy now price.');
+        return;
+      }
+    }
+
+    setLoading(true);
+
+    try {
+      await addAuction({
+        vehicleId: vehicle.id,
+        title: formData.title,
+        description: formData.description,
+        startingBid: formData.startingBid,
+        buyNowPrice: formData.buyNowPrice === '' ? undefined : formData.buyNowPrice,
+        reservePrice: formData.reservePrice === '' ? undefined : formData.reservePrice,
+        durationDays: formData.durationDays,
+        softCloseMinutes: formData.softCloseMinutes,
+      });
+      onClose();
+    } catch (error) {
+      console.error('Failed to create auction:', error);
+      setError(error instanceof Error ? error.message : 'Failed to create auction. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50"
+      onClick={(e) => e.target === e.currentTarget && onClose()}
+    >
+      <motion.div
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.9, opacity: 0 }}
+        className="glass-effect rounded-2xl p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto"
+      >
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center space-x-3">
+            <div className="w-10 h-10 bg-purple-500 rounded-full flex items-center justify-center">
+              <Gavel className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <h2 className="text-2xl font-bold text-primary-100">Create Auction</h2>
+              <p className="text-primary-300">
+                {vehicle.year} {vehicle.make} {vehicle.model}
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-primary-800/50 rounded-full transition-colors"
+          >
+            <X className="w-5 h-5 text-primary-300" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-primary-300 mb-2">
+                Auction Title *
+              </label>
+              <input
+                type="text"
+                name="title"
+                value={formData.title}
+                onChange={handleChange}
+                className="input-field"
+                required
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-primary-300 mb-2">
+                Description (Optional)
+              </label>
+              <textarea
+                name="description"
+                value={formData.description}
+                onChange={handleChange}
+                rows={4}
+                className="input-field resize-none"
+                placeholder="Describe your vehicle's condition, history, and any notable features..."
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-primary-300 mb-2">
+                  Starting Bid *
+                </label>
+                <div className="relative">
+                  <DollarSign className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-primary-400" />
+                  <input
+                    type="number"
+                    name="startingBid"
+                    value={formData.startingBid}
+                    onChange={handleChange}
+                    className="input-field pl-10"
+                    min="1"
+                    required
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-primary-300 mb-2">
+                  Buy It Now Price (Optional)
+                </label>
+                <div className="relative">
+                  <DollarSign className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-primary-400" />
+                  <input
+                    type="number"
+                    name="buyNowPrice"
+                    value={formData.buyNowPrice}
+                    onChange={handleChange}
+                    className="input-field pl-10"
+                    min="0"
+                    placeholder={`e.g., ${suggestedValue}`}
+                  />
+                </div>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-primary-300 mb-2">
+                Reserve Price (Optional)
+              </label>
+              <div className="relative">
+                <DollarSign className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-primary-400" />
+                <input
+                  type="number"
+                  name="reservePrice"
+                  value={formData.reservePrice}
+                  onChange={handleChange}
+                  className="input-field pl-10"
+                  min="0"
+                  placeholder="Hidden minimum you'll accept"
+                />
+              </div>
+              <p className="text-xs text-primary-400 mt-1">
+                Bidders only see whether the reserve has been met. If it isn't, the vehicle stays in your garage.
+              </p>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-primary-300 mb-2">
+                  Duration
+                </label>
+                <div className="relative">
+                  <Clock className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-primary-400" />
+                  <select
+                    name="durationDays"
+                    value={formData.durationDays}
+                    onChange={handleChange}
+                    className="input-field pl-10"
+                  >
+                    {DURATION_OPTIONS.map(days => (
+                      <option key={days} value={days}>
+                        {days} day{days !== 1 ? 's' : ''}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-primary-300 mb-2">
+                  Soft Close
+                </label>
+                <select
+                  name="softCloseMinutes"
+                  value={formData.softCloseMinutes}
+                  onChange={handleChange}
+                  className="input-field"
+                >
+                  {SOFT_CLOSE_OPTIONS.map(minutes => (
+                    <option key={minutes} value={minutes}>
+                      {minutes === 0 ? 'Off' : `Extend ${minutes} min on late bids`}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <p className="text-sm text-primary-400">
+              Auctions can only be removed within 10 minutes of creation and before any bids are placed.
+            </p>
+
+            {error && (
+              <p className="text-sm text-red-400">{error}</p>
+            )}
+          </div>
+
+          <div className="flex space-x-3 pt-6 border-t border-primary-700/30">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 btn-secondary"
+              disabled={loading}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="flex-1 btn-primary disabled:opacity-50"
+            >
+              {loading ? 'Starting...' : 'Start Auction'}
+            </button>
+          </div>
+        </form>
+      </motion.div>
+    </motion.div>
+  );
+}
@@ -1,135 +1,41 @@
 import React, { useState, useEffect } from 'react';
-import { motion } from 'framer-motion';
+import { motion, AnimatePresence } from 'framer-motion';
 import { Search, Filter, Gavel, Clock, Eye, TrendingUp, DollarSign, Car, Calendar, MapPin } from 'lucide-react';
 import { useApp } from '../../context/AppContext.tsx';
-import { Auction, Vehicle, Bid } from '../../types/index.ts';
+import { Auction, Vehicle, User } from '../../types/index.ts';
+import { AuctionBidModal } from './AuctionBidModal.tsx';
+import { WatchButton } from '../common/WatchButton.tsx';
+
+type AuctionWithDetails = Auction & { vehicle: Vehicle; seller?: User };
 
 export function AuctionsView() {
-  const { state } = useApp();
+  const { state, loadAuctions, buyNowAuction } = useApp();
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedCategory, setSelectedCategory] = useState('all');
   const [sortBy, setSortBy] = useState('ending-soon');
   const [showFilters, setShowFilters] = useState(false);
 
-  // Mock auctions data - in real app this would come from API
-  const [auctions] = useState<Array<Auction & { vehicle: Vehicle; seller: { username: string; location: string } }>>([
-    {
-      id: '1',
-      vehicleId: '1',
-      sellerId: '1',
-      title: '2019 BMW M3 - Track Ready Beast',
-      description: 'High-performance sedan with track modifications. Well-maintained with service records.',
-      startingBid: 35000,
-      buyNowPrice: 52000,
-      currentBid: 42500,
-      highestBidderId: 'bidder1',
-      bids: [
-        { id: '1', auctionId: '1', bidderId: 'bidder1', amount: 42500, timestamp: new Date().toISOString() },
-        { id: '2', auctionId: '1', bidderId: 'bidder2', amount: 41000, timestamp: new Date(Date.now() - 3600000).toISOString() }
-      ],
-      startTime: new Date(Date.now() - 86400000 * 2).toISOString(),
-      endTime: new Date(Date.now() + 86400000 * 1).toISOString(), // Ends in 1 day
-      isActive: true,
-      views: 156,
-      createdAt: new Date(Date.now() - 86400000 * 2).toISOString(),
-      updatedAt: new Date().toISOString(),
-      vehicle: {
-        id: '1',
-        ownerId: '1',
-        make: 'BMW',
-        model: 'M3',
-        year: 2019,
-        mileage: 28000,
-        transmission: 'manual',
-        estimatedValue: 48000,
-        images: [],
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString()
-      },
-      seller: {
-        username: 'track_enthusiast',
-        location: 'Phoenix, AZ'
-      }
-    },
-    {
-      id: '2',
-      vehicleId: '2',
-      sellerId: '2',
-      title: '1995 Toyota Supra Turbo - JDM Legend',
-      description: 'Iconic sports car in excellent condition. Original paint, well-maintained engine.',
-      startingBid: 60000,
-      currentBid: 78500,
-      highestBidderId: 'collector1',
-      bids: [
-        { id: '3', auctionId: '2', bidderId: 'collector1', amount: 78500, timestamp: new Date(Date.now() - 1800000).toISOString() },
-        { id: '4', auctionId: '2', bidderId: 'jdm_fan', amount: 75000, timestamp: new Date(Date.now() - 7200000).toISOString() }
-      ],
-      startTime: new Date(Date.now() - 86400000 * 5).toISOString(),
-      endTime: new Date(Date.now() + 86400000 * 2).toISOString(), // Ends in 2 days
-      isActive: true,
-      views: 423,
-      createdAt: new Date(Date.now() - 86400000 * 5).toISOString(),
-      updatedAt: new Date(Date.now() - 1800000).toISOString(),
-      vehicle: {
-        id: '2',
-        ownerId: '2',
-        make: 'Toyota',
-        model: 'Supra',
-        year: 1995,
-        mileage: 45000,
-        transmission: 'manual',
-        estimatedValue: 85000,
-        images: [],
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString()
-      },
-      seller: {
-        username: 'classic_collector',
-        location: 'Miami, FL'
-      }
-    },
-    {
-      id: '3',
-      vehicleId: '3',
-      sellerId: '3',
-      title: '2021 Ford Mustang GT - Modern Muscle',
-      description: 'Low mileage performance car with premium package. Garage kept.',
-      startingBid: 28000,
-      buyNowPrice: 38000,
-      currentBid: 32000,
-      highestBidderId: 'muscle_fan',
-      bids: [
-        { id: '5', auctionId: '3', bidderId: 'muscle_fan', amount: 32000, timestamp: new Date(Date.now() - 900000).toISOString() }
-      ],
-      startTime: new Date(Date.now() - 86400000 * 1).toISOString(),
-      endTime: new Date(Date.now() + 86400000 * 6).toISOString(), // Ends in 6 days
-      isActive: true,
-      views: 89,
-      createdAt: new Date(Date.now() - 86400000 * 1).toISOString(),
-      updatedAt: new Date(Date.now() - 900000).toISOString(),
-      vehicle: {
-        id: '3',
-        ownerId: '3',
-        make: 'Ford',
-        model: 'Mustang',
-        year: 2021,
-        mileage: 12000,
-        transmission: 'automatic',
-        estimatedValue: 35000,
-        images: [],
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString()
-      },
-      seller: {
-        username: 'garage_keeper',
-        location: 'Dallas, TX'
-      }
-    }
-  ]);
+  const [biddingAuction, setBiddingAuction] = useState<AuctionWithDetails | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  // Load live auctions when the view mounts
+  useEffect(() => {
+    loadAuctions();
+  }, [loadAuctions]);
+
+  // Tick every second so countdowns stay live
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Only show auctions whose vehicle details came back populated
+  const auctions = state.auctions.filter(
+    (auction): auction is AuctionWithDetails => !!(auction as AuctionWithDetails).vehicle
+  );
 
   // Calculate time remaining for each auction
   const getTimeRemaining = (endTime: string) => {
-    const now = new Date().getTime();
     const end = new Date(endTime).getTime();
     const timeLeft = end - now;
 
@@ -143,6 +49,19 @@ export function AuctionsView() {
     return { days, hours, minutes, seconds, expired: false };
   };
 
+  const handleBuyNow = async (auction: AuctionWithDetails) => {
+    if (!auction.buyNowPrice) return;
+    if (!window.confirm(`Buy ${auction.title} now for $${auction.buyNowPrice.toLocaleString()}? This ends the auction immediately.`)) {
+      return;
+    }
+
+    try {
+      await buyNowAuction(auction.id);
+    } catch (error) {
+      // Error notification is shown by the context
+    }
+  };
+
   const filteredAuctions = auctions.filter(auction => {
     const matchesSearch = auction.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          auction.vehicle.make.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -151,9 +70,10 @@ export function AuctionsView() {
     const matchesCategory = selectedCategory === 'all' || 
                            (selectedCategory === 'ending-soon' && getTimeRemaining(auction.endTime).days < 1) ||
                            (selectedCategory === 'buy-now' && auction.buyNowPrice) ||
-                           (selectedCategory === 'no-reserve' && !auction.buyNowPrice);
+                           (selectedCategory === 'no-reserve' && !auction.hasReserve) ||
+                           (selectedCategory === 'watching' && state.watchlist.auctionIds.includes(auction.id));
     
-    return matchesSearch && matchesCategory && auction.isActive;
+    return matchesSearch && matchesCategory && auction.isActive && auction.status !== 'cancelled';
   });
 
   const sortedAuctions = [...filteredAuctions].sort((a, b) => {
@@ -236,6 +156,7 @@ export function AuctionsView() {
                   <option value="ending-soon">Ending Soon</option>
                   <option value="buy-now">Buy It Now</option>
                   <option value="no-reserve">No Reserve</option>
+                  <option value="watching">Watching ({state.watchlist.auctionIds.length})</option>
                 </select>
               </div>
 
@@ -262,7 +183,7 @@ export function AuctionsView() {
 
       {/* Auctions Grid */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-        {filteredAuctions.map((auction, index) => {
+        {sortedAuctions.map((auction, index) => {
           const timeRemaining = getTimeRemaining(auction.endTime);
           const isEndingSoon = timeRemaining.days === 0 && timeRemaining.hours < 12;
           
@@ -276,7 +197,15 @@ export function AuctionsView() {
             >
               {/* Image Placeholder */}
               <div className="h-48 bg-gradient-to-br from-primary-700 to-primary-800 flex items-center justify-center relative overflow-hidden">
-                <Car className="w-16 h-16 text-primary-400" />
+                {auction.vehicle.images && auction.vehicle.images.length > 0 ? (
+                  <img
+                    src={auction.vehicle.images[0]}
+                    alt={auction.title}
+                    className="w-full h-full object-cover"
+                  />
+                ) : (
+                  <Car className="w-16 h-16 text-primary-400" />
+                )}
                 <div className="absolute top-3 left-3 flex space-x-2">
                   <div className="flex items-center space-x-1 bg-black/50 rounded-full px-2 py-1">
                     <Eye className="w-3 h-3 text-white" />
@@ -288,7 +217,8 @@ export function AuctionsView() {
                     </div>
                   )}
                 </div>
-                <div className="absolute top-3 right-3">
+                <div className="absolute top-3 right-3 flex items-center space-x-2">
+                  <WatchButton type="auction" itemId={auction.id} />
                   <div className={`flex items-center space-x-1 rounded-full px-2 py-1 ${
                     isEndingSoon ? 'bg-red-500/80' : 'bg-blue-500/80'
                   }`}>
@@ -321,7 +251,9 @@ export function AuctionsView() {
                     <span className="text-sm font-medium text-primary-200">Time Remaining</span>
                     <span className={`text-sm font-medium ${isEndingSoon ? 'text-red-400' : 'text-primary-200'}`}>
                       {timeRemaining.expired ? 'Ended' : 
-                       `${timeRemaining.days}d ${timeRemaining.hours}h ${timeRemaining.minutes}m`}
+                       timeRemaining.days === 0 && timeRemaining.hours === 0
+                         ? `${timeRemaining.minutes}m ${timeRemaining.seconds}s`
+                         : `${timeRemaining.days}d ${timeRemaining.hours}h ${timeRemaining.minutes}m`}
                     </span>
                   </div>
                   <div className="w-full bg-primary-700/50 rounded-full h-2">
@@ -330,7 +262,7 @@ export function AuctionsView() {
                         isEndingSoon ? 'bg-red-500' : 'bg-blue-500'
                       }`}
                       style={{ 
-                        width: `${Math.max(10, 100 - ((new Date().getTime() - new Date(auction.startTime).getTime()) / 
+                        width: `${Math.max(10, 100 - ((now - new Date(auction.startTime).getTime()) / 
                         (new Date(auction.endTime).getTime() - new Date(auction.startTime).getTime()) * 100))}%` 
                       }}
                     />
@@ -356,7 +288,7 @@ export function AuctionsView() {
                     <div className="flex items-center space-x-1">
                       <TrendingUp className="w-4 h-4 text-green-400" />
                       <span className="text-lg font-bold text-green-400">
-                        ${auction.currentBid.toLocaleString()}
+                        {auction.bids.length > 0 ? `$${auction.currentBid.toLocaleString()}` : 'No bids'}
                       </span>
                     </div>
                   </div>
@@ -370,26 +302,40 @@ export function AuctionsView() {
                     </div>
                   )}
 
+                  {auction.highestBidderId && auction.highestBidderId === state.currentUser?.id && (
+                    <p className="text-sm text-green-400">You're the highest bidder</p>
+                  )}
+
                   <div className="flex items-center justify-between text-sm">
                     <span className="text-primary-400">Bids: {auction.bids.length}</span>
                     <span className="text-primary-400">Starting: ${auction.startingBid.toLocaleString()}</span>
                   </div>
+
+                  {auction.hasReserve && (
+                    <p className={`text-xs ${auction.reserveMet ? 'text-green-400' : 'text-yellow-400'}`}>
+                      {auction.reserveMet ? 'Reserve met' : 'Reserve not met'}
+                    </p>
+                  )}
                 </div>
 
                 {/* Action Buttons */}
                 <div className="space-y-2 mb-4">
                   <motion.button
                     whileTap={{ scale: 0.98 }}
-                    className="w-full btn-primary flex items-center justify-center space-x-2"
+                    onClick={() => setBiddingAuction(auction)}
+                    disabled={timeRemaining.expired}
+                    className="w-full btn-primary flex items-center justify-center space-x-2 disabled:opacity-50"
                   >
                     <Gavel className="w-4 h-4" />
-                    <span>Place Bid</span>
+                    <span>{auction.sellerId === state.currentUser?.id ? 'View Bids' : 'Place Bid'}</span>
                   </motion.button>
                   
-                  {auction.buyNowPrice && (
+                  {auction.buyNowPrice && auction.currentBid < auction.buyNowPrice && auction.sellerId !== state.currentUser?.id && (
                     <motion.button
                       whileTap={{ scale: 0.98 }}
-                      className="w-full btn-secondary flex items-center justify-center space-x-2"
+                      onClick={() => handleBuyNow(auction)}
+                      disabled={timeRemaining.expired}
+                      className="w-full btn-secondary flex items-center justify-center space-x-2 disabled:opacity-50"
                     >
                       <DollarSign className="w-4 h-4" />
                       <span>Buy Now</span>
@@ -400,11 +346,13 @@ export function AuctionsView() {
                 {/* Seller Info */}
                 <div className="flex items-center justify-between pt-3 border-t border-primary-700/30">
                   <div>
-                    <p className="text-sm font-medium text-primary-200">{auction.seller.username}</p>
-                    <div className="flex items-center space-x-1 text-xs text-primary-400">
-                      <MapPin className="w-3 h-3" />
-                      <span>{auction.seller.location}</span>
-                    </div>
+                    <p className="text-sm font-medium text-primary-200">{auction.seller?.username || 'Unknown seller'}</p>
+                    {auction.seller?.location && (
+                      <div className="flex items-center space-x-1 text-xs text-primary-400">
+                        <MapPin className="w-3 h-3" />
+                        <span>{auction.seller.location}</span>
+                      </div>
+                    )}
                   </div>
                   <div className="text-right">
                     <p className="text-xs text-primary-400">Ends</p>
@@ -429,6 +377,16 @@ export function AuctionsView() {
           </p>
         </div>
       )}
+
+      {/* Bid Modal */}
+      <AnimatePresence>
+        {biddingAuction && (
+          <AuctionBidModal
+            auction={auctions.find(a => a.id === biddingAuction.id) || biddingAuction}
+            onClose={() => setBiddingAuction(null)}
+          />
+        )}
+      </AnimatePresence>
     </div>
   );
 } 
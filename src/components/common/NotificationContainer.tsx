@@ -8,22 +8,24 @@ export function NotificationContainer() {
   const { state, removeNotification, setActiveTab } = useApp();
 
   const handleNotificationAction = (notification: Notification) => {
-    // Handle different notification types
+    // Notifications that know where they point (a conversation, trade or listing) carry their own action
+    if (notification.onAction) {
+      notification.onAction();
+      return;
+    }
+
+    // Otherwise fall back to the tab for the notification type
     switch (notification.type) {
       case 'message':
-        // Navigate to messages tab
         setActiveTab('messages');
-        // You could also implement logic to open the specific conversation
-        // if the notification has conversation data
         break;
       case 'trade':
         setActiveTab('trades');
         break;
+      case 'auction':
+        setActiveTab('auctions');
+        break;
       default:
-        // For other notification types, execute the custom onAction if available
-        if (notification.onAction) {
-          notification.onAction();
-        }
         break;
     }
   };
@@ -7,6 +7,7 @@ import {
   Info, 
   MessageCircle, 
   ArrowLeftRight,
+  Gavel,
   Clock,
   Copy,
   Check
@@ -38,6 +39,8 @@ export function NotificationItem({ notification, onRemove, onAction }: Notificat
         return <MessageCircle className="w-5 h-5 text-purple-400" />;
       case 'trade':
         return <ArrowLeftRight className="w-5 h-5 text-orange-400" />;
+      case 'auction':
+        return <Gavel className="w-5 h-5 text-pink-400" />;
       default:
         return <Info className="w-5 h-5 text-blue-400" />;
     }
@@ -81,6 +84,12 @@ export function NotificationItem({ notification, onRemove, onAction }: Notificat
           border: 'border-orange-500/30',
           accent: 'bg-orange-500'
         };
+      case 'auction':
+        return {
+          bg: 'bg-pink-500/10',
+          border: 'border-pink-500/30',
+          accent: 'bg-pink-500'
+        };
       default:
         return {
           bg: 'bg-blue-500/10',
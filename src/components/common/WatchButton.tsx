@@ -0,0 +1,34 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { Heart } from 'lucide-react';
+import { useApp } from '../../context/AppContext.tsx';
+import { WatchlistItemType } from '../../types/index.ts';
+
+interface WatchButtonProps {
+  type: WatchlistItemType;
+  itemId: string;
+  className?: string;
+}
+
+export function WatchButton({ type, itemId, className = '' }: WatchButtonProps) {
+  const { state, toggleWatch } = useApp();
+
+  if (!state.currentUser) return null;
+
+  const isWatching = (type === 'listing' ? state.watchlist.listingIds : state.watchlist.auctionIds).includes(itemId);
+
+  return (
+    <motion.button
+      whileTap={{ scale: 0.85 }}
+      onClick={(e) => {
+        // Cards are clickable, so don't open the detail view
+        e.stopPropagation();
+        toggleWatch(type, itemId);
+      }}
+      className={`p-2 rounded-full bg-black/50 hover:bg-black/70 transition-colors ${className}`}
+      title={isWatching ? 'Stop watching' : 'Watch'}
+    >
+      <Heart className={`w-4 h-4 ${isWatching ? 'text-red-500 fill-red-500' : 'text-white'}`} />
+    </motion.button>
+  );
+}
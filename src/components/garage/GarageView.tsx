@@ -1,17 +1,24 @@
 import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
+import { useNavigate, useParams } from 'react-router-dom';
 import { Plus, Car, Edit, Trash2, DollarSign, Calendar, Gauge, List, Gavel, RefreshCw, X, Image } from 'lucide-react';
 import { useApp } from '../../context/AppContext.tsx';
 import { Vehicle } from '../../types/index.ts';
 import { VehicleForm } from './VehicleForm.tsx';
 import { ListingForm } from '../listings/ListingForm.tsx';
+import { AuctionForm } from '../auctions/AuctionForm.tsx';
 import { SkeletonGrid } from '../common/SkeletonCard.tsx';
+import { routes } from '../../utils/routes.ts';
 
 export function GarageView() {
-  const { state, addVehicle, updateVehicle, deleteVehicle, deleteListing, renewListing, loadAllListings, getVehiclesCount } = useApp();
-  const [selectedVehicle, setSelectedVehicle] = useState<Vehicle | null>(null);
+  const { state, addVehicle, updateVehicle, deleteVehicle, deleteListing, renewListing, loadAllListings, loadAuctions, cancelAuction, getVehiclesCount } = useApp();
+  const navigate = useNavigate();
+  // /garage/:vehicleId opens that vehicle's editor
+  const { vehicleId } = useParams();
+  const selectedVehicle = vehicleId ? state.vehicles.find(v => v.id === vehicleId) || null : null;
   const [showAddForm, setShowAddForm] = useState(false);
   const [listingVehicle, setListingVehicle] = useState<Vehicle | null>(null);
+  const [auctionVehicle, setAuctionVehicle] = useState<Vehicle | null>(null);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [sortBy, setSortBy] = useState('newest');
@@ -55,6 +62,11 @@ export function GarageView() {
     }
   }, [state.allListings.length, loadAllListings]);
 
+  // Load auctions so auctioned vehicles can be managed from the garage
+  useEffect(() => {
+    loadAuctions();
+  }, [loadAuctions]);
+
   // Helper function to dynamically check if a vehicle is listed
   const isVehicleListed = (vehicle: Vehicle) => {
     const userListing = state.listings.find(l => l.vehicleId === vehicle.id && l.isActive);
@@ -73,8 +85,7 @@ export function GarageView() {
   };
 
   const handleCreateAuction = (vehicle: Vehicle) => {
-    // TODO: Implement auction creation
-    alert('Auction creation coming soon!');
+    setAuctionVehicle(vehicle);
   };
 
   const handleRenewListing = (vehicle: Vehicle) => {
@@ -141,9 +152,13 @@ export function GarageView() {
       return;
     }
 
+    if (auction.bids.length > 0) {
+      alert('Auction cannot be removed once bids have been placed.');
+      return;
+    }
+
     if (window.confirm('Are you sure you want to remove this auction?')) {
-      // TODO: Implement auction removal
-      alert('Auction removal coming soon!');
+      cancelAuction(auction.id);
     }
   };
 
@@ -155,7 +170,7 @@ export function GarageView() {
     const currentTime = new Date().getTime();
     const timeDifference = (currentTime - createdTime) / (1000 * 60); // in minutes
 
-    return timeDifference <= 10;
+    return timeDifference <= 10 && auction.bids.length === 0;
   };
 
   const canRenewListing = (vehicle: Vehicle) => {
@@ -311,7 +326,7 @@ export function GarageView() {
                         <motion.button
                           whileHover={{ scale: 1.02 }}
                           whileTap={{ scale: 0.98 }}
-                          onClick={() => setSelectedVehicle(vehicle)}
+                          onClick={() => navigate(routes.vehicle(vehicle.id))}
                           className="flex-1 btn-secondary flex items-center justify-center space-x-1"
                         >
                           <Edit className="w-4 h-4" />
@@ -432,7 +447,7 @@ export function GarageView() {
         {selectedVehicle && (
           <VehicleForm
             vehicle={selectedVehicle}
-            onClose={() => setSelectedVehicle(null)}
+            onClose={() => navigate(routes.tab('garage'))}
           />
         )}
         {listingVehicle && (
@@ -445,6 +460,12 @@ export function GarageView() {
             onClose={() => setListingVehicle(null)}
           />
         )}
+        {auctionVehicle && (
+          <AuctionForm
+            vehicle={auctionVehicle}
+            onClose={() => setAuctionVehicle(null)}
+          />
+        )}
       </AnimatePresence>
     </div>
   );
@@ -1,10 +1,11 @@
 import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { X, Car, Loader, Upload, Trash2, GripVertical, Image } from 'lucide-react';
+import { X, Car, Loader, Upload, Trash2, GripVertical, Image, AlertTriangle, CheckCircle } from 'lucide-react';
 import { useApp } from '../../context/AppContext.tsx';
 import { CarValuationService } from '../../services/carValuationService.ts';
 import { Vehicle } from '../../types/index.ts';
 import { ImageModal } from '../common/ImageModal.tsx';
+import { normalizeVin, validateVin, decodeVin } from '../../utils/vin.ts';
 
 interface VehicleFormProps {
   vehicle?: Vehicle;
@@ -42,6 +43,31 @@ export function VehicleForm({ vehicle, onClose }: VehicleFormProps) {
     }));
   };
 
+  // Prefill make and year from the VIN, but never overwrite what the user already chose
+  const handleVinChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const vin = normalizeVin(e.target.value);
+    const decoded = validateVin(vin).valid ? decodeVin(vin) : {};
+    setFormData(prev => ({
+      ...prev,
+      vin,
+      make: prev.make || decoded.make || '',
+      year: prev.year || decoded.year?.toString() || '',
+    }));
+  };
+
+  const vinValidation = validateVin(formData.vin);
+  // Older vehicles may predate validation, so only a new or changed VIN has to pass
+  const isVinBlocked = (!vehicle || formData.vin !== vehicle.vin) && !vinValidation.valid;
+  const decodedVin = vinValidation.valid ? decodeVin(formData.vin) : {};
+  const vinMismatches = [
+    decodedVin.make && formData.make && decodedVin.make !== formData.make
+      ? `VIN belongs to a ${decodedVin.make}, but the make is set to ${formData.make}`
+      : null,
+    decodedVin.year && formData.year && decodedVin.year !== Number(formData.year)
+      ? `VIN is for a ${decodedVin.year} model year, but the year is set to ${formData.year}`
+      : null,
+  ].filter((warning): warning is string => warning !== null);
+
   const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
     if (!files) return;
@@ -101,6 +127,7 @@ export function VehicleForm({ vehicle, onClose }: VehicleFormProps) {
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (isVinBlocked) return;
     setLoading(true);
 
     try {
@@ -138,7 +165,7 @@ export function VehicleForm({ vehicle, onClose }: VehicleFormProps) {
       onClose();
     } catch (error) {
       console.error('Failed to save vehicle:', error);
-      alert('Failed to save vehicle. Please try again.');
+      alert(error instanceof Error && error.message ? error.message : 'Failed to save vehicle. Please try again.');
     } finally {
       setLoading(false);
     }
@@ -275,16 +302,36 @@ export function VehicleForm({ vehicle, onClose }: VehicleFormProps) {
                 type="text"
                 name="vin"
                 value={formData.vin}
-                onChange={handleChange}
-                className="input-field"
+                onChange={handleVinChange}
+                className="input-field font-mono"
                 placeholder="Vehicle Identification Number"
                 required
-                maxLength={17}
                 minLength={17}
               />
+              {/* No maxLength: a pasted VIN with dashes or spaces is longer until handleVinChange strips them */}
+              {formData.vin.length >= 17 && isVinBlocked && (
+                <p className="text-xs text-red-400 mt-1">{vinValidation.error}</p>
+              )}
+              {vinValidation.valid && (decodedVin.make || decodedVin.year) && (
+                <p className="flex items-center space-x-1 text-xs text-green-400 mt-1">
+                  <CheckCircle className="w-3 h-3" />
+                  <span>Decoded: {[decodedVin.year, decodedVin.make].filter(Boolean).join(' ')}</span>
+                </p>
+              )}
             </div>
           </div>
 
+          {vinMismatches.length > 0 && (
+            <div className="p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg space-y-1">
+              {vinMismatches.map(warning => (
+                <p key={warning} className="flex items-center space-x-2 text-sm text-yellow-400">
+                  <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                  <span>{warning}</span>
+                </p>
+              ))}
+            </div>
+          )}
+
           <div style={{ borderTop: '1px solid var(--color-border-primary)', paddingTop: '1rem' }}>
             <h3 style={{ fontSize: '1.125rem', fontWeight: '600', color: 'var(--color-text-primary)', marginBottom: '1rem' }}>
               Images
@@ -399,7 +446,7 @@ export function VehicleForm({ vehicle, onClose }: VehicleFormProps) {
             </button>
             <button
               type="submit"
-              disabled={loading}
+              disabled={loading || isVinBlocked}
               className="flex-1 btn-primary disabled:opacity-50"
             >
               {loading ? (
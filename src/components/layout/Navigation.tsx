@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Car, ArrowLeftRight, MessageCircle, User, LogOut, Menu, X, List, Gavel, Users } from 'lucide-react';
+import { Car, ArrowLeftRight, MessageCircle, User, LogOut, Menu, X, List, Gavel, Users, ShieldCheck } from 'lucide-react';
 import { useApp } from '../../context/AppContext.tsx';
 import { NavigationTab } from '../../types/index.ts';
 
@@ -92,16 +92,16 @@ export function Navigation({ isMobile, isOpen, onToggle, onHoverChange }: Naviga
       icon: <Users className="w-5 h-5" />,
       label: 'Users',
     },
+    // Only admins get the maintenance tools
+    ...(state.currentUser?.isAdmin ? [{
+      tab: 'admin' as NavigationTab,
+      icon: <ShieldCheck className="w-5 h-5" />,
+      label: 'Admin',
+    }] : []),
   ];
 
   const handleTabClick = async (tab: NavigationTab) => {
-    // If clicking the same tab (Messages), reset the selected conversation
-    if (tab === 'messages' && activeTab === 'messages') {
-      // Dispatch a custom event to reset the selected conversation
-      window.dispatchEvent(new CustomEvent('resetMessagesConversation'));
-    }
-    
-    // Set the tab immediately for instant response
+    // Navigating to the bare tab URL also closes any open conversation, trade or listing
     setActiveTab(tab);
     
     // 🚀 PERFORMANCE FIX: Lazy load data based on tab
@@ -1,10 +1,12 @@
 import React, { useState } from 'react';
 import { motion } from 'framer-motion';
-import { X, Car, Calendar, Gauge, DollarSign, User, MessageCircle, ArrowLeftRight, Eye, MapPin, Phone, ChevronLeft, ChevronRight, Copy, Check } from 'lucide-react';
-import { Listing, Vehicle, User as UserType } from '../../types/index.ts';
+import { X, Car, Calendar, Gauge, DollarSign, User, MessageCircle, ArrowLeftRight, Eye, MapPin, Phone, ChevronLeft, ChevronRight, Copy, Check, BadgeDollarSign } from 'lucide-react';
+import { Listing, Offer, Vehicle, User as UserType } from '../../types/index.ts';
 import { useApp } from '../../context/AppContext.tsx';
 import { MessageButton } from '../messages/MessageButton.tsx';
 import { ImageModal } from '../common/ImageModal.tsx';
+import { OfferModal } from './OfferModal.tsx';
+import { ListingOffersPanel } from './ListingOffersPanel.tsx';
 
 interface ListingDetailViewProps {
   listing: Listing;
@@ -21,10 +23,18 @@ export function ListingDetailView({ listing, vehicle, seller, onClose, onContact
   const [currentImageIndex, setCurrentImageIndex] = useState(0);
   const [imageModalOpen, setImageModalOpen] = useState(false);
   const [vinCopied, setVinCopied] = useState(false);
+  const [offerModal, setOfferModal] = useState<{ counter?: Offer } | null>(null);
 
   // Check if current user is the seller to prevent self-trading/contacting
   const isOwnListing = state.currentUser?.id === listing.sellerId;
 
+  // Buyers can only have one open offer per listing at a time
+  const hasOpenOffer = state.offers.some(offer =>
+    offer.listingId === listing.id &&
+    offer.buyerId === state.currentUser?.id &&
+    (offer.status === 'pending' || offer.status === 'countered')
+  );
+
   const nextImage = () => {
     if (vehicle.images && vehicle.images.length > 0) {
       setCurrentImageIndex((prev) => (prev + 1) % vehicle.images.length);
@@ -224,6 +234,17 @@ export function ListingDetailView({ listing, vehicle, seller, onClose, onContact
                     <ArrowLeftRight className="w-5 h-5" />
                     <span>Make Trade Offer</span>
                   </motion.button>
+                  {listing.isActive && !hasOpenOffer && (
+                    <motion.button
+                      whileHover={{ scale: 1.02 }}
+                      whileTap={{ scale: 0.98 }}
+                      onClick={() => setOfferModal({})}
+                      className="flex-1 bg-green-500/10 hover:bg-green-500/20 text-green-400 border border-green-500/20 rounded-lg px-4 py-3 flex items-center justify-center space-x-2 transition-colors"
+                    >
+                      <BadgeDollarSign className="w-5 h-5" />
+                      <span>Make Offer</span>
+                    </motion.button>
+                  )}
                 </>
               )}
             </div>
@@ -334,6 +355,12 @@ export function ListingDetailView({ listing, vehicle, seller, onClose, onContact
 
           {/* Right Column - Details and Actions */}
           <div className="space-y-6">
+            {/* Cash Offers */}
+            <ListingOffersPanel
+              listing={listing}
+              onCounter={(offer) => setOfferModal({ counter: offer })}
+            />
+
             {/* Description */}
             {listing.description && (
               <div className="glass-effect rounded-xl p-4">
@@ -492,6 +519,15 @@ export function ListingDetailView({ listing, vehicle, seller, onClose, onContact
         onNavigate={setCurrentImageIndex}
         title={`${vehicle.year} ${vehicle.make} ${vehicle.model}`}
       />
+
+      {offerModal && (
+        <OfferModal
+          listing={listing}
+          vehicle={vehicle}
+          offer={offerModal.counter}
+          onClose={() => setOfferModal(null)}
+        />
+      )}
     </motion.div>
   );
 } 
\ No newline at end of file
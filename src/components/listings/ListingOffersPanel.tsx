@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import { Check, X, ArrowLeftRight, Clock, Undo2, BadgeDollarSign } from 'lucide-react';
+import { useApp } from '../../context/AppContext.tsx';
+import { Listing, Offer, OfferResponse, OfferStatus } from '../../types/index.ts';
+
+interface ListingOffersPanelProps {
+  listing: Listing;
+  onCounter: (offer: Offer) => void;
+}
+
+const OPEN_STATUSES: OfferStatus[] = ['pending', 'countered'];
+
+const STATUS_STYLES: Record<OfferStatus, string> = {
+  pending: 'bg-yellow-500/20 text-yellow-300',
+  countered: 'bg-blue-500/20 text-blue-300',
+  accepted: 'bg-green-500/20 text-green-300',
+  declined: 'bg-red-500/20 text-red-300',
+  withdrawn: 'bg-primary-700/40 text-primary-300',
+  expired: 'bg-primary-700/40 text-primary-300',
+};
+
+const HISTORY_LABELS: Record<Offer['history'][number]['action'], string> = {
+  offered: 'Offered',
+  countered: 'Countered',
+  accepted: 'Accepted',
+  declined: 'Declined',
+  withdrawn: 'Withdrew',
+  expired: 'Expired',
+};
+
+// Offers on one listing: the seller sees every buyer's, a buyer sees only their own
+export function ListingOffersPanel({ listing, onCounter }: ListingOffersPanelProps) {
+  const { state, respondToOffer } = useApp();
+  const [busyOfferId, setBusyOfferId] = useState<string | null>(null);
+
+  const currentUserId = state.currentUser?.id;
+  const isSeller = currentUserId === listing.sellerId;
+
+  const offers = state.offers
+    .filter(offer => offer.listingId === listing.id && (isSeller || offer.buyerId === currentUserId))
+    .sort((a, b) => {
+      // Open offers first, then most recent activity
+      const openDiff = Number(OPEN_STATUSES.includes(b.status)) - Number(OPEN_STATUSES.includes(a.status));
+      return openDiff || new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime();
+    });
+
+  if (offers.length === 0) return null;
+
+  const handleRespond = async (offer: Offer, response: OfferResponse) => {
+    setBusyOfferId(offer.id);
+    try {
+      await respondToOffer(offer.id, response);
+    } catch (error) {
+      console.error(`Error responding to offer (${response}):`, error);
+    } finally {
+      setBusyOfferId(null);
+    }
+  };
+
+  const getUsername = (userId: string, offer: Offer) => {
+    if (userId === currentUserId) return 'You';
+    const user = userId === offer.sellerId ? offer.seller : offer.buyer;
+    return user?.username ? `@${user.username}` : 'Unknown';
+  };
+
+  return (
+    <div className="glass-effect rounded-xl p-4">
+      <h3 className="text-lg font-semibold text-primary-100 mb-3 flex items-center">
+        <BadgeDollarSign className="w-5 h-5 mr-2" />
+        {isSeller ? 'Offers' : 'Your Offer'}
+      </h3>
+      <div className="space-y-3">
+        {offers.map(offer => {
+          const isOpen = OPEN_STATUSES.includes(offer.status);
+          const awaitingYou = isOpen && offer.lastActionBy !== currentUserId;
+          const isBusy = busyOfferId === offer.id;
+
+          return (
+            <div key={offer.id} className="bg-primary-800/30 rounded-lg p-3">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-xl font-bold text-primary-100">${offer.amount.toLocaleString()}</p>
+                  {isSeller && (
+                    <p className="text-sm text-primary-300">from {getUsername(offer.buyerId, offer)}</p>
+                  )}
+                </div>
+                <span className={`px-2 py-1 rounded-full text-xs font-medium capitalize ${STATUS_STYLES[offer.status]}`}>
+                  {offer.status}
+                </span>
+              </div>
+
+              {isOpen && (
+                <p className="text-xs text-primary-400 mt-1">
+                  {awaitingYou ? 'Waiting for your response' : `Waiting for ${isSeller ? 'the buyer' : 'the seller'}`}
+                  {offer.expiresAt && (
+                    <span className="inline-flex items-center ml-2">
+                      <Clock className="w-3 h-3 mr-1" />
+                      Expires {new Date(offer.expiresAt).toLocaleString()}
+                    </span>
+                  )}
+                </p>
+              )}
+
+              {/* Negotiation so far */}
+              <div className="mt-2 space-y-1">
+                {offer.history.map((item, index) => (
+                  <div key={index} className="flex items-start justify-between text-xs">
+                    <span className="text-primary-300">
+                      {getUsername(item.userId, offer)} {HISTORY_LABELS[item.action].toLowerCase()}
+                      {item.amount !== undefined && ` $${item.amount.toLocaleString()}`}
+                      {item.message && <span className="text-primary-400 italic"> – "{item.message}"</span>}
+                    </span>
+                    <span className="text-primary-500 ml-2 flex-shrink-0">
+                      {new Date(item.timestamp).toLocaleDateString()}
+                    </span>
+                  </div>
+                ))}
+              </div>
+
+              {isOpen && (
+                <div className="flex flex-wrap gap-2 mt-3">
+                  {awaitingYou && (
+                    <>
+                      <button
+                        onClick={() => handleRespond(offer, 'accept')}
+                        disabled={isBusy}
+                        className="flex items-center space-x-1 px-3 py-1.5 rounded-lg bg-green-500/10 hover:bg-green-500/20 text-green-400 border border-green-500/20 text-sm transition-colors disabled:opacity-50"
+                      >
+                        <Check className="w-4 h-4" />
+                        <span>Accept</span>
+                      </button>
+                      <button
+                        onClick={() => onCounter(offer)}
+                        disabled={isBusy}
+                        className="flex items-center space-x-1 px-3 py-1.5 rounded-lg bg-blue-500/10 hover:bg-blue-500/20 text-blue-400 border border-blue-500/20 text-sm transition-colors disabled:opacity-50"
+                      >
+                        <ArrowLeftRight className="w-4 h-4" />
+                        <span>Counter</span>
+                      </button>
+                      <button
+                        onClick={() => handleRespond(offer, 'decline')}
+                        disabled={isBusy}
+                        className="flex items-center space-x-1 px-3 py-1.5 rounded-lg bg-red-500/10 hover:bg-red-500/20 text-red-400 border border-red-500/20 text-sm transition-colors disabled:opacity-50"
+                      >
+                        <X className="w-4 h-4" />
+                        <span>Decline</span>
+                      </button>
+                    </>
+                  )}
+                  {!isSeller && (
+                    <button
+                      onClick={() => handleRespond(offer, 'withdraw')}
+                      disabled={isBusy}
+                      className="flex items-center space-x-1 px-3 py-1.5 rounded-lg hover:bg-primary-800/50 text-primary-300 text-sm transition-colors disabled:opacity-50"
+                    >
+                      <Undo2 className="w-4 h-4" />
+                      <span>Withdraw</span>
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
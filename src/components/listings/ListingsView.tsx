@@ -1,5 +1,6 @@
-import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
 import { 
   Search, 
   Filter, 
@@ -15,43 +16,54 @@ import {
   Clock,
   ChevronLeft,
   ChevronRight,
-  Image
+  Image,
+  Bookmark
 } from 'lucide-react';
 import { useApp } from '../../context/AppContext.tsx';
-import { Listing, Vehicle } from '../../types/index.ts';
+import ApiService from '../../services/apiService.ts';
+import { Listing, Vehicle, ListingSearchFilters, SavedSearch } from '../../types/index.ts';
 import { ListingDetailView } from './ListingDetailView.tsx';
 import { SellerProfileView } from '../profile/SellerProfileView.tsx';
 import { TradeOfferModal } from '../trades/TradeOfferModal.tsx';
 import { MessageButton } from '../messages/MessageButton';
+import { SavedSearchesPanel } from './SavedSearchesPanel.tsx';
+import { WatchButton } from '../common/WatchButton.tsx';
+import { parseListingSearchParams, toListingSearchParams } from '../../utils/listingSearch.ts';
+import { routes } from '../../utils/routes.ts';
 
 export function ListingsView() {
-  const { state, incrementListingViews, loadAllListings, getUserProfile } = useApp();
-  const [selectedListing, setSelectedListing] = useState<any>(null);
+  const { state, incrementListingViews, loadAllListings, getUserProfile, searchListings, loadMoreListings } = useApp();
+  const navigate = useNavigate();
+  // /listings/:listingId opens that listing over the results
+  const { listingId } = useParams();
+  const [fetchedListing, setFetchedListing] = useState<any>(null);
   const [selectedSeller, setSelectedSeller] = useState<any>(null);
   const [showTradeOffer, setShowTradeOffer] = useState(false);
   const [tradeOfferListing, setTradeOfferListing] = useState<any>(null);
   
-  // Search and filter states
-  const [searchTerm, setSearchTerm] = useState('');
-  const [sortBy, setSortBy] = useState('newest');
-  const [filterBy, setFilterBy] = useState('all');
-  const [priceRange, setPriceRange] = useState([0, 200000]);
-  const [yearRange, setYearRange] = useState([1990, new Date().getFullYear()]);
+  // Search and filter states live in the query string so searches can be bookmarked and shared
+  const [searchParams, setSearchParams] = useSearchParams();
+  const urlFilters = useMemo(() => parseListingSearchParams(searchParams), [searchParams]);
+  const watchingOnly = searchParams.get('watching') === '1';
+  const searchTerm = urlFilters.searchTerm;
+  const sortBy = urlFilters.sortBy;
+  const filterBy = urlFilters.make;
+  const priceRange = [urlFilters.minPrice || 0, urlFilters.maxPrice || 0];
+  const yearRange = [urlFilters.minYear || 0, urlFilters.maxYear || 0];
+  const maxMileage = urlFilters.maxMileage || 0;
+  const transmission = urlFilters.transmission || '';
   const [showFilters, setShowFilters] = useState(false);
-  const [isLoading, setIsLoading] = useState(true);
+  const [showSavedSearches, setShowSavedSearches] = useState(false);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
 
-  // Update loading state when listings are loaded
-  useEffect(() => {
-    if (state.allListings.length > 0) {
-      setIsLoading(false);
-    }
-  }, [state.allListings.length]);
+  const { listingSearch } = state;
+  const isLoading = listingSearch.loading && listingSearch.results.length === 0;
 
   // Memoize listings processing to avoid re-computation on every render
   const listingsWithVehicles = useMemo(() => {
-    console.log('🔄 Processing', state.allListings.length, 'listings');
+    console.log('🔄 Processing', listingSearch.results.length, 'listings');
     
-    const result = state.allListings
+    const result = listingSearch.results
       .filter(listing => listing.isActive)
       .map(listing => {
         // Handle vehicle data - could be populated object or ID
@@ -112,29 +124,47 @@ export function ListingsView() {
         return hasValidData;
       });
 
-    console.log('🔄 Final processed listings:', result.length, 'out of', state.allListings.length);
+    console.log('🔄 Final processed listings:', result.length, 'out of', listingSearch.results.length);
     return result;
-  }, [state.allListings, state.vehicles, state.users, state.currentUser]);
+  }, [listingSearch.results, state.vehicles, state.users, state.currentUser]);
 
-  // Memoize filtered listings to avoid re-filtering on every render
-  const filteredListings = useMemo(() => {
-    return listingsWithVehicles.filter(listing => {
-      if (!listing.vehicle) return false;
-      
-      const matchesSearch = listing.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                           listing.vehicle.make.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                           listing.vehicle.model.toLowerCase().includes(searchTerm.toLowerCase());
-      
-      const matchesPrice = (!priceRange[0] || listing.price >= priceRange[0]) &&
-                          (!priceRange[1] || listing.price <= priceRange[1]);
-      
-      return matchesSearch && matchesPrice;
-    });
-  }, [listingsWithVehicles, searchTerm, priceRange]);
+  // Current filter set, in the same shape saved searches are stored in
+  const currentFilters = useMemo((): ListingSearchFilters => ({
+    ...urlFilters,
+    listingIds: watchingOnly ? state.watchlist.listingIds : undefined,
+  }), [urlFilters, watchingOnly, state.watchlist.listingIds]);
 
-  // Memoize sorted listings
+  // Replace rather than push so tweaking filters doesn't flood the browser history
+  const updateFilters = (changes: Partial<ListingSearchFilters>, watching = watchingOnly) => {
+    const params = toListingSearchParams({ ...urlFilters, ...changes });
+    if (watching) params.set('watching', '1');
+    setSearchParams(params, { replace: true });
+  };
+
+  // Filtering happens on the server; debounce so typing doesn't fire a request per keystroke
+  useEffect(() => {
+    const timeout = setTimeout(() => searchListings(currentFilters), 300);
+    return () => clearTimeout(timeout);
+  }, [currentFilters, searchListings]);
+
+  // Infinite scroll: fetch the next page when the sentinel nears the viewport
+  useEffect(() => {
+    const node = loadMoreRef.current;
+    if (!node || !listingSearch.nextCursor) return;
+
+    const observer = new IntersectionObserver(entries => {
+      if (entries[0].isIntersecting) {
+        loadMoreListings();
+      }
+    }, { rootMargin: '400px' });
+
+    observer.observe(node);
+    return () => observer.disconnect();
+  }, [listingSearch.nextCursor, loadMoreListings]);
+
+  // Keep live-added listings in the server's sort order
   const sortedListings = useMemo(() => {
-    return [...filteredListings].sort((a, b) => {
+    return [...listingsWithVehicles].sort((a, b) => {
       switch (sortBy) {
         case 'price-low':
           return a.price - b.price;
@@ -148,12 +178,9 @@ export function ListingsView() {
           return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
       }
     });
-  }, [filteredListings, sortBy]);
+  }, [listingsWithVehicles, sortBy]);
 
-  // Memoize makes list
-  const makes = useMemo(() => {
-    return Array.from(new Set(listingsWithVehicles.map(l => l.vehicle?.make).filter(Boolean))).sort();
-  }, [listingsWithVehicles]);
+  const facets = listingSearch.facets;
 
   const handleContactSeller = (listing: any) => {
     // TODO: Implement messaging functionality
@@ -167,13 +194,59 @@ export function ListingsView() {
 
   const handleListingClick = (listing: any) => {
     incrementListingViews(listing.id);
-    setSelectedListing(listing);
+    navigate({ pathname: routes.listing(listing.id), search: searchParams.toString() });
+  };
+
+  const closeListing = () => {
+    navigate({ pathname: routes.tab('listings'), search: searchParams.toString() });
   };
 
   const handleSellerClick = (seller: any) => {
     setSelectedSeller(seller);
   };
 
+  const applySavedSearch = (search: SavedSearch) => {
+    updateFilters({
+      searchTerm: search.searchTerm || '',
+      make: search.make || 'all',
+      minPrice: search.minPrice || 0,
+      maxPrice: search.maxPrice || 0,
+      minYear: search.minYear || 0,
+      maxYear: search.maxYear || 0,
+      maxMileage: search.maxMileage || 0,
+      transmission: search.transmission || '',
+      sortBy: search.sortBy || 'newest',
+    });
+    setShowSavedSearches(false);
+  };
+
+  const selectedListing = listingId
+    ? listingsWithVehicles.find(l => l.id === listingId) || (fetchedListing?.id === listingId ? fetchedListing : null)
+    : null;
+
+  // A newly linked listing should show over the results, not behind an open seller profile
+  useEffect(() => {
+    if (listingId) setSelectedSeller(null);
+  }, [listingId]);
+
+  // Deep links can point at listings outside the loaded results, so fetch those directly
+  useEffect(() => {
+    if (!listingId || listingsWithVehicles.some(l => l.id === listingId) || fetchedListing?.id === listingId) return;
+
+    ApiService.getListing(listingId)
+      .then((data: any) => {
+        setFetchedListing({
+          ...data,
+          id: data._id || data.id,
+          vehicle: { ...data.vehicleId, id: data.vehicleId._id || data.vehicleId.id },
+          vehicleId: data.vehicleId._id || data.vehicleId.id,
+          seller: { ...data.sellerId, id: data.sellerId._id || data.sellerId.id },
+          sellerId: data.sellerId._id || data.sellerId.id,
+        });
+      })
+      .catch(error => console.error('Error loading linked listing:', error));
+  }, [listingId, listingsWithVehicles, fetchedListing]);
+
   const formatTimeAgo = (dateString: string) => {
     try {
       const now = new Date();
@@ -241,7 +314,7 @@ export function ListingsView() {
               type="text"
               placeholder="Search by make, model, or title..."
               value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
+              onChange={(e) => updateFilters({ searchTerm: e.target.value })}
               className="input-field pl-10"
             />
           </div>
@@ -255,8 +328,35 @@ export function ListingsView() {
             <Filter className="w-5 h-5" />
             <span>Filters</span>
           </motion.button>
+
+          {/* Watching Toggle */}
+          <motion.button
+            whileTap={{ scale: 0.95 }}
+            onClick={() => updateFilters({}, !watchingOnly)}
+            className={`btn-secondary flex items-center space-x-2 ${watchingOnly ? 'bg-primary-100/20' : ''}`}
+          >
+            <Heart className={`w-5 h-5 ${watchingOnly ? 'text-red-500 fill-red-500' : ''}`} />
+            <span>Watching ({state.watchlist.listingIds.length})</span>
+          </motion.button>
+
+          {/* Saved Searches Toggle */}
+          <motion.button
+            whileTap={{ scale: 0.95 }}
+            onClick={() => setShowSavedSearches(!showSavedSearches)}
+            className={`btn-secondary flex items-center space-x-2 ${showSavedSearches ? 'bg-primary-100/20' : ''}`}
+          >
+            <Bookmark className="w-5 h-5" />
+            <span>Saved searches ({state.savedSearches.length})</span>
+          </motion.button>
         </div>
 
+        {showSavedSearches && (
+          <SavedSearchesPanel
+            currentFilters={currentFilters}
+            onApply={applySavedSearch}
+          />
+        )}
+
         {/* Expanded Filters */}
         {showFilters && (
           <motion.div
@@ -273,16 +373,47 @@ export function ListingsView() {
                 </label>
                 <select
                   value={filterBy}
-                  onChange={(e) => setFilterBy(e.target.value)}
+                  onChange={(e) => updateFilters({ make: e.target.value })}
                   className="input-field"
                 >
                   <option value="all">All Makes</option>
-                  {makes.map(make => (
-                    <option key={make} value={make}>{make}</option>
+                  {facets?.makes.map(make => (
+                    <option key={make.value} value={make.value}>{make.value} ({make.count})</option>
+                  ))}
+                </select>
+              </div>
+
+              {/* Transmission Filter */}
+              <div>
+                <label className="block text-sm font-medium text-primary-300 mb-2">
+                  Transmission
+                </label>
+                <select
+                  value={transmission}
+                  onChange={(e) => updateFilters({ transmission: e.target.value as 'manual' | 'automatic' | '' })}
+                  className="input-field capitalize"
+                >
+                  <option value="">Any</option>
+                  {facets?.transmissions.map(option => (
+                    <option key={option.value} value={option.value}>{option.value} ({option.count})</option>
                   ))}
                 </select>
               </div>
 
+              {/* Mileage Filter */}
+              <div>
+                <label className="block text-sm font-medium text-primary-300 mb-2">
+                  Max Mileage
+                </label>
+                <input
+                  type="number"
+                  placeholder="No limit"
+                  value={maxMileage || ''}
+                  onChange={(e) => updateFilters({ maxMileage: Number(e.target.value) })}
+                  className="input-field"
+                />
+              </div>
+
               {/* Price Range */}
               <div>
                 <label className="block text-sm font-medium text-primary-300 mb-2">
@@ -292,7 +423,7 @@ export function ListingsView() {
                   type="number"
                   placeholder="$0"
                   value={priceRange[0]}
-                  onChange={(e) => setPriceRange([Number(e.target.value), priceRange[1]])}
+                  onChange={(e) => updateFilters({ minPrice: Number(e.target.value) })}
                   className="input-field"
                 />
               </div>
@@ -305,7 +436,34 @@ export function ListingsView() {
                   type="number"
                   placeholder="No limit"
                   value={priceRange[1]}
-                  onChange={(e) => setPriceRange([priceRange[0], Number(e.target.value)])}
+                  onChange={(e) => updateFilters({ maxPrice: Number(e.target.value) })}
+                  className="input-field"
+                />
+              </div>
+
+              {/* Year Range */}
+              <div>
+                <label className="block text-sm font-medium text-primary-300 mb-2">
+                  Min Year
+                </label>
+                <input
+                  type="number"
+                  placeholder="Any"
+                  value={yearRange[0] || ''}
+                  onChange={(e) => updateFilters({ minYear: Number(e.target.value) })}
+                  className="input-field"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-primary-300 mb-2">
+                  Max Year
+                </label>
+                <input
+                  type="number"
+                  placeholder="Any"
+                  value={yearRange[1] || ''}
+                  onChange={(e) => updateFilters({ maxYear: Number(e.target.value) })}
                   className="input-field"
                 />
               </div>
@@ -317,7 +475,7 @@ export function ListingsView() {
                 </label>
                 <select
                   value={sortBy}
-                  onChange={(e) => setSortBy(e.target.value)}
+                  onChange={(e) => updateFilters({ sortBy: e.target.value })}
                   className="input-field"
                 >
                   <option value="newest">Newest First</option>
@@ -328,6 +486,25 @@ export function ListingsView() {
                 </select>
               </div>
             </div>
+
+            {/* Year Bands */}
+            {facets && facets.yearBands.length > 0 && (
+              <div className="flex flex-wrap gap-2 mt-4">
+                {facets.yearBands.map(band => (
+                  <button
+                    key={band.from}
+                    onClick={() => updateFilters({ minYear: band.from, maxYear: band.to })}
+                    className={`px-3 py-1 rounded-full text-sm transition-colors ${
+                      yearRange[0] === band.from && yearRange[1] === band.to
+                        ? 'bg-primary-600 text-white'
+                        : 'bg-primary-800/30 text-primary-300 hover:bg-primary-700/50'
+                    }`}
+                  >
+                    {band.from}-{band.to} ({band.count})
+                  </button>
+                ))}
+              </div>
+            )}
           </motion.div>
         )}
       </div>
@@ -374,7 +551,7 @@ export function ListingsView() {
                     initial={{ opacity: 0, y: 20 }}
                     animate={{ opacity: 1, y: 0 }}
                     exit={{ opacity: 0, scale: 0.95 }}
-                    transition={{ delay: index * 0.05 }}
+                    transition={{ delay: Math.min(index, 10) * 0.05 }}
                     className="glass-effect rounded-xl overflow-hidden hover:shadow-xl transition-all duration-300 cursor-pointer"
                     onClick={() => handleListingClick(listing)}
                   >
@@ -401,6 +578,8 @@ export function ListingsView() {
                           <Car className="w-16 h-16 text-primary-600/50" />
                         </div>
                       )}
+
+                      <WatchButton type="listing" itemId={listing.id} className="absolute top-3 left-3" />
                     </div>
 
                     {/* Price Badge */}
@@ -553,6 +732,13 @@ export function ListingsView() {
               </AnimatePresence>
             </div>
           )}
+
+          {/* Infinite Scroll Sentinel */}
+          <div ref={loadMoreRef} className="py-6 text-center text-sm text-primary-400">
+            {listingSearch.nextCursor
+              ? listingSearch.loading ? 'Loading more listings...' : ''
+              : sortedListings.length > 0 && `Showing all ${listingSearch.total} listing${listingSearch.total !== 1 ? 's' : ''}`}
+          </div>
         </>
       )}
 
@@ -563,7 +749,7 @@ export function ListingsView() {
             listing={selectedListing}
             vehicle={selectedListing.vehicle}
             seller={selectedListing.seller}
-            onClose={() => setSelectedListing(null)}
+            onClose={closeListing}
             onContact={handleContactSeller}
             onTrade={handleTradeOffer}
             onSellerClick={handleSellerClick}
@@ -0,0 +1,182 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { X, DollarSign, Clock, BadgeDollarSign } from 'lucide-react';
+import { useApp } from '../../context/AppContext.tsx';
+import { Listing, Offer, Vehicle } from '../../types/index.ts';
+
+// Deadlines either side can put on the price they name; keep in sync with backend/routes/offers.js
+const OFFER_EXPIRY_HOURS = [24, 72, 168];
+
+const formatExpiryWindow = (hours: number) => hours < 48 ? `${hours} hours` : `${hours / 24} days`;
+
+interface OfferModalProps {
+  listing: Listing;
+  vehicle: Vehicle;
+  offer?: Offer; // When set, the modal counters this offer instead of making a new one
+  onClose: () => void;
+}
+
+export function OfferModal({ listing, vehicle, offer, onClose }: OfferModalProps) {
+  const { makeOffer, respondToOffer } = useApp();
+  const [amount, setAmount] = useState<number>(offer ? offer.amount : listing.price);
+  const [message, setMessage] = useState('');
+  const [expiresInHours, setExpiresInHours] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isCounter = !!offer;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (!amount || amount <= 0) {
+      setError('Enter a price greater than $0.');
+      return;
+    }
+
+    if (offer && amount === offer.amount) {
+      setError('Counter with a different price, or accept the offer instead.');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      if (offer) {
+        await respondToOffer(offer.id, 'counter', { amount, message, expiresInHours: expiresInHours ?? undefined });
+      } else {
+        await makeOffer(listing.id, amount, message, expiresInHours ?? undefined);
+      }
+      onClose();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to send your offer. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const difference = amount - listing.price;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-[60]"
+      onClick={(e) => e.target === e.currentTarget && onClose()}
+    >
+      <motion.div
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.9, opacity: 0 }}
+        className="glass-effect rounded-2xl p-6 w-full max-w-lg max-h-[90vh] overflow-y-auto"
+      >
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center space-x-3">
+            <div className="w-10 h-10 bg-green-500 rounded-full flex items-center justify-center">
+              <BadgeDollarSign className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <h2 className="text-2xl font-bold text-primary-100">{isCounter ? 'Counter Offer' : 'Make Offer'}</h2>
+              <p className="text-primary-300">{vehicle.year} {vehicle.make} {vehicle.model}</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-primary-800/50 rounded-full transition-colors"
+          >
+            <X className="w-5 h-5 text-primary-300" />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4 mb-6">
+          <div className="p-3 bg-primary-800/30 rounded-lg">
+            <p className="text-xs text-primary-400">Asking Price</p>
+            <span className="text-lg font-bold text-primary-100">${listing.price.toLocaleString()}</span>
+          </div>
+          <div className="p-3 bg-primary-800/30 rounded-lg">
+            <p className="text-xs text-primary-400">{isCounter ? 'On the Table' : 'Your Offer'}</p>
+            <span className="text-lg font-bold text-green-400">
+              ${(isCounter ? offer!.amount : amount || 0).toLocaleString()}
+            </span>
+          </div>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-primary-200 mb-2">
+              {isCounter ? 'Your counter price' : 'Your cash offer'}
+            </label>
+            <div className="relative">
+              <DollarSign className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-primary-400" />
+              <input
+                type="number"
+                value={amount}
+                onChange={(e) => setAmount(Number(e.target.value))}
+                className="input-field pl-10"
+                min={1}
+                required
+              />
+            </div>
+            {difference !== 0 && amount > 0 && (
+              <p className={`text-xs mt-1 ${difference < 0 ? 'text-yellow-400' : 'text-green-400'}`}>
+                ${Math.abs(difference).toLocaleString()} {difference < 0 ? 'below' : 'above'} the asking price
+              </p>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-primary-200 mb-2">Message (optional)</label>
+            <textarea
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              className="input-field min-h-[80px] resize-none"
+              placeholder={isCounter ? 'Explain your price...' : 'Introduce yourself or explain your offer...'}
+              maxLength={1000}
+            />
+          </div>
+
+          <div>
+            <h3 className="text-sm font-medium text-primary-200 mb-2 flex items-center">
+              <Clock className="h-4 w-4 mr-2" />
+              {isCounter ? 'Counter Expires' : 'Offer Expires'}
+            </h3>
+            <div className="flex space-x-1 bg-primary-800/30 rounded-lg p-1">
+              {[null, ...OFFER_EXPIRY_HOURS].map(hours => (
+                <button
+                  key={hours ?? 'never'}
+                  type="button"
+                  onClick={() => setExpiresInHours(hours)}
+                  className={`flex-1 py-2 px-4 rounded-md text-sm font-medium transition-colors ${
+                    expiresInHours === hours
+                      ? 'bg-primary-100/20 text-primary-100'
+                      : 'text-primary-300 hover:text-primary-200'
+                  }`}
+                >
+                  {hours ? formatExpiryWindow(hours) : 'Never'}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {error && (
+            <p className="text-sm text-red-400">{error}</p>
+          )}
+
+          <button
+            type="submit"
+            disabled={loading}
+            className="w-full btn-primary flex items-center justify-center space-x-2 disabled:opacity-50"
+          >
+            <BadgeDollarSign className="w-4 h-4" />
+            <span>
+              {loading
+                ? 'Sending...'
+                : `${isCounter ? 'Counter at' : 'Offer'} $${(amount || 0).toLocaleString()}`}
+            </span>
+          </button>
+        </form>
+      </motion.div>
+    </motion.div>
+  );
+}
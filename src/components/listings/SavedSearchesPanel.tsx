@@ -0,0 +1,136 @@
+import React, { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { Bookmark, Trash2, Search } from 'lucide-react';
+import { useApp } from '../../context/AppContext.tsx';
+import ApiService from '../../services/apiService.ts';
+import { ListingSearchFilters, SavedSearch } from '../../types/index.ts';
+import { toListingQuery } from '../../utils/listingSearch.ts';
+
+interface SavedSearchesPanelProps {
+  currentFilters: ListingSearchFilters;
+  onApply: (search: SavedSearch) => void;
+}
+
+const describeSearch = (search: ListingSearchFilters) => {
+  const parts: string[] = [];
+  if (search.searchTerm) parts.push(`"${search.searchTerm}"`);
+  if (search.make && search.make !== 'all') parts.push(search.make);
+  if (search.minPrice || search.maxPrice) {
+    parts.push(`$${(search.minPrice || 0).toLocaleString()} - ${search.maxPrice ? `$${search.maxPrice.toLocaleString()}` : 'any'}`);
+  }
+  if (search.minYear || search.maxYear) {
+    parts.push(`${search.minYear || 'any'} - ${search.maxYear || 'any'}`);
+  }
+  if (search.maxMileage) parts.push(`≤ ${search.maxMileage.toLocaleString()} mi`);
+  if (search.transmission) parts.push(search.transmission);
+  return parts.length > 0 ? parts.join(' • ') : 'All listings';
+};
+
+export function SavedSearchesPanel({ currentFilters, onApply }: SavedSearchesPanelProps) {
+  const { state, saveSearch, deleteSavedSearch } = useApp();
+  const [name, setName] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [matchCounts, setMatchCounts] = useState<Record<string, number>>({});
+
+  // Ask the server for each search's total; a one-row page is enough to get the count
+  useEffect(() => {
+    let cancelled = false;
+    state.savedSearches.forEach(search => {
+      ApiService.getAllListings({ ...toListingQuery(search), limit: 1 })
+        .then(response => {
+          if (!cancelled) {
+            setMatchCounts(prev => ({ ...prev, [search.id]: response.pagination.total }));
+          }
+        })
+        .catch(error => console.error('Error counting saved search matches:', error));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [state.savedSearches]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    setSaving(true);
+    try {
+      await saveSearch(name.trim(), currentFilters);
+      setName('');
+    } catch (error) {
+      // saveSearch already surfaced the error
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, height: 0 }}
+      animate={{ opacity: 1, height: 'auto' }}
+      exit={{ opacity: 0, height: 0 }}
+      className="mt-4 pt-4 border-t border-primary-700/30 space-y-4"
+    >
+      <form onSubmit={handleSave} className="flex flex-col sm:flex-row gap-3">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Name this search, e.g. Cheap Civics"
+          className="input-field flex-1"
+          maxLength={50}
+        />
+        <button
+          type="submit"
+          disabled={saving || !name.trim()}
+          className="btn-primary flex items-center justify-center space-x-2 disabled:opacity-50"
+        >
+          <Bookmark className="w-4 h-4" />
+          <span>{saving ? 'Saving...' : 'Save Current Search'}</span>
+        </button>
+      </form>
+
+      {state.savedSearches.length === 0 ? (
+        <p className="text-sm text-primary-400">
+          Save a search to get notified when new matching listings go up.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {state.savedSearches.map(search => {
+            const matchCount = matchCounts[search.id];
+
+            return (
+              <div
+                key={search.id}
+                className="flex items-center justify-between p-3 bg-primary-800/30 rounded-lg"
+              >
+                <button
+                  onClick={() => onApply(search)}
+                  className="flex-1 text-left min-w-0"
+                >
+                  <div className="flex items-center space-x-2">
+                    <Search className="w-4 h-4 text-primary-400" />
+                    <span className="font-medium text-primary-100 truncate">{search.name}</span>
+                    {matchCount !== undefined && (
+                      <span className="px-2 py-0.5 rounded-full bg-primary-600/30 text-primary-200 text-xs">
+                        {matchCount} match{matchCount !== 1 ? 'es' : ''}
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-xs text-primary-400 mt-1 truncate">{describeSearch(search)}</p>
+                </button>
+                <button
+                  onClick={() => deleteSavedSearch(search.id)}
+                  className="p-2 hover:bg-red-500/20 rounded-full transition-colors"
+                  title="Delete saved search"
+                >
+                  <Trash2 className="w-4 h-4 text-red-400" />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </motion.div>
+  );
+}
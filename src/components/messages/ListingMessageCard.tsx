@@ -0,0 +1,69 @@
+import React, { useEffect, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Car } from 'lucide-react';
+import { useApp } from '../../context/AppContext.tsx';
+import { routes } from '../../utils/routes.ts';
+
+interface ListingMessageCardProps {
+  listingId: string;
+  isOwn: boolean;
+}
+
+export function ListingMessageCard({ listingId, isOwn }: ListingMessageCardProps) {
+  const { state, loadMessageListing } = useApp();
+  const navigate = useNavigate();
+
+  // allListings and the chat cache are both kept current by LISTING_UPDATED
+  const listing = state.allListings.find(l => l.id === listingId) ||
+    state.listings.find(l => l.id === listingId) ||
+    state.messageListings[listingId];
+
+  // Only ask once per card; a deleted listing would otherwise be refetched on every render
+  const requestedRef = useRef(false);
+  useEffect(() => {
+    if (!listing && !requestedRef.current) {
+      requestedRef.current = true;
+      loadMessageListing(listingId);
+    }
+  }, [listing, listingId, loadMessageListing]);
+
+  const cardClass = `block w-full text-left rounded-lg overflow-hidden transition-colors ${
+    isOwn ? 'bg-blue-700/60 hover:bg-blue-700' : 'bg-primary-800/60 hover:bg-primary-800'
+  }`;
+
+  if (!listing) {
+    return (
+      <div className={`${cardClass} px-3 py-2 text-xs opacity-70`}>
+        Listing unavailable
+      </div>
+    );
+  }
+
+  const vehicle = (listing as any).vehicle || state.vehicles.find(v => v.id === listing.vehicleId);
+  const photo = vehicle?.images?.[0];
+  const status = listing.soldAt ? 'Sold' : listing.isActive ? 'Active' : 'Ended';
+
+  return (
+    <button onClick={() => navigate(routes.listing(listing.id))} className={cardClass}>
+      {photo ? (
+        <img src={photo} alt={listing.title} className="w-full h-28 object-cover" />
+      ) : (
+        <div className="w-full h-28 flex items-center justify-center bg-primary-900/40">
+          <Car className="w-8 h-8 opacity-50" />
+        </div>
+      )}
+      <div className="px-3 py-2">
+        <p className="text-sm font-medium truncate">{listing.title}</p>
+        <div className="flex items-center justify-between mt-1">
+          <span className="text-sm font-semibold">${(listing.soldPrice || listing.price).toLocaleString()}</span>
+          <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+            status === 'Active' ? 'bg-green-500/20 text-green-300' :
+            status === 'Sold' ? 'bg-blue-500/20 text-blue-200' : 'bg-primary-700/60 text-primary-300'
+          }`}>
+            {status}
+          </span>
+        </div>
+      </div>
+    </button>
+  );
+}
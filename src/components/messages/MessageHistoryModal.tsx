@@ -0,0 +1,101 @@
+import React, { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { X, History, FileText, Image as ImageIcon } from 'lucide-react';
+import ApiService from '../../services/apiService.ts';
+import { MessageAttachment, MessageWithHistory } from '../../types/index.ts';
+
+interface MessageHistoryModalProps {
+  messageId: string;
+  onClose: () => void;
+}
+
+function VersionBody({ content, attachments }: { content: string; attachments: MessageAttachment[] }) {
+  return (
+    <>
+      {content && <p className="text-sm text-primary-100 whitespace-pre-wrap">{content}</p>}
+      {attachments.map(attachment => (
+        <a
+          key={attachment.url}
+          href={attachment.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex items-center space-x-2 text-xs text-blue-300 hover:text-blue-200 mt-1"
+        >
+          {attachment.kind === 'pdf' ? <FileText className="w-3 h-3" /> : <ImageIcon className="w-3 h-3" />}
+          <span className="truncate">{attachment.name || (attachment.kind === 'pdf' ? 'Document.pdf' : 'Photo')}</span>
+        </a>
+      ))}
+    </>
+  );
+}
+
+export function MessageHistoryModal({ messageId, onClose }: MessageHistoryModalProps) {
+  const [message, setMessage] = useState<MessageWithHistory | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    ApiService.getMessageHistory(messageId)
+      .then(setMessage)
+      .catch(err => setError(err instanceof Error ? err.message : 'Could not load the history'));
+  }, [messageId]);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50"
+      onClick={(e) => e.target === e.currentTarget && onClose()}
+    >
+      <motion.div
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.9, opacity: 0 }}
+        className="glass-effect rounded-2xl p-6 w-full max-w-md max-h-[80vh] overflow-y-auto"
+      >
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center space-x-2">
+            <History className="w-5 h-5 text-primary-300" />
+            <h2 className="text-xl font-bold text-primary-100">Message History</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-primary-800/50 rounded-full transition-colors"
+          >
+            <X className="w-5 h-5 text-primary-300" />
+          </button>
+        </div>
+
+        <p className="text-sm text-primary-300 mb-4">
+          Earlier versions are kept for messages about a trade, so both sides can refer back to them.
+        </p>
+
+        {error ? (
+          <p className="text-sm text-red-400">{error}</p>
+        ) : !message ? (
+          <p className="text-sm text-primary-400">Loading...</p>
+        ) : (
+          <div className="space-y-3">
+            {message.editHistory.map((version, index) => (
+              <div key={index} className="bg-primary-800/30 rounded-lg p-3">
+                <p className="text-xs text-primary-400 mb-1">
+                  {index === 0 ? 'Original' : `Version ${index + 1}`}
+                  {' · '}{version.action === 'unsent' ? 'unsent' : 'replaced'} {new Date(version.changedAt).toLocaleString()}
+                </p>
+                <VersionBody content={version.content} attachments={version.attachments} />
+              </div>
+            ))}
+            {!message.unsentAt && (
+              <div className="bg-blue-600/20 border border-blue-500/20 rounded-lg p-3">
+                <p className="text-xs text-blue-200 mb-1">
+                  Current{message.editedAt && ` · edited ${new Date(message.editedAt).toLocaleString()}`}
+                </p>
+                <VersionBody content={message.content} attachments={message.attachments || []} />
+              </div>
+            )}
+          </div>
+        )}
+      </motion.div>
+    </motion.div>
+  );
+}
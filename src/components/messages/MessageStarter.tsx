@@ -1,8 +1,10 @@
 import React, { useState } from 'react';
 import { motion } from 'framer-motion';
 import { MessageCircle, Send, X } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
 import { useApp } from '../../context/AppContext.tsx';
 import { User } from '../../types/index.ts';
+import { routes } from '../../utils/routes.ts';
 
 interface MessageStarterProps {
   targetUser: User;
@@ -19,7 +21,8 @@ export function MessageStarter({
   listingId, 
   initialMessage = '' 
 }: MessageStarterProps) {
-  const { sendMessage, setActiveTab, state } = useApp();
+  const { sendMessage, state } = useApp();
+  const navigate = useNavigate();
   const [messageText, setMessageText] = useState(initialMessage);
   const [loading, setLoading] = useState(false);
 
@@ -36,8 +39,8 @@ export function MessageStarter({
         listingId
       });
       
-      // Navigate to messages tab
-      setActiveTab('messages');
+      // Open the conversation with this user
+      navigate(routes.conversation(targetUser.id));
       onClose();
     } catch (error) {
       console.error('Error sending message:', error);
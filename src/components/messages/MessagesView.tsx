@@ -1,5 +1,6 @@
 import React, { useState, useEffect, useRef, useMemo, useCallback, useLayoutEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
+import { useNavigate, useParams } from 'react-router-dom';
 import { 
   MessageCircle, 
   Search, 
@@ -12,13 +13,56 @@ import {
   Phone,
   Video,
   Info,
-  Clock
+  Clock,
+  Paperclip,
+  FileText,
+  X,
+  Loader2,
+  Pencil,
+  Trash2,
+  History
 } from 'lucide-react';
 import { useApp } from '../../context/AppContext.tsx';
-import { Message, User as UserType, Conversation } from '../../types/index.ts';
+import { Message, MessageAttachment, MessageSearchResult, User as UserType, Conversation, Trade } from '../../types/index.ts';
 import ApiService from '../../services/apiService.ts';
 import webSocketService from '../../services/webSocketService.ts';
 import { SellerProfileView } from '../profile/SellerProfileView.tsx';
+import { ImageModal } from '../common/ImageModal.tsx';
+import { MessageHistoryModal } from './MessageHistoryModal.tsx';
+import { ListingMessageCard } from './ListingMessageCard.tsx';
+import { TradeMessageCard } from './TradeMessageCard.tsx';
+import { TradeOfferModal } from '../trades/TradeOfferModal.tsx';
+import { routes } from '../../utils/routes.ts';
+import { compressImage, readFileAsDataURL } from '../../utils/imageUtils.ts';
+
+// Keep in sync with backend/models/Message.js and backend/routes/upload.js
+const MAX_MESSAGE_ATTACHMENTS = 5;
+const MAX_DOCUMENT_MB = 5;
+// Keep in sync with backend/routes/messages.js
+const MESSAGE_EDIT_WINDOW_MINUTES = 15;
+const MESSAGES_PAGE_SIZE = 20;
+const MIN_SEARCH_LENGTH = 2;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Wrap every searched word found in the text in a <mark>
+const highlightMatches = (text: string, query: string) => {
+  const words = query.trim().split(/\s+/).filter(Boolean).map(escapeRegExp);
+  if (words.length === 0) return text;
+
+  const pattern = new RegExp(`(${words.join('|')})`, 'gi');
+  return text.split(pattern).map((part, index) =>
+    index % 2 === 1 ? <mark key={index} className="bg-yellow-500/30 text-inherit rounded px-0.5">{part}</mark> : part
+  );
+};
+
+const isWithinEditWindow = (message: Message) =>
+  Date.now() - new Date(message.timestamp).getTime() < MESSAGE_EDIT_WINDOW_MINUTES * 60 * 1000;
+
+const formatFileSize = (bytes?: number) => {
+  if (!bytes) return '';
+  return bytes < 1024 * 1024 ? `${Math.round(bytes / 1024)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
 
 interface TypingIndicator {
   userId: string;
@@ -33,6 +77,21 @@ interface PendingMessage {
   senderId: string;
   receiverId: string;
   status: 'sending' | 'sent' | 'failed';
+  attachments?: MessageAttachment[];
+  // Never set while sending; declared so bubbles can read them without narrowing
+  editedAt?: string;
+  unsentAt?: string;
+  tradeId?: string;
+  listingId?: string;
+}
+
+interface MessageSearchState {
+  query: string;
+  results: MessageSearchResult[];
+  page: number;
+  total: number;
+  hasNext: boolean;
+  loading: boolean;
 }
 
 interface MessagePagination {
@@ -55,10 +114,18 @@ export function MessagesView() {
     getUserProfile,
     dispatch,
     activeTab,
-    setActiveConversation
+    setActiveConversation,
+    editMessage,
+    unsendMessage,
+    showError
   } = useApp();
   
-  const [selectedConversation, setSelectedConversation] = useState<string | null>(null);
+  const navigate = useNavigate();
+  // /messages/:userId opens the conversation with that user
+  const { userId: conversationUserId } = useParams();
+  const selectedConversation = conversationUserId && state.currentUser
+    ? [state.currentUser.id, conversationUserId].sort().join('-')
+    : null;
   const [selectedSeller, setSelectedSeller] = useState<any>(null);
   const [messageText, setMessageText] = useState('');
   const [searchTerm, setSearchTerm] = useState('');
@@ -67,6 +134,17 @@ export function MessagesView() {
   const [isTyping, setIsTyping] = useState(false);
   const [pendingMessages, setPendingMessages] = useState<PendingMessage[]>([]);
   const [initialLoad, setInitialLoad] = useState(true);
+  const [stagedFiles, setStagedFiles] = useState<File[]>([]);
+  const [uploadingAttachments, setUploadingAttachments] = useState(false);
+  const [imageViewer, setImageViewer] = useState<{ images: string[]; index: number } | null>(null);
+  const [editingMessage, setEditingMessage] = useState<{ id: string; text: string } | null>(null);
+  const [savingEdit, setSavingEdit] = useState(false);
+  const [historyMessageId, setHistoryMessageId] = useState<string | null>(null);
+  const [counterOfferTrade, setCounterOfferTrade] = useState<Trade | null>(null);
+  const [messageSearch, setMessageSearch] = useState<MessageSearchState | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  // Set while jumping to a search result so the usual scroll-to-bottom leaves the view alone
+  const jumpTargetRef = useRef<string | null>(null);
   
   // Message pagination state
   const [paginatedMessages, setPaginatedMessages] = useState<{ [conversationId: string]: Message[] }>({});
@@ -77,12 +155,49 @@ export function MessagesView() {
   const messagesContainerRef = useRef<HTMLDivElement>(null);
   const typingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const lastScrollHeight = useRef<number>(0);
   const messageCheckIntervalRef = useRef<NodeJS.Timeout>();
 
   // Track previous message count to detect new messages
   const [previousMessageCount, setPreviousMessageCount] = useState(0);
 
+  // Auto-scroll to bottom when new messages arrive (but preserve scroll position when loading more)
+  const scrollToBottom = useCallback((force: boolean = false) => {
+    const container = messagesContainerRef.current;
+    if (!container || jumpTargetRef.current) return;
+    
+    if (force) {
+      // For forced scroll (initial load, new messages), always scroll to bottom
+      // Use multiple attempts to ensure it works on mobile
+      const scrollToBottomAttempt = () => {
+        container.scrollTo({
+          top: container.scrollHeight,
+          behavior: 'auto', // Use 'auto' for instant scroll on initial load
+        });
+      };
+      
+      // Immediate scroll
+      scrollToBottomAttempt();
+      
+      // Additional scroll attempts for mobile
+      setTimeout(scrollToBottomAttempt, 10);
+      setTimeout(scrollToBottomAttempt, 50);
+    } else {
+      // For auto-scroll, check if user is near bottom
+      const { scrollTop, scrollHeight, clientHeight } = container;
+      const isNearBottom = scrollHeight - scrollTop - clientHeight < 100;
+      if (isNearBottom) {
+        requestAnimationFrame(() => {
+          container.scrollTo({
+            top: container.scrollHeight,
+            behavior: 'auto',
+          });
+        });
+      }
+    }
+  }, []);
+
   // Use conversations from state (loaded from API) with fallback to creating from messages
   const conversations = useMemo(() => {
     // If we have conversations from the API, use those
@@ -239,6 +354,8 @@ export function MessagesView() {
   // Sync new messages from global state into paginated messages
   useEffect(() => {
     if (!selectedConversation || !state.messages) return;
+    // A window opened from search ends before the newest messages; they're appended by scrolling down instead
+    if (messagePagination[selectedConversation]?.hasNext) return;
 
     // Get the conversation to find the other user
     const conversation = conversations.find(c => c.id === selectedConversation);
@@ -287,7 +404,7 @@ export function MessagesView() {
         scrollToBottom(true);
       }, 100);
     }
-  }, [state.messages, selectedConversation, conversations, state.currentUser?.id, paginatedMessages]);
+  }, [state.messages, selectedConversation, conversations, state.currentUser?.id, paginatedMessages, messagePagination, scrollToBottom]);
 
   // Clean up typing indicators that are too old
   useEffect(() => {
@@ -358,7 +475,7 @@ export function MessagesView() {
         }, 100);
       }
     }
-  }, [conversations, selectedConversation]);
+  }, [conversations, selectedConversation, scrollToBottom]);
 
   // Debug logging for conversations
   useEffect(() => {
@@ -391,12 +508,55 @@ export function MessagesView() {
     });
   }, [conversations, searchTerm, state.users, state.currentUser?.id]);
 
+  // Receipts, edits and unsends land on the global messages; carry them over to the paginated copies
+  const messageReceipts = useMemo(() => {
+    const receipts = new Map<string, Pick<Message, 'read' | 'deliveredAt' | 'readAt' | 'content' | 'attachments' | 'editedAt' | 'unsentAt'>>();
+    state.messages.forEach(message => {
+      if (message.deliveredAt || message.readAt || message.editedAt || message.unsentAt) {
+        receipts.set(message.id, {
+          read: message.read,
+          deliveredAt: message.deliveredAt,
+          readAt: message.readAt,
+          content: message.content,
+          attachments: message.attachments,
+          editedAt: message.editedAt,
+          unsentAt: message.unsentAt
+        });
+      }
+    });
+    return receipts;
+  }, [state.messages]);
+
   // Get current conversation messages with pending messages
   const currentConversationMessages = useMemo(() => {
     if (!selectedConversation) return [];
     
-    // Get paginated messages for this conversation
-    const messages = paginatedMessages[selectedConversation] || [];
+    // Get paginated messages for this conversation, with the latest receipts applied
+    const messages = (paginatedMessages[selectedConversation] || []).map(message => {
+      // Live receipts are kept by id, so they also reach older pages that state.messages never held
+      const liveReceipt = state.messageReceipts[message.id];
+      const withLiveReceipt = liveReceipt ? {
+        ...message,
+        read: message.read || !!liveReceipt.readAt,
+        deliveredAt: message.deliveredAt || liveReceipt.deliveredAt,
+        readAt: message.readAt || liveReceipt.readAt
+      } : message;
+
+      const receipt = messageReceipts.get(message.id);
+      return receipt ? {
+        ...withLiveReceipt,
+        read: withLiveReceipt.read || receipt.read,
+        deliveredAt: withLiveReceipt.deliveredAt || receipt.deliveredAt,
+        readAt: withLiveReceipt.readAt || receipt.readAt,
+        // Take the global copy only when it is the newer version of the message
+        ...((receipt.unsentAt || (receipt.editedAt && (!message.editedAt || receipt.editedAt > message.editedAt))) && {
+          content: receipt.content,
+          attachments: receipt.attachments,
+          editedAt: receipt.editedAt,
+          unsentAt: receipt.unsentAt
+        })
+      } : withLiveReceipt;
+    });
     
     // Get other user ID for pending messages
     const conversation = conversations.find(c => c.id === selectedConversation);
@@ -433,7 +593,7 @@ export function MessagesView() {
       .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
     
     return allMessages;
-  }, [selectedConversation, paginatedMessages, pendingMessages, conversations, state.currentUser?.id]);
+  }, [selectedConversation, paginatedMessages, messageReceipts, state.messageReceipts, pendingMessages, conversations, state.currentUser?.id]);
 
   // Get other user in selected conversation
   const selectedConversationUser = useMemo(() => {
@@ -451,48 +611,12 @@ export function MessagesView() {
     return otherUser || null;
   }, [selectedConversation, conversations, state.users, state.currentUser?.id]);
 
-  // Auto-scroll to bottom when new messages arrive (but preserve scroll position when loading more)
-  const scrollToBottom = (force: boolean = false) => {
-    const container = messagesContainerRef.current;
-    if (!container) return;
-    
-    if (force) {
-      // For forced scroll (initial load, new messages), always scroll to bottom
-      // Use multiple attempts to ensure it works on mobile
-      const scrollToBottomAttempt = () => {
-        container.scrollTo({
-          top: container.scrollHeight,
-          behavior: 'auto', // Use 'auto' for instant scroll on initial load
-        });
-      };
-      
-      // Immediate scroll
-      scrollToBottomAttempt();
-      
-      // Additional scroll attempts for mobile
-      setTimeout(scrollToBottomAttempt, 10);
-      setTimeout(scrollToBottomAttempt, 50);
-    } else {
-      // For auto-scroll, check if user is near bottom
-      const { scrollTop, scrollHeight, clientHeight } = container;
-      const isNearBottom = scrollHeight - scrollTop - clientHeight < 100;
-      if (isNearBottom) {
-        requestAnimationFrame(() => {
-          container.scrollTo({
-            top: container.scrollHeight,
-            behavior: 'auto',
-          });
-        });
-      }
-    }
-  };
-
   // Single comprehensive scroll effect that handles all cases
   useLayoutEffect(() => {
     if (!selectedConversation || currentConversationMessages.length === 0) return;
     
       const pagination = messagePagination[selectedConversation];
-    const isInitialLoad = !pagination || pagination.current === 1;
+    const isInitialLoad = !pagination || (pagination.current === 1 && !pagination.hasNext);
     const isReturningFromProfile = selectedConversation && !selectedSeller;
     
     // Always scroll to bottom for initial load, new messages, or returning from profile
@@ -506,7 +630,7 @@ export function MessagesView() {
         }, delay);
       });
       }
-  }, [selectedConversation, currentConversationMessages.length, selectedSeller]);
+  }, [selectedConversation, currentConversationMessages.length, selectedSeller, scrollToBottom]);
 
   // Preserve scroll position when loading more messages
   useEffect(() => {
@@ -526,14 +650,6 @@ export function MessagesView() {
   useEffect(() => {
     console.log('📱 MessagesView mounted');
     
-    // Listen for reset conversation event
-    const handleResetConversation = () => {
-      setSelectedConversation(null);
-      setActiveConversation(null); // Clear active conversation for notifications
-    };
-    
-    window.addEventListener('resetMessagesConversation', handleResetConversation);
-    
     // DISABLED: Automatic checking causes infinite loops
     // WebSocket handles real-time message updates instead
     // checkForNewMessages();
@@ -545,7 +661,6 @@ export function MessagesView() {
     
     // Cleanup on unmount
     return () => {
-      window.removeEventListener('resetMessagesConversation', handleResetConversation);
       if (messageCheckIntervalRef.current) {
         clearInterval(messageCheckIntervalRef.current);
       }
@@ -579,8 +694,68 @@ export function MessagesView() {
   //   }
   // }, [selectedConversation, checkForNewMessages]);
 
+  const handleAttachFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = ''; // Allow picking the same file again
+
+    const accepted = files.filter(file => {
+      if (file.type.startsWith('image/')) return true;
+
+      if (file.type === 'application/pdf') {
+        if (file.size > MAX_DOCUMENT_MB * 1024 * 1024) {
+          showError('File Too Large', `${file.name} is over ${MAX_DOCUMENT_MB}MB.`);
+          return false;
+        }
+        return true;
+      }
+
+      showError('Unsupported File', `${file.name} is not an image or PDF.`);
+      return false;
+    });
+
+    setStagedFiles(prev => {
+      const combined = [...prev, ...accepted];
+      if (combined.length > MAX_MESSAGE_ATTACHMENTS) {
+        showError('Too Many Attachments', `You can attach up to ${MAX_MESSAGE_ATTACHMENTS} files per message.`);
+      }
+      return combined.slice(0, MAX_MESSAGE_ATTACHMENTS);
+    });
+  };
+
+  // Images are compressed first; PDFs go up as they are
+  const uploadAttachment = async (file: File): Promise<MessageAttachment> => {
+    if (file.type.startsWith('image/')) {
+      const compressedFile = await compressImage(file);
+      const { url } = await ApiService.uploadImage(await readFileAsDataURL(compressedFile), 'message-attachments');
+      return { url, kind: 'image', name: file.name, size: compressedFile.size };
+    }
+
+    const { url, size } = await ApiService.uploadDocument(await readFileAsDataURL(file), 'message-attachments');
+    return { url, kind: 'pdf', name: file.name, size };
+  };
+
   const handleSendMessage = async () => {
-    if (!messageText.trim() || !selectedConversationUser) return;
+    if ((!messageText.trim() && stagedFiles.length === 0) || !selectedConversationUser || uploadingAttachments) return;
+
+    let attachments: MessageAttachment[] = [];
+    if (stagedFiles.length > 0) {
+      setUploadingAttachments(true);
+      try {
+        attachments = await Promise.all(stagedFiles.map(uploadAttachment));
+      } catch (error) {
+        console.error('❌ Error uploading attachments:', error);
+        showError('Upload Failed', error instanceof Error ? error.message : 'Could not upload your attachments.');
+        return;
+      } finally {
+        setUploadingAttachments(false);
+      }
+      setStagedFiles([]);
+    }
+
+    // Sending from a window opened by search goes back to the newest messages, where the new one will land
+    if (selectedConversation && messagePagination[selectedConversation]?.hasNext) {
+      loadConversationMessages(selectedConversation);
+    }
 
     const messageContent = messageText.trim();
     const tempMessage: PendingMessage = {
@@ -589,7 +764,8 @@ export function MessagesView() {
       timestamp: new Date().toISOString(),
       senderId: state.currentUser!.id,
       receiverId: selectedConversationUser.id,
-      status: 'sending'
+      status: 'sending',
+      attachments
     };
 
     console.log('📤 Sending message:', {
@@ -621,7 +797,8 @@ export function MessagesView() {
       await sendMessage({
         senderId: state.currentUser!.id,
         receiverId: selectedConversationUser.id,
-        content: messageContent
+        content: messageContent,
+        ...(attachments.length > 0 && { attachments })
       });
       
       console.log('✅ Message sent successfully, removing from pending');
@@ -701,7 +878,120 @@ export function MessagesView() {
     }, 2000);
   };
 
-  const handleConversationSelect = async (conversationId: string) => {
+  const handleConversationSelect = (conversationId: string) => {
+    const otherUserId = conversationId.split('-').find(id => id !== state.currentUser?.id);
+    if (otherUserId) {
+      navigate(routes.conversation(otherUserId));
+    }
+  };
+
+  // Function to load messages for a specific conversation with pagination
+  const loadConversationMessages = useCallback(async (conversationId: string, page: number = 1, isLoadingMore: boolean = false) => {
+    const conversation = conversations.find(c => c.id === conversationId);
+    if (!conversation) return;
+
+    // Get other user ID
+    let otherUserId: string;
+    if ((conversation as any).otherUser) {
+      otherUserId = (conversation as any).otherUser.id;
+    } else {
+      otherUserId = conversation.participants.find(p => p !== state.currentUser?.id) || '';
+    }
+
+    if (!otherUserId) return;
+
+    // Set loading state
+    setMessagePagination(prev => ({
+      ...prev,
+      [conversationId]: {
+        ...prev[conversationId],
+        loading: true
+      }
+    }));
+
+    try {
+      console.log(`📨 Loading messages for conversation ${conversationId}, page ${page}`);
+      // Older pages continue from the oldest loaded message, which also holds for a window opened from search
+      const oldestLoaded = isLoadingMore ? paginatedMessages[conversationId]?.[0] : undefined;
+      const response = await ApiService.getConversationMessages(
+        otherUserId,
+        page,
+        MESSAGES_PAGE_SIZE,
+        oldestLoaded ? { before: oldestLoaded.id } : {}
+      );
+      
+      const newMessages = response.messages.map(msg => ({
+        ...msg,
+        id: msg.id || (msg as any)._id
+      }));
+
+      if (isLoadingMore) {
+        // Prepend older messages (they come in reverse chronological order from API)
+        setPaginatedMessages(prev => ({
+          ...prev,
+          [conversationId]: [...newMessages, ...(prev[conversationId] || [])]
+        }));
+      } else {
+        // Initial load - replace messages
+        setPaginatedMessages(prev => ({
+          ...prev,
+          [conversationId]: newMessages
+        }));
+      }
+
+      // Update pagination info
+      setMessagePagination(prev => ({
+        ...prev,
+        [conversationId]: {
+          current: response.pagination.current,
+          pages: response.pagination.pages,
+          total: response.pagination.total,
+          hasNext: isLoadingMore ? !!prev[conversationId]?.hasNext : response.pagination.hasNext,
+          hasPrev: response.pagination.hasPrev,
+          loading: false,
+          initialLoaded: true
+        }
+      }));
+
+      console.log(`✅ Loaded ${newMessages.length} messages for conversation ${conversationId}`);
+      
+    } catch (error) {
+      console.error('Error loading conversation messages:', error);
+      
+      // Fallback to using state.messages if API fails
+      const fallbackMessages = state.messages
+        .filter(msg => {
+          const messageSenderId = typeof msg.senderId === 'object' ? (msg.senderId as any).id : msg.senderId;
+          const messageReceiverId = typeof msg.receiverId === 'object' ? (msg.receiverId as any).id : msg.receiverId;
+          
+          return (
+            (messageSenderId === state.currentUser?.id && messageReceiverId === otherUserId) ||
+            (messageSenderId === otherUserId && messageReceiverId === state.currentUser?.id)
+          );
+        })
+        .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+      setPaginatedMessages(prev => ({
+        ...prev,
+        [conversationId]: fallbackMessages
+      }));
+
+      setMessagePagination(prev => ({
+        ...prev,
+        [conversationId]: {
+          current: 1,
+          pages: 1,
+          total: fallbackMessages.length,
+          hasNext: false,
+          hasPrev: false,
+          loading: false,
+          initialLoaded: true
+        }
+      }));
+    }
+  }, [conversations, paginatedMessages, state.messages, state.currentUser?.id]);
+
+  const openConversation = useCallback(async (conversationId: string) => {
     const conversation = conversations.find(c => c.id === conversationId);
     console.log('🔍 Selected conversation:', {
       id: conversationId,
@@ -715,7 +1005,6 @@ export function MessagesView() {
       } : 'NOT FOUND'
     });
     
-    setSelectedConversation(conversationId);
     setActiveConversation(conversationId); // Set active conversation for notification filtering
     
     console.log('🔍 CONVERSATION SELECT DEBUG:', {
@@ -751,7 +1040,23 @@ export function MessagesView() {
         console.error('Error marking messages as read:', error);
       }
     }
-  };
+  }, [conversations, messagePagination, loadConversationMessages, scrollToBottom, markMessagesAsRead, setActiveConversation, state.currentUser?.id]);
+
+  // Open the conversation the URL points at once it has loaded; clear it when the URL goes back to /messages.
+  // openConversation changes with every message, so remember which conversation was opened to open each one once.
+  const isSelectedConversationLoaded = conversations.some(c => c.id === selectedConversation);
+  const openedConversationRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!selectedConversation) {
+      openedConversationRef.current = null;
+      setActiveConversation(null); // Clear active conversation for notifications
+      return;
+    }
+    if (isSelectedConversationLoaded && openedConversationRef.current !== selectedConversation) {
+      openedConversationRef.current = selectedConversation;
+      openConversation(selectedConversation);
+    }
+  }, [selectedConversation, isSelectedConversationLoaded, setActiveConversation, openConversation]);
 
   const handleSellerClick = (seller: any) => {
     // Store the current conversation state before opening profile
@@ -847,6 +1152,172 @@ export function MessagesView() {
     return currentSenderId !== nextSenderId || shouldShowTimeGroup(nextMessage, currentMessage);
   };
 
+  const runMessageSearch = async (query: string, page: number) => {
+    setMessageSearch(prev => ({
+      query,
+      results: page > 1 && prev?.query === query ? prev.results : [],
+      page,
+      total: prev?.query === query ? prev.total : 0,
+      hasNext: false,
+      loading: true
+    }));
+
+    try {
+      const response = await ApiService.searchMessages(query, page, MESSAGES_PAGE_SIZE);
+      // Drop responses for a query the user has already typed past
+      setMessageSearch(prev => prev && prev.query === query ? {
+        ...prev,
+        results: page > 1 ? [...prev.results, ...response.results] : response.results,
+        total: response.pagination.total,
+        hasNext: response.pagination.hasNext,
+        loading: false
+      } : prev);
+    } catch (error) {
+      console.error('Error searching messages:', error);
+      setMessageSearch(prev => prev && prev.query === query ? { ...prev, loading: false } : prev);
+    }
+  };
+
+  // Search message content as well as partner names once the term is long enough
+  useEffect(() => {
+    const query = searchTerm.trim();
+    if (query.length < MIN_SEARCH_LENGTH) {
+      setMessageSearch(null);
+      return;
+    }
+
+    const timeout = setTimeout(() => runMessageSearch(query, 1), 300);
+    return () => clearTimeout(timeout);
+  }, [searchTerm]);
+
+  // Results keep their newest-first order inside each conversation
+  const groupedSearchResults = useMemo(() => {
+    const groups = new Map<string, { otherUser: MessageSearchResult['otherUser']; results: MessageSearchResult[] }>();
+    messageSearch?.results.forEach(result => {
+      if (!groups.has(result.conversationId)) {
+        groups.set(result.conversationId, { otherUser: result.otherUser, results: [] });
+      }
+      groups.get(result.conversationId)!.results.push(result);
+    });
+    return Array.from(groups.entries());
+  }, [messageSearch?.results]);
+
+  // Open the conversation on a window of messages centred on the match; scrolling loads further in either direction
+  const jumpToMessage = async (result: MessageSearchResult) => {
+    const { conversationId } = result;
+
+    jumpTargetRef.current = result.id;
+    setHighlightedMessageId(result.id);
+    // Mark the conversation as loaded so opening it doesn't fetch page 1 over the context
+    setMessagePagination(prev => ({
+      ...prev,
+      [conversationId]: { ...prev[conversationId], loading: true, initialLoaded: true }
+    }));
+    navigate(routes.conversation(result.otherUser.id));
+
+    try {
+      const response = await ApiService.getConversationMessages(result.otherUser.id, 1, MESSAGES_PAGE_SIZE, { around: result.id });
+
+      setPaginatedMessages(prev => ({
+        ...prev,
+        [conversationId]: response.messages.map(msg => ({ ...msg, id: msg.id || (msg as any)._id }))
+      }));
+      setMessagePagination(prev => ({
+        ...prev,
+        [conversationId]: {
+          current: 1,
+          pages: response.pagination.pages,
+          total: response.pagination.total,
+          hasNext: response.pagination.hasNext,
+          hasPrev: response.pagination.hasPrev,
+          loading: false,
+          initialLoaded: true
+        }
+      }));
+    } catch (error) {
+      console.error('Error loading message context:', error);
+      jumpTargetRef.current = null;
+      setHighlightedMessageId(null);
+      setMessagePagination(prev => ({
+        ...prev,
+        [conversationId]: { ...prev[conversationId], loading: false, initialLoaded: false }
+      }));
+      showError('Could Not Open Message', 'Please try again.');
+    }
+  };
+
+  // Once the jumped-to message is on screen, centre it and fade the highlight after a moment
+  useEffect(() => {
+    if (!highlightedMessageId || !currentConversationMessages.some(message => message.id === highlightedMessageId)) return;
+
+    const scrollTimeout = setTimeout(() => {
+      messagesContainerRef.current
+        ?.querySelector(`[data-message-id="${highlightedMessageId}"]`)
+        ?.scrollIntoView({ block: 'center' });
+    }, 100);
+    const clearTimeoutId = setTimeout(() => {
+      jumpTargetRef.current = null;
+      setHighlightedMessageId(null);
+    }, 3000);
+
+    return () => {
+      clearTimeout(scrollTimeout);
+      clearTimeout(clearTimeoutId);
+    };
+  }, [highlightedMessageId, currentConversationMessages]);
+
+  const renderMessageSearchResults = () => messageSearch && (
+    <div className="border-t border-primary-700/30 p-2">
+      <h3 className="px-2 py-2 text-xs font-semibold uppercase tracking-wide text-primary-400">
+        Messages{messageSearch.total > 0 && ` (${messageSearch.total})`}
+      </h3>
+      {messageSearch.results.length === 0 ? (
+        <p className="px-2 pb-2 text-sm text-primary-400">
+          {messageSearch.loading ? 'Searching...' : 'No messages match your search'}
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {groupedSearchResults.map(([conversationId, group]) => (
+            <div key={conversationId}>
+              <div className="flex items-center space-x-2 px-2 mb-1">
+                <div className="w-6 h-6 bg-primary-800/50 rounded-full flex items-center justify-center overflow-hidden">
+                  {group.otherUser.avatar ? (
+                    <img src={group.otherUser.avatar} alt={group.otherUser.username} className="w-full h-full object-cover" />
+                  ) : (
+                    <User className="w-3 h-3 text-primary-300" />
+                  )}
+                </div>
+                <span className="text-sm font-medium text-primary-200">@{group.otherUser.username}</span>
+              </div>
+              {group.results.map(result => (
+                <button
+                  key={result.id}
+                  onClick={() => jumpToMessage(result)}
+                  className="w-full text-left px-3 py-2 rounded-lg hover:bg-primary-800/30 transition-colors"
+                >
+                  <p className="text-sm text-primary-300 line-clamp-2">
+                    {result.senderId === state.currentUser?.id && 'You: '}
+                    {highlightMatches(result.content, messageSearch.query)}
+                  </p>
+                  <p className="text-xs text-primary-500 mt-0.5">{formatDateSeparator(result.timestamp)} · {formatMessageTime(result.timestamp)}</p>
+                </button>
+              ))}
+            </div>
+          ))}
+          {messageSearch.hasNext && (
+            <button
+              onClick={() => runMessageSearch(messageSearch.query, messageSearch.page + 1)}
+              disabled={messageSearch.loading}
+              className="w-full py-2 text-sm text-blue-400 hover:text-blue-300 disabled:opacity-50"
+            >
+              {messageSearch.loading ? 'Loading...' : 'Load more results'}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+
   const renderConversationsList = () => (
     <div className="w-full lg:w-96 border-r border-primary-700/30 flex flex-col">
       {/* Header */}
@@ -858,7 +1329,7 @@ export function MessagesView() {
           <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-primary-400" />
           <input
             type="text"
-            placeholder="Search conversations..."
+            placeholder="Search people and messages..."
             value={searchTerm}
             onChange={(e) => setSearchTerm(e.target.value)}
             className="input-field pl-10 text-sm"
@@ -970,7 +1441,8 @@ export function MessagesView() {
                       <div className="flex items-center justify-between mt-1">
                         <p className="text-sm text-primary-300 truncate">
                           {conversation.lastMessage.senderId === state.currentUser?.id && 'You: '}
-                          {conversation.lastMessage.content}
+                          {conversation.lastMessage.unsentAt ? 'Message unsent' : conversation.lastMessage.content ||
+                            (conversation.lastMessage.attachments?.length ? '📎 Attachment' : '')}
                         </p>
                         {conversation.unreadCount > 0 && (
                           <span className="bg-blue-500 text-white text-xs px-2 py-1 rounded-full min-w-[20px] text-center">
@@ -985,10 +1457,91 @@ export function MessagesView() {
             })}
           </div>
         )}
+        {renderMessageSearchResults()}
       </div>
     </div>
   );
 
+  // sending → sent → delivered → read ticks for outgoing bubbles, pending ones included
+  const renderDeliveryStatus = (message: Message, pendingStatus: PendingMessage['status'] | null) => {
+    if (pendingStatus === 'sending') {
+      return <Clock className="w-3 h-3 animate-spin" />;
+    }
+    if (pendingStatus === 'failed') {
+      return <span className="text-xs text-red-200">Failed</span>;
+    }
+    if (message.read || message.readAt) {
+      return (
+        <span title={message.readAt ? `Read ${new Date(message.readAt).toLocaleString()}` : 'Read'}>
+          <CheckCheck className="w-3 h-3 text-emerald-300" />
+        </span>
+      );
+    }
+    if (message.deliveredAt) {
+      return (
+        <span title={`Delivered ${new Date(message.deliveredAt).toLocaleString()}`}>
+          <CheckCheck className="w-3 h-3" />
+        </span>
+      );
+    }
+    return (
+      <span title="Sent">
+        <Check className="w-3 h-3" />
+      </span>
+    );
+  };
+
+  // Edits and unsends also patch the paginated copy, which may hold messages the global state never loaded
+  const replacePaginatedMessage = (updated: Pick<Message, 'id' | 'content' | 'attachments' | 'editedAt' | 'unsentAt'>) => {
+    if (!selectedConversation) return;
+    setPaginatedMessages(prev => ({
+      ...prev,
+      [selectedConversation]: (prev[selectedConversation] || []).map(message =>
+        message.id === updated.id
+          ? { ...message, content: updated.content, attachments: updated.attachments, editedAt: updated.editedAt, unsentAt: updated.unsentAt }
+          : message
+      )
+    }));
+  };
+
+  const handleSaveEdit = async (message: Message) => {
+    if (!editingMessage) return;
+    const content = editingMessage.text.trim();
+
+    if (content === message.content) {
+      setEditingMessage(null);
+      return;
+    }
+    if (!content && !message.attachments?.length) {
+      showError('Empty Message', 'Unsend the message instead of removing all of its text.');
+      return;
+    }
+
+    setSavingEdit(true);
+    try {
+      await editMessage(message.id, content);
+      replacePaginatedMessage({ ...message, content, editedAt: new Date().toISOString() });
+      setEditingMessage(null);
+    } catch (error) {
+      // editMessage already shows the error
+    } finally {
+      setSavingEdit(false);
+    }
+  };
+
+  const handleUnsend = async (message: Message) => {
+    if (!window.confirm('Unsend this message? It will be removed for both of you.')) {
+      return;
+    }
+
+    try {
+      await unsendMessage(message.id);
+      replacePaginatedMessage({ ...message, content: '', attachments: [], unsentAt: new Date().toISOString() });
+    } catch (error) {
+      // unsendMessage already shows the error
+    }
+  };
+
   const renderChatInterface = () => {
     if (!selectedConversation || !selectedConversationUser) {
       return (
@@ -1011,7 +1564,7 @@ export function MessagesView() {
           <div className="flex items-center justify-between">
             <div className="flex items-center space-x-3">
               <button
-                onClick={() => setSelectedConversation(null)}
+                onClick={() => navigate(routes.tab('messages'))}
                 className="lg:hidden p-2 hover:bg-primary-800/50 rounded-full transition-colors"
               >
                 <ArrowLeft className="w-5 h-5 text-primary-300" />
@@ -1103,6 +1656,9 @@ export function MessagesView() {
                     const showDateSeparator = shouldShowDateSeparator(message, previousMessage);
                     const showTimeGroup = shouldShowTimeGroup(message, previousMessage);
                     const showAvatar = shouldShowAvatar(message, nextMessage, isOwn);
+                    const isEditing = editingMessage?.id === message.id;
+                    const canChange = isOwn && !isPending && !message.unsentAt && !isEditing;
+                    const hasHistory = !!message.tradeId && !!(message.editedAt || message.unsentAt);
                     
                     return (
                       <React.Fragment key={message.id}>
@@ -1128,13 +1684,14 @@ export function MessagesView() {
                         
                         {/* Message */}
                         <motion.div
+                          data-message-id={message.id}
                           initial={{ opacity: 0, y: 20 }}
                           animate={{ opacity: 1, y: 0 }}
                           className={`flex ${isOwn ? 'justify-end' : 'justify-start'} ${
                             showTimeGroup ? 'mt-2' : 'mt-0.5'
                           }`}
                         >
-                          <div className={`flex items-end space-x-2 max-w-xs lg:max-w-md ${isOwn ? 'flex-row-reverse space-x-reverse' : ''}`}>
+                          <div className={`group flex items-end space-x-2 max-w-xs lg:max-w-md ${isOwn ? 'flex-row-reverse space-x-reverse' : ''}`}>
                             {/* Avatar */}
                             <div className="w-8 h-8 flex-shrink-0">
                               {showAvatar && !isOwn && (
@@ -1163,9 +1720,105 @@ export function MessagesView() {
                                 !showTimeGroup && !isOwn && !showAvatar ? 'rounded-tl-md' : ''
                               } ${
                                 !showTimeGroup && isOwn ? 'rounded-tr-md' : ''
+                              } ${
+                                highlightedMessageId === message.id ? 'ring-2 ring-yellow-400' : ''
                               }`}
                             >
-                              <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+                              {message.unsentAt && (
+                                <p className="text-sm italic opacity-70">
+                                  {isOwn ? 'You unsent a message' : 'Message unsent'}
+                                </p>
+                              )}
+                              {message.attachments && message.attachments.length > 0 && (
+                                <div className={`space-y-2 ${message.content ? 'mb-2' : ''}`}>
+                                  {/* Photos in a grid; tap one to open the full-screen viewer */}
+                                  {message.attachments.some(attachment => attachment.kind === 'image') && (
+                                    <div className="grid grid-cols-2 gap-1">
+                                      {message.attachments
+                                        .filter(attachment => attachment.kind === 'image')
+                                        .map((attachment, imageIndex, images) => (
+                                          <button
+                                            key={attachment.url}
+                                            onClick={() => setImageViewer({ images: images.map(image => image.url), index: imageIndex })}
+                                            className={`block rounded-lg overflow-hidden ${images.length === 1 ? 'col-span-2' : ''}`}
+                                          >
+                                            <img
+                                              src={attachment.url}
+                                              alt={attachment.name || 'Attachment'}
+                                              className="w-full h-32 object-cover hover:opacity-90 transition-opacity"
+                                            />
+                                          </button>
+                                        ))}
+                                    </div>
+                                  )}
+                                  {message.attachments
+                                    .filter(attachment => attachment.kind === 'pdf')
+                                    .map(attachment => (
+                                      <a
+                                        key={attachment.url}
+                                        href={attachment.url}
+                                        target="_blank"
+                                        rel="noopener noreferrer"
+                                        className={`flex items-center space-x-2 px-3 py-2 rounded-lg transition-colors ${
+                                          isOwn ? 'bg-blue-700/60 hover:bg-blue-700' : 'bg-primary-800/60 hover:bg-primary-800'
+                                        }`}
+                                      >
+                                        <FileText className="w-5 h-5 flex-shrink-0" />
+                                        <div className="min-w-0">
+                                          <p className="text-sm truncate">{attachment.name || 'Document.pdf'}</p>
+                                          {attachment.size && (
+                                            <p className="text-xs opacity-70">{formatFileSize(attachment.size)}</p>
+                                          )}
+                                        </div>
+                                      </a>
+                                    ))}
+                                </div>
+                              )}
+                              {isEditing ? (
+                                <div className="space-y-2">
+                                  <textarea
+                                    value={editingMessage.text}
+                                    onChange={(e) => setEditingMessage({ id: message.id, text: e.target.value })}
+                                    onKeyDown={(e) => {
+                                      if (e.key === 'Enter' && !e.shiftKey) {
+                                        e.preventDefault();
+                                        handleSaveEdit(message);
+                                      } else if (e.key === 'Escape') {
+                                        setEditingMessage(null);
+                                      }
+                                    }}
+                                    className="w-full bg-blue-700/60 text-white text-sm rounded-lg px-2 py-1 resize-none focus:outline-none focus:ring-1 focus:ring-blue-300"
+                                    rows={2}
+                                    maxLength={1000}
+                                    autoFocus
+                                  />
+                                  <div className="flex justify-end space-x-2 text-xs">
+                                    <button onClick={() => setEditingMessage(null)} className="text-blue-200 hover:text-white">
+                                      Cancel
+                                    </button>
+                                    <button
+                                      onClick={() => handleSaveEdit(message)}
+                                      disabled={savingEdit}
+                                      className="font-medium text-white hover:text-blue-100 disabled:opacity-50"
+                                    >
+                                      {savingEdit ? 'Saving...' : 'Save'}
+                                    </button>
+                                  </div>
+                                </div>
+                              ) : message.content && (
+                                <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+                              )}
+                              {/* Linked listing and trade cards stay live through the shared state */}
+                              {!message.unsentAt && (message.listingId || message.tradeId) && (
+                                <div className={`space-y-2 w-56 ${message.content || isEditing ? 'mt-2' : ''}`}>
+                                  {message.listingId && (
+                                    <ListingMessageCard listingId={message.listingId} isOwn={isOwn} />
+                                  )}
+                                  {message.tradeId && (
+                                    <TradeMessageCard tradeId={message.tradeId} isOwn={isOwn} onCounter={setCounterOfferTrade} />
+                                  )}
+                                </div>
+                              )}
                               
                               {/* Message metadata - only show on last message in time group */}
                               {(showAvatar || index === currentConversationMessages.length - 1 || 
@@ -1173,29 +1826,55 @@ export function MessagesView() {
                                 <div className={`flex items-center justify-end mt-1 space-x-1 ${
                                   isOwn ? 'text-blue-200' : 'text-primary-400'
                                 }`}>
+                                  {message.editedAt && !message.unsentAt && (
+                                    <span className="text-xs italic" title={`Edited ${new Date(message.editedAt).toLocaleString()}`}>
+                                      edited
+                                    </span>
+                                  )}
                                   <span className="text-xs">
                                     {formatMessageTime(message.timestamp)}
                                   </span>
                                   {isOwn && (
                                     <div className="flex items-center">
-                                      {isPending ? (
-                                        pendingStatus === 'sending' ? (
-                                          <Clock className="w-3 h-3 animate-spin" />
-                                        ) : pendingStatus === 'failed' ? (
-                                          <span className="text-xs text-red-200">Failed</span>
-                                        ) : (
-                                          <Check className="w-3 h-3" />
-                                        )
-                                      ) : message.read ? (
-                                        <CheckCheck className="w-3 h-3" />
-                                      ) : (
-                                        <Check className="w-3 h-3" />
-                                      )}
+                                      {renderDeliveryStatus(message, pendingStatus)}
                                     </div>
                                   )}
                                 </div>
                               )}
                             </div>
+
+                            {/* Edit, unsend and history actions appear on hover */}
+                            {(canChange || hasHistory) && (
+                              <div className="flex items-center space-x-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                                {canChange && isWithinEditWindow(message) && (
+                                  <button
+                                    onClick={() => setEditingMessage({ id: message.id, text: message.content })}
+                                    className="p-1 rounded-full text-primary-400 hover:text-primary-100 hover:bg-primary-800/50"
+                                    title="Edit"
+                                  >
+                                    <Pencil className="w-3.5 h-3.5" />
+                                  </button>
+                                )}
+                                {canChange && (
+                                  <button
+                                    onClick={() => handleUnsend(message)}
+                                    className="p-1 rounded-full text-primary-400 hover:text-red-400 hover:bg-primary-800/50"
+                                    title="Unsend"
+                                  >
+                                    <Trash2 className="w-3.5 h-3.5" />
+                                  </button>
+                                )}
+                                {hasHistory && (
+                                  <button
+                                    onClick={() => setHistoryMessageId(message.id)}
+                                    className="p-1 rounded-full text-primary-400 hover:text-primary-100 hover:bg-primary-800/50"
+                                    title="View history"
+                                  >
+                                    <History className="w-3.5 h-3.5" />
+                                  </button>
+                                )}
+                              </div>
+                            )}
                           </div>
                         </motion.div>
                       </React.Fragment>
@@ -1231,7 +1910,48 @@ export function MessagesView() {
 
         {/* Message Input */}
         <div className="flex-shrink-0 p-4 border-t border-primary-700/30 bg-primary-900/95 backdrop-blur-sm z-30">
+          {/* Files waiting to go out with the next message */}
+          {stagedFiles.length > 0 && (
+            <div className="flex flex-wrap gap-2 max-w-4xl mx-auto mb-3">
+              {stagedFiles.map((file, index) => (
+                <div
+                  key={`${file.name}-${index}`}
+                  className="flex items-center space-x-2 bg-primary-800/50 border border-primary-600/30 rounded-lg pl-3 pr-1 py-1"
+                >
+                  {file.type === 'application/pdf' ? (
+                    <FileText className="w-4 h-4 text-primary-300" />
+                  ) : (
+                    <Paperclip className="w-4 h-4 text-primary-300" />
+                  )}
+                  <span className="text-xs text-primary-200 max-w-[140px] truncate">{file.name}</span>
+                  <button
+                    onClick={() => setStagedFiles(prev => prev.filter((_, i) => i !== index))}
+                    disabled={uploadingAttachments}
+                    className="p-1 rounded hover:bg-primary-700/50 text-primary-400 hover:text-primary-100"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
           <div className="flex items-center space-x-3 max-w-4xl mx-auto">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/*,application/pdf"
+              multiple
+              onChange={handleAttachFiles}
+              className="hidden"
+            />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={uploadingAttachments || stagedFiles.length >= MAX_MESSAGE_ATTACHMENTS}
+              className="w-12 h-[50px] rounded-xl flex items-center justify-center flex-shrink-0 text-primary-300 hover:text-primary-100 hover:bg-primary-800/50 transition-colors disabled:opacity-50"
+              title="Attach photos or PDFs"
+            >
+              <Paperclip className="w-5 h-5" />
+            </button>
             <div className="flex-1">
               <textarea
                 ref={textareaRef}
@@ -1250,14 +1970,14 @@ export function MessagesView() {
             </div>
             <button
               onClick={handleSendMessage}
-              disabled={!messageText.trim()}
+              disabled={(!messageText.trim() && stagedFiles.length === 0) || uploadingAttachments}
               className={`w-12 h-[50px] rounded-xl flex items-center justify-center flex-shrink-0 transition-all ${
-                messageText.trim()
+                (messageText.trim() || stagedFiles.length > 0) && !uploadingAttachments
                   ? 'bg-blue-600 hover:bg-blue-700 text-white shadow-lg hover:shadow-xl'
                   : 'bg-primary-700/50 text-primary-400 cursor-not-allowed'
               }`}
             >
-              <Send className="w-5 h-5" />
+              {uploadingAttachments ? <Loader2 className="w-5 h-5 animate-spin" /> : <Send className="w-5 h-5" />}
             </button>
           </div>
         </div>
@@ -1265,114 +1985,62 @@ export function MessagesView() {
     );
   };
 
-  // Function to load messages for a specific conversation with pagination
-  const loadConversationMessages = async (conversationId: string, page: number = 1, isLoadingMore: boolean = false) => {
-    const conversation = conversations.find(c => c.id === conversationId);
-    if (!conversation) return;
+  // Function to load more messages when scrolling up
+  const loadMoreMessages = async (conversationId: string) => {
+    const pagination = messagePagination[conversationId];
+    if (!pagination || pagination.loading || !pagination.hasPrev) return;
 
-    // Get other user ID
-    let otherUserId: string;
-    if ((conversation as any).otherUser) {
-      otherUserId = (conversation as any).otherUser.id;
-    } else {
-      otherUserId = conversation.participants.find(p => p !== state.currentUser?.id) || '';
-    }
+    const nextPage = pagination.current + 1;
+    await loadConversationMessages(conversationId, nextPage, true);
+  };
 
+  // Function to load the messages after a window opened from search when scrolling down
+  const loadNewerMessages = async (conversationId: string) => {
+    const pagination = messagePagination[conversationId];
+    const loaded = paginatedMessages[conversationId] || [];
+    if (!pagination || pagination.loading || !pagination.hasNext || loaded.length === 0) return;
+
+    const conversation = conversations.find(c => c.id === conversationId);
+    const otherUserId = (conversation as any)?.otherUser?.id ||
+      conversation?.participants.find(p => p !== state.currentUser?.id);
     if (!otherUserId) return;
 
-    // Set loading state
     setMessagePagination(prev => ({
       ...prev,
-      [conversationId]: {
-        ...prev[conversationId],
-        loading: true
-      }
+      [conversationId]: { ...prev[conversationId], loading: true }
     }));
 
     try {
-      console.log(`📨 Loading messages for conversation ${conversationId}, page ${page}`);
-      const response = await ApiService.getConversationMessages(otherUserId, page, 20);
-      
-      const newMessages = response.messages.map(msg => ({
-        ...msg,
-        id: msg.id || (msg as any)._id
-      }));
-
-      if (isLoadingMore) {
-        // Prepend older messages (they come in reverse chronological order from API)
-        setPaginatedMessages(prev => ({
-          ...prev,
-          [conversationId]: [...newMessages, ...(prev[conversationId] || [])]
-        }));
-      } else {
-        // Initial load - replace messages
-        setPaginatedMessages(prev => ({
-          ...prev,
-          [conversationId]: newMessages
-        }));
-      }
+      const response = await ApiService.getConversationMessages(otherUserId, 1, MESSAGES_PAGE_SIZE, {
+        after: loaded[loaded.length - 1].id
+      });
 
-      // Update pagination info
+      setPaginatedMessages(prev => ({
+        ...prev,
+        [conversationId]: [
+          ...(prev[conversationId] || []),
+          ...response.messages.map(msg => ({ ...msg, id: msg.id || (msg as any)._id }))
+        ]
+      }));
       setMessagePagination(prev => ({
         ...prev,
         [conversationId]: {
-          current: response.pagination.current,
-          pages: response.pagination.pages,
+          ...prev[conversationId],
+          current: prev[conversationId].current + 1,
           total: response.pagination.total,
           hasNext: response.pagination.hasNext,
-          hasPrev: response.pagination.hasPrev,
-          loading: false,
-          initialLoaded: true
+          loading: false
         }
       }));
-
-      console.log(`✅ Loaded ${newMessages.length} messages for conversation ${conversationId}`);
-      
     } catch (error) {
-      console.error('Error loading conversation messages:', error);
-      
-      // Fallback to using state.messages if API fails
-      const fallbackMessages = state.messages
-        .filter(msg => {
-          const messageSenderId = typeof msg.senderId === 'object' ? (msg.senderId as any).id : msg.senderId;
-          const messageReceiverId = typeof msg.receiverId === 'object' ? (msg.receiverId as any).id : msg.receiverId;
-          
-          return (
-            (messageSenderId === state.currentUser?.id && messageReceiverId === otherUserId) ||
-            (messageSenderId === otherUserId && messageReceiverId === state.currentUser?.id)
-          );
-        })
-        .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
-
-      setPaginatedMessages(prev => ({
-        ...prev,
-        [conversationId]: fallbackMessages
-      }));
-
+      console.error('Error loading newer messages:', error);
       setMessagePagination(prev => ({
         ...prev,
-        [conversationId]: {
-          current: 1,
-          pages: 1,
-          total: fallbackMessages.length,
-          hasNext: false,
-          hasPrev: false,
-          loading: false,
-          initialLoaded: true
-        }
+        [conversationId]: { ...prev[conversationId], loading: false }
       }));
     }
   };
 
-  // Function to load more messages when scrolling up
-  const loadMoreMessages = async (conversationId: string) => {
-    const pagination = messagePagination[conversationId];
-    if (!pagination || pagination.loading || !pagination.hasPrev) return;
-
-    const nextPage = pagination.current + 1;
-    await loadConversationMessages(conversationId, nextPage, true);
-  };
-
   // Infinite scroll handler
   const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
     const container = e.currentTarget;
@@ -1382,6 +2050,11 @@ export function MessagesView() {
     if (scrollTop < 100 && selectedConversation) {
       loadMoreMessages(selectedConversation);
     }
+
+    // ...and newer ones near the bottom of a window opened from search
+    if (scrollHeight - scrollTop - clientHeight < 100 && selectedConversation) {
+      loadNewerMessages(selectedConversation);
+    }
   };
 
   // Preserve scroll position when loading more messages
@@ -1486,6 +2159,32 @@ export function MessagesView() {
       <div className={`flex-1 h-full ${selectedConversation ? 'block' : 'hidden lg:block'}`}>
         {renderChatInterface()}
       </div>
+
+      <ImageModal
+        isOpen={!!imageViewer}
+        onClose={() => setImageViewer(null)}
+        images={imageViewer?.images || []}
+        currentIndex={imageViewer?.index || 0}
+        onNavigate={(index) => setImageViewer(prev => prev && { ...prev, index })}
+      />
+
+      <AnimatePresence>
+        {counterOfferTrade && (
+          <TradeOfferModal
+            onClose={() => setCounterOfferTrade(null)}
+            existingTrade={counterOfferTrade}
+          />
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {historyMessageId && (
+          <MessageHistoryModal
+            messageId={historyMessageId}
+            onClose={() => setHistoryMessageId(null)}
+          />
+        )}
+      </AnimatePresence>
     </div>
   );
 }
\ No newline at end of file
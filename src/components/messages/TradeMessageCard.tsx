@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeftRight, CheckCircle } from 'lucide-react';
+import { useApp } from '../../context/AppContext.tsx';
+import { Trade } from '../../types/index.ts';
+import { routes } from '../../utils/routes.ts';
+import { getTradeRole, getTradeTerms, getAvailableTradeEvents } from '../../utils/tradeStateMachine.ts';
+
+interface TradeMessageCardProps {
+  tradeId: string;
+  isOwn: boolean;
+  onCounter: (trade: Trade) => void;
+}
+
+const STATUS_STYLES: Record<Trade['status'], string> = {
+  pending: 'bg-yellow-500/20 text-yellow-300',
+  countered: 'bg-purple-500/20 text-purple-300',
+  accepted: 'bg-green-500/20 text-green-300',
+  pending_acceptance: 'bg-blue-500/20 text-blue-200',
+  completed: 'bg-green-500/20 text-green-300',
+  rejected: 'bg-red-500/20 text-red-300',
+  declined: 'bg-red-500/20 text-red-300',
+  cancelled: 'bg-primary-700/60 text-primary-300',
+  expired: 'bg-primary-700/60 text-primary-300',
+};
+
+const describeSide = (vehicleCount: number, cash: number) => {
+  const parts: string[] = [];
+  if (vehicleCount > 0) parts.push(`${vehicleCount} vehicle${vehicleCount === 1 ? '' : 's'}`);
+  if (cash > 0) parts.push(`$${cash.toLocaleString()}`);
+  return parts.length > 0 ? parts.join(' + ') : 'Nothing';
+};
+
+export function TradeMessageCard({ tradeId, isOwn, onCounter }: TradeMessageCardProps) {
+  const { state, updateTrade } = useApp();
+  const navigate = useNavigate();
+  const [accepting, setAccepting] = useState(false);
+
+  // state.trades holds every trade the user is part of and is kept current by TRADE_UPDATED
+  const trade = state.trades.find(t => t.id === tradeId);
+
+  const cardClass = `rounded-lg px-3 py-2 ${isOwn ? 'bg-blue-700/60' : 'bg-primary-800/60'}`;
+
+  if (!trade) {
+    return (
+      <div className={`${cardClass} text-xs opacity-70`}>
+        This trade is no longer available
+      </div>
+    );
+  }
+
+  const role = getTradeRole(trade, state.currentUser?.id);
+  const { offererGives, receiverGives, cashFromOfferer } = getTradeTerms(trade);
+  const offererSide = describeSide(offererGives.length, Math.max(cashFromOfferer, 0));
+  const receiverSide = describeSide(receiverGives.length, Math.max(-cashFromOfferer, 0));
+  const availableEvents = getAvailableTradeEvents(trade, state.currentUser?.id);
+
+  const handleAccept = async () => {
+    if (!window.confirm('Accept these trade terms?')) {
+      return;
+    }
+
+    setAccepting(true);
+    try {
+      await updateTrade({ ...trade, status: 'accepted', updatedAt: new Date().toISOString() });
+    } catch (error) {
+      console.error('Error accepting trade:', error);
+    } finally {
+      setAccepting(false);
+    }
+  };
+
+  return (
+    <div className={cardClass}>
+      <button
+        onClick={() => navigate(routes.trade(trade.id))}
+        className="w-full text-left"
+      >
+        <div className="flex items-center justify-between">
+          <span className="flex items-center space-x-1 text-sm font-medium">
+            <ArrowLeftRight className="w-4 h-4" />
+            <span className="truncate">{trade.listingData?.title || 'Bundle trade'}</span>
+          </span>
+          <span className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize flex-shrink-0 ml-2 ${STATUS_STYLES[trade.status]}`}>
+            {trade.status === 'pending_acceptance' ? 'Pending' : trade.status}
+          </span>
+        </div>
+        <div className="mt-2 space-y-0.5 text-xs opacity-90">
+          <p>
+            <span className="opacity-70">{role === 'offerer' ? 'You give' : 'They give'}:</span> {offererSide}
+          </p>
+          <p>
+            <span className="opacity-70">{role === 'receiver' ? 'You give' : 'They give'}:</span> {receiverSide}
+          </p>
+        </div>
+      </button>
+
+      {(availableEvents.includes('accept') || availableEvents.includes('counter')) && (
+        <div className="flex space-x-2 mt-2">
+          {availableEvents.includes('accept') && (
+            <button
+              onClick={handleAccept}
+              disabled={accepting}
+              className="flex-1 flex items-center justify-center space-x-1 px-2 py-1 rounded-md bg-green-500/20 hover:bg-green-500/30 text-green-300 text-xs font-medium transition-colors disabled:opacity-50"
+            >
+              <CheckCircle className="w-3 h-3" />
+              <span>{accepting ? 'Accepting...' : 'Accept'}</span>
+            </button>
+          )}
+          {availableEvents.includes('counter') && (
+            <button
+              onClick={() => onCounter(trade)}
+              className="flex-1 flex items-center justify-center space-x-1 px-2 py-1 rounded-md bg-purple-500/20 hover:bg-purple-500/30 text-purple-300 text-xs font-medium transition-colors"
+            >
+              <ArrowLeftRight className="w-3 h-3" />
+              <span>Counter</span>
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,12 +1,13 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { User, Edit, Save, X, Upload, Mail, Lock, Eye, EyeOff, Camera } from 'lucide-react';
+import { User, Edit, Save, X, Upload, Mail, Lock, Eye, EyeOff, Camera, TrendingUp } from 'lucide-react';
 import { useApp } from '../../context/AppContext.tsx';
 import { AuthService } from '../../services/authService.ts';
 import ApiService from '../../services/apiService.ts';
+import { SalesHistory } from './SalesHistory.tsx';
 
 export function ProfileView() {
-  const { state, updateUser, showSuccess, showError, showWarning, showInfo } = useApp();
+  const { state, updateUser, loadSales, showSuccess, showError, showWarning, showInfo } = useApp();
   const [isEditing, setIsEditing] = useState(false);
   const [isChangingPassword, setIsChangingPassword] = useState(false);
   const [showCurrentPassword, setShowCurrentPassword] = useState(false);
@@ -30,6 +31,10 @@ export function ProfileView() {
     confirmPassword: '',
   });
 
+  useEffect(() => {
+    loadSales();
+  }, [loadSales]);
+
   const handleProfileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
     setProfileData(prev => ({
@@ -710,6 +715,17 @@ export function ProfileView() {
           </div>
         )}
       </div>
+
+      {/* Sales & Purchases Card */}
+      {state.currentUser && (
+        <div className="glass-effect rounded-xl p-6">
+          <div className="flex items-center space-x-2 mb-6">
+            <TrendingUp className="w-5 h-5 text-primary-300" />
+            <h2 className="text-xl font-semibold text-primary-100">Sales & Purchases</h2>
+          </div>
+          <SalesHistory sales={state.sales} userId={state.currentUser.id} />
+        </div>
+      )}
     </div>
   );
 } 
\ No newline at end of file
@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { X, Flag } from 'lucide-react';
+import { useApp } from '../../context/AppContext.tsx';
+import { Review, ReviewReportReason } from '../../types/index.ts';
+
+interface ReportReviewModalProps {
+  review: Review;
+  onClose: () => void;
+}
+
+const REPORT_REASONS: Array<{ value: ReviewReportReason; label: string }> = [
+  { value: 'abusive', label: 'Abusive or harassing' },
+  { value: 'spam', label: 'Spam or advertising' },
+  { value: 'off_topic', label: 'Not about a deal with this user' },
+  { value: 'false_information', label: 'False information' },
+  { value: 'other', label: 'Something else' },
+];
+
+export function ReportReviewModal({ review, onClose }: ReportReviewModalProps) {
+  const { reportReview } = useApp();
+  const [reason, setReason] = useState<ReviewReportReason>('abusive');
+  const [details, setDetails] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setLoading(true);
+    try {
+      await reportReview(review.id, reason, details.trim() || undefined);
+      onClose();
+    } catch (error) {
+      console.error('Error reporting review:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50"
+      onClick={(e) => e.target === e.currentTarget && onClose()}
+    >
+      <motion.div
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.9, opacity: 0 }}
+        className="glass-effect rounded-2xl p-6 w-full max-w-md"
+      >
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center space-x-2">
+            <Flag className="w-5 h-5 text-red-400" />
+            <h2 className="text-xl font-bold text-primary-100">Report Review</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-primary-800/50 rounded-full transition-colors"
+          >
+            <X className="w-5 h-5 text-primary-300" />
+          </button>
+        </div>
+
+        <p className="text-sm text-primary-300 mb-4">
+          Reviews reported by several users are hidden from the profile until a moderator restores or removes them.
+        </p>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            {REPORT_REASONS.map(option => (
+              <label
+                key={option.value}
+                className={`flex items-center space-x-3 p-3 rounded-lg cursor-pointer transition-colors ${
+                  reason === option.value ? 'bg-primary-100/20 text-primary-100' : 'bg-primary-800/30 text-primary-300 hover:text-primary-200'
+                }`}
+              >
+                <input
+                  type="radio"
+                  name="reason"
+                  value={option.value}
+                  checked={reason === option.value}
+                  onChange={() => setReason(option.value)}
+                />
+                <span className="text-sm">{option.label}</span>
+              </label>
+            ))}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-primary-200 mb-2">
+              Details <span className="text-primary-400 text-xs">(optional)</span>
+            </label>
+            <textarea
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+              placeholder="Anything the moderator should know..."
+              className="input-field min-h-[80px] resize-none"
+              maxLength={500}
+            />
+          </div>
+
+          <div className="flex space-x-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 btn-secondary"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="flex-1 flex items-center justify-center space-x-2 px-4 py-2 rounded-lg bg-red-500/10 hover:bg-red-500/20 text-red-400 border border-red-500/20 transition-colors disabled:opacity-50"
+            >
+              <Flag className="w-4 h-4" />
+              <span>{loading ? 'Reporting...' : 'Report'}</span>
+            </button>
+          </div>
+        </form>
+      </motion.div>
+    </motion.div>
+  );
+}
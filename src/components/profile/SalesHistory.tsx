@@ -0,0 +1,140 @@
+import React, { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { TrendingUp, TrendingDown, Award, ShoppingCart, Gavel, List, RefreshCw } from 'lucide-react';
+import { useApp } from '../../context/AppContext.tsx';
+import { Sale } from '../../types/index.ts';
+
+interface SalesHistoryProps {
+  sales: Sale[];
+  userId: string;
+}
+
+const SALE_TYPE_ICONS = {
+  listing: List,
+  auction: Gavel,
+  trade: RefreshCw,
+};
+
+export function SalesHistory({ sales, userId }: SalesHistoryProps) {
+  const { state } = useApp();
+  const [filter, setFilter] = useState<'all' | 'sold' | 'bought'>('all');
+
+  const { sold, bought } = useMemo(() => ({
+    sold: sales.filter(sale => sale.sellerId === userId),
+    bought: sales.filter(sale => sale.buyerId === userId),
+  }), [sales, userId]);
+
+  const totalSold = sold.reduce((sum, sale) => sum + sale.finalPrice, 0);
+  const totalBought = bought.reduce((sum, sale) => sum + sale.finalPrice, 0);
+
+  const visibleSales = useMemo(() => {
+    const filtered = filter === 'sold' ? sold : filter === 'bought' ? bought : sales;
+    return [...filtered].sort(
+      (a, b) => new Date(b.completedAt).getTime() - new Date(a.completedAt).getTime()
+    );
+  }, [filter, sales, sold, bought]);
+
+  const getUsername = (id?: string) => {
+    if (!id) return 'an off-platform buyer';
+    return state.users.find(u => u.id === id)?.username || 'Unknown User';
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Totals */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="p-4 bg-primary-800/30 rounded-lg">
+          <div className="flex items-center space-x-2 text-sm text-primary-400">
+            <TrendingUp className="w-4 h-4 text-green-400" />
+            <span>Sold ({sold.length})</span>
+          </div>
+          <p className="text-xl font-bold text-green-400">${totalSold.toLocaleString()}</p>
+        </div>
+        <div className="p-4 bg-primary-800/30 rounded-lg">
+          <div className="flex items-center space-x-2 text-sm text-primary-400">
+            <TrendingDown className="w-4 h-4 text-blue-400" />
+            <span>Bought ({bought.length})</span>
+          </div>
+          <p className="text-xl font-bold text-blue-400">${totalBought.toLocaleString()}</p>
+        </div>
+        <div className="p-4 bg-primary-800/30 rounded-lg">
+          <div className="text-sm text-primary-400">Net</div>
+          <p className={`text-xl font-bold ${totalSold - totalBought >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+            {totalSold - totalBought < 0 ? '-' : ''}${Math.abs(totalSold - totalBought).toLocaleString()}
+          </p>
+        </div>
+      </div>
+
+      {/* Filter */}
+      <div className="flex space-x-2">
+        {(['all', 'sold', 'bought'] as const).map(option => (
+          <button
+            key={option}
+            onClick={() => setFilter(option)}
+            className={`px-3 py-1 rounded-full text-sm capitalize transition-colors ${
+              filter === option
+                ? 'bg-primary-600 text-white'
+                : 'bg-primary-800/30 text-primary-300 hover:bg-primary-700/50'
+            }`}
+          >
+            {option}
+          </button>
+        ))}
+      </div>
+
+      {visibleSales.length === 0 ? (
+        <div className="text-center py-8">
+          <Award className="w-12 h-12 mx-auto mb-4 text-primary-400" />
+          <p className="text-primary-300">No completed sales</p>
+        </div>
+      ) : (
+        visibleSales.map(sale => {
+          const isSeller = sale.sellerId === userId;
+          const TypeIcon = SALE_TYPE_ICONS[sale.type] || List;
+          return (
+            <motion.div
+              key={sale.id}
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="glass-effect rounded-xl p-4"
+            >
+              <div className="flex items-center space-x-4">
+                <div className={`w-12 h-12 rounded-lg flex items-center justify-center ${
+                  isSeller ? 'bg-green-500/20' : 'bg-blue-500/20'
+                }`}>
+                  {isSeller
+                    ? <Award className="w-6 h-6 text-green-400" />
+                    : <ShoppingCart className="w-6 h-6 text-blue-400" />}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <h4 className="font-semibold text-primary-100 truncate">
+                    {sale.vehicle
+                      ? `${sale.vehicle.year} ${sale.vehicle.make} ${sale.vehicle.model}`
+                      : 'Vehicle'}
+                  </h4>
+                  <p className="text-sm text-primary-300">
+                    {isSeller
+                      ? `Sold to ${getUsername(sale.buyerId)}`
+                      : `Bought from ${getUsername(sale.sellerId)}`}
+                  </p>
+                  <div className="flex items-center space-x-1 mt-1 text-xs text-primary-400 capitalize">
+                    <TypeIcon className="w-3 h-3" />
+                    <span>{sale.type}</span>
+                  </div>
+                </div>
+                <div className="text-right">
+                  <p className={`font-bold ${isSeller ? 'text-green-400' : 'text-blue-400'}`}>
+                    ${sale.finalPrice.toLocaleString()}
+                  </p>
+                  <p className="text-xs text-primary-400">
+                    {new Date(sale.completedAt).toLocaleDateString()}
+                  </p>
+                </div>
+              </div>
+            </motion.div>
+          );
+        })
+      )}
+    </div>
+  );
+}
@@ -13,13 +13,19 @@ import {
   DollarSign,
   Gavel,
   List,
-  Award,
   TrendingUp,
-  MessageCircle
+  MessageCircle,
+  ArrowLeftRight,
+  BadgeCheck,
+  Flag,
+  CornerDownRight
 } from 'lucide-react';
 import { useApp } from '../../context/AppContext.tsx';
 import { Listing, Auction, Review, Sale, Vehicle, User as UserType } from '../../types/index.ts';
 import { ReviewModal } from './ReviewModal.tsx';
+import { ReportReviewModal } from './ReportReviewModal.tsx';
+import { SalesHistory } from './SalesHistory.tsx';
+import { TradeOfferModal } from '../trades/TradeOfferModal.tsx';
 
 interface SellerProfileViewProps {
   sellerId: string;
@@ -29,10 +35,15 @@ interface SellerProfileViewProps {
 }
 
 export function SellerProfileView({ sellerId, onBack, onListingClick, source }: SellerProfileViewProps) {
-  const { state, getUserProfile, loadUserReviews } = useApp();
+  const { state, getUserProfile, loadUserReviews, getUserSales, replyToReview } = useApp();
   const [activeTab, setActiveTab] = useState<'listings' | 'auctions' | 'reviews' | 'sales'>('listings');
   const [loading, setLoading] = useState(true);
   const [showReviewModal, setShowReviewModal] = useState(false);
+  const [showTradeModal, setShowTradeModal] = useState(false);
+  const [reportingReview, setReportingReview] = useState<Review | null>(null);
+  const [replyingToId, setReplyingToId] = useState<string | null>(null);
+  const [replyText, setReplyText] = useState('');
+  const [postingReply, setPostingReply] = useState(false);
   
   // Memoize seller lookup to prevent re-renders
   const seller = useMemo(() => {
@@ -99,32 +110,13 @@ export function SellerProfileView({ sellerId, onBack, onListingClick, source }:
     });
   }, [seller, sellerId, state.reviews]);
 
-  // Mock sales data - in real app this would come from API
-  const sellerSales = useMemo((): Sale[] => {
-    if (!seller) return [];
-    // For now, we'll create mock completed sales based on inactive listings
-    const completedListings = state.allListings.filter(listing => {
-      const listingSellerId = typeof listing.sellerId === 'object' ? 
-        (listing.sellerId as any).id || (listing.sellerId as any)._id :
-        listing.sellerId;
-      return listingSellerId === sellerId && 
-        !listing.isActive && 
-        listing.soldAt && 
-        listing.soldTo;
-    });
+  const [sellerSales, setSellerSales] = useState<Sale[]>([]);
 
-    return completedListings.map(listing => ({
-      id: `sale_${listing.id}`,
-      sellerId: listing.sellerId,
-      buyerId: listing.soldTo!,
-      vehicleId: listing.vehicleId,
-      listingId: listing.id,
-      type: 'listing' as const,
-      finalPrice: listing.soldPrice || listing.price,
-      completedAt: listing.soldAt!,
-      vehicle: state.vehicles.find(v => v.id === listing.vehicleId)
-    }));
-  }, [seller, sellerId, state.allListings, state.vehicles]);
+  useEffect(() => {
+    if (sellerId) {
+      getUserSales(sellerId).then(setSellerSales);
+    }
+  }, [sellerId, getUserSales]);
 
   useEffect(() => {
     if (sellerId) {
@@ -322,6 +314,23 @@ export function SellerProfileView({ sellerId, onBack, onListingClick, source }:
     </div>
   );
 
+  const isOwnProfile = state.currentUser?.id === sellerId;
+
+  const handlePostReply = async (reviewId: string) => {
+    if (!replyText.trim()) return;
+
+    setPostingReply(true);
+    try {
+      await replyToReview(reviewId, replyText.trim());
+      setReplyingToId(null);
+      setReplyText('');
+    } catch (error) {
+      console.error('Error posting reply:', error);
+    } finally {
+      setPostingReply(false);
+    }
+  };
+
   const renderReviews = () => (
     <div className="space-y-4">
       {sellerReviews.length === 0 ? (
@@ -366,13 +375,87 @@ export function SellerProfileView({ sellerId, onBack, onListingClick, source }:
                     {review.updatedAt && review.updatedAt !== review.createdAt && (
                       <span className="text-xs text-blue-400">(edited)</span>
                     )}
+                    {review.verified && (
+                      <span
+                        className="flex items-center space-x-1 text-xs text-green-400"
+                        title="These users completed a trade or sale together"
+                      >
+                        <BadgeCheck className="w-3.5 h-3.5" />
+                        <span>Verified</span>
+                      </span>
+                    )}
                   </div>
                   {review.comment && (
                     <p className="text-primary-300 text-sm leading-relaxed">
                       {review.comment}
                     </p>
                   )}
+
+                  {/* The reviewee's public reply */}
+                  {review.reply?.comment && (
+                    <div className="mt-3 ml-2 pl-3 border-l-2 border-primary-700/50">
+                      <div className="flex items-center space-x-2 mb-1">
+                        <CornerDownRight className="w-3.5 h-3.5 text-primary-400" />
+                        <span className="text-xs font-medium text-primary-200">Reply from @{seller.username}</span>
+                        <span className="text-xs text-primary-400">{formatTimeAgo(review.reply.createdAt)}</span>
+                      </div>
+                      <p className="text-primary-300 text-sm leading-relaxed">{review.reply.comment}</p>
+                    </div>
+                  )}
+
+                  {isOwnProfile && !review.reply?.comment && (
+                    replyingToId === review.id ? (
+                      <div className="mt-3 space-y-2">
+                        <textarea
+                          value={replyText}
+                          onChange={(e) => setReplyText(e.target.value)}
+                          placeholder="Reply publicly to this review..."
+                          className="input-field min-h-[70px] resize-none text-sm"
+                          maxLength={1000}
+                        />
+                        <div className="flex space-x-2">
+                          <button
+                            onClick={() => handlePostReply(review.id)}
+                            disabled={postingReply || !replyText.trim()}
+                            className="btn-primary text-sm disabled:opacity-50"
+                          >
+                            {postingReply ? 'Posting...' : 'Post Reply'}
+                          </button>
+                          <button
+                            onClick={() => {
+                              setReplyingToId(null);
+                              setReplyText('');
+                            }}
+                            className="btn-secondary text-sm"
+                          >
+                            Cancel
+                          </button>
+                        </div>
+                        <p className="text-xs text-primary-400">You can reply once, and the reply can't be changed.</p>
+                      </div>
+                    ) : (
+                      <button
+                        onClick={() => {
+                          setReplyingToId(review.id);
+                          setReplyText('');
+                        }}
+                        className="mt-2 flex items-center space-x-1 text-xs text-primary-300 hover:text-primary-100 transition-colors"
+                      >
+                        <CornerDownRight className="w-3.5 h-3.5" />
+                        <span>Reply</span>
+                      </button>
+                    )
+                  )}
                 </div>
+                {state.currentUser && state.currentUser.id !== review.reviewerId && (
+                  <button
+                    onClick={() => setReportingReview(review)}
+                    className="p-1.5 rounded-lg text-primary-400 hover:text-red-400 hover:bg-red-500/10 transition-colors"
+                    title="Report review"
+                  >
+                    <Flag className="w-4 h-4" />
+                  </button>
+                )}
               </div>
             </motion.div>
           );
@@ -381,54 +464,10 @@ export function SellerProfileView({ sellerId, onBack, onListingClick, source }:
     </div>
   );
 
+  const completedSalesCount = sellerSales.filter(sale => sale.sellerId === sellerId).length;
+
   const renderSales = () => (
-    <div className="space-y-4">
-      {sellerSales.length === 0 ? (
-        <div className="text-center py-8">
-          <TrendingUp className="w-12 h-12 mx-auto mb-4 text-primary-400" />
-          <p className="text-primary-300">No completed sales</p>
-        </div>
-      ) : (
-        sellerSales.map((sale) => {
-          const buyer = state.users.find(u => u.id === sale.buyerId);
-          return (
-            <motion.div
-              key={sale.id}
-              initial={{ opacity: 0, y: 20 }}
-              animate={{ opacity: 1, y: 0 }}
-              className="glass-effect rounded-xl p-4"
-            >
-              <div className="flex items-center space-x-4">
-                <div className="w-16 h-16 bg-green-500/20 rounded-lg flex items-center justify-center">
-                  <Award className="w-8 h-8 text-green-400" />
-                </div>
-                <div className="flex-1">
-                  <h4 className="font-semibold text-primary-100">
-                    {sale.vehicle && `${sale.vehicle.year} ${sale.vehicle.make} ${sale.vehicle.model}`}
-                  </h4>
-                  <p className="text-sm text-primary-300">
-                    Sold to {buyer?.username || 'Unknown Buyer'}
-                  </p>
-                  <div className="flex items-center space-x-4 mt-1">
-                    <span className="text-green-400 font-bold">
-                      ${sale.finalPrice.toLocaleString()}
-                    </span>
-                    <span className="text-xs text-primary-400 capitalize">
-                      {sale.type} sale
-                    </span>
-                  </div>
-                </div>
-                <div className="text-right">
-                  <p className="text-xs text-primary-400">
-                    Completed {formatTimeAgo(sale.completedAt)}
-                  </p>
-                </div>
-              </div>
-            </motion.div>
-          );
-        })
-      )}
-    </div>
+    <SalesHistory sales={sellerSales} userId={sellerId} />
   );
 
   return (
@@ -509,6 +548,13 @@ export function SellerProfileView({ sellerId, onBack, onListingClick, source }:
               <Star className="w-4 h-4" />
               <span>Leave Review</span>
             </button>
+            <button
+              onClick={() => setShowTradeModal(true)}
+              className="btn-secondary flex items-center space-x-2"
+            >
+              <ArrowLeftRight className="w-4 h-4" />
+              <span>Propose Trade</span>
+            </button>
           </div>
         )}
 
@@ -524,7 +570,7 @@ export function SellerProfileView({ sellerId, onBack, onListingClick, source }:
               <div className="text-sm text-primary-400">Active Auctions</div>
             </div>
             <div className="text-center">
-              <div className="text-2xl font-bold text-primary-100">{sellerSales.length}</div>
+              <div className="text-2xl font-bold text-primary-100">{completedSalesCount}</div>
               <div className="text-sm text-primary-400">Completed Sales</div>
             </div>
             <div className="text-center">
@@ -593,6 +639,26 @@ export function SellerProfileView({ sellerId, onBack, onListingClick, source }:
           />
         )}
       </AnimatePresence>
+
+      {/* Report Review Modal */}
+      <AnimatePresence>
+        {reportingReview && (
+          <ReportReviewModal
+            review={reportingReview}
+            onClose={() => setReportingReview(null)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Trade Offer Modal */}
+      <AnimatePresence>
+        {showTradeModal && (
+          <TradeOfferModal
+            targetUser={seller}
+            onClose={() => setShowTradeModal(false)}
+          />
+        )}
+      </AnimatePresence>
     </motion.div>
   );
 } 
\ No newline at end of file
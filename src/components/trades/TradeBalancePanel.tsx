@@ -0,0 +1,149 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Scale, TrendingUp, TrendingDown } from 'lucide-react';
+import { Vehicle } from '../../types/index.ts';
+import { CarValuationService } from '../../services/carValuationService.ts';
+import { TradeRole } from '../../utils/tradeStateMachine.ts';
+import {
+  getTradeBalance,
+  getVehicleAskingValue,
+  getVehicleQuickEstimate,
+  TradeBalance
+} from '../../utils/tradeFairness.ts';
+
+export interface TradeBalanceTerms {
+  offererVehicles: Vehicle[];
+  receiverVehicles: Vehicle[];
+  cashFromOfferer: number;
+}
+
+interface TradeBalancePanelProps {
+  terms: TradeBalanceTerms;
+  role: TradeRole;
+  previousTerms?: TradeBalanceTerms | null; // The terms before the latest counter, to show how the balance moved
+  otherUsername?: string;
+}
+
+// Mileage-aware valuations are slow, so each vehicle is valued once per session
+const marketValueRequests = new Map<string, Promise<number>>();
+const marketValueKey = (vehicle: Vehicle) => `${vehicle.id}:${vehicle.mileage}`;
+
+const requestMarketValue = (vehicle: Vehicle): Promise<number> => {
+  const key = marketValueKey(vehicle);
+  if (!marketValueRequests.has(key)) {
+    marketValueRequests.set(key, CarValuationService
+      .getValuation(vehicle.make, vehicle.model, vehicle.year, vehicle.mileage, 'good')
+      .then(result => result.estimatedValue)
+      .catch(() => getVehicleQuickEstimate(vehicle)));
+  }
+  return marketValueRequests.get(key)!;
+};
+
+export function TradeBalancePanel({ terms, role, previousTerms, otherUsername }: TradeBalancePanelProps) {
+  const [marketValues, setMarketValues] = useState<Record<string, number>>({});
+
+  const allVehicles = useMemo(() => [
+    ...terms.offererVehicles,
+    ...terms.receiverVehicles,
+    ...(previousTerms?.offererVehicles || []),
+    ...(previousTerms?.receiverVehicles || [])
+  ], [terms, previousTerms]);
+
+  // Refine the quick estimates with full valuations in the background
+  useEffect(() => {
+    let cancelled = false;
+
+    allVehicles.forEach(vehicle => {
+      const key = marketValueKey(vehicle);
+      requestMarketValue(vehicle).then(value => {
+        if (cancelled) return;
+        setMarketValues(prev => prev[key] === value ? prev : { ...prev, [key]: value });
+      });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [allVehicles]);
+
+  const getMarketValue = (vehicle: Vehicle) =>
+    marketValues[marketValueKey(vehicle)] ?? getVehicleQuickEstimate(vehicle);
+
+  const getBalance = (balanceTerms: TradeBalanceTerms, valueOf: (vehicle: Vehicle) => number): TradeBalance =>
+    getTradeBalance(
+      balanceTerms.offererVehicles.map(valueOf),
+      balanceTerms.receiverVehicles.map(valueOf),
+      balanceTerms.cashFromOfferer
+    );
+
+  const market = getBalance(terms, getMarketValue);
+  const asking = getBalance(terms, getVehicleAskingValue);
+  const previous = previousTerms ? getBalance(previousTerms, getMarketValue) : null;
+
+  // Everything is shown from the viewer's side: what they put in, what they get and whether they come out ahead
+  const theirSide: TradeRole = role === 'offerer' ? 'receiver' : 'offerer';
+  const sides: { side: TradeRole; title: string }[] = [
+    { side: role, title: 'You give' },
+    { side: theirSide, title: otherUsername ? `@${otherUsername} gives` : 'They give' }
+  ];
+  const yourNet = (balance: TradeBalance) => role === 'offerer' ? -balance.net : balance.net;
+  const netChange = previous ? yourNet(market) - yourNet(previous) : 0;
+
+  const scoreColor = market.label === 'Fair'
+    ? 'text-green-400'
+    : market.label === 'Slightly uneven' ? 'text-yellow-400' : 'text-red-400';
+
+  const formatMoney = (value: number) => `$${Math.abs(value).toLocaleString()}`;
+
+  return (
+    <div className="glass-effect rounded-xl p-4 border border-primary-700/30">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-primary-100 flex items-center">
+          <Scale className="h-5 w-5 mr-2" />
+          Trade Balance
+        </h3>
+        <div className={`text-right ${scoreColor}`}>
+          <div className="text-2xl font-bold">{market.score}</div>
+          <div className="text-xs">{market.label}</div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4 mb-4">
+        {sides.map(({ side, title }) => (
+          <div key={side} className="bg-primary-800/30 rounded-lg p-3">
+            <p className="text-sm text-primary-300 mb-1">{title}</p>
+            <p className="text-xl font-bold text-primary-100">{formatMoney(market[side].total)}</p>
+            <p className="text-xs text-primary-400">
+              {formatMoney(market[side].vehicles)} in vehicles
+              {market[side].cash > 0 && ` + ${formatMoney(market[side].cash)} cash`}
+            </p>
+            <p className="text-xs text-primary-500 mt-1">Asking: {formatMoney(asking[side].total)}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-primary-300">Net difference:</span>
+        <span className={`font-medium ${yourNet(market) >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+          {yourNet(market) === 0
+            ? 'Even'
+            : `${yourNet(market) > 0 ? 'You gain' : 'You lose'} ${formatMoney(yourNet(market))}`}
+        </span>
+      </div>
+
+      {previous && (
+        <div className="flex items-center justify-between text-sm mt-2 pt-2 border-t border-primary-700/30">
+          <span className="text-primary-300">Since the previous offer:</span>
+          <span className={`flex items-center gap-1 font-medium ${netChange >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+            {netChange >= 0 ? <TrendingUp className="w-4 h-4" /> : <TrendingDown className="w-4 h-4" />}
+            {netChange === 0 ? 'No change' : `${netChange > 0 ? '+' : '-'}${formatMoney(netChange)} for you`}
+            <span className="text-primary-400 ml-1">(score {previous.score} → {market.score})</span>
+          </span>
+        </div>
+      )}
+
+      <p className="text-xs text-primary-500 mt-3">
+        Market values are estimates from make, model, year and mileage, assuming good condition.
+      </p>
+    </div>
+  );
+}
@@ -12,12 +12,33 @@ import {
   Calendar,
   AlertTriangle,
   Edit,
-  Star
+  Star,
+  CheckSquare,
+  Square,
+  RotateCcw
 } from 'lucide-react';
 import { useApp } from '../../context/AppContext.tsx';
 import { Trade, TradeHistoryItem, Vehicle } from '../../types/index.ts';
 import { MessageStarter } from '../messages/MessageStarter.tsx';
 import { ReviewModal } from '../profile/ReviewModal.tsx';
+import { TradeBalancePanel, TradeBalanceTerms } from './TradeBalancePanel.tsx';
+import {
+  diffTradeTerms,
+  getNegotiationTimeline,
+  isEmptyTermsDiff,
+  TradeTermsAt,
+  TradeTermsDiff
+} from '../../utils/tradeNegotiation.ts';
+import {
+  getAvailableTradeEvents,
+  getChecklistItems,
+  getTradeRole,
+  getTradeTerms,
+  isChecklistItemConfirmed,
+  TRADE_CHECKLIST_ITEMS,
+  TradeChecklistItem,
+  TradeRole
+} from '../../utils/tradeStateMachine.ts';
 
 interface TradeDetailModalProps {
   trade: Trade;
@@ -27,7 +48,7 @@ interface TradeDetailModalProps {
 }
 
 export function TradeDetailModal({ trade, isOutbound, onClose, onCounterOffer }: TradeDetailModalProps) {
-  const { state, updateTrade, sendMessage } = useApp();
+  const { state, updateTrade, reloadTrades, sendMessage, confirmTradeChecklistItem, showError } = useApp();
   const [loading, setLoading] = useState(false);
   const [messageText, setMessageText] = useState('');
 
@@ -48,6 +69,11 @@ export function TradeDetailModal({ trade, isOutbound, onClose, onCounterOffer }:
   
   const otherUser = state.users.find(u => u.id === otherUserId);
 
+  // Which buttons to show comes from the same state machine the server enforces
+  const availableEvents = getAvailableTradeEvents(trade, state.currentUser?.id);
+  const myRole = getTradeRole(trade, state.currentUser?.id);
+  const otherRole: TradeRole | null = myRole && (myRole === 'offerer' ? 'receiver' : 'offerer');
+
   // Get vehicles involved in the trade
   // Use preserved vehicle objects from AppContext transformation, fallback to state.vehicles
   const getVehicleFromId = (vehicleId: string): Vehicle | null => {
@@ -62,6 +88,63 @@ export function TradeDetailModal({ trade, isOutbound, onClose, onCounterOffer }:
   const receiverVehicles = (trade as any).receiverVehicleObjects || 
     (trade.receiverVehicleIds || []).map(getVehicleFromId).filter(Boolean);
 
+  // Receiver's vehicles the offerer asked for, minus the listing vehicle shown above them
+  const listingVehicleId = listing?.vehicleId || trade.listingData?.vehicleId;
+  const requestedVehicles: Vehicle[] = ((trade as any).requestedVehicleObjects || 
+    (trade.requestedVehicleIds || []).map(getVehicleFromId).filter(Boolean))
+    .filter((vehicle: Vehicle) => vehicle.id !== listingVehicleId);
+
+  // Every vehicle object we know of, for turning the ids in current and past terms into values
+  const knownVehicles: Vehicle[] = [
+    ...offererVehicles,
+    ...receiverVehicles,
+    ...((trade as any).requestedVehicleObjects || []),
+    ...(targetVehicle ? [targetVehicle] : []),
+    ...state.vehicles
+  ];
+  const toBalanceTerms = (terms: TradeTermsAt): TradeBalanceTerms => {
+    // Trades pushed over the WebSocket can still carry populated vehicles in their id arrays
+    const lookup = (ids: string[]) => ids
+      .map(id => typeof id === 'string' ? id : (id as any)?._id || (id as any)?.id)
+      .map(id => knownVehicles.find(v => v?.id === id))
+      .filter((vehicle): vehicle is Vehicle => !!vehicle);
+    return {
+      offererVehicles: lookup(terms.offererGives),
+      receiverVehicles: lookup(terms.receiverGives),
+      cashFromOfferer: terms.cashFromOfferer
+    };
+  };
+
+  // Each offer and counter with what it changed, plus the balance now and after the offer before the latest one
+  const negotiation = getNegotiationTimeline(trade);
+  const offerSteps = negotiation.filter(step => step.terms);
+  const previousTermsAt = offerSteps.length > 1 ? offerSteps[offerSteps.length - 2].terms : null;
+  const currentTerms = getTradeTerms(trade);
+  const balanceTerms = toBalanceTerms(currentTerms);
+  const previousBalanceTerms = previousTermsAt ? toBalanceTerms(previousTermsAt) : null;
+
+  const getParticipantName = (participant: any, fallback: string) => {
+    const participantId = typeof participant === 'string' ? participant : participant?._id || participant?.id;
+    if (participantId === state.currentUser?.id) return state.currentUser!.username;
+    return state.users.find(u => u.id === participantId)?.username || participant?.username || fallback;
+  };
+  const offererName = getParticipantName(trade.offererUserId, 'offerer');
+  const receiverName = getParticipantName(trade.receiverUserId, 'receiver');
+
+  const describeVehicle = (vehicleId: string) => {
+    const vehicle = knownVehicles.find(v => v?.id === vehicleId);
+    return vehicle ? `${vehicle.year} ${vehicle.make} ${vehicle.model}` : 'A vehicle no longer available';
+  };
+
+  const describeCash = (cashFromOfferer: number) => {
+    if (cashFromOfferer === 0) return 'no cash';
+    return `$${Math.abs(cashFromOfferer).toLocaleString()} from @${cashFromOfferer > 0 ? offererName : receiverName}`;
+  };
+
+  // Reverting makes a fresh counter, so it's only offered when countering is and the terms actually differ
+  const canRevertTo = (terms: TradeTermsAt) =>
+    availableEvents.includes('counter') && !isEmptyTermsDiff(diffTradeTerms(currentTerms, terms));
+
   // Debug logging
   console.log('🚗 TradeDetailModal Debug:', {
     tradeId: trade.id,
@@ -228,6 +311,18 @@ export function TradeDetailModal({ trade, isOutbound, onClose, onCounterOffer }:
     }
   };
 
+  const handleConfirmChecklistItem = async (item: TradeChecklistItem) => {
+    setLoading(true);
+    try {
+      await confirmTradeChecklistItem(trade.id, item);
+    } catch (error: any) {
+      console.error('Error confirming checklist item:', error);
+      showError('Checklist Not Updated', error.message || 'Could not confirm this step. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleDeclineTrade = async () => {
     setLoading(true);
     try {
@@ -245,6 +340,54 @@ export function TradeDetailModal({ trade, isOutbound, onClose, onCounterOffer }:
     }
   };
 
+  const renderTermsDiff = (diff: TradeTermsDiff, terms: TradeTermsAt) => {
+    const changes = [
+      ...diff.offererAdded.map(id => ({ added: true, text: `${describeVehicle(id)} from @${offererName}` })),
+      ...diff.offererRemoved.map(id => ({ added: false, text: `${describeVehicle(id)} from @${offererName}` })),
+      ...diff.receiverAdded.map(id => ({ added: true, text: `${describeVehicle(id)} from @${receiverName}` })),
+      ...diff.receiverRemoved.map(id => ({ added: false, text: `${describeVehicle(id)} from @${receiverName}` }))
+    ];
+
+    if (changes.length === 0 && diff.cashChange === 0) {
+      return <p className="text-xs text-primary-400 mt-1">Same terms as the previous offer</p>;
+    }
+
+    return (
+      <ul className="mt-1 space-y-0.5 text-xs">
+        {changes.map(change => (
+          <li key={`${change.added ? '+' : '-'}${change.text}`} className={change.added ? 'text-green-400' : 'text-red-400'}>
+            {change.added ? '+' : '−'} {change.text}
+          </li>
+        ))}
+        {diff.cashChange !== 0 && (
+          <li className="text-yellow-400">
+            Cash: {describeCash(terms.cashFromOfferer - diff.cashChange)} → {describeCash(terms.cashFromOfferer)}
+          </li>
+        )}
+      </ul>
+    );
+  };
+
+  const handleRevertToOffer = async (terms: TradeTermsAt, timestamp: string) => {
+    setLoading(true);
+    try {
+      // Counters are always phrased as the offerer's vehicles and cash, whichever side sends them
+      const counterData = {
+        status: 'countered' as const,
+        counterVehicleIds: terms.offererGives,
+        counterCashAmount: terms.cashFromOfferer,
+        counterMessage: `Going back to the offer from ${new Date(timestamp).toLocaleString()}`
+      };
+      await updateTrade(trade.id, counterData);
+      await reloadTrades();
+    } catch (error: any) {
+      console.error('Error reverting to earlier offer:', error);
+      showError('Revert Failed', error.message || 'Could not send that offer again. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleCounterOffer = () => {
     if (onCounterOffer) {
       onCounterOffer(trade);
@@ -261,6 +404,7 @@ export function TradeDetailModal({ trade, isOutbound, onClose, onCounterOffer }:
       case 'completed': return 'text-green-500';
       case 'declined': return 'text-red-500';
       case 'cancelled': return 'text-gray-400';
+      case 'expired': return 'text-gray-400';
       case 'countered': return 'text-purple-400';
       default: return 'text-primary-300';
     }
@@ -290,6 +434,14 @@ export function TradeDetailModal({ trade, isOutbound, onClose, onCounterOffer }:
               </span>
               <span className="text-primary-400">•</span>
               <span className="text-sm text-primary-400">{formatTimeAgo(trade.updatedAt)}</span>
+              {trade.expiresAt && (trade.status === 'pending' || trade.status === 'countered') && (
+                <>
+                  <span className="text-primary-400">•</span>
+                  <span className="text-sm text-orange-400">
+                    Expires {new Date(trade.expiresAt).toLocaleString()}
+                  </span>
+                </>
+              )}
             </div>
           </div>
           <button
@@ -341,6 +493,41 @@ export function TradeDetailModal({ trade, isOutbound, onClose, onCounterOffer }:
               </div>
             )}
 
+            {/* Requested Vehicles (bundle trades) */}
+            {requestedVehicles.length > 0 && (
+              <div>
+                <h3 className="text-lg font-semibold text-primary-100 mb-4">
+                  {listing || trade.listingData ? 'Also Requested' : 'Requested Vehicles'}
+                </h3>
+                <div className="glass-effect rounded-xl p-4 space-y-3">
+                  {requestedVehicles.map(vehicle => (
+                    <div key={vehicle.id} className="flex items-center space-x-3">
+                      <div className="w-12 h-12 bg-primary-800/30 rounded-lg flex items-center justify-center">
+                        {vehicle.images?.[0] ? (
+                          <img
+                            src={vehicle.images[0]}
+                            alt={`${vehicle.year} ${vehicle.make} ${vehicle.model}`}
+                            className="w-full h-full object-cover rounded-lg"
+                          />
+                        ) : (
+                          <Car className="w-6 h-6 text-primary-400" />
+                        )}
+                      </div>
+                      <div className="flex-1">
+                        <h4 className="font-medium text-primary-100">
+                          {vehicle.year} {vehicle.make} {vehicle.model}
+                        </h4>
+                        <p className="text-sm text-primary-300">{vehicle.mileage.toLocaleString()} mi</p>
+                      </div>
+                      <span className="text-green-400 font-medium">
+                        ${(vehicle.customPrice || vehicle.estimatedValue).toLocaleString()}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Current Active Offer */}
             <div>
               <h3 className="text-lg font-semibold text-primary-100 mb-4">
@@ -508,7 +695,15 @@ export function TradeDetailModal({ trade, isOutbound, onClose, onCounterOffer }:
               </div>
             </div>
 
-
+            {/* Balance of the terms on the table */}
+            {myRole && (
+              <TradeBalancePanel
+                terms={balanceTerms}
+                previousTerms={previousBalanceTerms}
+                role={myRole}
+                otherUsername={otherUser?.username}
+              />
+            )}
           </div>
 
           {/* Right Column - Actions & Communication */}
@@ -549,12 +744,12 @@ export function TradeDetailModal({ trade, isOutbound, onClose, onCounterOffer }:
             </div>
 
             {/* Actions */}
-            {(trade.status === 'pending' || trade.status === 'countered') && (
+            {(trade.status === 'pending' || trade.status === 'countered') && availableEvents.length > 0 && (
               <div>
                 <h3 className="text-lg font-semibold text-primary-100 mb-4">Actions</h3>
                 <div className="space-y-3">
-                  {isOutbound ? (
-                    // Outbound trade actions (you made the offer/counter)
+                  {availableEvents.includes('cancel') && (
+                    // Your offer/counter is on the table
                     <button
                       onClick={handleCancelTrade}
                       disabled={loading}
@@ -563,68 +758,117 @@ export function TradeDetailModal({ trade, isOutbound, onClose, onCounterOffer }:
                       <XCircle className="w-5 h-5" />
                       Cancel {trade.status === 'countered' ? 'Counter Offer' : 'Trade Offer'}
                     </button>
-                  ) : (
-                    // Inbound trade actions (you received the offer/counter)
-                    <>
-                      <button
-                        onClick={handleAcceptTrade}
-                        disabled={loading}
-                        className="btn-primary w-full flex items-center justify-center gap-2"
-                      >
-                        <Check className="w-5 h-5" />
-                        Accept {trade.status === 'countered' ? 'Counter Offer' : 'Trade'}
-                      </button>
-                      <button
-                        onClick={handleCounterOffer}
-                        className="btn-secondary w-full flex items-center justify-center gap-2"
-                      >
-                        <ArrowLeftRight className="w-5 h-5" />
-                        {trade.status === 'countered' ? 'Counter Back' : 'Counter Offer'}
-                      </button>
-                      <button
-                        onClick={handleRejectTrade}
-                        disabled={loading}
-                        className="btn-secondary w-full flex items-center justify-center gap-2 text-red-400 hover:text-red-300"
-                      >
-                        <XCircle className="w-5 h-5" />
-                        Reject {trade.status === 'countered' ? 'Counter Offer' : 'Trade'}
-                      </button>
-                    </>
+                  )}
+                  {availableEvents.includes('accept') && (
+                    <button
+                      onClick={handleAcceptTrade}
+                      disabled={loading}
+                      className="btn-primary w-full flex items-center justify-center gap-2"
+                    >
+                      <Check className="w-5 h-5" />
+                      Accept {trade.status === 'countered' ? 'Counter Offer' : 'Trade'}
+                    </button>
+                  )}
+                  {availableEvents.includes('counter') && (
+                    <button
+                      onClick={handleCounterOffer}
+                      className="btn-secondary w-full flex items-center justify-center gap-2"
+                    >
+                      <ArrowLeftRight className="w-5 h-5" />
+                      {trade.status === 'countered' ? 'Counter Back' : 'Counter Offer'}
+                    </button>
+                  )}
+                  {availableEvents.includes('reject') && (
+                    <button
+                      onClick={handleRejectTrade}
+                      disabled={loading}
+                      className="btn-secondary w-full flex items-center justify-center gap-2 text-red-400 hover:text-red-300"
+                    >
+                      <XCircle className="w-5 h-5" />
+                      Reject {trade.status === 'countered' ? 'Counter Offer' : 'Trade'}
+                    </button>
                   )}
                 </div>
               </div>
             )}
 
-            {/* Completion Actions for Accepted Trades */}
-            {trade.status === 'accepted' && (
+            {/* Completion Checklist for Accepted Trades */}
+            {trade.status === 'accepted' && myRole && otherRole && (
               <div>
                 <h3 className="text-lg font-semibold text-primary-100 mb-4">Trade Completion</h3>
                 <div className="glass-effect rounded-xl p-4 space-y-4">
                   <div className="bg-blue-500/10 border border-blue-500/30 rounded-lg p-3">
                     <p className="text-sm text-blue-300">
                       <strong>Trade Accepted!</strong> Both parties have agreed to the terms. 
-                      Coordinate with the other party to complete the physical exchange, 
-                      then mark the trade as completed or declined.
+                      Tick off each step as you complete the physical exchange - 
+                      ownership only transfers once both of you have confirmed everything.
                     </p>
                   </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                      <h4 className="text-sm font-medium text-primary-200 mb-2">Your checklist</h4>
+                      <div className="space-y-2">
+                        {getChecklistItems(trade, myRole).map(item => {
+                          const confirmed = isChecklistItemConfirmed(trade, myRole, item);
+                          return (
+                            <button
+                              key={item}
+                              onClick={() => handleConfirmChecklistItem(item)}
+                              disabled={loading || confirmed}
+                              className={`w-full flex items-center gap-2 p-2 rounded-lg text-sm text-left transition-colors ${
+                                confirmed ? 'bg-green-500/10 text-green-400' : 'bg-primary-800/30 text-primary-200 hover:bg-primary-800/50'
+                              }`}
+                            >
+                              {confirmed ? <CheckSquare className="w-4 h-4" /> : <Square className="w-4 h-4" />}
+                              {TRADE_CHECKLIST_ITEMS[item]}
+                            </button>
+                          );
+                        })}
+                      </div>
+                    </div>
+                    <div>
+                      <h4 className="text-sm font-medium text-primary-200 mb-2">
+                        @{otherUser?.username || 'Other party'}'s checklist
+                      </h4>
+                      <div className="space-y-2">
+                        {getChecklistItems(trade, otherRole).map(item => {
+                          const confirmed = isChecklistItemConfirmed(trade, otherRole, item);
+                          return (
+                            <div
+                              key={item}
+                              className={`flex items-center gap-2 p-2 rounded-lg text-sm ${
+                                confirmed ? 'bg-green-500/10 text-green-400' : 'bg-primary-800/30 text-primary-400'
+                              }`}
+                            >
+                              {confirmed ? <CheckSquare className="w-4 h-4" /> : <Square className="w-4 h-4" />}
+                              {TRADE_CHECKLIST_ITEMS[item]}
+                            </div>
+                          );
+                        })}
+                      </div>
+                    </div>
+                  </div>
                   
                   <div className="space-y-3">
                     <button
                       onClick={handleCompleteTrade}
-                      disabled={loading}
+                      disabled={loading || !availableEvents.includes('complete')}
                       className="btn-primary w-full flex items-center justify-center gap-2"
                     >
                       <Check className="w-5 h-5" />
-                      Mark as Completed
-                    </button>
-                    <button
-                      onClick={handleDeclineTrade}
-                      disabled={loading}
-                      className="btn-secondary w-full flex items-center justify-center gap-2 text-red-400 hover:text-red-300"
-                    >
-                      <XCircle className="w-5 h-5" />
-                      Mark as Declined
+                      {availableEvents.includes('complete') ? 'Complete Trade & Transfer Ownership' : 'Waiting for Both Checklists'}
                     </button>
+                    {availableEvents.includes('decline') && (
+                      <button
+                        onClick={handleDeclineTrade}
+                        disabled={loading}
+                        className="btn-secondary w-full flex items-center justify-center gap-2 text-red-400 hover:text-red-300"
+                      >
+                        <XCircle className="w-5 h-5" />
+                        Mark as Declined
+                      </button>
+                    )}
                   </div>
                 </div>
               </div>
@@ -684,6 +928,21 @@ export function TradeDetailModal({ trade, isOutbound, onClose, onCounterOffer }:
               </div>
             )}
 
+            {/* Expired Trade Info */}
+            {trade.status === 'expired' && (
+              <div>
+                <h3 className="text-lg font-semibold text-primary-100 mb-4">Trade Expired</h3>
+                <div className="glass-effect rounded-xl p-4">
+                  <div className="bg-gray-500/10 border border-gray-500/30 rounded-lg p-3">
+                    <p className="text-sm text-primary-300">
+                      This offer expired{trade.expiresAt ? ` on ${new Date(trade.expiresAt).toLocaleString()}` : ''} before it was answered.
+                      All vehicles have been released and you can send a new offer at any time.
+                    </p>
+                  </div>
+                </div>
+              </div>
+            )}
+
             {/* Quick Message */}
             {otherUser && (
               <div>
@@ -705,10 +964,10 @@ export function TradeDetailModal({ trade, isOutbound, onClose, onCounterOffer }:
 
             {/* Trade History */}
             <div>
-              <h3 className="text-lg font-semibold text-primary-100 mb-4">Trade History</h3>
+              <h3 className="text-lg font-semibold text-primary-100 mb-4">Negotiation Timeline</h3>
               <div className="glass-effect rounded-xl p-4">
                 <div className="space-y-3">
-                  {trade.tradeHistory.map((item, index) => {
+                  {negotiation.map(({ item, index, terms, diff }) => {
                     // Enhanced user lookup - check for both trade participants and all loaded users
                     let user = state.users.find(u => u.id === item.userId);
                     
@@ -756,6 +1015,8 @@ export function TradeDetailModal({ trade, isOutbound, onClose, onCounterOffer }:
                               {item.action === 'rejected' && 'rejected the trade'}
                               {item.action === 'cancelled' && 'cancelled the trade'}
                               {item.action === 'completed' && 'completed the trade'}
+                              {item.action === 'expired' && 'made an offer that expired without a response'}
+                              {item.action === 'checklist_confirmed' && item.checklistItem && `confirmed: ${TRADE_CHECKLIST_ITEMS[item.checklistItem]}`}
                             </span>
                           </p>
                           <p className="text-xs text-primary-400">
@@ -766,6 +1027,22 @@ export function TradeDetailModal({ trade, isOutbound, onClose, onCounterOffer }:
                               "{item.message}"
                             </p>
                           )}
+                          {terms && !diff && (
+                            <p className="text-xs text-primary-400 mt-1">
+                              {terms.offererGives.length} vehicle{terms.offererGives.length !== 1 ? 's' : ''} and {describeCash(terms.cashFromOfferer)} for {terms.receiverGives.length} vehicle{terms.receiverGives.length !== 1 ? 's' : ''}
+                            </p>
+                          )}
+                          {diff && renderTermsDiff(diff, terms!)}
+                          {terms && canRevertTo(terms) && (
+                            <button
+                              onClick={() => handleRevertToOffer(terms, item.timestamp)}
+                              disabled={loading}
+                              className="mt-2 text-xs text-primary-300 hover:text-primary-100 flex items-center gap-1 transition-colors"
+                            >
+                              <RotateCcw className="w-3 h-3" />
+                              Revert to this offer
+                            </button>
+                          )}
                         </div>
                       </div>
                     );
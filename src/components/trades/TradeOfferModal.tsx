@@ -10,30 +10,35 @@ import {
   Check,
   MessageCircle,
   ArrowRight,
-  AlertCircle
+  AlertCircle,
+  Lock,
+  Clock
 } from 'lucide-react';
 import { useApp } from '../../context/AppContext.tsx';
-import { Listing, Vehicle, Trade } from '../../types/index.ts';
+import { Listing, Vehicle, Trade, User } from '../../types/index.ts';
+import { TRADE_EXPIRY_HOURS } from '../../utils/tradeStateMachine.ts';
+import { TradeBalancePanel, TradeBalanceTerms } from './TradeBalancePanel.tsx';
+
+const formatExpiryWindow = (hours: number) => hours < 48 ? `${hours} hours` : `${hours / 24} days`;
 
 interface TradeOfferModalProps {
   onClose: () => void;
   selectedListing?: Listing | null;
   existingTrade?: Trade | null; // For counter-offers
+  targetUser?: User | null; // For bundle offers straight from someone's garage, without a listing
 }
 
-export function TradeOfferModal({ onClose, selectedListing, existingTrade }: TradeOfferModalProps) {
+export function TradeOfferModal({ onClose, selectedListing, existingTrade, targetUser }: TradeOfferModalProps) {
   const { state, addTrade, updateTrade, reloadTrades, deleteTrade, getUserVehicles } = useApp();
   const [step, setStep] = useState<'select-listing' | 'build-offer'>(
-    selectedListing || existingTrade ? 'build-offer' : 'select-listing'
+    selectedListing || existingTrade || targetUser ? 'build-offer' : 'select-listing'
   );
   const [searchTerm, setSearchTerm] = useState('');
   const [targetListing, setTargetListing] = useState<Listing | null>(selectedListing || null);
+  // The receiver owns the listing, or the garage for bundle trades without one
+  const isOriginalReceiver = !!existingTrade && state.currentUser?.id === existingTrade.receiverUserId;
   const [selectedVehicles, setSelectedVehicles] = useState<string[]>(() => {
     if (existingTrade) {
-      // Determine if current user is the original listing owner
-      const listingOwnerId = selectedListing?.sellerId;
-      const isOriginalReceiver = state.currentUser?.id === listingOwnerId;
-      
       if (isOriginalReceiver) {
         // Original receiver countering - pre-select the offerer's vehicles as reference
         return existingTrade.offererVehicleIds;
@@ -46,10 +51,6 @@ export function TradeOfferModal({ onClose, selectedListing, existingTrade }: Tra
   });
   const [cashAmount, setCashAmount] = useState(() => {
     if (existingTrade) {
-      // Determine if current user is the original listing owner
-      const listingOwnerId = selectedListing?.sellerId;
-      const isOriginalReceiver = state.currentUser?.id === listingOwnerId;
-      
       if (isOriginalReceiver) {
         // Original receiver countering - start with the most recent offer amount as reference
         if (existingTrade.status === 'countered' && existingTrade.receiverCashAmount !== undefined) {
@@ -69,6 +70,8 @@ export function TradeOfferModal({ onClose, selectedListing, existingTrade }: Tra
     return 0;
   });
   const [message, setMessage] = useState(existingTrade?.message || '');
+  // Counters set a fresh deadline, so this always starts empty
+  const [expiresInHours, setExpiresInHours] = useState<number | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [cashDirection, setCashDirection] = useState<'add' | 'request'>(
@@ -80,6 +83,13 @@ export function TradeOfferModal({ onClose, selectedListing, existingTrade }: Tra
   const [offererVehicles, setOffererVehicles] = useState<Vehicle[]>([]);
   const [loadingOffererVehicles, setLoadingOffererVehicles] = useState(false);
 
+  // Extra vehicles from the other party's garage on top of the listing vehicle
+  const [requestedVehicles, setRequestedVehicles] = useState<string[]>([]);
+  const [counterpartyVehicles, setCounterpartyVehicles] = useState<Vehicle[]>([]);
+  const [loadingCounterpartyVehicles, setLoadingCounterpartyVehicles] = useState(false);
+  const counterpartyId = targetListing?.sellerId || targetUser?.id;
+  const listingVehicleId = targetListing?.vehicleId;
+
   // Initialize target listing from existing trade
   useEffect(() => {
     if (existingTrade && !targetListing) {
@@ -94,10 +104,7 @@ export function TradeOfferModal({ onClose, selectedListing, existingTrade }: Tra
   // Fetch offerer's vehicles when original receiver is countering
   useEffect(() => {
     const fetchOffererVehicles = async () => {
-      if (existingTrade && targetListing) {
-        const listingOwnerId = targetListing.sellerId;
-        const isOriginalReceiver = state.currentUser?.id === listingOwnerId;
-        
+      if (existingTrade) {
         if (isOriginalReceiver) {
           // Get the offerer's user ID
           const offererId = typeof existingTrade.offererUserId === 'string' 
@@ -120,20 +127,33 @@ export function TradeOfferModal({ onClose, selectedListing, existingTrade }: Tra
     };
 
     fetchOffererVehicles();
-  }, [existingTrade, targetListing, state.currentUser?.id, getUserVehicles]);
+  }, [existingTrade, isOriginalReceiver, getUserVehicles]);
+
+  // Fetch the other party's public garage so a new offer can ask for more than the listing vehicle
+  useEffect(() => {
+    if (existingTrade || !counterpartyId) return;
+
+    let cancelled = false;
+    setLoadingCounterpartyVehicles(true);
+    getUserVehicles(counterpartyId)
+      .then(vehicles => {
+        if (!cancelled) setCounterpartyVehicles(vehicles.filter(vehicle => !vehicle.isAuctioned));
+      })
+      .catch(error => console.error('Error fetching counterparty vehicles:', error))
+      .finally(() => {
+        if (!cancelled) setLoadingCounterpartyVehicles(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [existingTrade, counterpartyId, getUserVehicles]);
 
   // Available vehicles (user's own vehicles that are NOT auctioned)
   const availableVehicles = useMemo(() => {
     if (existingTrade) {
       // Determine the original listing owner (receiver) vs original offerer
       // We need to check the trade history to find the original roles
-      const originalTradeEntry = existingTrade.tradeHistory.find(entry => entry.action === 'created');
-      const originalOffererId = originalTradeEntry?.userId;
-      
-      // If we can't find the original trade entry, fall back to checking listing ownership
-      const listingOwnerId = targetListing?.sellerId;
-      const isOriginalReceiver = state.currentUser?.id === listingOwnerId;
-      
       if (isOriginalReceiver) {
         // Original receiver (listing owner) - show ALL offerer's vehicles to choose what they want
         return loadingOffererVehicles ? [] : offererVehicles.filter((vehicle: Vehicle) => !vehicle.isAuctioned);
@@ -149,7 +169,7 @@ export function TradeOfferModal({ onClose, selectedListing, existingTrade }: Tra
         !vehicle.isAuctioned && vehicle.ownerId === state.currentUser?.id
       );
     }
-  }, [state.vehicles, state.currentUser?.id, existingTrade, targetListing, offererVehicles, loadingOffererVehicles]);
+  }, [state.vehicles, state.currentUser?.id, existingTrade, isOriginalReceiver, offererVehicles, loadingOffererVehicles]);
 
   // Available listings to trade for (exclude user's own listings)
   const availableListings = useMemo(() => {
@@ -168,6 +188,50 @@ export function TradeOfferModal({ onClose, selectedListing, existingTrade }: Tra
     return vehicleValue + cashAmount;
   }, [selectedVehicles, cashAmount, availableVehicles]);
 
+  // What the offerer asks for: the listing at its asking price plus any extra vehicles at their value
+  const requestedValue = useMemo(() => {
+    const extrasValue = requestedVehicles.reduce((sum, vId) => {
+      const vehicle = counterpartyVehicles.find(v => v.id === vId);
+      return sum + (vehicle?.customPrice || vehicle?.estimatedValue || 0);
+    }, 0);
+    return (targetListing?.price || 0) + extrasValue;
+  }, [requestedVehicles, counterpartyVehicles, targetListing]);
+
+  // Live balance of the offer being built, in offerer/receiver terms: the offerer side is always what's selected here
+  const balanceTerms = useMemo((): TradeBalanceTerms => {
+    const offererSide = selectedVehicles
+      .map(vId => availableVehicles.find(v => v.id === vId))
+      .filter((vehicle): vehicle is Vehicle => !!vehicle);
+
+    let receiverSide: Vehicle[];
+    if (existingTrade) {
+      const requestedIds = existingTrade.requestedVehicleIds?.length
+        ? existingTrade.requestedVehicleIds
+        : (existingTrade.listingData?.vehicleId ? [existingTrade.listingData.vehicleId] : []);
+      const requestedObjects: Vehicle[] = (existingTrade as any).requestedVehicleObjects || [];
+      receiverSide = requestedIds
+        .map(vId => requestedObjects.find(v => v.id === vId) || state.vehicles.find(v => v.id === vId))
+        .filter((vehicle): vehicle is Vehicle => !!vehicle);
+    } else {
+      const listingVehicle = listingVehicleId
+        ? counterpartyVehicles.find(v => v.id === listingVehicleId) || (targetListing as any)?.vehicle
+        : null;
+      receiverSide = [
+        ...(listingVehicle ? [listingVehicle] : []),
+        ...counterpartyVehicles.filter(v => v.id !== listingVehicleId && requestedVehicles.includes(v.id))
+      ];
+    }
+
+    return { offererVehicles: offererSide, receiverVehicles: receiverSide, cashFromOfferer: cashAmount };
+  }, [selectedVehicles, availableVehicles, existingTrade, state.vehicles, listingVehicleId, counterpartyVehicles, targetListing, requestedVehicles, cashAmount]);
+
+  const counterpartyUsername = useMemo(() => {
+    const otherId = existingTrade
+      ? (isOriginalReceiver ? existingTrade.offererUserId : existingTrade.receiverUserId)
+      : counterpartyId;
+    return targetUser?.username || state.users.find(u => u.id === otherId)?.username;
+  }, [existingTrade, isOriginalReceiver, counterpartyId, targetUser, state.users]);
+
   const handleVehicleToggle = (vehicleId: string) => {
     setSelectedVehicles(prev => 
       prev.includes(vehicleId) 
@@ -176,8 +240,16 @@ export function TradeOfferModal({ onClose, selectedListing, existingTrade }: Tra
     );
   };
 
+  const handleRequestedVehicleToggle = (vehicleId: string) => {
+    setRequestedVehicles(prev => 
+      prev.includes(vehicleId) 
+        ? prev.filter(id => id !== vehicleId)
+        : [...prev, vehicleId]
+    );
+  };
+
   const handleSubmitTrade = async () => {
-    if (!targetListing) return;
+    if (!existingTrade && !counterpartyId) return;
 
     setLoading(true);
     setError(null); // Clear any previous errors
@@ -188,21 +260,28 @@ export function TradeOfferModal({ onClose, selectedListing, existingTrade }: Tra
           status: 'countered' as const,
           counterVehicleIds: selectedVehicles,
           counterCashAmount: cashAmount,
-          counterMessage: message
+          counterMessage: message,
+          expiresInHours: expiresInHours ?? undefined
         };
         
         await updateTrade(existingTrade.id, counterData);
         await reloadTrades(); // Ensure state is refreshed
       } else {
         // This is a new trade offer
+        const requestedVehicleIds = [
+          ...(listingVehicleId ? [listingVehicleId] : []),
+          ...requestedVehicles.filter(id => id !== listingVehicleId)
+        ];
         const tradeData = {
-          listingId: targetListing.id,
+          listingId: targetListing?.id,
           offererUserId: state.currentUser!.id,
-          receiverUserId: targetListing.sellerId,
+          receiverUserId: counterpartyId!,
           status: 'pending' as const,
           offererCashAmount: cashAmount,
           offererVehicleIds: selectedVehicles,
+          requestedVehicleIds,
           message,
+          expiresInHours: expiresInHours ?? undefined,
           tradeHistory: [{
             id: `history_${Date.now()}`,
             action: 'created' as const,
@@ -224,7 +303,7 @@ export function TradeOfferModal({ onClose, selectedListing, existingTrade }: Tra
       if (error.response?.data?.message) {
         const errorMessage = error.response.data.message;
         if (errorMessage.includes('already have an active trade')) {
-          setError('You already have an active trade for this listing. Please cancel or complete your existing trade first.');
+          setError('You already have an active trade for one of these vehicles. Please cancel or complete your existing trade first.');
         } else if (errorMessage.includes('not found or inactive')) {
           setError('This listing is no longer available or has been sold.');
         } else {
@@ -322,19 +401,23 @@ export function TradeOfferModal({ onClose, selectedListing, existingTrade }: Tra
     return (
       <div className="space-y-6">
         <div>
-          <button
-            onClick={() => setStep('select-listing')}
-            className="text-blue-400 hover:text-blue-300 text-sm mb-4"
-          >
-            ← Back to listing selection
-          </button>
+          {!targetUser && (
+            <button
+              onClick={() => setStep('select-listing')}
+              className="text-blue-400 hover:text-blue-300 text-sm mb-4"
+            >
+              ← Back to listing selection
+            </button>
+          )}
           <h2 className="text-2xl font-bold text-primary-100 mb-2">
             {existingTrade ? 'Make Counter Offer' : 'Build Your Trade Offer'}
           </h2>
           <p className="text-primary-300">
             {existingTrade 
               ? 'Modify their offer and send your counter proposal'
-              : 'Select vehicles and cash to offer for this listing'
+              : targetListing
+              ? 'Select vehicles and cash to offer for this listing'
+              : 'Pick what you want from their garage, then build your offer'
             }
           </p>
         </div>
@@ -372,20 +455,105 @@ export function TradeOfferModal({ onClose, selectedListing, existingTrade }: Tra
           </div>
         )}
 
+        {/* Target User Summary (bundle offers without a listing) */}
+        {!targetListing && targetUser && (
+          <div className="glass-effect rounded-xl p-4 border border-blue-500/30">
+            <div className="flex items-center space-x-4">
+              <div className="w-12 h-12 rounded-full overflow-hidden bg-primary-800/30 flex items-center justify-center">
+                {targetUser.avatar ? (
+                  <img src={targetUser.avatar} alt={targetUser.username} className="w-full h-full object-cover" />
+                ) : (
+                  <span className="text-lg font-bold text-primary-200">{targetUser.username.charAt(0).toUpperCase()}</span>
+                )}
+              </div>
+              <div>
+                <h3 className="font-semibold text-primary-100">Trading with @{targetUser.username}</h3>
+                <p className="text-sm text-primary-300">Listed or not, any vehicle outside an auction can be part of the deal</p>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Their Vehicles (new offers only) */}
+        {!existingTrade && (
+          <div>
+            <h3 className="text-lg font-semibold text-primary-100 mb-1">
+              {targetListing ? 'Add More From Their Garage' : 'Their Vehicles'}
+            </h3>
+            <p className="text-sm text-primary-400 mb-4">
+              Every vehicle you pick changes hands together when the trade completes
+            </p>
+            {loadingCounterpartyVehicles ? (
+              <div className="glass-effect rounded-xl p-6 text-center">
+                <p className="text-primary-300">Loading their garage...</p>
+              </div>
+            ) : counterpartyVehicles.length === 0 ? (
+              <div className="glass-effect rounded-xl p-6 text-center">
+                <Car className="w-12 h-12 mx-auto mb-4 text-primary-400" />
+                <p className="text-primary-300">No vehicles available to trade for</p>
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {counterpartyVehicles.map((vehicle) => {
+                  const isListingVehicle = vehicle.id === listingVehicleId;
+                  const isSelected = isListingVehicle || requestedVehicles.includes(vehicle.id);
+
+                  return (
+                    <motion.div
+                      key={vehicle.id}
+                      whileTap={isListingVehicle ? undefined : { scale: 0.98 }}
+                      className={`glass-effect rounded-xl p-4 transition-all ${
+                        isListingVehicle ? 'cursor-default' : 'cursor-pointer'
+                      } ${
+                        isSelected
+                          ? 'border-2 border-green-500 bg-green-500/10'
+                          : 'border border-primary-700/30 hover:border-primary-600/50'
+                      }`}
+                      onClick={() => !isListingVehicle && handleRequestedVehicleToggle(vehicle.id)}
+                    >
+                      <div className="flex items-center space-x-4">
+                        <div className="w-12 h-12 bg-primary-800/30 rounded-lg flex items-center justify-center relative">
+                          {vehicle.images?.[0] ? (
+                            <img
+                              src={vehicle.images[0]}
+                              alt={`${vehicle.year} ${vehicle.make} ${vehicle.model}`}
+                              className="w-full h-full object-cover rounded-lg"
+                            />
+                          ) : (
+                            <Car className="w-6 h-6 text-primary-400" />
+                          )}
+                          {isSelected && (
+                            <div className="absolute -top-2 -right-2 w-6 h-6 bg-green-500 rounded-full flex items-center justify-center">
+                              {isListingVehicle ? <Lock className="w-3 h-3 text-white" /> : <Check className="w-4 h-4 text-white" />}
+                            </div>
+                          )}
+                        </div>
+                        <div className="flex-1">
+                          <h4 className="font-medium text-primary-100">
+                            {vehicle.year} {vehicle.make} {vehicle.model}
+                          </h4>
+                          <p className="text-sm text-primary-300">
+                            {vehicle.mileage.toLocaleString()} mi
+                            {isListingVehicle ? ' • This listing' : vehicle.isListed ? ' • Listed' : ' • Not listed'}
+                          </p>
+                          <p className="text-green-400 font-medium">
+                            ${(vehicle.customPrice || vehicle.estimatedValue).toLocaleString()}
+                          </p>
+                        </div>
+                      </div>
+                    </motion.div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Your Vehicles */}
         <div>
           <h3 className="text-lg font-semibold text-primary-100 mb-4">
             {existingTrade ? (
-              (() => {
-                const listingOwnerId = targetListing?.sellerId;
-                const isOriginalReceiver = state.currentUser?.id === listingOwnerId;
-                
-                if (isOriginalReceiver) {
-                  return 'Select What You Want in Exchange';
-                } else {
-                  return 'Your Vehicles (Counter Offer)';
-                }
-              })()
+              isOriginalReceiver ? 'Select What You Want in Exchange' : 'Your Vehicles (Counter Offer)'
             ) : 'Your Vehicles'}
           </h3>
           {availableVehicles.length === 0 ? (
@@ -601,10 +769,52 @@ export function TradeOfferModal({ onClose, selectedListing, existingTrade }: Tra
           />
         </div>
 
+        {/* Expiry */}
+        <div>
+          <h3 className="text-lg font-semibold text-primary-100 mb-2 flex items-center">
+            <Clock className="h-5 w-5 mr-2" />
+            {existingTrade ? 'Counter Expires' : 'Offer Expires'}
+          </h3>
+          <p className="text-sm text-primary-400 mb-3">
+            If they don't respond in time, the {existingTrade ? 'counter' : 'offer'} expires and every vehicle is released.
+          </p>
+          <div className="flex space-x-1 bg-primary-800/30 rounded-lg p-1">
+            {[null, ...TRADE_EXPIRY_HOURS].map(hours => (
+              <button
+                key={hours ?? 'never'}
+                type="button"
+                onClick={() => setExpiresInHours(hours)}
+                className={`flex-1 py-2 px-4 rounded-md text-sm font-medium transition-colors ${
+                  expiresInHours === hours
+                    ? 'bg-primary-100/20 text-primary-100'
+                    : 'text-primary-300 hover:text-primary-200'
+                }`}
+              >
+                {hours ? formatExpiryWindow(hours) : 'Never'}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Balance */}
+        <TradeBalancePanel
+          terms={balanceTerms}
+          role={isOriginalReceiver ? 'receiver' : 'offerer'}
+          otherUsername={counterpartyUsername}
+        />
+
         {/* Offer Summary */}
         <div className="glass-effect rounded-xl p-4 border border-green-500/30">
           <h3 className="text-lg font-semibold text-primary-100 mb-4">Trade Summary</h3>
           <div className="space-y-2">
+            {!existingTrade && (
+              <div className="flex justify-between">
+                <span className="text-primary-300">
+                  You receive ({requestedVehicles.filter(id => id !== listingVehicleId).length + (listingVehicleId ? 1 : 0)} vehicles):
+                </span>
+                <span className="text-primary-100 font-medium">${requestedValue.toLocaleString()}</span>
+              </div>
+            )}
             <div className="flex justify-between">
               <span className="text-primary-300">Vehicles ({selectedVehicles.length}):</span>
               <span className="text-primary-100 font-medium">
@@ -650,7 +860,11 @@ export function TradeOfferModal({ onClose, selectedListing, existingTrade }: Tra
           </button>
           <button
             onClick={handleSubmitTrade}
-            disabled={loading || (selectedVehicles.length === 0 && cashAmount === 0)}
+            disabled={
+              loading ||
+              (selectedVehicles.length === 0 && cashAmount === 0) ||
+              (!existingTrade && !targetListing && requestedVehicles.length === 0)
+            }
             className="btn-primary flex-1"
           >
             {loading ? 'Sending...' : existingTrade ? 'Send Counter Offer' : 'Send Trade Offer'}
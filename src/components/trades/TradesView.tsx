@@ -1,5 +1,6 @@
 import React, { useState, useMemo, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
+import { useNavigate, useParams } from 'react-router-dom';
 import { 
   ArrowLeftRight, 
   Car, 
@@ -13,22 +14,54 @@ import {
   Calendar,
   Filter,
   Search,
-  RefreshCw
+  RefreshCw,
+  Archive,
+  ArchiveRestore,
+  CheckSquare,
+  Square,
+  ListChecks
 } from 'lucide-react';
 import { useApp } from '../../context/AppContext.tsx';
-import { Trade, Listing, Vehicle, User as UserType } from '../../types/index.ts';
+import { Trade, Listing, Vehicle, User as UserType, BulkTradeAction } from '../../types/index.ts';
 import { TradeDetailModal } from './TradeDetailModal.tsx';
 import { TradeOfferModal } from './TradeOfferModal.tsx';
+import { routes } from '../../utils/routes.ts';
+import { getTradeRole, isTradeTurn, getAvailableTradeEvents, isTerminalTradeStatus } from '../../utils/tradeStateMachine.ts';
+
+// Open outbound offers with no activity for this long count as stale
+const STALE_TRADE_DAYS = 7;
+
+const BULK_ACTION_LABELS: Record<BulkTradeAction, { label: string; done: string }> = {
+  reject: { label: 'Reject', done: 'rejected' },
+  cancel: { label: 'Cancel', done: 'cancelled' },
+  archive: { label: 'Archive', done: 'archived' },
+  unarchive: { label: 'Unarchive', done: 'moved back' },
+};
+
+type TradesTab = 'outbound' | 'inbound' | 'pending' | 'completed' | 'archived';
 
 export function TradesView() {
-  const { state, loadAllListings, reloadTrades, showSuccess, showError, showInfo } = useApp();
-  const [activeTab, setActiveTab] = useState<'outbound' | 'inbound' | 'pending' | 'completed'>('outbound');
-  const [selectedTrade, setSelectedTrade] = useState<Trade | null>(null);
+  const { state, loadAllListings, reloadTrades, bulkUpdateTrades, showSuccess, showError, showWarning, showInfo } = useApp();
+  const [activeTab, setActiveTab] = useState<TradesTab>('outbound');
+  const navigate = useNavigate();
+  // /trades/:tradeId opens that trade's details
+  const { tradeId } = useParams();
+  const selectedTrade = tradeId ? state.trades.find(t => t.id === tradeId) || null : null;
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState('all');
   const [showFilters, setShowFilters] = useState(false);
   const [showCounterOffer, setShowCounterOffer] = useState(false);
   const [counterOfferTrade, setCounterOfferTrade] = useState<Trade | null>(null);
+  // Ticks once a minute so expiry countdowns stay current
+  const [now, setNow] = useState(() => Date.now());
+  const [selectionMode, setSelectionMode] = useState(false);
+  const [selectedTradeIds, setSelectedTradeIds] = useState<string[]>([]);
+  const [bulkLoading, setBulkLoading] = useState(false);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 60 * 1000);
+    return () => clearInterval(interval);
+  }, []);
 
   // Force reload trades when component mounts to trigger cleanup
   useEffect(() => {
@@ -50,9 +83,18 @@ export function TradesView() {
     loadTradesAndListings();
   }, []); // Only run once on mount
 
+  // Archiving is per user: trades I archived only show up in the archived tab
+  const isArchivedByMe = (trade: Trade) => !!state.currentUser && !!trade.archivedBy?.includes(state.currentUser.id);
+
+  const [archivedTrades, unarchivedTrades] = useMemo(() => {
+    const currentUserId = state.currentUser?.id;
+    const archived = (trade: Trade) => !!currentUserId && !!trade.archivedBy?.includes(currentUserId);
+    return [state.trades.filter(archived), state.trades.filter(trade => !archived(trade))];
+  }, [state.trades, state.currentUser?.id]);
+
   // Separate outbound, inbound, and completed trades
   const outboundTrades = useMemo(() => {
-    const filtered = state.trades.filter(trade => {
+    const filtered = unarchivedTrades.filter(trade => {
       const offererId = typeof trade.offererUserId === 'string' 
         ? trade.offererUserId 
         : (trade.offererUserId as any)?._id || (trade.offererUserId as any)?.id;
@@ -60,17 +102,10 @@ export function TradesView() {
         ? trade.receiverUserId 
         : (trade.receiverUserId as any)?._id || (trade.receiverUserId as any)?.id;
       
-      // For countered trades, determine who made the most recent action
+      // For countered trades, it's outbound while the other side has to respond
       if (trade.status === 'countered') {
-        // Check the most recent history entry to see who made the counter
-        const lastAction = trade.tradeHistory?.[trade.tradeHistory.length - 1];
-        if (lastAction && lastAction.action === 'countered') {
-          // The person who made the counter is the one with the "outbound" action
-          return lastAction.userId === state.currentUser?.id;
-        }
-        
-        // Fallback: if no history, check if user is offerer (original trade direction)
-        return offererId === state.currentUser?.id;
+        const role = getTradeRole(trade, state.currentUser?.id);
+        return role !== null && !isTradeTurn(trade, role);
       }
       
       // For all other trades, standard logic - user is offerer
@@ -79,14 +114,15 @@ export function TradesView() {
              trade.status !== 'accepted' && 
              trade.status !== 'pending_acceptance' && 
              trade.status !== 'completed' && 
-             trade.status !== 'declined';
+             trade.status !== 'declined' && 
+             trade.status !== 'expired';
     });
     
     return filtered;
-  }, [state.trades, state.currentUser?.id]);
+  }, [unarchivedTrades, state.currentUser?.id]);
 
   const inboundTrades = useMemo(() => {
-    const filtered = state.trades.filter(trade => {
+    const filtered = unarchivedTrades.filter(trade => {
       const offererId = typeof trade.offererUserId === 'string' 
         ? trade.offererUserId 
         : (trade.offererUserId as any)?._id || (trade.offererUserId as any)?.id;
@@ -94,17 +130,10 @@ export function TradesView() {
         ? trade.receiverUserId 
         : (trade.receiverUserId as any)?._id || (trade.receiverUserId as any)?.id;
       
-      // For countered trades, determine who made the most recent action
+      // For countered trades, it's inbound when it's the current user's turn to respond
       if (trade.status === 'countered') {
-        // Check the most recent history entry to see who made the counter
-        const lastAction = trade.tradeHistory?.[trade.tradeHistory.length - 1];
-        if (lastAction && lastAction.action === 'countered') {
-          // The person who made the counter has it as outbound, so the other person has it as inbound
-          return lastAction.userId !== state.currentUser?.id;
-        }
-        
-        // Fallback: if no history, check if user is receiver (original trade direction)
-        return receiverId === state.currentUser?.id;
+        const role = getTradeRole(trade, state.currentUser?.id);
+        return role !== null && isTradeTurn(trade, role);
       }
       
       // For all other trades, standard logic - user is receiver
@@ -113,14 +142,15 @@ export function TradesView() {
              trade.status !== 'accepted' && 
              trade.status !== 'pending_acceptance' && 
              trade.status !== 'completed' && 
-             trade.status !== 'declined';
+             trade.status !== 'declined' && 
+             trade.status !== 'expired';
     });
     
     return filtered;
-  }, [state.trades, state.currentUser?.id]);
+  }, [unarchivedTrades, state.currentUser?.id]);
 
   const completedTrades = useMemo(() => {
-    const filtered = state.trades.filter(trade => {
+    const filtered = unarchivedTrades.filter(trade => {
       const offererId = typeof trade.offererUserId === 'string' 
         ? trade.offererUserId 
         : (trade.offererUserId as any)?._id || (trade.offererUserId as any)?.id;
@@ -129,14 +159,14 @@ export function TradesView() {
         : (trade.receiverUserId as any)?._id || (trade.receiverUserId as any)?.id;
       
       return (offererId === state.currentUser?.id || receiverId === state.currentUser?.id) && 
-             (trade.status === 'completed' || trade.status === 'declined');
+             (trade.status === 'completed' || trade.status === 'declined' || trade.status === 'expired');
     });
     
     return filtered;
-  }, [state.trades, state.currentUser?.id]);
+  }, [unarchivedTrades, state.currentUser?.id]);
 
   const pendingTrades = useMemo(() => {
-    const filtered = state.trades.filter(trade => {
+    const filtered = unarchivedTrades.filter(trade => {
       const offererId = typeof trade.offererUserId === 'string' 
         ? trade.offererUserId 
         : (trade.offererUserId as any)?._id || (trade.offererUserId as any)?.id;
@@ -151,12 +181,13 @@ export function TradesView() {
     });
     
     return filtered;
-  }, [state.trades, state.currentUser?.id]);
+  }, [unarchivedTrades, state.currentUser?.id]);
 
   const currentTrades = activeTab === 'outbound' ? outboundTrades : 
                        activeTab === 'inbound' ? inboundTrades : 
                        activeTab === 'pending' ? pendingTrades : 
-                       completedTrades;
+                       activeTab === 'completed' ? completedTrades :
+                       archivedTrades;
 
   // Filter trades based on search and status
   const filteredTrades = useMemo(() => {
@@ -221,6 +252,7 @@ export function TradesView() {
       case 'completed': return 'text-green-500';
       case 'declined': return 'text-red-500';
       case 'cancelled': return 'text-gray-400';
+      case 'expired': return 'text-gray-400';
       case 'countered': return 'text-purple-400';
       default: return 'text-primary-300';
     }
@@ -235,6 +267,7 @@ export function TradesView() {
       case 'completed': return <CheckCircle className="w-4 h-4" />;
       case 'declined': return <XCircle className="w-4 h-4" />;
       case 'cancelled': return <XCircle className="w-4 h-4" />;
+      case 'expired': return <Clock className="w-4 h-4" />;
       case 'countered': return <ArrowLeftRight className="w-4 h-4" />;
       default: return <Clock className="w-4 h-4" />;
     }
@@ -262,14 +295,125 @@ export function TradesView() {
     }
   };
 
+  const formatTimeLeft = (dateString: string) => {
+    const diffInMinutes = Math.floor((new Date(dateString).getTime() - now) / (1000 * 60));
+
+    if (diffInMinutes < 1) return 'Expiring now';
+    if (diffInMinutes < 60) return `${diffInMinutes}m left`;
+
+    const diffInHours = Math.floor(diffInMinutes / 60);
+    if (diffInHours < 24) return `${diffInHours}h ${diffInMinutes % 60}m left`;
+
+    return `${Math.floor(diffInHours / 24)}d ${diffInHours % 24}h left`;
+  };
+
   const handleTradeClick = (trade: Trade) => {
-    setSelectedTrade(trade);
+    navigate(routes.trade(trade.id));
+  };
+
+  const closeTrade = () => {
+    navigate(routes.tab('trades'));
   };
 
   const handleCounterOffer = (trade: Trade) => {
     setCounterOfferTrade(trade);
     setShowCounterOffer(true);
-    setSelectedTrade(null);
+    closeTrade();
+  };
+
+  const switchTab = (tab: TradesTab) => {
+    setActiveTab(tab);
+    setSelectedTradeIds([]);
+  };
+
+  const toggleSelectionMode = () => {
+    setSelectionMode(!selectionMode);
+    setSelectedTradeIds([]);
+  };
+
+  const toggleTradeSelection = (tradeId: string) => {
+    setSelectedTradeIds(prev => prev.includes(tradeId) ? prev.filter(id => id !== tradeId) : [...prev, tradeId]);
+  };
+
+  const canApplyBulkAction = (trade: Trade, action: BulkTradeAction) => {
+    switch (action) {
+      case 'reject':
+      case 'cancel':
+        return getAvailableTradeEvents(trade, state.currentUser?.id).includes(action);
+      case 'archive':
+        return isTerminalTradeStatus(trade.status) && !isArchivedByMe(trade);
+      case 'unarchive':
+        return isArchivedByMe(trade);
+    }
+  };
+
+  const getTradeListing = (trade: Trade): { id: string; title: string } | null => {
+    if (typeof trade.listingId === 'object' && trade.listingId) {
+      const listing = trade.listingId as any;
+      return { id: listing._id || listing.id, title: listing.title };
+    }
+    const listing = trade.listingId ? state.allListings.find(l => l.id === trade.listingId) : undefined;
+    return listing ? { id: listing.id, title: listing.title } : null;
+  };
+
+  const selectedTrades = filteredTrades.filter(trade => selectedTradeIds.includes(trade.id));
+
+  // Inbound offers grouped by listing, so every offer on one listing can be rejected together
+  const inboundListingOptions = (() => {
+    const options = new Map<string, { id: string; title: string; tradeIds: string[] }>();
+    if (activeTab !== 'inbound') return [];
+
+    filteredTrades.forEach(trade => {
+      const listing = getTradeListing(trade);
+      if (!listing || !getAvailableTradeEvents(trade, state.currentUser?.id).includes('reject')) return;
+      const option = options.get(listing.id) || { ...listing, tradeIds: [] };
+      option.tradeIds.push(trade.id);
+      options.set(listing.id, option);
+    });
+
+    return Array.from(options.values());
+  })();
+
+  const staleOutboundTradeIds = activeTab === 'outbound'
+    ? filteredTrades
+        .filter(trade =>
+          getAvailableTradeEvents(trade, state.currentUser?.id).includes('cancel') &&
+          now - new Date(trade.updatedAt).getTime() > STALE_TRADE_DAYS * 24 * 60 * 60 * 1000
+        )
+        .map(trade => trade.id)
+    : [];
+
+  const handleBulkAction = async (action: BulkTradeAction) => {
+    const tradeIds = selectedTrades.filter(trade => canApplyBulkAction(trade, action)).map(trade => trade.id);
+    if (tradeIds.length === 0) return;
+
+    const { label, done } = BULK_ACTION_LABELS[action];
+    const tradesLabel = `${tradeIds.length} trade${tradeIds.length !== 1 ? 's' : ''}`;
+
+    if ((action === 'reject' || action === 'cancel') && !window.confirm(`${label} ${tradesLabel}? This cannot be undone.`)) {
+      return;
+    }
+
+    setBulkLoading(true);
+    try {
+      const result = await bulkUpdateTrades(action, tradeIds);
+
+      if (result.succeeded.length > 0) {
+        showSuccess(`Trades ${done}`, `${result.succeeded.length} trade${result.succeeded.length !== 1 ? 's' : ''} ${done}.`);
+      }
+      if (result.failed.length > 0) {
+        showWarning(
+          `${result.failed.length} trade${result.failed.length !== 1 ? 's were' : ' was'} skipped`,
+          result.failed[0].message
+        );
+      }
+      setSelectedTradeIds([]);
+    } catch (error: any) {
+      console.error(`Error applying bulk ${action}:`, error);
+      showError('Bulk Action Failed', error.message || `Could not ${label.toLowerCase()} the selected trades.`);
+    } finally {
+      setBulkLoading(false);
+    }
   };
 
   const renderTradeCard = (trade: Trade, isOutbound: boolean) => {
@@ -285,6 +429,22 @@ export function TradesView() {
         : (trade.listingId as any)?._id || (trade.listingId as any)?.id;
       listing = state.allListings.find(l => l.id === listingId);
     }
+
+    // Receiver's vehicles the offerer asked for (the listing vehicle plus any extras)
+    const requestedVehicles: Vehicle[] = (trade as any).requestedVehicleObjects ||
+      (trade.requestedVehicleIds || []).map(id => state.vehicles.find(v => v.id === id)).filter(Boolean);
+
+    // Bundle trades without a listing are titled after the first vehicle they ask for
+    if (!listing && requestedVehicles.length > 0) {
+      const [firstVehicle] = requestedVehicles;
+      listing = {
+        title: `${firstVehicle.year} ${firstVehicle.make} ${firstVehicle.model}${
+          requestedVehicles.length > 1 ? ` + ${requestedVehicles.length - 1} more` : ''
+        }`,
+        vehicle: firstVehicle,
+        vehicleId: firstVehicle.id
+      };
+    }
     
     if (!listing) {
       console.log('🔍 Listing not found for trade:', trade.id, 'listingId:', trade.listingId);
@@ -419,10 +579,21 @@ export function TradesView() {
         key={trade.id}
         initial={{ opacity: 0, y: 20 }}
         animate={{ opacity: 1, y: 0 }}
-        className="glass-effect rounded-xl p-6 hover:bg-primary-800/20 transition-all cursor-pointer"
-        onClick={() => setSelectedTrade(trade)}
+        className={`glass-effect rounded-xl p-6 hover:bg-primary-800/20 transition-all cursor-pointer ${
+          selectionMode && selectedTradeIds.includes(trade.id) ? 'ring-2 ring-primary-300/50' : ''
+        }`}
+        onClick={() => selectionMode ? toggleTradeSelection(trade.id) : handleTradeClick(trade)}
       >
         <div className="flex space-x-4">
+          {selectionMode && (
+            <div className="flex items-center flex-shrink-0">
+              {selectedTradeIds.includes(trade.id) ? (
+                <CheckSquare className="w-5 h-5 text-primary-100" />
+              ) : (
+                <Square className="w-5 h-5 text-primary-400" />
+              )}
+            </div>
+          )}
           {/* Listing Image */}
           <div className="w-20 h-20 bg-primary-800/30 rounded-lg flex items-center justify-center flex-shrink-0">
             {(() => {
@@ -458,6 +629,11 @@ export function TradesView() {
 
             {/* Trade Summary */}
             <div className="space-y-2 mb-3">
+              {requestedVehicles.length > 1 && (
+                <div className="text-sm text-primary-300">
+                  Bundle of {requestedVehicles.length} of {isOutbound ? 'their' : 'your'} vehicles
+                </div>
+              )}
               <div className="flex items-center justify-between text-sm">
                 <span className="text-primary-300">
                   {/* For countered trades, show clearer labels */}
@@ -502,9 +678,19 @@ export function TradesView() {
                   {isOutbound ? 'To:' : 'From:'} @{otherUser?.username || 'Unknown User'}
                 </span>
               </div>
-              <span className="text-xs text-primary-400">
-                {formatTimeAgo(trade.updatedAt)}
-              </span>
+              <div className="flex items-center space-x-3">
+                {trade.expiresAt && (trade.status === 'pending' || trade.status === 'countered') && (
+                  <span className={`flex items-center space-x-1 text-xs ${
+                    new Date(trade.expiresAt).getTime() - now < 6 * 60 * 60 * 1000 ? 'text-orange-400' : 'text-primary-400'
+                  }`}>
+                    <Clock className="w-3 h-3" />
+                    <span>{formatTimeLeft(trade.expiresAt)}</span>
+                  </span>
+                )}
+                <span className="text-xs text-primary-400">
+                  {formatTimeAgo(trade.updatedAt)}
+                </span>
+              </div>
             </div>
           </div>
         </div>
@@ -520,12 +706,20 @@ export function TradesView() {
           <h1 className="text-3xl font-bold text-primary-100">Trade Management</h1>
           <p className="text-primary-300 mt-1">Manage your vehicle trade offers</p>
         </div>
+        <motion.button
+          whileTap={{ scale: 0.95 }}
+          onClick={toggleSelectionMode}
+          className={`btn-secondary flex items-center space-x-2 ${selectionMode ? 'bg-primary-100/20' : ''}`}
+        >
+          <ListChecks className="w-5 h-5" />
+          <span>{selectionMode ? 'Done' : 'Select'}</span>
+        </motion.button>
       </div>
 
       {/* Tabs */}
       <div className="flex space-x-1 bg-primary-800/30 rounded-lg p-1">
         <button
-          onClick={() => setActiveTab('outbound')}
+          onClick={() => switchTab('outbound')}
           className={`flex-1 py-2 px-4 rounded-md text-sm font-medium transition-colors ${
             activeTab === 'outbound'
               ? 'bg-primary-100/20 text-primary-100'
@@ -535,7 +729,7 @@ export function TradesView() {
           Outbound ({outboundTrades.length})
         </button>
         <button
-          onClick={() => setActiveTab('inbound')}
+          onClick={() => switchTab('inbound')}
           className={`flex-1 py-2 px-4 rounded-md text-sm font-medium transition-colors ${
             activeTab === 'inbound'
               ? 'bg-primary-100/20 text-primary-100'
@@ -545,7 +739,7 @@ export function TradesView() {
           Inbound ({inboundTrades.length})
         </button>
         <button
-          onClick={() => setActiveTab('pending')}
+          onClick={() => switchTab('pending')}
           className={`flex-1 py-2 px-4 rounded-md text-sm font-medium transition-colors ${
             activeTab === 'pending'
               ? 'bg-primary-100/20 text-primary-100'
@@ -555,7 +749,7 @@ export function TradesView() {
           Pending ({pendingTrades.length})
         </button>
         <button
-          onClick={() => setActiveTab('completed')}
+          onClick={() => switchTab('completed')}
           className={`flex-1 py-2 px-4 rounded-md text-sm font-medium transition-colors ${
             activeTab === 'completed'
               ? 'bg-primary-100/20 text-primary-100'
@@ -564,6 +758,16 @@ export function TradesView() {
         >
           Completed ({completedTrades.length})
         </button>
+        <button
+          onClick={() => switchTab('archived')}
+          className={`flex-1 py-2 px-4 rounded-md text-sm font-medium transition-colors ${
+            activeTab === 'archived'
+              ? 'bg-primary-100/20 text-primary-100'
+              : 'text-primary-300 hover:text-primary-200'
+          }`}
+        >
+          Archived ({archivedTrades.length})
+        </button>
       </div>
 
       {/* Search and Filters */}
@@ -617,6 +821,7 @@ export function TradesView() {
                   <option value="rejected">Rejected</option>
                   <option value="completed">Completed</option>
                   <option value="cancelled">Cancelled</option>
+                  <option value="expired">Expired</option>
                 </select>
               </div>
             </div>
@@ -624,6 +829,89 @@ export function TradesView() {
         )}
       </div>
 
+      {/* Bulk Actions */}
+      {selectionMode && (
+        <div className="glass-effect rounded-xl p-4 space-y-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm text-primary-300 mr-2">
+              {selectedTrades.length} of {filteredTrades.length} selected
+            </span>
+            <button
+              onClick={() => setSelectedTradeIds(filteredTrades.map(trade => trade.id))}
+              className="text-sm text-primary-300 hover:text-primary-100 transition-colors"
+            >
+              Select all
+            </button>
+            <span className="text-primary-500">•</span>
+            <button
+              onClick={() => setSelectedTradeIds([])}
+              className="text-sm text-primary-300 hover:text-primary-100 transition-colors"
+            >
+              Clear
+            </button>
+            {staleOutboundTradeIds.length > 0 && (
+              <>
+                <span className="text-primary-500">•</span>
+                <button
+                  onClick={() => setSelectedTradeIds(staleOutboundTradeIds)}
+                  className="text-sm text-primary-300 hover:text-primary-100 transition-colors"
+                >
+                  Select stale ({staleOutboundTradeIds.length}, no activity in {STALE_TRADE_DAYS}+ days)
+                </button>
+              </>
+            )}
+            {inboundListingOptions.length > 0 && (
+              <select
+                value=""
+                onChange={(e) => {
+                  const option = inboundListingOptions.find(o => o.id === e.target.value);
+                  if (option) setSelectedTradeIds(option.tradeIds);
+                }}
+                className="input-field py-1 text-sm w-auto"
+              >
+                <option value="">Select all offers on a listing...</option>
+                {inboundListingOptions.map(option => (
+                  <option key={option.id} value={option.id}>
+                    {option.title} ({option.tradeIds.length})
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(BULK_ACTION_LABELS) as BulkTradeAction[]).map(action => {
+              const count = selectedTrades.filter(trade => canApplyBulkAction(trade, action)).length;
+              if (count === 0) return null;
+
+              const isDestructive = action === 'reject' || action === 'cancel';
+              return (
+                <button
+                  key={action}
+                  onClick={() => handleBulkAction(action)}
+                  disabled={bulkLoading}
+                  className={`flex items-center space-x-1 px-3 py-1.5 rounded-lg border text-sm transition-colors disabled:opacity-50 ${
+                    isDestructive
+                      ? 'bg-red-500/10 hover:bg-red-500/20 text-red-400 border-red-500/20'
+                      : 'bg-primary-800/30 hover:bg-primary-800/50 text-primary-200 border-primary-700/30'
+                  }`}
+                >
+                  {action === 'archive' ? <Archive className="w-4 h-4" /> :
+                   action === 'unarchive' ? <ArchiveRestore className="w-4 h-4" /> :
+                   <XCircle className="w-4 h-4" />}
+                  <span>{BULK_ACTION_LABELS[action].label} {count}</span>
+                </button>
+              );
+            })}
+            {selectedTrades.length > 0 && !(Object.keys(BULK_ACTION_LABELS) as BulkTradeAction[]).some(action =>
+              selectedTrades.some(trade => canApplyBulkAction(trade, action))
+            ) && (
+              <span className="text-sm text-primary-400">No bulk action applies to the selected trades.</span>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* Trades List */}
       <div className="space-y-4">
         {filteredTrades.length === 0 ? (
@@ -643,7 +931,9 @@ export function TradesView() {
                 ? "You haven't made any trade offers yet. Go to Listings to make trade offers on vehicles you're interested in."
                 : activeTab === 'inbound'
                   ? "You haven't received any trade offers yet"
-                  : "No completed trades found"
+                  : activeTab === 'archived'
+                    ? "Archive finished trades to move them out of your other tabs"
+                    : "No completed trades found"
               }
             </p>
           </motion.div>
@@ -665,26 +955,16 @@ export function TradesView() {
               const offererId = typeof selectedTrade.offererUserId === 'string' 
                 ? selectedTrade.offererUserId 
                 : (selectedTrade.offererUserId as any)?._id || (selectedTrade.offererUserId as any)?.id;
-              const receiverId = typeof selectedTrade.receiverUserId === 'string' 
-                ? selectedTrade.receiverUserId 
-                : (selectedTrade.receiverUserId as any)?._id || (selectedTrade.receiverUserId as any)?.id;
-              
-              // For countered trades, check who made the most recent counter from trade history
+              // For countered trades, outbound while waiting on the other side
               if (selectedTrade.status === 'countered') {
-                const lastAction = selectedTrade.tradeHistory?.[selectedTrade.tradeHistory.length - 1];
-                if (lastAction && lastAction.action === 'countered') {
-                  // The person who made the most recent counter has it as outbound
-                  return lastAction.userId === state.currentUser?.id;
-                }
-                
-                // Fallback: if no history, check if user is receiver (original trade direction)
-                return receiverId === state.currentUser?.id;
+                const role = getTradeRole(selectedTrade, state.currentUser?.id);
+                return role !== null && !isTradeTurn(selectedTrade, role);
               }
               
               // For all other trades, standard logic - outbound if current user is offerer
               return offererId === state.currentUser?.id;
             })()}
-            onClose={() => setSelectedTrade(null)}
+            onClose={closeTrade}
             onCounterOffer={handleCounterOffer}
           />
         )}
@@ -1,14 +1,18 @@
 import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
+import { useNavigate, useParams } from 'react-router-dom';
 import { useApp } from '../../context/AppContext.tsx';
 import { User } from '../../types/index.ts';
 import { Search, User as UserIcon, Star, MessageSquare, Wind } from 'lucide-react';
 import { SellerProfileView } from '../profile/SellerProfileView.tsx';
+import { routes } from '../../utils/routes.ts';
 
 export function UserSearchView() {
   const { state, searchUsers } = useApp();
   const [searchTerm, setSearchTerm] = useState('');
-  const [selectedUser, setSelectedUser] = useState<User | null>(null);
+  const navigate = useNavigate();
+  // /users/:userId shows that user's profile
+  const { userId: selectedUserId } = useParams();
   const [isLoading, setIsLoading] = useState(false);
 
   useEffect(() => {
@@ -45,14 +49,14 @@ export function UserSearchView() {
   };
 
   const handleUserClick = (user: User) => {
-    setSelectedUser(user);
+    navigate(routes.user(user.id));
   };
 
-  if (selectedUser) {
+  if (selectedUserId) {
     return (
       <SellerProfileView
-        sellerId={selectedUser.id}
-        onBack={() => setSelectedUser(null)}
+        sellerId={selectedUserId}
+        onBack={() => navigate(routes.tab('users'))}
         source="userSearch"
       />
     );
@@ -1,12 +1,25 @@
 import React, { createContext, useContext, useReducer, useEffect, useMemo, useCallback, useRef, useState, ReactNode } from 'react';
-import { AppState, User, Vehicle, Listing, Auction, Trade, Message, Conversation, Review, NavigationTab, Notification } from '../types/index.ts';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { AppState, User, Vehicle, Listing, Auction, Sale, Offer, OfferResponse, SavedSearch, ListingSearchFilters, Watchlist, WatchlistItemType, ListingSearchState, Trade, TradeChecklistEntry, BulkTradeAction, BulkTradeResult, IntegrityReport, Message, Conversation, Review, ReviewReportReason, NavigationTab, Notification } from '../types/index.ts';
 import { AuthService } from '../services/authService.ts';
 import { DataService } from '../services/dataService.ts';
 import ApiService from '../services/apiService.ts';
 import webSocketService from '../services/webSocketService.ts';
 import { compressImage } from '../utils/imageUtils';
+import { matchesListingSearch, resolveListingVehicle, toListingQuery } from '../utils/listingSearch.ts';
+import { routes, getTabFromPath } from '../utils/routes.ts';
+import { getTradeEventForStatus, TRADE_CHECKLIST_ITEMS } from '../utils/tradeStateMachine.ts';
 
 // Helper to ensure listing data structure is consistent
+// Notification text for a message; attachment-only messages have no content
+const getMessagePreview = (message: Message) => {
+  if (message.unsentAt) return 'Message unsent';
+  if (!message.content) {
+    return message.attachments?.length ? '📎 Sent an attachment' : '';
+  }
+  return message.content.length > 50 ? message.content.substring(0, 50) + '...' : message.content;
+};
+
 const normalizeListing = (listing: any): Listing => {
   const normalized = {
     ...listing,
@@ -34,10 +47,97 @@ const normalizeTrade = (trade: any): Trade => {
     id: trade._id || trade.id,
     offererUserId: typeof trade.offererUserId === 'object' ? trade.offererUserId._id : trade.offererUserId,
     receiverUserId: typeof trade.receiverUserId === 'object' ? trade.receiverUserId._id : trade.receiverUserId,
-    listingId: typeof trade.listingId === 'object' ? trade.listingId._id : trade.listingId,
+    listingId: trade.listingId && typeof trade.listingId === 'object' ? trade.listingId._id : trade.listingId,
   };
 };
 
+// Helper to normalize auction data
+const normalizeAuction = (auction: any): Auction => {
+  const auctionId = auction._id || auction.id;
+  return {
+    ...auction,
+    id: auctionId,
+    vehicle: typeof auction.vehicleId === 'object' && auction.vehicleId !== null
+      ? { ...auction.vehicleId, id: auction.vehicleId._id || auction.vehicleId.id }
+      : auction.vehicle,
+    seller: typeof auction.sellerId === 'object' && auction.sellerId !== null
+      ? { ...auction.sellerId, id: auction.sellerId._id || auction.sellerId.id }
+      : auction.seller,
+    vehicleId: typeof auction.vehicleId === 'object' && auction.vehicleId !== null
+      ? auction.vehicleId._id || auction.vehicleId.id
+      : auction.vehicleId,
+    sellerId: typeof auction.sellerId === 'object' && auction.sellerId !== null
+      ? auction.sellerId._id || auction.sellerId.id
+      : auction.sellerId,
+    bids: (auction.bids || []).map((bid: any) => ({
+      ...bid,
+      id: bid._id || bid.id,
+      auctionId,
+      bidder: typeof bid.bidderId === 'object' && bid.bidderId !== null
+        ? { ...bid.bidderId, id: bid.bidderId._id || bid.bidderId.id }
+        : bid.bidder,
+      bidderId: typeof bid.bidderId === 'object' && bid.bidderId !== null
+        ? bid.bidderId._id || bid.bidderId.id
+        : bid.bidderId,
+    })),
+  } as Auction;
+};
+
+// Helper to normalize sale data
+const normalizeSale = (sale: any): Sale => {
+  return {
+    ...sale,
+    id: sale._id || sale.id,
+    vehicle: typeof sale.vehicleId === 'object' && sale.vehicleId !== null
+      ? { ...sale.vehicleId, id: sale.vehicleId._id || sale.vehicleId.id }
+      : sale.vehicle,
+    vehicleId: typeof sale.vehicleId === 'object' && sale.vehicleId !== null
+      ? sale.vehicleId._id || sale.vehicleId.id
+      : sale.vehicleId,
+    sellerId: typeof sale.sellerId === 'object' && sale.sellerId !== null ? sale.sellerId._id || sale.sellerId.id : sale.sellerId,
+    buyerId: typeof sale.buyerId === 'object' && sale.buyerId !== null ? sale.buyerId._id || sale.buyerId.id : sale.buyerId,
+  } as Sale;
+};
+
+// Helper to normalize offer data
+const normalizeOffer = (offer: any): Offer => {
+  const populated = (value: any) => typeof value === 'object' && value !== null
+    ? { ...value, id: value._id || value.id }
+    : undefined;
+  const toId = (value: any) => typeof value === 'object' && value !== null ? value._id || value.id : value;
+
+  return {
+    ...offer,
+    id: offer._id || offer.id,
+    vehicle: populated(offer.vehicleId) || offer.vehicle,
+    seller: populated(offer.sellerId) || offer.seller,
+    buyer: populated(offer.buyerId) || offer.buyer,
+    listingId: toId(offer.listingId),
+    vehicleId: toId(offer.vehicleId),
+    sellerId: toId(offer.sellerId),
+    buyerId: toId(offer.buyerId),
+    lastActionBy: toId(offer.lastActionBy),
+    history: (offer.history || []).map((item: any) => ({ ...item, userId: toId(item.userId) })),
+  } as Offer;
+};
+
+// Search results come from an aggregation, so vehicle/seller arrive alongside the raw IDs
+const normalizeSearchListing = (listing: any): Listing => {
+  const normalized = normalizeListing(listing) as any;
+  return {
+    ...normalized,
+    vehicle: normalized.vehicle ? { ...normalized.vehicle, id: normalized.vehicle._id || normalized.vehicle.id } : undefined,
+    seller: normalized.seller ? { ...normalized.seller, id: normalized.seller._id || normalized.seller.id } : undefined,
+  };
+};
+
+// Results fetched per infinite-scroll page
+const LISTING_PAGE_SIZE = 20;
+
+const normalizeSavedSearch = (search: any): SavedSearch => {
+  return { ...search, id: search._id || search.id } as SavedSearch;
+};
+
 interface AppContextType {
   state: AppState;
   dispatch: React.Dispatch<AppAction>;
@@ -66,17 +166,51 @@ interface AppContextType {
   renewListing: (listingId: string) => Promise<void>;
   incrementListingViews: (listingId: string) => Promise<void>;
   loadAllListings: (forceRefresh?: boolean) => Promise<void>;
+  searchListings: (filters: ListingSearchFilters) => Promise<void>;
+  loadMoreListings: () => Promise<void>;
+  loadAuctions: () => Promise<void>;
+  addAuction: (auction: {
+    vehicleId: string;
+    title: string;
+    description?: string;
+    startingBid: number;
+    buyNowPrice?: number;
+    reservePrice?: number;
+    durationDays: number;
+    softCloseMinutes?: number;
+  }) => Promise<void>;
+  placeBid: (auctionId: string, amount?: number, maxBid?: number) => Promise<void>;
+  buyNowAuction: (auctionId: string) => Promise<void>;
+  cancelAuction: (auctionId: string) => Promise<void>;
+  loadSales: () => Promise<void>;
+  getUserSales: (userId: string) => Promise<Sale[]>;
+  loadOffers: () => Promise<void>;
+  makeOffer: (listingId: string, amount: number, message?: string, expiresInHours?: number) => Promise<void>;
+  respondToOffer: (
+    offerId: string,
+    response: OfferResponse,
+    counter?: { amount: number; message?: string; expiresInHours?: number }
+  ) => Promise<void>;
+  loadSavedSearches: () => Promise<void>;
+  saveSearch: (name: string, filters: ListingSearchFilters) => Promise<void>;
+  deleteSavedSearch: (searchId: string) => Promise<void>;
+  loadWatchlist: () => Promise<void>;
+  toggleWatch: (type: WatchlistItemType, itemId: string) => Promise<void>;
   addReview: (review: Omit<Review, 'id' | 'createdAt'>) => Promise<void>;
   submitReview: (review: Omit<Review, 'id' | 'createdAt'>) => Promise<void>;
   getUserProfile: (userId: string) => User | null;
   sendMessage: (message: Omit<Message, 'id' | 'timestamp' | 'read'>) => Promise<void>;
   markMessagesAsRead: (conversationId: string) => Promise<void>;
+  editMessage: (messageId: string, content: string) => Promise<void>;
+  loadMessageListing: (listingId: string) => Promise<void>;
+  unsendMessage: (messageId: string) => Promise<void>;
   addTrade: (trade: Omit<Trade, 'id' | 'createdAt' | 'updatedAt'>) => Promise<void>;
   updateTrade: (tradeOrId: Trade | string, tradeData?: Partial<Trade>) => Promise<void>;
   deleteTrade: (tradeId: string) => Promise<void>;
+  confirmTradeChecklistItem: (tradeId: string, item: TradeChecklistEntry['item']) => Promise<void>;
+  bulkUpdateTrades: (action: BulkTradeAction, tradeIds: string[]) => Promise<BulkTradeResult>;
   reloadTrades: () => Promise<void>;
-  cleanupCorruptedTrades: () => Promise<{ message: string; deletedCount: number; deletedTradeIds: string[] }>;
-  cleanupVehicleFlags: () => Promise<{ message: string; cleanedCount: number }>;
+  runIntegrityCheck: (dryRun: boolean) => Promise<IntegrityReport>;
   activeTab: NavigationTab;
   setActiveTab: (tab: NavigationTab) => void;
   activeConversation: string | null;
@@ -104,6 +238,8 @@ interface AppContextType {
   searchUsers: (query: string) => Promise<void>;
   loadUserReviews: (userId: string) => Promise<void>;
   getExistingReview: (targetUserId: string) => Promise<Review | null>;
+  replyToReview: (reviewId: string, comment: string) => Promise<void>;
+  reportReview: (reviewId: string, reason: ReviewReportReason, details?: string) => Promise<void>;
 }
 
 type AppAction = 
@@ -121,11 +257,26 @@ type AppAction =
   | { type: 'ADD_LISTING'; payload: Listing }
   | { type: 'UPDATE_LISTING'; payload: Listing }
   | { type: 'DELETE_LISTING'; payload: string }
+  | { type: 'SET_AUCTIONS'; payload: Auction[] }
+  | { type: 'ADD_AUCTION'; payload: Auction }
+  | { type: 'UPDATE_AUCTION'; payload: Auction }
+  | { type: 'REMOVE_AUCTION'; payload: string }
+  | { type: 'SET_SALES'; payload: Sale[] }
+  | { type: 'SET_OFFERS'; payload: Offer[] }
+  | { type: 'UPSERT_OFFER'; payload: Offer }
+  | { type: 'SET_SAVED_SEARCHES'; payload: SavedSearch[] }
+  | { type: 'ADD_SAVED_SEARCH'; payload: SavedSearch }
+  | { type: 'REMOVE_SAVED_SEARCH'; payload: string }
+  | { type: 'SET_WATCHLIST'; payload: Watchlist }
+  | { type: 'SET_LISTING_SEARCH'; payload: Partial<ListingSearchState> }
   | { type: 'SET_TRADES'; payload: Trade[] }
   | { type: 'ADD_TRADE'; payload: Trade }
   | { type: 'UPDATE_TRADE'; payload: Trade }
   | { type: 'SET_MESSAGES'; payload: Message[] }
   | { type: 'ADD_MESSAGE'; payload: Message }
+  | { type: 'UPDATE_MESSAGE'; payload: Message }
+  | { type: 'CACHE_MESSAGE_LISTING'; payload: Listing }
+  | { type: 'APPLY_MESSAGE_RECEIPTS'; payload: { messageIds: string[]; deliveredAt?: string; readAt?: string } }
   | { type: 'UPDATE_CONVERSATION'; payload: { conversationId: string; lastMessage: Message; updatedAt: string } }
   | { type: 'SET_CONVERSATIONS'; payload: Conversation[] }
   | { type: 'SET_REVIEWS'; payload: Review[] }
@@ -144,12 +295,18 @@ const initialState: AppState = {
   vehicles: [],
   listings: [],
   allListings: [],
+  messageListings: {},
   auctions: [],
   trades: [],
   messages: [],
+  messageReceipts: {},
   conversations: [],
   reviews: [],
   sales: [],
+  offers: [],
+  savedSearches: [],
+  watchlist: { listingIds: [], auctionIds: [] },
+  listingSearch: { filters: null, results: [], facets: null, total: 0, nextCursor: null, loading: false },
   users: [],
   isAuthenticated: false,
   loading: false,
@@ -215,6 +372,33 @@ function appReducer(state: AppState, action: AppAction): AppState {
       };
     case 'SET_TRADES':
       return { ...state, trades: action.payload };
+    case 'SET_AUCTIONS':
+      return { ...state, auctions: action.payload };
+    case 'ADD_AUCTION':
+      return { ...state, auctions: [...state.auctions.filter(a => a.id !== action.payload.id), action.payload] };
+    case 'UPDATE_AUCTION':
+      return {
+        ...state,
+        auctions: state.auctions.map(a => a.id === action.payload.id ? action.payload : a),
+      };
+    case 'REMOVE_AUCTION':
+      return { ...state, auctions: state.auctions.filter(a => a.id !== action.payload) };
+    case 'SET_SALES':
+      return { ...state, sales: action.payload };
+    case 'SET_OFFERS':
+      return { ...state, offers: action.payload };
+    case 'UPSERT_OFFER':
+      return { ...state, offers: [action.payload, ...state.offers.filter(o => o.id !== action.payload.id)] };
+    case 'SET_SAVED_SEARCHES':
+      return { ...state, savedSearches: action.payload };
+    case 'ADD_SAVED_SEARCH':
+      return { ...state, savedSearches: [...state.savedSearches, action.payload] };
+    case 'REMOVE_SAVED_SEARCH':
+      return { ...state, savedSearches: state.savedSearches.filter(s => s.id !== action.payload) };
+    case 'SET_WATCHLIST':
+      return { ...state, watchlist: action.payload };
+    case 'SET_LISTING_SEARCH':
+      return { ...state, listingSearch: { ...state.listingSearch, ...action.payload } };
     case 'ADD_TRADE':
       return { ...state, trades: [...state.trades, action.payload] };
     case 'UPDATE_TRADE':
@@ -251,6 +435,64 @@ function appReducer(state: AppState, action: AppAction): AppState {
       });
       
       return { ...state, messages: allUniqueMessages };
+    case 'CACHE_MESSAGE_LISTING':
+      return {
+        ...state,
+        messageListings: { ...state.messageListings, [action.payload.id]: action.payload },
+      };
+    case 'UPDATE_MESSAGE': {
+      const updated = action.payload;
+      // Only the editable parts change; sender, receiver and receipts stay as loaded
+      const applyUpdate = (message: Message): Message => {
+        if ((message.id || (message as any)._id?.toString()) !== updated.id) return message;
+        return {
+          ...message,
+          content: updated.content,
+          attachments: updated.attachments,
+          editedAt: updated.editedAt,
+          unsentAt: updated.unsentAt
+        };
+      };
+
+      return {
+        ...state,
+        messages: state.messages.map(applyUpdate),
+        conversations: state.conversations.map(c =>
+          c.lastMessage ? { ...c, lastMessage: applyUpdate(c.lastMessage) } : c
+        ),
+      };
+    }
+    case 'APPLY_MESSAGE_RECEIPTS': {
+      const receiptIds = new Set(action.payload.messageIds);
+      const { deliveredAt, readAt } = action.payload;
+      // Kept by id as well, so messages that are only on older loaded pages pick up the receipt too
+      const messageReceipts = { ...state.messageReceipts };
+      action.payload.messageIds.forEach(id => {
+        const receipt = messageReceipts[id] || {};
+        messageReceipts[id] = {
+          deliveredAt: receipt.deliveredAt || deliveredAt || readAt,
+          readAt: receipt.readAt || readAt
+        };
+      });
+      // Conversation summaries come straight from an aggregate, so their last message only has _id
+      const applyReceipt = (message: Message): Message => {
+        if (!receiptIds.has(message.id || (message as any)._id?.toString())) return message;
+        return {
+          ...message,
+          deliveredAt: message.deliveredAt || deliveredAt || readAt,
+          ...(readAt && { read: true, readAt })
+        };
+      };
+
+      return {
+        ...state,
+        messages: state.messages.map(applyReceipt),
+        messageReceipts,
+        conversations: state.conversations.map(c =>
+          c.lastMessage ? { ...c, lastMessage: applyReceipt(c.lastMessage) } : c
+        ),
+      };
+    }
     case 'ADD_MESSAGE':
       const newMessage = action.payload;
       
@@ -510,7 +752,13 @@ interface AppProviderProps {
 
 export function AppProvider({ children }: AppProviderProps) {
   const [state, dispatch] = useReducer(appReducer, initialState);
-  const [activeTab, setActiveTab] = React.useState<NavigationTab>('garage');
+  const location = useLocation();
+  const navigate = useNavigate();
+  // The URL is the source of truth for which tab is showing
+  const activeTab = getTabFromPath(location.pathname);
+  const setActiveTab = useCallback((tab: NavigationTab) => {
+    navigate(routes.tab(tab));
+  }, [navigate]);
   const [activeConversation, setActiveConversation] = React.useState<string | null>(null);
   
   // Add ref to track current active conversation
@@ -596,6 +844,18 @@ export function AppProvider({ children }: AppProviderProps) {
             console.log('📋 Current allListings count before update:', stateRef.current.allListings.length);
             
             const listingWithId = { ...listing, id: listing._id || listing.id };
+
+            // 🔎 SEARCH RESULTS: Show it right away if it matches what the user is browsing
+            const { listingSearch } = stateRef.current;
+            if (listingSearch.filters && !listingSearch.results.some(l => l.id === listingWithId.id)) {
+              const searchListing = normalizeListing(listing);
+              if (matchesListingSearch(searchListing, resolveListingVehicle(searchListing), listingSearch.filters)) {
+                dispatch({
+                  type: 'SET_LISTING_SEARCH',
+                  payload: { results: [searchListing, ...listingSearch.results], total: listingSearch.total + 1 }
+                });
+              }
+            }
             
             // Check if listing already exists to prevent duplicates
             const listingExists = stateRef.current.allListings.some(l => l.id === listingWithId.id);
@@ -632,12 +892,58 @@ export function AppProvider({ children }: AppProviderProps) {
               }
             } else {
               console.log('📋 Not adding to user\'s own listings - different seller');
+
+              // 🔔 SAVED SEARCHES: Alert the user when someone else lists a matching vehicle
+              const vehicle = resolveListingVehicle(listingWithId, stateRef.current.vehicles);
+              const matchingSearch = stateRef.current.savedSearches.find(search =>
+                matchesListingSearch(listingWithId, vehicle, search)
+              );
+              if (matchingSearch) {
+                addNotificationWithDeduplication({
+                  type: 'info',
+                  title: `New match for "${matchingSearch.name}"`,
+                  message: `${listingWithId.title} - $${listingWithId.price.toLocaleString()}`,
+                  duration: 10000,
+                  actionLabel: 'View Listing',
+                  onAction: () => navigate(routes.listing(listingWithId.id)),
+                  data: { listingId: listingWithId.id, savedSearchId: matchingSearch.id }
+                });
+              }
             }
           },
 
           onListingUpdated: (listingData) => {
             console.log('📋 Real-time: Listing updated:', listingData.title);
             const listing = normalizeListing(listingData);
+            const previousListing = stateRef.current.allListings.find(l => l.id === listing.id);
+
+            // 👀 WATCHLIST: Tell watchers about price drops and listings going away
+            if (stateRef.current.watchlist.listingIds.includes(listing.id) && listing.sellerId !== stateRef.current.currentUser?.id) {
+              const lastPriceChange = [...(listing.history || [])].reverse().find(h => h.type === 'price_change');
+              const priceDropped = !!lastPriceChange &&
+                Number(lastPriceChange.newValue) < Number(lastPriceChange.oldValue) &&
+                (!previousListing || previousListing.price !== listing.price);
+
+              if (previousListing?.isActive !== false && !listing.isActive) {
+                addNotificationWithDeduplication({
+                  type: 'warning',
+                  title: 'Watched listing ended',
+                  message: `${listing.title} is no longer available.`,
+                  duration: 8000,
+                  data: { listingId: listing.id }
+                });
+              } else if (priceDropped) {
+                addNotificationWithDeduplication({
+                  type: 'info',
+                  title: 'Price drop on a watched listing',
+                  message: `${listing.title} dropped from $${Number(lastPriceChange!.oldValue).toLocaleString()} to $${listing.price.toLocaleString()}.`,
+                  duration: 10000,
+                  actionLabel: 'View Listing',
+                  onAction: () => navigate(routes.listing(listing.id)),
+                  data: { listingId: listing.id }
+                });
+              }
+            }
             
             // Update in all listings - use stateRef to get current state
             const updatedAllListings = stateRef.current.allListings.map(l => 
@@ -645,6 +951,22 @@ export function AppProvider({ children }: AppProviderProps) {
             );
             dispatch({ type: 'SET_ALL_LISTINGS', payload: updatedAllListings });
 
+            // Keep listing cards in chat current, including listings that left the marketplace
+            if (stateRef.current.messageListings[listing.id]) {
+              dispatch({ type: 'CACHE_MESSAGE_LISTING', payload: listing });
+            }
+
+            // Update search results, dropping listings that are no longer active
+            const { listingSearch } = stateRef.current;
+            if (listingSearch.results.some(l => l.id === listing.id)) {
+              dispatch({
+                type: 'SET_LISTING_SEARCH',
+                payload: listing.isActive
+                  ? { results: listingSearch.results.map(l => l.id === listing.id ? listing : l) }
+                  : { results: listingSearch.results.filter(l => l.id !== listing.id), total: Math.max(0, listingSearch.total - 1) }
+              });
+            }
+
             // Update in user's own listings if it's theirs - handle both string ID and populated object
             if (listing.sellerId === stateRef.current.currentUser?.id) {
               dispatch({ type: 'UPDATE_LISTING', payload: listing });
@@ -666,11 +988,36 @@ export function AppProvider({ children }: AppProviderProps) {
 
           onListingDeleted: (listingId) => {
             console.log('📋 Real-time: Listing deleted:', listingId);
+
+            // 👀 WATCHLIST: The backend already dropped it from our watchlist
+            const { watchlist } = stateRef.current;
+            if (watchlist.listingIds.includes(listingId)) {
+              const deletedListing = stateRef.current.allListings.find(l => l.id === listingId);
+              addNotificationWithDeduplication({
+                type: 'warning',
+                title: 'Watched listing removed',
+                message: deletedListing ? `${deletedListing.title} was taken down by the seller.` : 'A listing you were watching was taken down.',
+                duration: 8000,
+                data: { listingId }
+              });
+              dispatch({
+                type: 'SET_WATCHLIST',
+                payload: { ...watchlist, listingIds: watchlist.listingIds.filter(id => id !== listingId) }
+              });
+            }
             
             // Remove from all listings - use stateRef to get current state
             const updatedAllListings = stateRef.current.allListings.filter(l => l.id !== listingId);
             dispatch({ type: 'SET_ALL_LISTINGS', payload: updatedAllListings });
 
+            const { listingSearch } = stateRef.current;
+            if (listingSearch.results.some(l => l.id === listingId)) {
+              dispatch({
+                type: 'SET_LISTING_SEARCH',
+                payload: { results: listingSearch.results.filter(l => l.id !== listingId), total: Math.max(0, listingSearch.total - 1) }
+              });
+            }
+
             // Remove from user's own listings
             dispatch({ type: 'DELETE_LISTING', payload: listingId });
           },
@@ -704,25 +1051,69 @@ export function AppProvider({ children }: AppProviderProps) {
 
               const previousTrade = stateRef.current.trades.find(t => t.id === trade.id);
 
-              if (previousTrade && previousTrade.status !== trade.status && otherUser) {
-                switch (trade.status) {
-                  case 'accepted':
+              // Counter-counters keep the status, so compare against the last counter too
+              const event = previousTrade && getTradeEventForStatus(previousTrade.status, trade.status);
+
+              if (event && otherUser && (previousTrade!.status !== trade.status || previousTrade!.lastCounteredBy !== trade.lastCounteredBy)) {
+                switch (event) {
+                  case 'accept':
                     showSuccess('Trade Accepted!', `Your trade with @${otherUser.username} was accepted.`);
                     break;
-                  case 'countered':
+                  case 'counter':
                     if (trade.lastCounteredBy !== stateRef.current.currentUser?.id) {
                        showInfo('Trade Countered', `@${otherUser.username} sent a counter offer.`);
                     }
                     break;
-                  case 'cancelled':
-                  case 'rejected':
+                  case 'cancel':
+                  case 'reject':
                     showError('Trade Declined', `Your trade with @${otherUser.username} was declined.`);
                     break;
+                  case 'expire':
+                    showWarning('Trade Expired', `Your trade with @${otherUser.username} expired without a response.`);
+                    break;
                 }
               }
+
+              // Let each side know when the other ticks off a hand-over step
+              const newChecklistEntries = previousTrade
+                ? (trade.completionChecklist || []).slice(previousTrade.completionChecklist?.length || 0)
+                : [];
+              newChecklistEntries
+                .filter(entry => entry.userId === otherUserId)
+                .forEach(entry => {
+                  showInfo('Checklist Updated', `@${otherUser?.username || 'The other party'} confirmed: ${TRADE_CHECKLIST_ITEMS[entry.item]}.`);
+                });
             }
           },
 
+          onTradeExpiring: (tradeData) => {
+            const trade = normalizeTrade(tradeData);
+            const currentUserId = stateRef.current.currentUser?.id;
+            console.log('⏰ Real-time: Trade expiring soon:', trade.id);
+
+            if (trade.offererUserId !== currentUserId && trade.receiverUserId !== currentUserId) return;
+
+            dispatch({ type: 'UPDATE_TRADE', payload: trade });
+
+            const otherUserId = trade.offererUserId === currentUserId ? trade.receiverUserId : trade.offererUserId;
+            const otherUser = stateRef.current.users.find(u => u.id === otherUserId);
+            const hoursLeft = trade.expiresAt
+              ? Math.max(1, Math.round((new Date(trade.expiresAt).getTime() - Date.now()) / (60 * 60 * 1000)))
+              : null;
+
+            addNotificationWithDeduplication({
+              type: 'trade',
+              title: otherUser ? `Trade with @${otherUser.username} expires soon` : 'Trade offer expires soon',
+              message: hoursLeft ? `Respond within ${hoursLeft}h or the offer lapses.` : undefined,
+              duration: 10000,
+              actionLabel: 'View Trade',
+              onAction: () => {
+                navigate(routes.trade(trade.id));
+              },
+              data: { trade }
+            });
+          },
+
           onTradeCompleted: (trade) => {
             console.log('🔄 Real-time: Trade completed:', trade.id);
             const tradeWithId = { ...trade, id: trade._id || trade.id };
@@ -751,6 +1142,9 @@ export function AppProvider({ children }: AppProviderProps) {
                   const listingsWithId = listingsResponse.listings.map((listing: any) => ({ ...listing, id: listing._id || listing.id }));
                   dispatch({ type: 'SET_ALL_LISTINGS', payload: listingsWithId });
                   console.log('✅ Marketplace updated after trade completion');
+
+                  const sales = await ApiService.getMySales();
+                  dispatch({ type: 'SET_SALES', payload: sales.map(normalizeSale) });
                   
                   // Show success notification
                   showSuccess('Trade Completed!', 'Vehicle ownership has been transferred successfully.');
@@ -824,12 +1218,10 @@ export function AppProvider({ children }: AppProviderProps) {
                     addNotificationWithDeduplication({
                       type: 'message',
                       title: `New message from @${senderUser.username}`,
-                      message: messageWithId.content.length > 50 ? messageWithId.content.substring(0, 50) + '...' : messageWithId.content,
+                      message: getMessagePreview(messageWithId),
                       duration: 8000,
                       actionLabel: 'View',
-                      onAction: () => {
-                        setActiveTab('messages');
-                      },
+                      onAction: () => navigate(routes.conversation(senderId)),
                       data: { message: messageWithId, sender: senderUser }
                     });
                   } else {
@@ -850,6 +1242,21 @@ export function AppProvider({ children }: AppProviderProps) {
             }
           },
 
+          // ✏️ EDITS: Either side edited or unsent a message
+          onMessageUpdated: (message) => {
+            dispatch({ type: 'UPDATE_MESSAGE', payload: message });
+          },
+
+          // ✅ RECEIPTS: The other side received or read our messages
+          onMessagesDelivered: ({ messageIds, deliveredAt }) => {
+            dispatch({ type: 'APPLY_MESSAGE_RECEIPTS', payload: { messageIds, deliveredAt } });
+          },
+
+          onMessagesRead: ({ messageIds, readAt }) => {
+            console.log(`👀 Real-time: ${messageIds.length} message(s) read`);
+            dispatch({ type: 'APPLY_MESSAGE_RECEIPTS', payload: { messageIds, readAt } });
+          },
+
           // 🚗 VEHICLE UPDATES
           onVehicleAdded: (vehicle, userId) => {
             console.log('🚗 Real-time: New vehicle added by user:', userId);
@@ -871,6 +1278,177 @@ export function AppProvider({ children }: AppProviderProps) {
             }
           },
 
+          // 🔨 AUCTION UPDATES
+          onBidPlaced: (auctionData, previousHighestBidderId) => {
+            const auction = normalizeAuction(auctionData);
+            const currentUserId = stateRef.current.currentUser?.id;
+            console.log('🔨 Real-time: Bid placed on auction:', auction.id, auction.currentBid);
+
+            const auctionExists = stateRef.current.auctions.some(a => a.id === auction.id);
+            dispatch({ type: auctionExists ? 'UPDATE_AUCTION' : 'ADD_AUCTION', payload: auction });
+
+            if (!currentUserId) return;
+
+            if (previousHighestBidderId === currentUserId && auction.highestBidderId !== currentUserId) {
+              addNotificationWithDeduplication({
+                type: 'auction',
+                title: `You've been outbid on ${auction.title}`,
+                message: `The current bid is now $${auction.currentBid.toLocaleString()}.`,
+                duration: 10000,
+                actionLabel: 'Bid Again',
+                onAction: () => setActiveTab('auctions'),
+                data: { auction }
+              });
+            } else if (auction.sellerId === currentUserId) {
+              addNotificationWithDeduplication({
+                type: 'auction',
+                title: `New bid on ${auction.title}`,
+                message: `Current bid: $${auction.currentBid.toLocaleString()}`,
+                duration: 8000,
+                actionLabel: 'View',
+                onAction: () => setActiveTab('auctions'),
+                data: { auction }
+              });
+            }
+          },
+
+          onAuctionExtended: (auctionData) => {
+            const auction = normalizeAuction(auctionData);
+            const currentUserId = stateRef.current.currentUser?.id;
+            console.log('🔨 Real-time: Auction extended:', auction.id, auction.endTime);
+
+            const auctionExists = stateRef.current.auctions.some(a => a.id === auction.id);
+            dispatch({ type: auctionExists ? 'UPDATE_AUCTION' : 'ADD_AUCTION', payload: auction });
+
+            const isInvolved = auction.sellerId === currentUserId || auction.bids.some(b => b.bidderId === currentUserId);
+            if (currentUserId && isInvolved) {
+              addNotificationWithDeduplication({
+                type: 'auction',
+                title: `${auction.title} was extended`,
+                message: `Bidding now ends at ${new Date(auction.endTime).toLocaleTimeString()}.`,
+                duration: 8000,
+                data: { auction }
+              });
+            }
+          },
+
+          onAuctionEnded: (auctionData) => {
+            const auction = normalizeAuction(auctionData);
+            const currentUserId = stateRef.current.currentUser?.id;
+            console.log('🔨 Real-time: Auction ended:', auction.id, auction.status);
+
+            const previousAuction = stateRef.current.auctions.find(a => a.id === auction.id);
+            if (!previousAuction) return;
+
+            dispatch({ type: 'UPDATE_AUCTION', payload: auction });
+
+            if (!currentUserId || auction.status === 'cancelled') return;
+
+            // Winner and seller see the vehicle change hands and a new sale
+            if (auction.winnerId === currentUserId || auction.sellerId === currentUserId) {
+              const reloadAfterSettlement = async () => {
+                try {
+                  const [vehicles, sales] = await Promise.all([
+                    ApiService.getUserVehicles(),
+                    ApiService.getMySales()
+                  ]);
+                  dispatch({ type: 'SET_VEHICLES', payload: vehicles.map((v: any) => ({ ...v, id: v._id || v.id })) });
+                  dispatch({ type: 'SET_SALES', payload: sales.map(normalizeSale) });
+                  console.log('✅ Garage and sales updated after auction settlement');
+                } catch (error) {
+                  console.error('❌ Error reloading data after auction settlement:', error);
+                }
+              };
+              reloadAfterSettlement();
+            }
+
+            if (auction.winnerId === currentUserId) {
+              addNotificationWithDeduplication({
+                type: 'auction',
+                title: `You won ${auction.title}!`,
+                message: auction.finalPrice ? `Final price: $${auction.finalPrice.toLocaleString()}` : undefined,
+                duration: 0,
+                data: { auction }
+              });
+            } else if (auction.sellerId === currentUserId) {
+              addNotificationWithDeduplication({
+                type: 'auction',
+                title: `Your auction for ${auction.title} has ended`,
+                message: auction.status === 'completed' && auction.finalPrice
+                  ? `Sold for $${auction.finalPrice.toLocaleString()}.`
+                  : 'The auction closed without a winning bid.',
+                duration: 0,
+                data: { auction }
+              });
+            } else if (previousAuction.bids.some(b => b.bidderId === currentUserId)) {
+              addNotificationWithDeduplication({
+                type: 'auction',
+                title: `Auction ended: ${auction.title}`,
+                message: 'You did not win this auction.',
+                duration: 8000,
+                data: { auction }
+              });
+            }
+          },
+
+          // 💵 OFFERS
+          onOfferCreated: (offerData) => {
+            const offer = normalizeOffer(offerData);
+            console.log('💵 Real-time: Offer created:', offer.id, offer.amount);
+
+            dispatch({ type: 'UPSERT_OFFER', payload: offer });
+
+            if (offer.sellerId === stateRef.current.currentUser?.id) {
+              const vehicleName = offer.vehicle ? `${offer.vehicle.year} ${offer.vehicle.make} ${offer.vehicle.model}` : 'your listing';
+              addNotificationWithDeduplication({
+                type: 'trade',
+                title: `New offer on ${vehicleName}`,
+                message: `@${offer.buyer?.username || 'A buyer'} offered $${offer.amount.toLocaleString()}.`,
+                duration: 0,
+                actionLabel: 'View Offer',
+                onAction: () => navigate(routes.listing(offer.listingId)),
+                data: { offer }
+              });
+            }
+          },
+
+          onOfferUpdated: (offerData) => {
+            const offer = normalizeOffer(offerData);
+            const currentUserId = stateRef.current.currentUser?.id;
+            console.log('💵 Real-time: Offer updated:', offer.id, offer.status);
+
+            dispatch({ type: 'UPSERT_OFFER', payload: offer });
+
+            // Only tell the side that didn't make this move
+            const lastEntry = offer.history[offer.history.length - 1];
+            if (!currentUserId || !lastEntry || lastEntry.userId === currentUserId) return;
+
+            const otherUsername = currentUserId === offer.sellerId ? offer.buyer?.username : offer.seller?.username;
+            const amount = `$${offer.amount.toLocaleString()}`;
+            const titles: Record<string, string> = {
+              countered: `@${otherUsername || 'The other party'} countered at ${amount}`,
+              accepted: `Your offer of ${amount} was accepted`,
+              declined: `Your offer of ${amount} was declined`,
+              withdrawn: `@${otherUsername || 'The buyer'} withdrew their ${amount} offer`,
+              expired: `An offer of ${amount} expired`
+            };
+            if (!titles[lastEntry.action]) return;
+
+            if (lastEntry.action === 'accepted') {
+              loadSales();
+            }
+
+            addNotificationWithDeduplication({
+              type: 'trade',
+              title: titles[lastEntry.action],
+              message: lastEntry.message || undefined,
+              duration: lastEntry.action === 'countered' || lastEntry.action === 'accepted' ? 0 : 8000,
+              actionLabel: 'View Listing',
+              onAction: () => navigate(routes.listing(offer.listingId)),
+              data: { offer }
+            });
+          },
+
           // 🔗 CONNECTION STATUS
           onConnectionChange: (connected) => {
             console.log(connected ? '✅ WebSocket connected' : '❌ WebSocket disconnected');
@@ -899,7 +1477,7 @@ export function AppProvider({ children }: AppProviderProps) {
         webSocketService.disconnect();
       }
     };
-  }, [state.currentUser, state.isAuthenticated, activeTab, addNotificationWithDeduplication, setActiveTab]);
+  }, [state.currentUser, state.isAuthenticated, activeTab, addNotificationWithDeduplication, setActiveTab, navigate]);
 
   // Disconnect WebSocket on logout
   useEffect(() => {
@@ -1004,6 +1582,18 @@ export function AppProvider({ children }: AppProviderProps) {
             typeof v === 'object' ? (v._id || v.id) : v
           );
         }
+
+        if (trade.requestedVehicleIds && Array.isArray(trade.requestedVehicleIds)) {
+          // Store the populated vehicle objects for later reference
+          trade.requestedVehicleObjects = trade.requestedVehicleIds.filter((v: any) => 
+            typeof v === 'object' && v.make
+          ).map((v: any) => ({ ...v, id: v._id || v.id }));
+          
+          // Convert to IDs for consistency
+          trade.requestedVehicleIds = trade.requestedVehicleIds.map((v: any) => 
+            typeof v === 'object' ? (v._id || v.id) : v
+          );
+        }
         
         // Handle populated user objects - extract user data before converting to IDs
         if (trade.offererUserId && typeof trade.offererUserId === 'object') {
@@ -1035,6 +1625,12 @@ export function AppProvider({ children }: AppProviderProps) {
       dispatch({ type: 'SET_VEHICLES', payload: vehiclesWithId });
       dispatch({ type: 'SET_LISTINGS', payload: listingsWithId });
       dispatch({ type: 'SET_TRADES', payload: tradesWithId });
+
+      // Sales history, offers, saved searches and the watchlist aren't needed for first paint, so don't block on them
+      loadSales();
+      loadOffers();
+      loadSavedSearches();
+      loadWatchlist();
       
       console.log('👥 Extracted users from initial trades:', usersFromTrades.map(u => ({ id: u.id, username: u.username })));
       
@@ -1119,6 +1715,18 @@ export function AppProvider({ children }: AppProviderProps) {
             typeof v === 'object' ? (v._id || v.id) : v
           );
         }
+
+        if (trade.requestedVehicleIds && Array.isArray(trade.requestedVehicleIds)) {
+          // Store the populated vehicle objects for later reference
+          trade.requestedVehicleObjects = trade.requestedVehicleIds.filter((v: any) => 
+            typeof v === 'object' && v.make
+          ).map((v: any) => ({ ...v, id: v._id || v.id }));
+          
+          // Convert to IDs for consistency
+          trade.requestedVehicleIds = trade.requestedVehicleIds.map((v: any) => 
+            typeof v === 'object' ? (v._id || v.id) : v
+          );
+        }
         
         // Handle populated user objects - extract user data before converting to IDs
         if (trade.offererUserId && typeof trade.offererUserId === 'object') {
@@ -1336,6 +1944,68 @@ export function AppProvider({ children }: AppProviderProps) {
     }
   }, [listingsCache.data, listingsCache.timestamp, listingsCache.ttl, loadUsersIfNeeded, loadingStates.allListings, state.currentUser?.id, state.vehicles]);
 
+  // Only the latest search may write results, so fast typing can't show stale pages
+  const searchRequestRef = useRef(0);
+
+  const searchListings = useCallback(async (filters: ListingSearchFilters) => {
+    const requestId = ++searchRequestRef.current;
+    dispatch({ type: 'SET_LISTING_SEARCH', payload: { filters, loading: true } });
+
+    try {
+      const response = await ApiService.getAllListings({ ...toListingQuery(filters), limit: LISTING_PAGE_SIZE });
+      if (requestId !== searchRequestRef.current) return;
+
+      dispatch({
+        type: 'SET_LISTING_SEARCH',
+        payload: {
+          results: response.listings.map(normalizeSearchListing),
+          facets: response.facets,
+          total: response.pagination.total,
+          nextCursor: response.pagination.nextCursor,
+          loading: false
+        }
+      });
+    } catch (error) {
+      console.error('Error searching listings:', error);
+      if (requestId === searchRequestRef.current) {
+        dispatch({ type: 'SET_LISTING_SEARCH', payload: { loading: false } });
+      }
+    }
+  }, []);
+
+  const loadMoreListings = useCallback(async () => {
+    const { filters, nextCursor, loading } = stateRef.current.listingSearch;
+    if (!filters || !nextCursor || loading) return;
+
+    const requestId = ++searchRequestRef.current;
+    dispatch({ type: 'SET_LISTING_SEARCH', payload: { loading: true } });
+
+    try {
+      const response = await ApiService.getAllListings({ ...toListingQuery(filters), cursor: nextCursor, limit: LISTING_PAGE_SIZE });
+      if (requestId !== searchRequestRef.current) return;
+
+      // Live updates may have already added some of these
+      const existing = stateRef.current.listingSearch.results;
+      const newListings = response.listings
+        .map(normalizeSearchListing)
+        .filter(listing => !existing.some(l => l.id === listing.id));
+
+      dispatch({
+        type: 'SET_LISTING_SEARCH',
+        payload: {
+          results: [...existing, ...newListings],
+          nextCursor: response.pagination.nextCursor,
+          loading: false
+        }
+      });
+    } catch (error) {
+      console.error('Error loading more listings:', error);
+      if (requestId === searchRequestRef.current) {
+        dispatch({ type: 'SET_LISTING_SEARCH', payload: { loading: false } });
+      }
+    }
+  }, []);
+
   // Memoize other frequently used functions
   const login = useCallback(async (username: string, password: string, rememberMe: boolean = false) => {
     try {
@@ -1375,7 +2045,7 @@ export function AppProvider({ children }: AppProviderProps) {
     setActiveTab('garage');
     // Clear cache on logout
     setListingsCache({ data: [], timestamp: 0, ttl: 30000 });
-  }, []);
+  }, [setActiveTab]);
 
   const register = useCallback(async (userData: Omit<User, 'id' | 'createdAt'>) => {
     try {
@@ -1428,6 +2098,7 @@ export function AppProvider({ children }: AppProviderProps) {
       
     } catch (error) {
       console.error('Error adding vehicle:', error);
+      throw error;
     }
   };
 
@@ -1460,6 +2131,7 @@ export function AppProvider({ children }: AppProviderProps) {
       
     } catch (error) {
       console.error('Error updating vehicle:', error);
+      throw error;
     }
   };
 
@@ -1528,6 +2200,13 @@ export function AppProvider({ children }: AppProviderProps) {
         dispatch({ type: 'SET_ALL_LISTINGS', payload: updatedAllListings });
         console.log('📋 Listing updated in marketplace');
       }
+
+      if (state.listingSearch.results.some(l => l.id === listing.id)) {
+        dispatch({
+          type: 'SET_LISTING_SEARCH',
+          payload: { results: state.listingSearch.results.map(l => l.id === listing.id ? listing : l) }
+        });
+      }
       
       // 🚗 SMART UPDATE: Update vehicle listing status
       const vehicle = state.vehicles.find(v => v.id === listing.vehicleId);
@@ -1582,6 +2261,16 @@ export function AppProvider({ children }: AppProviderProps) {
         dispatch({ type: 'SET_ALL_LISTINGS', payload: updatedAllListings });
         console.log('📋 Listing removed from marketplace');
       }
+
+      if (state.listingSearch.results.some(l => l.id === listingId)) {
+        dispatch({
+          type: 'SET_LISTING_SEARCH',
+          payload: {
+            results: state.listingSearch.results.filter(l => l.id !== listingId),
+            total: Math.max(0, state.listingSearch.total - 1)
+          }
+        });
+      }
       
       showSuccess('Listing Removed', 'Your listing has been taken off the marketplace.');
       console.log('✅ Listing deleted with smart updates - no API refresh needed');
@@ -1636,6 +2325,259 @@ export function AppProvider({ children }: AppProviderProps) {
     }
   };
 
+  const loadAuctions = useCallback(async () => {
+    try {
+      const auctions = await ApiService.getAllAuctions();
+      dispatch({ type: 'SET_AUCTIONS', payload: auctions.map(normalizeAuction) });
+      console.log('🔨 Auctions loaded:', auctions.length);
+    } catch (error) {
+      console.error('Error loading auctions:', error);
+    }
+  }, []);
+
+  const loadSales = useCallback(async () => {
+    try {
+      const sales = await ApiService.getMySales();
+      dispatch({ type: 'SET_SALES', payload: sales.map(normalizeSale) });
+    } catch (error) {
+      console.error('Error loading sales:', error);
+    }
+  }, []);
+
+  const getUserSales = useCallback(async (userId: string): Promise<Sale[]> => {
+    try {
+      const sales = await ApiService.getUserSales(userId);
+      return sales.map(normalizeSale);
+    } catch (error) {
+      console.error('Error getting user sales:', error);
+      return [];
+    }
+  }, []);
+
+  const loadOffers = useCallback(async () => {
+    try {
+      const offers = await ApiService.getMyOffers();
+      dispatch({ type: 'SET_OFFERS', payload: offers.map(normalizeOffer) });
+    } catch (error) {
+      console.error('Error loading offers:', error);
+    }
+  }, []);
+
+  const makeOffer = async (listingId: string, amount: number, message?: string, expiresInHours?: number) => {
+    try {
+      const offer = normalizeOffer(await ApiService.makeOffer({ listingId, amount, message, expiresInHours }));
+      dispatch({ type: 'UPSERT_OFFER', payload: offer });
+      showSuccess('Offer Sent', `Your offer of $${offer.amount.toLocaleString()} was sent to the seller.`);
+    } catch (error) {
+      console.error('Error making offer:', error);
+      showError('Offer Failed', error instanceof Error ? error.message : 'There was a problem sending your offer.');
+      throw error;
+    }
+  };
+
+  const respondToOffer = async (
+    offerId: string,
+    response: OfferResponse,
+    counter?: { amount: number; message?: string; expiresInHours?: number }
+  ) => {
+    try {
+      const offer = normalizeOffer(await ApiService.respondToOffer(offerId, response, counter));
+      dispatch({ type: 'UPSERT_OFFER', payload: offer });
+
+      switch (response) {
+        case 'accept': {
+          // 💰 The listing is sold - refresh the garage and the sales ledger
+          const vehicles = await ApiService.getUserVehicles();
+          dispatch({ type: 'SET_VEHICLES', payload: vehicles.map((v: any) => ({ ...v, id: v._id || v.id })) });
+          await loadSales();
+          showSuccess('Offer Accepted', `Agreed at $${offer.amount.toLocaleString()}. The listing is now marked as sold.`);
+          break;
+        }
+        case 'counter':
+          showSuccess('Counter Sent', `You countered at $${offer.amount.toLocaleString()}.`);
+          break;
+        case 'decline':
+          showInfo('Offer Declined', 'The other party has been notified.');
+          break;
+        case 'withdraw':
+          showInfo('Offer Withdrawn', 'Your offer has been withdrawn.');
+          break;
+      }
+    } catch (error) {
+      console.error('Error responding to offer:', error);
+      showError('Offer Update Failed', error instanceof Error ? error.message : 'There was a problem updating this offer.');
+      throw error;
+    }
+  };
+
+  const loadSavedSearches = useCallback(async () => {
+    try {
+      const searches = await ApiService.getSavedSearches();
+      dispatch({ type: 'SET_SAVED_SEARCHES', payload: searches.map(normalizeSavedSearch) });
+    } catch (error) {
+      console.error('Error loading saved searches:', error);
+    }
+  }, []);
+
+  const loadWatchlist = useCallback(async () => {
+    try {
+      const watchlist = await ApiService.getWatchlist();
+      dispatch({ type: 'SET_WATCHLIST', payload: watchlist });
+    } catch (error) {
+      console.error('Error loading watchlist:', error);
+    }
+  }, []);
+
+  const toggleWatch = async (type: WatchlistItemType, itemId: string) => {
+    const previous = state.watchlist;
+    const key = type === 'listing' ? 'listingIds' : 'auctionIds';
+    const isWatching = previous[key].includes(itemId);
+
+    // ⚡ Optimistic update so the heart responds immediately
+    dispatch({
+      type: 'SET_WATCHLIST',
+      payload: {
+        ...previous,
+        [key]: isWatching ? previous[key].filter(id => id !== itemId) : [...previous[key], itemId]
+      }
+    });
+
+    try {
+      const watchlist = isWatching
+        ? await ApiService.removeFromWatchlist(type, itemId)
+        : await ApiService.addToWatchlist(type, itemId);
+      dispatch({ type: 'SET_WATCHLIST', payload: watchlist });
+    } catch (error) {
+      console.error('Error updating watchlist:', error);
+      dispatch({ type: 'SET_WATCHLIST', payload: previous });
+      showError('Watchlist Failed', error instanceof Error ? error.message : 'There was a problem updating your watchlist.');
+    }
+  };
+
+  const saveSearch = async (name: string, filters: ListingSearchFilters) => {
+    try {
+      const search = normalizeSavedSearch(await ApiService.createSavedSearch(name, filters));
+      dispatch({ type: 'ADD_SAVED_SEARCH', payload: search });
+      showSuccess('Search Saved', `We'll let you know when new listings match "${search.name}".`);
+    } catch (error) {
+      console.error('Error saving search:', error);
+      showError('Save Failed', error instanceof Error ? error.message : 'There was a problem saving your search.');
+      throw error;
+    }
+  };
+
+  const deleteSavedSearch = async (searchId: string) => {
+    try {
+      await ApiService.deleteSavedSearch(searchId);
+      dispatch({ type: 'REMOVE_SAVED_SEARCH', payload: searchId });
+    } catch (error) {
+      console.error('Error deleting saved search:', error);
+      showError('Delete Failed', error instanceof Error ? error.message : 'There was a problem deleting your saved search.');
+    }
+  };
+
+  const addAuction = async (auctionData: {
+    vehicleId: string;
+    title: string;
+    description?: string;
+    startingBid: number;
+    buyNowPrice?: number;
+    reservePrice?: number;
+    durationDays: number;
+    softCloseMinutes?: number;
+  }) => {
+    try {
+      const auction = normalizeAuction(await ApiService.createAuction(auctionData));
+
+      // 🚗 SMART UPDATE: Update vehicle to mark as auctioned immediately (this affects garage view)
+      const vehicle = state.vehicles.find(v => v.id === auctionData.vehicleId);
+      if (vehicle) {
+        const updatedVehicle: Vehicle = {
+          ...vehicle,
+          isAuctioned: true,
+          auctionId: auction.id,
+          updatedAt: new Date().toISOString(),
+        };
+        dispatch({ type: 'UPDATE_VEHICLE', payload: updatedVehicle });
+        console.log('🚗 Vehicle marked as auctioned in garage');
+      }
+
+      dispatch({ type: 'ADD_AUCTION', payload: auction });
+
+      showSuccess('Auction Started', 'Your vehicle is now up for auction.');
+    } catch (error) {
+      console.error('Error creating auction:', error);
+      showError('Auction Failed', error instanceof Error ? error.message : 'There was a problem creating your auction.');
+      throw error; // Re-throw so UI can show the error
+    }
+  };
+
+  const placeBid = async (auctionId: string, amount?: number, maxBid?: number) => {
+    try {
+      const auction = normalizeAuction(await ApiService.placeBid(auctionId, amount, maxBid));
+      dispatch({ type: 'UPDATE_AUCTION', payload: auction });
+
+      // A competing proxy may have answered immediately
+      if (auction.highestBidderId === state.currentUser?.id) {
+        showSuccess('Bid Placed', `You are the highest bidder at $${auction.currentBid.toLocaleString()}.`);
+      } else {
+        showWarning('Outbid', `Another bidder's maximum beat yours. Current bid: $${auction.currentBid.toLocaleString()}.`);
+      }
+    } catch (error) {
+      console.error('Error placing bid:', error);
+      showError('Bid Failed', error instanceof Error ? error.message : 'There was a problem placing your bid.');
+      throw error;
+    }
+  };
+
+  const buyNowAuction = async (auctionId: string) => {
+    try {
+      const auction = normalizeAuction(await ApiService.buyNowAuction(auctionId));
+      dispatch({ type: 'UPDATE_AUCTION', payload: auction });
+
+      // 🚗 The vehicle is ours now - refresh the garage and purchase history
+      const vehicles = await ApiService.getUserVehicles();
+      dispatch({ type: 'SET_VEHICLES', payload: vehicles.map((v: any) => ({ ...v, id: v._id || v.id })) });
+      await loadSales();
+
+      showSuccess('Purchase Complete', `${auction.title} is now in your garage.`);
+    } catch (error) {
+      console.error('Error buying auction:', error);
+      showError('Purchase Failed', error instanceof Error ? error.message : 'There was a problem completing your purchase.');
+      throw error;
+    }
+  };
+
+  const cancelAuction = async (auctionId: string) => {
+    try {
+      const auctionToCancel = state.auctions.find(a => a.id === auctionId);
+
+      await ApiService.cancelAuction(auctionId);
+
+      dispatch({ type: 'REMOVE_AUCTION', payload: auctionId });
+
+      // 🚗 SMART UPDATE: Release the vehicle back to the garage
+      const vehicle = state.vehicles.find(v =>
+        v.auctionId === auctionId || (auctionToCancel && v.id === auctionToCancel.vehicleId)
+      );
+      if (vehicle) {
+        const updatedVehicle: Vehicle = {
+          ...vehicle,
+          isAuctioned: false,
+          auctionId: undefined,
+          updatedAt: new Date().toISOString(),
+        };
+        dispatch({ type: 'UPDATE_VEHICLE', payload: updatedVehicle });
+        console.log('🚗 Vehicle marked as not auctioned in garage');
+      }
+
+      showSuccess('Auction Removed', 'Your auction has been cancelled.');
+    } catch (error) {
+      console.error('Error cancelling auction:', error);
+      showError('Removal Failed', error instanceof Error ? error.message : 'There was a problem cancelling your auction.');
+    }
+  };
+
   const addReview = async (reviewData: Omit<Review, 'id' | 'createdAt'>) => {
     try {
       const response = await ApiService.createReview(reviewData);
@@ -1749,6 +2691,41 @@ export function AppProvider({ children }: AppProviderProps) {
     }
   };
 
+  const editMessage = async (messageId: string, content: string) => {
+    try {
+      const updated = await ApiService.editMessage(messageId, content);
+      // The WebSocket echo does the same; this covers a dropped connection
+      dispatch({ type: 'UPDATE_MESSAGE', payload: updated });
+    } catch (error) {
+      console.error('Error editing message:', error);
+      showError('Edit Failed', error instanceof Error ? error.message : 'Please try again.');
+      throw error;
+    }
+  };
+
+  const unsendMessage = async (messageId: string) => {
+    try {
+      const updated = await ApiService.unsendMessage(messageId);
+      dispatch({ type: 'UPDATE_MESSAGE', payload: updated });
+    } catch (error) {
+      console.error('Error unsending message:', error);
+      showError('Unsend Failed', error instanceof Error ? error.message : 'Please try again.');
+      throw error;
+    }
+  };
+
+  // Fetch a listing a chat message points at when it isn't already loaded
+  const loadMessageListing = async (listingId: string) => {
+    if (state.allListings.some(l => l.id === listingId) || state.messageListings[listingId]) return;
+
+    try {
+      const listing = await ApiService.getListing(listingId);
+      dispatch({ type: 'CACHE_MESSAGE_LISTING', payload: normalizeListing(listing) });
+    } catch (error) {
+      console.error('Error loading listing for message:', error);
+    }
+  };
+
   const markMessagesAsRead = async (conversationId: string) => {
     if (!state.currentUser) return;
     
@@ -2131,6 +3108,9 @@ export function AppProvider({ children }: AppProviderProps) {
         
         dispatch({ type: 'SET_VEHICLES', payload: updatedVehicles });
         
+        // The backend records a sale when a listed vehicle is traded away
+        loadSales();
+        
         // 📋 REMOVE FROM LISTINGS: Remove traded vehicles from all listings
         if (state.allListings.length > 0) {
           const allTradedVehicleIds = [...offererVehicleIds, ...receiverVehicleIds];
@@ -2194,28 +3174,42 @@ export function AppProvider({ children }: AppProviderProps) {
     }
   };
 
-  const cleanupCorruptedTrades = async () => {
-    console.log('🧹 Attempting to clean up corrupted trades...');
-      const result = await ApiService.cleanupCorruptedTrades();
-    console.log(`✅ Corrupted trades cleanup result:`, result);
-    // Optionally, reload trades after cleanup
-    await reloadTrades();
+  const confirmTradeChecklistItem = async (tradeId: string, item: TradeChecklistEntry['item']) => {
+    try {
+      const updatedTrade = await ApiService.confirmTradeChecklistItem(tradeId, item);
+      dispatch({ type: 'UPDATE_TRADE', payload: normalizeTrade(updatedTrade) });
+      console.log(`☑️ Confirmed ${item} on trade ${tradeId}`);
+    } catch (error) {
+      console.error('Error confirming checklist item:', error);
+      throw error; // Re-throw so the calling component can handle it
+    }
+  };
+
+  const bulkUpdateTrades = async (action: BulkTradeAction, tradeIds: string[]): Promise<BulkTradeResult> => {
+    try {
+      const result = await ApiService.bulkUpdateTrades(action, tradeIds);
+      console.log(`📦 Bulk ${action}: ${result.succeeded.length} succeeded, ${result.failed.length} failed`);
+      await reloadTrades();
       return result;
+    } catch (error) {
+      console.error(`Error applying bulk ${action}:`, error);
+      throw error; // Re-throw so the calling component can handle it
+    }
   };
 
-  const cleanupVehicleFlags = async () => {
+  const runIntegrityCheck = async (dryRun: boolean) => {
     try {
-      const result = await ApiService.cleanupVehicleFlags();
-      console.log('Vehicle cleanup result:', result);
-      
-      // Reload user data to reflect the cleanup
-      if (state.currentUser) {
+      const report = await ApiService.runIntegrityCheck(dryRun);
+      console.log(`🩺 Integrity check (${dryRun ? 'dry run' : 'repair'}): ${report.problems.length} problem(s)`);
+
+      // Repairs can touch the admin's own vehicles and trades
+      if (!dryRun && report.problems.some(problem => problem.repaired) && state.currentUser) {
         await loadUserData(state.currentUser.id);
       }
-      
-      return result;
+
+      return report;
     } catch (error) {
-      console.error('Error cleaning up vehicle flags:', error);
+      console.error('Error running integrity check:', error);
       throw error;
     }
   };
@@ -2311,15 +3305,15 @@ export function AppProvider({ children }: AppProviderProps) {
     addNotification({
       type: 'message',
       title: `New message from @${sender.username}`,
-      message: message.content.length > 50 ? message.content.substring(0, 50) + '...' : message.content,
+      message: getMessagePreview(message),
       duration: 8000,
       actionLabel: 'View',
       onAction: () => {
-        // Navigate to messages - this would be handled by the component using this
+        navigate(routes.conversation(sender.id));
       },
       data: { message, sender }
     });
-  }, [addNotification]);
+  }, [addNotification, navigate]);
 
   const showTradeNotification = useCallback((trade: Trade, otherUser: User) => {
     addNotification({
@@ -2329,11 +3323,11 @@ export function AppProvider({ children }: AppProviderProps) {
       duration: 10000,
       actionLabel: 'View Trade',
       onAction: () => {
-        // Navigate to trades - this would be handled by the component using this
+        navigate(routes.trade(trade.id));
       },
       data: { trade, otherUser }
     });
-  }, [addNotification]);
+  }, [addNotification, navigate]);
 
   const searchUsers = useCallback(async (query: string) => {
     // No need to search if query is too short
@@ -2382,6 +3376,41 @@ export function AppProvider({ children }: AppProviderProps) {
     }
   }, []);
 
+  const replyToReview = async (reviewId: string, comment: string) => {
+    try {
+      const updatedReview = await ApiService.replyToReview(reviewId, comment);
+      dispatch({
+        type: 'SET_REVIEWS',
+        payload: state.reviews.map(review => review.id === reviewId ? { ...review, ...updatedReview } : review)
+      });
+      showSuccess('Reply Posted', 'Your reply is now public on this review.');
+    } catch (error) {
+      console.error('Error replying to review:', error);
+      showError('Reply Failed', error instanceof Error ? error.message : 'Unable to post your reply. Please try again.');
+      throw error;
+    }
+  };
+
+  const reportReview = async (reviewId: string, reason: ReviewReportReason, details?: string) => {
+    try {
+      const { hidden } = await ApiService.reportReview(reviewId, reason, details);
+
+      // A hidden review no longer shows on the profile
+      if (hidden) {
+        dispatch({ type: 'SET_REVIEWS', payload: state.reviews.filter(review => review.id !== reviewId) });
+      }
+
+      showSuccess(
+        'Review Reported',
+        hidden ? 'The review is hidden until a moderator looks at it.' : 'Thanks, a moderator will see your report.'
+      );
+    } catch (error) {
+      console.error('Error reporting review:', error);
+      showError('Report Failed', error instanceof Error ? error.message : 'Unable to report this review. Please try again.');
+      throw error;
+    }
+  };
+
   // Memoize the context value to prevent unnecessary re-renders
   const contextValue = useMemo(() => ({
     state,
@@ -2417,16 +3446,37 @@ export function AppProvider({ children }: AppProviderProps) {
     renewListing,
     incrementListingViews,
     loadAllListings,
+    searchListings,
+    loadMoreListings,
+    loadAuctions,
+    addAuction,
+    placeBid,
+    buyNowAuction,
+    cancelAuction,
+    loadSales,
+    getUserSales,
+    loadOffers,
+    makeOffer,
+    respondToOffer,
+    loadSavedSearches,
+    saveSearch,
+    deleteSavedSearch,
+    loadWatchlist,
+    toggleWatch,
     addReview,
     submitReview,
     getUserProfile,
     sendMessage,
     markMessagesAsRead,
+    editMessage,
+    unsendMessage,
+    loadMessageListing,
     addTrade,
     updateTrade,
     deleteTrade,
-    cleanupCorruptedTrades,
-    cleanupVehicleFlags,
+    confirmTradeChecklistItem,
+    bulkUpdateTrades,
+    runIntegrityCheck,
     activeTab,
     setActiveTab,
     activeConversation,
@@ -2491,6 +3541,16 @@ export function AppProvider({ children }: AppProviderProps) {
               typeof v === 'object' ? (v._id || v.id) : v
             );
           }
+
+          if (trade.requestedVehicleIds && Array.isArray(trade.requestedVehicleIds)) {
+            trade.requestedVehicleObjects = trade.requestedVehicleIds.filter((v: any) => 
+              typeof v === 'object' && v.make
+            ).map((v: any) => ({ ...v, id: v._id || v.id }));
+            
+            trade.requestedVehicleIds = trade.requestedVehicleIds.map((v: any) => 
+              typeof v === 'object' ? (v._id || v.id) : v
+            );
+          }
           
           // Handle populated user objects
           if (trade.offererUserId && typeof trade.offererUserId === 'object') {
@@ -2587,7 +3647,9 @@ export function AppProvider({ children }: AppProviderProps) {
     searchUsers,
     loadUserReviews,
     getExistingReview,
-  }), [state, dispatch, login, logout, updateUser, addVehicle, updateVehicle, deleteVehicle, addListing, updateListing, deleteListing, renewListing, incrementListingViews, loadAllListings, addReview, getUserProfile, sendMessage, markMessagesAsRead, addTrade, updateTrade, deleteTrade, cleanupCorruptedTrades, cleanupVehicleFlags, activeTab, setActiveTab, activeConversation, setActiveConversation, reloadTrades, loadUserMessages, loadMessagesOnTabSwitch, checkForNewMessages, addNotification, removeNotification, markNotificationRead, clearAllNotifications, showSuccess, showError, showWarning, showInfo, showMessageNotification, showTradeNotification, loadAllUsers, searchUsers, loadUserReviews]);
+    replyToReview,
+    reportReview,
+  }), [state, dispatch, login, logout, updateUser, addVehicle, updateVehicle, deleteVehicle, addListing, updateListing, deleteListing, renewListing, incrementListingViews, loadAllListings, searchListings, loadMoreListings, loadAuctions, addAuction, placeBid, buyNowAuction, cancelAuction, loadSales, getUserSales, loadOffers, makeOffer, respondToOffer, loadSavedSearches, saveSearch, deleteSavedSearch, loadWatchlist, toggleWatch, addReview, getUserProfile, sendMessage, markMessagesAsRead, editMessage, unsendMessage, loadMessageListing, addTrade, updateTrade, deleteTrade, confirmTradeChecklistItem, bulkUpdateTrades, runIntegrityCheck, activeTab, setActiveTab, activeConversation, setActiveConversation, reloadTrades, loadUserMessages, loadMessagesOnTabSwitch, checkForNewMessages, addNotification, removeNotification, markNotificationRead, clearAllNotifications, showSuccess, showError, showWarning, showInfo, showMessageNotification, showTradeNotification, loadAllUsers, searchUsers, loadUserReviews, replyToReview, reportReview]);
 
   return <AppContext.Provider value={contextValue}>{children}</AppContext.Provider>;
 }
@@ -1,4 +1,4 @@
-import { User, Vehicle, Listing, Review, Trade, Message, Conversation } from '../types/index.ts';
+import { User, Vehicle, Listing, Auction, Sale, Offer, OfferResponse, SavedSearch, ListingSearchFilters, Watchlist, WatchlistItemType, ListingFacets, Review, ReviewReportReason, ReportedReview, Trade, TradeChecklistEntry, BulkTradeAction, BulkTradeResult, IntegrityReport, Message, MessageWithHistory, MessageSearchResult, Conversation } from '../types/index.ts';
 
 const API_BASE_URL = 'https://drivora.onrender.com/api';
 
@@ -101,6 +101,13 @@ class ApiService {
     });
   }
 
+  static async uploadDocument(documentBase64: string, folder: string = 'documents'): Promise<{ url: string; size: number }> {
+    return this.request<{ url: string; size: number }>('/upload/document', {
+      method: 'POST',
+      body: JSON.stringify({ document: documentBase64, folder })
+    });
+  }
+
   // Users
   static async getCurrentUser(): Promise<User> {
     return this.request<User>('/auth/me');
@@ -136,6 +143,39 @@ class ApiService {
     });
   }
 
+  static async getSavedSearches(): Promise<SavedSearch[]> {
+    return this.request<SavedSearch[]>('/users/me/saved-searches');
+  }
+
+  static async createSavedSearch(name: string, filters: ListingSearchFilters): Promise<SavedSearch> {
+    return this.request<SavedSearch>('/users/me/saved-searches', {
+      method: 'POST',
+      body: JSON.stringify({ name, ...filters })
+    });
+  }
+
+  static async deleteSavedSearch(searchId: string): Promise<{ message: string }> {
+    return this.request<{ message: string }>(`/users/me/saved-searches/${searchId}`, {
+      method: 'DELETE'
+    });
+  }
+
+  static async getWatchlist(): Promise<Watchlist> {
+    return this.request<Watchlist>('/users/me/watchlist');
+  }
+
+  static async addToWatchlist(type: WatchlistItemType, itemId: string): Promise<Watchlist> {
+    return this.request<Watchlist>(`/users/me/watchlist/${type}/${itemId}`, {
+      method: 'POST'
+    });
+  }
+
+  static async removeFromWatchlist(type: WatchlistItemType, itemId: string): Promise<Watchlist> {
+    return this.request<Watchlist>(`/users/me/watchlist/${type}/${itemId}`, {
+      method: 'DELETE'
+    });
+  }
+
   // Vehicles
   static async getUserVehicles(): Promise<Vehicle[]> {
     return this.request<Vehicle[]>('/vehicles');
@@ -204,9 +244,14 @@ class ApiService {
     maxPrice?: number;
     minYear?: number;
     maxYear?: number;
+    minMileage?: number;
+    maxMileage?: number;
+    transmission?: string;
+    ids?: string;
     tags?: string[];
     sortBy?: string;
     order?: 'asc' | 'desc';
+    cursor?: string;
     page?: number;
     limit?: number;
   }): Promise<{
@@ -217,7 +262,9 @@ class ApiService {
       total: number;
       hasNext: boolean;
       hasPrev: boolean;
+      nextCursor: string | null;
     };
+    facets: ListingFacets;
   }> {
     const searchParams = new URLSearchParams();
     
@@ -242,7 +289,9 @@ class ApiService {
         total: number;
         hasNext: boolean;
         hasPrev: boolean;
+        nextCursor: string | null;
       };
+      facets: ListingFacets;
     }>(`/listings${queryString ? `?${queryString}` : ''}`);
   }
 
@@ -299,13 +348,102 @@ class ApiService {
     });
   }
 
-  static async deactivateListing(listingId: string, soldTo?: string): Promise<{ message: string }> {
+  static async deactivateListing(listingId: string, soldPrice?: number): Promise<{ message: string }> {
     return this.request<{ message: string }>(`/listings/${listingId}/deactivate`, {
       method: 'POST',
-      body: JSON.stringify({ soldTo })
+      body: JSON.stringify({ soldPrice })
+    });
+  }
+
+  // Auctions
+  static async getAllAuctions(): Promise<Auction[]> {
+    return this.request<Auction[]>('/auctions');
+  }
+
+  static async getUserAuctions(): Promise<Auction[]> {
+    return this.request<Auction[]>('/auctions/my');
+  }
+
+  static async getAuction(auctionId: string): Promise<Auction> {
+    return this.request<Auction>(`/auctions/${auctionId}`);
+  }
+
+  static async createAuction(auctionData: {
+    vehicleId: string;
+    title: string;
+    description?: string;
+    startingBid: number;
+    buyNowPrice?: number;
+    reservePrice?: number;
+    durationDays: number;
+    softCloseMinutes?: number;
+  }): Promise<Auction> {
+    return this.request<Auction>('/auctions', {
+      method: 'POST',
+      body: JSON.stringify(auctionData)
+    });
+  }
+
+  static async placeBid(auctionId: string, amount?: number, maxBid?: number): Promise<Auction> {
+    return this.request<Auction>(`/auctions/${auctionId}/bids`, {
+      method: 'POST',
+      body: JSON.stringify({ amount, maxBid })
+    });
+  }
+
+  static async buyNowAuction(auctionId: string): Promise<Auction> {
+    return this.request<Auction>(`/auctions/${auctionId}/buy-now`, {
+      method: 'POST'
+    });
+  }
+
+  static async cancelAuction(auctionId: string): Promise<{ message: string }> {
+    return this.request<{ message: string }>(`/auctions/${auctionId}/cancel`, {
+      method: 'POST'
+    });
+  }
+
+  // Offers
+  static async getMyOffers(): Promise<Offer[]> {
+    return this.request<Offer[]>('/offers/my');
+  }
+
+  static async getListingOffers(listingId: string): Promise<Offer[]> {
+    return this.request<Offer[]>(`/offers/listing/${listingId}`);
+  }
+
+  static async makeOffer(offerData: {
+    listingId: string;
+    amount: number;
+    message?: string;
+    expiresInHours?: number;
+  }): Promise<Offer> {
+    return this.request<Offer>('/offers', {
+      method: 'POST',
+      body: JSON.stringify(offerData)
     });
   }
 
+  static async respondToOffer(
+    offerId: string,
+    response: OfferResponse,
+    counter?: { amount?: number; message?: string; expiresInHours?: number }
+  ): Promise<Offer> {
+    return this.request<Offer>(`/offers/${offerId}/${response}`, {
+      method: 'POST',
+      body: JSON.stringify(counter || {})
+    });
+  }
+
+  // Sales
+  static async getMySales(): Promise<Sale[]> {
+    return this.request<Sale[]>('/sales/my');
+  }
+
+  static async getUserSales(userId: string): Promise<Sale[]> {
+    return this.request<Sale[]>(`/sales/user/${userId}`);
+  }
+
   // Health Check
   static async healthCheck(): Promise<{ status: string; timestamp: string; uptime: number }> {
     return this.request<{ status: string; timestamp: string; uptime: number }>('/health');
@@ -323,6 +461,20 @@ class ApiService {
     });
   }
 
+  static async replyToReview(reviewId: string, comment: string): Promise<Review> {
+    return this.request<Review>(`/reviews/${reviewId}/reply`, {
+      method: 'POST',
+      body: JSON.stringify({ comment })
+    });
+  }
+
+  static async reportReview(reviewId: string, reason: ReviewReportReason, details?: string): Promise<{ message: string; hidden: boolean }> {
+    return this.request<{ message: string; hidden: boolean }>(`/reviews/${reviewId}/report`, {
+      method: 'POST',
+      body: JSON.stringify({ reason, details })
+    });
+  }
+
   static async getExistingReview(targetUserId: string): Promise<Review | null> {
     try {
       return await this.request<Review>(`/reviews/between/${targetUserId}`);
@@ -354,21 +506,42 @@ class ApiService {
     });
   }
 
+  static async confirmTradeChecklistItem(tradeId: string, item: TradeChecklistEntry['item']): Promise<Trade> {
+    return this.request<Trade>(`/trades/${tradeId}/checklist`, {
+      method: 'POST',
+      body: JSON.stringify({ item })
+    });
+  }
+
+  static async bulkUpdateTrades(action: BulkTradeAction, tradeIds: string[]): Promise<BulkTradeResult> {
+    return this.request<BulkTradeResult>('/trades/bulk', {
+      method: 'POST',
+      body: JSON.stringify({ action, tradeIds })
+    });
+  }
+
   static async deleteTrade(tradeId: string): Promise<{ message: string }> {
     return this.request<{ message: string }>(`/trades/${tradeId}`, {
       method: 'DELETE'
     });
   }
 
-  static async cleanupCorruptedTrades(): Promise<{ message: string; deletedCount: number; deletedTradeIds: string[] }> {
-    return this.request<{ message: string; deletedCount: number; deletedTradeIds: string[] }>('/trades/cleanup', {
-      method: 'DELETE'
+  // Admin
+  static async runIntegrityCheck(dryRun: boolean): Promise<IntegrityReport> {
+    return this.request<IntegrityReport>('/admin/integrity', {
+      method: 'POST',
+      body: JSON.stringify({ dryRun })
     });
   }
 
-  static async cleanupVehicleFlags(): Promise<{ message: string; cleanedCount: number }> {
-    return this.request<{ message: string; cleanedCount: number }>('/trades/cleanup-vehicles', {
-      method: 'POST'
+  static async getReportedReviews(): Promise<ReportedReview[]> {
+    return this.request<ReportedReview[]>('/admin/reviews/reported');
+  }
+
+  static async moderateReview(reviewId: string, action: 'restore' | 'remove'): Promise<{ id: string; moderationStatus: string }> {
+    return this.request<{ id: string; moderationStatus: string }>(`/admin/reviews/${reviewId}/moderate`, {
+      method: 'POST',
+      body: JSON.stringify({ action })
     });
   }
 
@@ -377,7 +550,13 @@ class ApiService {
     return this.request<Message[]>('/messages/my');
   }
 
-  static async getConversationMessages(userId: string, page: number = 1, limit: number = 20): Promise<{
+  // Pass a cursor message id to load the messages before or after it, or a window around it, instead of a page
+  static async getConversationMessages(
+    userId: string,
+    page: number = 1,
+    limit: number = 20,
+    cursor: { before?: string; after?: string; around?: string } = {}
+  ): Promise<{
     messages: Message[];
     pagination: {
       current: number;
@@ -387,6 +566,10 @@ class ApiService {
       hasPrev: boolean;
     };
   }> {
+    const params = new URLSearchParams({ page: String(page), limit: String(limit) });
+    Object.entries(cursor).forEach(([key, messageId]) => {
+      if (messageId) params.append(key, messageId);
+    });
     return this.request<{
       messages: Message[];
       pagination: {
@@ -396,7 +579,28 @@ class ApiService {
         hasNext: boolean;
         hasPrev: boolean;
       };
-    }>(`/messages/conversation/${userId}?page=${page}&limit=${limit}`);
+    }>(`/messages/conversation/${userId}?${params}`);
+  }
+
+  static async searchMessages(query: string, page: number = 1, limit: number = 20): Promise<{
+    results: MessageSearchResult[];
+    pagination: {
+      current: number;
+      pages: number;
+      total: number;
+      hasNext: boolean;
+    };
+  }> {
+    const params = new URLSearchParams({ q: query, page: String(page), limit: String(limit) });
+    return this.request<{
+      results: MessageSearchResult[];
+      pagination: {
+        current: number;
+        pages: number;
+        total: number;
+        hasNext: boolean;
+      };
+    }>(`/messages/search?${params.toString()}`);
   }
 
   static async getConversations(): Promise<Conversation[]> {
@@ -414,6 +618,23 @@ class ApiService {
     });
   }
 
+  static async editMessage(messageId: string, content: string): Promise<Message> {
+    return this.request<Message>(`/messages/${messageId}`, {
+      method: 'PUT',
+      body: JSON.stringify({ content })
+    });
+  }
+
+  static async unsendMessage(messageId: string): Promise<Message> {
+    return this.request<Message>(`/messages/${messageId}`, {
+      method: 'DELETE'
+    });
+  }
+
+  static async getMessageHistory(messageId: string): Promise<MessageWithHistory> {
+    return this.request<MessageWithHistory>(`/messages/${messageId}/history`);
+  }
+
   static async markMessagesAsRead(conversationId: string): Promise<{ message: string; count: number }> {
     return this.request<{ message: string; count: number }>(`/messages/${conversationId}/read`, {
       method: 'POST'
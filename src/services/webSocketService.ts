@@ -1,7 +1,9 @@
 interface WebSocketMessage {
   type: 'LISTING_ADDED' | 'LISTING_UPDATED' | 'LISTING_DELETED' | 
-        'TRADE_CREATED' | 'TRADE_UPDATED' | 'TRADE_COMPLETED' | 
-        'MESSAGE_RECEIVED' | 'VEHICLE_ADDED' | 'VEHICLE_UPDATED' | 
+        'TRADE_CREATED' | 'TRADE_UPDATED' | 'TRADE_COMPLETED' | 'TRADE_EXPIRING' |
+        'MESSAGE_RECEIVED' | 'MESSAGE_UPDATED' | 'MESSAGES_DELIVERED' | 'MESSAGES_READ' | 'VEHICLE_ADDED' | 'VEHICLE_UPDATED' | 
+        'BID_PLACED' | 'AUCTION_EXTENDED' | 'AUCTION_ENDED' |
+        'OFFER_CREATED' | 'OFFER_UPDATED' |
         'TYPING_START' | 'TYPING_STOP' | 'PING' | 'PONG';
   data: any;
   userId?: string;
@@ -16,9 +18,18 @@ interface WebSocketCallbacks {
   onTradeCreated?: (trade: any) => void;
   onTradeUpdated?: (trade: any) => void;
   onTradeCompleted?: (trade: any) => void;
+  onTradeExpiring?: (trade: any) => void;
   onMessageReceived?: (message: any) => void;
+  onMessageUpdated?: (message: any) => void;
+  onMessagesDelivered?: (receipt: { messageIds: string[]; receiverId: string; deliveredAt: string }) => void;
+  onMessagesRead?: (receipt: { messageIds: string[]; readerId: string; readAt: string }) => void;
   onVehicleAdded?: (vehicle: any, userId: string) => void;
   onVehicleUpdated?: (vehicle: any, userId: string) => void;
+  onBidPlaced?: (auction: any, previousHighestBidderId: string | null) => void;
+  onAuctionExtended?: (auction: any) => void;
+  onAuctionEnded?: (auction: any) => void;
+  onOfferCreated?: (offer: any) => void;
+  onOfferUpdated?: (offer: any) => void;
   onTypingStart?: (userId: string, conversationId: string) => void;
   onTypingStop?: (userId: string, conversationId: string) => void;
   onConnectionChange?: (connected: boolean) => void;
@@ -106,6 +117,9 @@ class WebSocketService {
         case 'TRADE_UPDATED':
           this.callbacks.onTradeUpdated?.(message.data);
           break;
+        case 'TRADE_EXPIRING':
+          this.callbacks.onTradeExpiring?.(message.data);
+          break;
         case 'TRADE_COMPLETED':
           this.callbacks.onTradeCompleted?.(message.data);
           break;
@@ -113,12 +127,36 @@ class WebSocketService {
           console.log('📨 WebSocket MESSAGE_RECEIVED:', message.data);
           this.callbacks.onMessageReceived?.(message.data);
           break;
+        case 'MESSAGE_UPDATED':
+          this.callbacks.onMessageUpdated?.(message.data);
+          break;
+        case 'MESSAGES_DELIVERED':
+          this.callbacks.onMessagesDelivered?.(message.data);
+          break;
+        case 'MESSAGES_READ':
+          this.callbacks.onMessagesRead?.(message.data);
+          break;
         case 'VEHICLE_ADDED':
           this.callbacks.onVehicleAdded?.(message.data, message.userId!);
           break;
         case 'VEHICLE_UPDATED':
           this.callbacks.onVehicleUpdated?.(message.data, message.userId!);
           break;
+        case 'BID_PLACED':
+          this.callbacks.onBidPlaced?.(message.data.auction, message.data.previousHighestBidderId);
+          break;
+        case 'AUCTION_EXTENDED':
+          this.callbacks.onAuctionExtended?.(message.data);
+          break;
+        case 'AUCTION_ENDED':
+          this.callbacks.onAuctionEnded?.(message.data);
+          break;
+        case 'OFFER_CREATED':
+          this.callbacks.onOfferCreated?.(message.data);
+          break;
+        case 'OFFER_UPDATED':
+          this.callbacks.onOfferUpdated?.(message.data);
+          break;
         case 'TYPING_START':
           this.callbacks.onTypingStart?.(message.data.userId, message.data.conversationId);
           break;
@@ -11,6 +11,7 @@ export interface User {
   phone?: string;
   rating?: number;
   reviewCount?: number;
+  isAdmin?: boolean;
 }
 
 export interface Vehicle {
@@ -91,6 +92,11 @@ export interface Auction {
   winnerId?: string;
   finalPrice?: number;
   status?: 'active' | 'completed' | 'failed' | 'cancelled';
+  softCloseMinutes?: number; // bids this close to the end push endTime out
+  // Virtual fields from backend
+  minimumNextBid?: number;
+  hasReserve?: boolean;
+  reserveMet?: boolean;
 }
 
 export interface Bid {
@@ -99,11 +105,13 @@ export interface Bid {
   bidderId: string;
   amount: number;
   timestamp: string;
+  isAutomatic?: boolean; // placed by the proxy engine up to the bidder's hidden max
+  triggeredExtension?: boolean; // landed in the soft-close window
 }
 
 export interface Trade {
   id: string;
-  listingId: string;
+  listingId?: string; // Missing for bundle trades made straight from the receiver's garage
   
   // Store listing data before it gets deleted
   listingData?: {
@@ -117,7 +125,7 @@ export interface Trade {
   
   offererUserId: string; // Person making the trade offer
   receiverUserId: string; // Person receiving the trade offer (listing owner)
-  status: 'pending' | 'accepted' | 'rejected' | 'completed' | 'cancelled' | 'countered' | 'pending_acceptance' | 'declined';
+  status: 'pending' | 'accepted' | 'rejected' | 'completed' | 'cancelled' | 'countered' | 'pending_acceptance' | 'declined' | 'expired';
   lastCounteredBy?: string;
   
   // Offerer's offer
@@ -128,6 +136,8 @@ export interface Trade {
   receiverCashAmount?: number; // Cash requested by receiver (can be negative if they offer cash back)
   receiverVehicleIds?: string[]; // Vehicles requested by receiver
   
+  requestedVehicleIds?: string[]; // Receiver's vehicles the offerer wants, including the listing vehicle
+  
   // Acceptance tracking
   offererAccepted?: boolean; // Has the offerer accepted the current terms
   receiverAccepted?: boolean; // Has the receiver accepted the current terms
@@ -141,17 +151,63 @@ export interface Trade {
   createdAt: string;
   updatedAt: string;
   completedAt?: string;
+  expiresAt?: string; // Deadline for the offer or counter on the table, if one was set
+  expiryReminderSentAt?: string;
+
+  // Hand-over steps each side has confirmed since the trade was accepted
+  completionChecklist?: TradeChecklistEntry[];
+
+  archivedBy?: string[]; // Parties who moved this finished trade out of their default lists
+}
+
+export type IntegrityCode =
+  | 'VEHICLE_IN_TRADE_WITHOUT_ACTIVE_TRADE'
+  | 'VEHICLE_LISTED_WITHOUT_ACTIVE_LISTING'
+  | 'VEHICLE_AUCTIONED_WITHOUT_ACTIVE_AUCTION'
+  | 'LISTING_VEHICLE_MISSING'
+  | 'TRADE_LISTING_MISSING';
+
+export interface IntegrityProblem {
+  code: IntegrityCode;
+  entity: 'vehicle' | 'listing' | 'trade';
+  entityId: string;
+  reason: string;
+  repaired: boolean;
+}
+
+export interface IntegrityReport {
+  dryRun: boolean;
+  checkedAt: string;
+  problems: IntegrityProblem[];
+  counts: Record<IntegrityCode, number>;
+}
+
+export type BulkTradeAction = 'reject' | 'cancel' | 'archive' | 'unarchive';
+
+export interface BulkTradeResult {
+  action: BulkTradeAction;
+  succeeded: string[];
+  failed: { id: string; message: string }[]; // Trades the action didn't apply to, and why
+}
+
+export interface TradeChecklistEntry {
+  role: 'offerer' | 'receiver';
+  item: 'titleTransferred' | 'keysHandedOver' | 'cashReceived' | 'inspectionDone';
+  userId: string;
+  confirmedAt: string;
 }
 
 export interface TradeHistoryItem {
   id: string;
-  action: 'created' | 'countered' | 'accepted' | 'rejected' | 'cancelled' | 'completed' | 'declined';
+  action: 'created' | 'countered' | 'accepted' | 'rejected' | 'cancelled' | 'completed' | 'declined' | 'expired' | 'checklist_confirmed';
   userId: string;
   timestamp: string;
   offererCashAmount: number;
   offererVehicleIds: string[];
   receiverCashAmount?: number;
   receiverVehicleIds?: string[];
+  requestedVehicleIds?: string[];
+  checklistItem?: TradeChecklistEntry['item'];
   message?: string;
 }
 
@@ -162,8 +218,37 @@ export interface Message {
   content: string;
   timestamp: string;
   read: boolean;
+  deliveredAt?: string; // The receiver had a live connection or loaded the message
+  readAt?: string;
   tradeId?: string;
   listingId?: string;
+  attachments?: MessageAttachment[];
+  editedAt?: string;
+  unsentAt?: string; // Content and attachments are cleared once unsent
+}
+
+export interface MessageSearchResult extends Pick<Message, 'id' | 'senderId' | 'receiverId' | 'content' | 'timestamp' | 'tradeId' | 'listingId'> {
+  conversationId: string;
+  otherUser: Pick<User, 'id' | 'username' | 'avatar'>;
+}
+
+// An earlier version of a trade-linked message, kept for dispute resolution
+export interface MessageEdit {
+  content: string;
+  attachments: MessageAttachment[];
+  action: 'edited' | 'unsent';
+  changedAt: string;
+}
+
+export interface MessageWithHistory extends Message {
+  editHistory: MessageEdit[];
+}
+
+export interface MessageAttachment {
+  url: string;
+  kind: 'image' | 'pdf';
+  name?: string;
+  size?: number; // Bytes
 }
 
 export interface Conversation {
@@ -191,12 +276,18 @@ export interface AppState {
   vehicles: Vehicle[];
   listings: Listing[]; // User's own listings for garage management
   allListings: Listing[]; // All public listings for browsing
+  messageListings: Record<string, Listing>; // Listings referenced in chat that aren't in allListings, e.g. sold ones
   auctions: Auction[];
   trades: Trade[];
   messages: Message[];
+  messageReceipts: Record<string, Pick<Message, 'deliveredAt' | 'readAt'>>; // Live receipts by message id, including ones only on older loaded pages
   conversations: Conversation[];
   reviews: Review[];
   sales: Sale[];
+  offers: Offer[]; // Offers the user made or received on listings
+  savedSearches: SavedSearch[];
+  watchlist: Watchlist;
+  listingSearch: ListingSearchState;
   users: User[];
   isAuthenticated: boolean;
   loading: boolean;
@@ -217,24 +308,139 @@ export interface Review {
   reviewer?: User; // Populated reviewer object
   reviewee?: User; // Populated reviewee object
   isUpdate?: boolean; // Flag indicating if this was an update operation
+  verified?: boolean; // A completed trade or sale connects the two users
+  reply?: ReviewReply;
+  moderationStatus?: ReviewModerationStatus;
+}
+
+export interface ReviewReply {
+  comment: string;
+  createdAt: string;
+}
+
+export type ReviewModerationStatus = 'visible' | 'pending' | 'approved' | 'removed';
+
+export type ReviewReportReason = 'abusive' | 'spam' | 'off_topic' | 'false_information' | 'other';
+
+export interface ReviewReport {
+  reporterId: { _id: string; username: string } | string;
+  reason: ReviewReportReason;
+  details?: string;
+  createdAt: string;
+}
+
+// A review hidden by a report, as the admin moderation queue sees it
+export interface ReportedReview {
+  _id: string;
+  reviewerId: { _id: string; username: string; avatar?: string };
+  revieweeId: { _id: string; username: string; avatar?: string };
+  rating: number;
+  comment: string;
+  verified?: boolean;
+  reports: ReviewReport[];
+  createdAt: string;
+  updatedAt?: string;
 }
 
 export interface Sale {
   id: string;
   sellerId: string;
-  buyerId: string;
+  buyerId?: string; // absent when sold to someone off the platform
   vehicleId: string;
   listingId?: string;
   auctionId?: string;
-  type: 'listing' | 'auction';
+  tradeId?: string;
+  offerId?: string; // set when a listing sold through an accepted offer
+  type: 'listing' | 'auction' | 'trade';
   finalPrice: number;
   completedAt: string;
   vehicle?: Vehicle;
 }
 
+export type OfferStatus = 'pending' | 'countered' | 'accepted' | 'declined' | 'withdrawn' | 'expired';
+
+export interface OfferHistoryItem {
+  action: 'offered' | 'countered' | 'accepted' | 'declined' | 'withdrawn' | 'expired';
+  userId: string;
+  amount?: number;
+  message?: string;
+  timestamp: string;
+}
+
+// A cash offer on a listing; amount is whatever price is currently on the table
+export interface Offer {
+  id: string;
+  listingId: string;
+  vehicleId: string;
+  sellerId: string;
+  buyerId: string;
+  amount: number;
+  message?: string;
+  status: OfferStatus;
+  lastActionBy: string; // Whoever named the current amount; the other side responds
+  expiresAt?: string;
+  respondedAt?: string;
+  history: OfferHistoryItem[];
+  createdAt: string;
+  updatedAt: string;
+  // Populated fields
+  vehicle?: Vehicle;
+  seller?: User;
+  buyer?: User;
+}
+
+export type OfferResponse = 'accept' | 'decline' | 'counter' | 'withdraw';
+
+export interface Watchlist {
+  listingIds: string[];
+  auctionIds: string[];
+}
+
+export type WatchlistItemType = 'listing' | 'auction';
+
+export interface ListingSearchFilters {
+  searchTerm: string;
+  make: string; // 'all' matches any make
+  minPrice?: number;
+  maxPrice?: number;
+  minYear?: number;
+  maxYear?: number;
+  maxMileage?: number;
+  transmission?: 'manual' | 'automatic' | '';
+  listingIds?: string[]; // restricts results to these listings, e.g. the watchlist
+  sortBy: string;
+}
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+export interface ListingFacets {
+  makes: FacetCount[];
+  yearBands: Array<{ from: number; to: number; count: number }>;
+  transmissions: FacetCount[];
+}
+
+// Server-side listing search backing ListingsView's infinite scroll
+export interface ListingSearchState {
+  filters: ListingSearchFilters | null;
+  results: Listing[];
+  facets: ListingFacets | null;
+  total: number;
+  nextCursor: string | null;
+  loading: boolean;
+}
+
+export interface SavedSearch extends ListingSearchFilters {
+  id: string;
+  name: string;
+  createdAt: string;
+}
+
 export interface Notification {
   id: string;
-  type: 'success' | 'error' | 'warning' | 'info' | 'message' | 'trade';
+  type: 'success' | 'error' | 'warning' | 'info' | 'message' | 'trade' | 'auction';
   title: string;
   message?: string;
   duration?: number; // in milliseconds, 0 for persistent
@@ -245,4 +451,4 @@ export interface Notification {
   data?: any; // for storing additional data like message/trade info
 }
 
-export type NavigationTab = 'garage' | 'listings' | 'auctions' | 'trades' | 'messages' | 'profile' | 'users'; 
\ No newline at end of file
+export type NavigationTab = 'garage' | 'listings' | 'auctions' | 'trades' | 'messages' | 'profile' | 'users' | 'admin'; 
\ No newline at end of file
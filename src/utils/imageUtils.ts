@@ -38,4 +38,29 @@ export const compressImage = async (
     // Return original file if compression fails
     return imageFile;
   }
-}; 
\ No newline at end of file
+};
+
+/**
+ * Reads a file into a base64 data URL for upload.
+ * @param {File} file - The file to read.
+ * @returns {Promise<string>} - The file as a data URL.
+ */
+export const readFileAsDataURL = (file: File): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+
+    reader.onload = () => {
+      if (typeof reader.result === 'string') {
+        resolve(reader.result);
+      } else {
+        reject(new Error('FileReader result is not a string'));
+      }
+    };
+
+    reader.onerror = () => {
+      reject(new Error('Failed to read file: ' + (reader.error?.message || 'Unknown file reading error')));
+    };
+
+    reader.readAsDataURL(file);
+  });
+};
@@ -0,0 +1,42 @@
+import { Listing, ListingSearchFilters, Vehicle } from '../types/index.ts';
+import { DEFAULT_LISTING_FILTERS, matchesListingSearch, toListingQuery } from './listingSearch.ts';
+
+const listing = {
+  id: 'listing-id',
+  title: 'Clean daily driver',
+  description: 'One owner, full service history',
+  tags: ['low-mileage', 'garaged'],
+  price: 15000,
+} as Listing;
+
+const vehicle = {
+  make: 'Honda',
+  model: 'Civic Type R',
+  year: 1987,
+  mileage: 90000,
+  transmission: 'manual',
+} as Vehicle;
+
+const filters = (overrides: Partial<ListingSearchFilters> = {}): ListingSearchFilters => ({
+  ...DEFAULT_LISTING_FILTERS,
+  maxPrice: 0,
+  ...overrides,
+});
+
+describe('matchesListingSearch', () => {
+  it('needs every word, each in any of title, description, tags, make or model', () => {
+    expect(matchesListingSearch(listing, vehicle, filters({ searchTerm: 'honda  type' }))).toBe(true);
+    expect(matchesListingSearch(listing, vehicle, filters({ searchTerm: 'SERVICE garaged' }))).toBe(true);
+    expect(matchesListingSearch(listing, vehicle, filters({ searchTerm: 'honda accord' }))).toBe(false);
+  });
+
+  it('compares make without regard to case', () => {
+    expect(matchesListingSearch(listing, vehicle, filters({ make: 'HONDA' }))).toBe(true);
+    expect(matchesListingSearch(listing, vehicle, filters({ make: 'Hond' }))).toBe(false);
+  });
+
+  it('keeps cars of any year under the default filters', () => {
+    expect(matchesListingSearch(listing, vehicle, filters())).toBe(true);
+    expect(toListingQuery(filters())).toMatchObject({ minYear: undefined, maxYear: undefined });
+  });
+});
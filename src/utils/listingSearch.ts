@@ -0,0 +1,159 @@
+import { Listing, ListingSearchFilters, Vehicle } from '../types/index.ts';
+
+/**
+ * Checks whether a listing satisfies a set of search filters, using the same rules as the
+ * server's GET /api/listings so live results and saved-search alerts match what it returns:
+ * every search word must appear in the title, description, tags, make or model, and make
+ * compares case-insensitively.
+ * @param {Listing} listing - The listing to test.
+ * @param {Vehicle | undefined} vehicle - The listing's vehicle, if it could be resolved.
+ * @param {ListingSearchFilters} filters - The filters to apply.
+ * @returns {boolean} - True when every filter matches.
+ */
+export const matchesListingSearch = (
+  listing: Listing,
+  vehicle: Vehicle | undefined,
+  filters: ListingSearchFilters
+): boolean => {
+  if (!vehicle) return false;
+  if (filters.listingIds && !filters.listingIds.includes(listing.id)) return false;
+
+  const searchable = [listing.title, listing.description, ...(listing.tags || []), vehicle.make, vehicle.model]
+    .filter(Boolean)
+    .map(field => field.toLowerCase());
+  const words = filters.searchTerm.trim().toLowerCase().split(/\s+/).filter(Boolean);
+  const matchesSearch = words.every(word => searchable.some(field => field.includes(word)));
+
+  const matchesMake = !filters.make || filters.make === 'all' ||
+    vehicle.make.toLowerCase() === filters.make.toLowerCase();
+
+  const matchesPrice = (!filters.minPrice || listing.price >= filters.minPrice) &&
+                       (!filters.maxPrice || listing.price <= filters.maxPrice);
+
+  const matchesYear = (!filters.minYear || vehicle.year >= filters.minYear) &&
+                      (!filters.maxYear || vehicle.year <= filters.maxYear);
+
+  const matchesMileage = !filters.maxMileage || vehicle.mileage <= filters.maxMileage;
+
+  const matchesTransmission = !filters.transmission || vehicle.transmission === filters.transmission;
+
+  return matchesSearch && matchesMake && matchesPrice && matchesYear && matchesMileage && matchesTransmission;
+};
+
+// ListingsView sort options mapped to the backend's sortBy/order params
+const SORT_PARAMS: Record<string, { sortBy: string; order: 'asc' | 'desc' }> = {
+  newest: { sortBy: 'createdAt', order: 'desc' },
+  'price-low': { sortBy: 'price', order: 'asc' },
+  'price-high': { sortBy: 'price', order: 'desc' },
+  mileage: { sortBy: 'mileage', order: 'asc' },
+  year: { sortBy: 'year', order: 'desc' },
+};
+
+/**
+ * Converts search filters into query params for ApiService.getAllListings.
+ * @param {ListingSearchFilters} filters - The filters to convert.
+ * @returns {object} - Query params with empty filters left out.
+ */
+export const toListingQuery = (filters: ListingSearchFilters) => ({
+  search: filters.searchTerm.trim() || undefined,
+  make: filters.make && filters.make !== 'all' ? filters.make : undefined,
+  minPrice: filters.minPrice || undefined,
+  maxPrice: filters.maxPrice || undefined,
+  minYear: filters.minYear || undefined,
+  maxYear: filters.maxYear || undefined,
+  maxMileage: filters.maxMileage || undefined,
+  transmission: filters.transmission || undefined,
+  // An empty id list must still restrict, so send a value that matches nothing
+  ids: filters.listingIds ? (filters.listingIds.join(',') || 'none') : undefined,
+  ...(SORT_PARAMS[filters.sortBy] || SORT_PARAMS.newest),
+});
+
+/**
+ * Resolves the vehicle for a listing that may carry it populated on vehicleId (WebSocket payloads)
+ * or on a separate vehicle field.
+ * @param {Listing} listing - The listing to inspect.
+ * @param {Vehicle[]} vehicles - Locally known vehicles to fall back on.
+ * @returns {Vehicle | undefined} - The resolved vehicle.
+ */
+export const resolveListingVehicle = (listing: Listing, vehicles: Vehicle[] = []): Vehicle | undefined => {
+  const populated = (listing as any).vehicle;
+  if (populated) return populated;
+
+  if (typeof listing.vehicleId === 'object' && listing.vehicleId !== null) {
+    const vehicleObj = listing.vehicleId as any;
+    return { ...vehicleObj, id: vehicleObj._id || vehicleObj.id };
+  }
+
+  return vehicles.find(v => v.id === listing.vehicleId);
+};
+
+// Every filter except listingIds, which is derived from the watchlist rather than stored in the URL
+type ListingFilterField = Exclude<keyof ListingSearchFilters, 'listingIds'>;
+
+// Filters ListingsView starts with; values equal to these are left out of the query string
+export const DEFAULT_LISTING_FILTERS: Required<Pick<ListingSearchFilters, ListingFilterField>> = {
+  searchTerm: '',
+  make: 'all',
+  minPrice: 0,
+  maxPrice: 200000,
+  // 0 leaves the year range open, like maxMileage; any default bound would hide cars outside it
+  minYear: 0,
+  maxYear: 0,
+  maxMileage: 0,
+  transmission: '',
+  sortBy: 'newest',
+};
+
+// Query string key for each filter, e.g. /listings?q=civic&make=Honda&maxPrice=20000
+const FILTER_PARAMS: Record<ListingFilterField, string> = {
+  searchTerm: 'q',
+  make: 'make',
+  minPrice: 'minPrice',
+  maxPrice: 'maxPrice',
+  minYear: 'minYear',
+  maxYear: 'maxYear',
+  maxMileage: 'maxMileage',
+  transmission: 'transmission',
+  sortBy: 'sort',
+};
+
+const FILTER_FIELDS = Object.keys(FILTER_PARAMS) as ListingFilterField[];
+
+/**
+ * Reads listing filters from a query string, falling back to the defaults for missing keys.
+ * @param {URLSearchParams} params - The page's query string.
+ * @returns {ListingSearchFilters} - The filters the URL describes.
+ */
+export const parseListingSearchParams = (params: URLSearchParams): ListingSearchFilters => {
+  const filters: Record<ListingFilterField, string | number> = { ...DEFAULT_LISTING_FILTERS };
+
+  FILTER_FIELDS.forEach(field => {
+    const value = params.get(FILTER_PARAMS[field]);
+    if (value === null) return;
+    filters[field] = typeof DEFAULT_LISTING_FILTERS[field] === 'number' ? Number(value) || 0 : value;
+  });
+
+  if (filters.transmission !== 'manual' && filters.transmission !== 'automatic') {
+    filters.transmission = '';
+  }
+
+  return filters as unknown as ListingSearchFilters;
+};
+
+/**
+ * Writes listing filters to a query string so a search can be bookmarked or shared.
+ * @param {ListingSearchFilters} filters - The filters to encode.
+ * @returns {URLSearchParams} - Params holding only the filters that differ from the defaults.
+ */
+export const toListingSearchParams = (filters: ListingSearchFilters): URLSearchParams => {
+  const params = new URLSearchParams();
+
+  FILTER_FIELDS.forEach(field => {
+    const value = String(filters[field] ?? '');
+    if (value !== String(DEFAULT_LISTING_FILTERS[field])) {
+      params.set(FILTER_PARAMS[field], value);
+    }
+  });
+
+  return params;
+};
@@ -0,0 +1,19 @@
+import { NavigationTab } from '../types/index.ts';
+
+export const NAVIGATION_TABS: NavigationTab[] = ['garage', 'listings', 'auctions', 'trades', 'messages', 'profile', 'users', 'admin'];
+
+// Paths for every deep-linkable screen; keep these in sync with the <Routes> in App.tsx
+export const routes = {
+  tab: (tab: NavigationTab) => `/${tab}`,
+  vehicle: (vehicleId: string) => `/garage/${vehicleId}`,
+  listing: (listingId: string) => `/listings/${listingId}`,
+  trade: (tradeId: string) => `/trades/${tradeId}`,
+  conversation: (userId: string) => `/messages/${userId}`,
+  user: (userId: string) => `/users/${userId}`,
+};
+
+// The first path segment decides which tab is highlighted in the navigation
+export const getTabFromPath = (pathname: string): NavigationTab => {
+  const segment = pathname.split('/')[1] as NavigationTab;
+  return NAVIGATION_TABS.includes(segment) ? segment : 'garage';
+};
@@ -0,0 +1,18 @@
+/**
+ * @jest-environment node
+ */
+import fs from 'fs';
+import path from 'path';
+
+// A plain Node script outside src, so it has no type declarations
+const { SHARED_MODULES, renderSharedModule } = require('../../scripts/generate-shared.js');
+
+// The backend copies are generated; fail when a source changed without `npm run generate:shared`
+describe('generated backend modules', () => {
+  SHARED_MODULES.forEach(({ source, target }: { source: string; target: string }) => {
+    it(`${target} is up to date with ${source}`, () => {
+      const generated = fs.readFileSync(path.join(__dirname, '../..', target), 'utf8');
+      expect(generated).toBe(renderSharedModule(source));
+    });
+  });
+});
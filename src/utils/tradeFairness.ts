@@ -0,0 +1,58 @@
+// Weighs both sides of a trade so lopsided offers stand out while negotiating.
+import { Vehicle } from '../types/index.ts';
+import { CarValuationService } from '../services/carValuationService.ts';
+
+export interface TradeSideValue {
+  vehicles: number;
+  cash: number;
+  total: number;
+}
+
+export interface TradeBalance {
+  offerer: TradeSideValue;
+  receiver: TradeSideValue;
+  // How much more the offerer puts in than they get back; negative when the receiver gives more
+  net: number;
+  // 100 when both sides are worth the same, falling towards 0 as one side dwarfs the other
+  score: number;
+  label: 'Fair' | 'Slightly uneven' | 'Lopsided';
+}
+
+// What the owner is asking, as shown everywhere else in the app
+export const getVehicleAskingValue = (vehicle: Vehicle): number =>
+  vehicle.customPrice || vehicle.estimatedValue || 0;
+
+// Instant make/model/year estimate, used until the mileage-aware valuation comes back
+export const getVehicleQuickEstimate = (vehicle: Vehicle): number =>
+  CarValuationService.getQuickEstimate(vehicle.make, vehicle.model, vehicle.year);
+
+/**
+ * Totals both sides of a trade and scores how even they are. Cash counts towards whoever pays it.
+ * @param {number[]} offererVehicleValues - Values of the vehicles the offerer gives.
+ * @param {number[]} receiverVehicleValues - Values of the vehicles the receiver gives.
+ * @param {number} cashFromOfferer - Cash paid by the offerer; negative when the receiver pays.
+ * @returns {TradeBalance} - Each side's total, the net difference and the fairness score.
+ */
+export const getTradeBalance = (
+  offererVehicleValues: number[],
+  receiverVehicleValues: number[],
+  cashFromOfferer: number
+): TradeBalance => {
+  const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+  const offererCash = Math.max(cashFromOfferer, 0);
+  const receiverCash = Math.max(-cashFromOfferer, 0);
+  const offerer = { vehicles: sum(offererVehicleValues), cash: offererCash, total: sum(offererVehicleValues) + offererCash };
+  const receiver = { vehicles: sum(receiverVehicleValues), cash: receiverCash, total: sum(receiverVehicleValues) + receiverCash };
+
+  const larger = Math.max(offerer.total, receiver.total);
+  const score = larger === 0 ? 100 : Math.round((Math.min(offerer.total, receiver.total) / larger) * 100);
+
+  return {
+    offerer,
+    receiver,
+    net: offerer.total - receiver.total,
+    score,
+    label: score >= 90 ? 'Fair' : score >= 75 ? 'Slightly uneven' : 'Lopsided',
+  };
+};
@@ -0,0 +1,89 @@
+// Reads Trade.tradeHistory as a negotiation: the terms each offer or counter put on the table and what changed.
+import { Trade, TradeHistoryItem } from '../types/index.ts';
+import { getTradeTerms } from './tradeStateMachine.ts';
+
+export interface TradeTermsAt {
+  offererGives: string[];
+  receiverGives: string[];
+  cashFromOfferer: number;
+}
+
+export interface TradeTermsDiff {
+  offererAdded: string[];
+  offererRemoved: string[];
+  receiverAdded: string[];
+  receiverRemoved: string[];
+  cashChange: number; // Change in cash paid by the offerer; negative means less (or the receiver pays more)
+}
+
+export interface NegotiationStep {
+  index: number; // Position in trade.tradeHistory
+  item: TradeHistoryItem;
+  terms: TradeTermsAt | null; // Only offers and counters put terms on the table
+  diff: TradeTermsDiff | null; // Against the previous offer or counter; null for the opening offer
+}
+
+const isTermsEntry = (item: TradeHistoryItem) => item.action === 'created' || item.action === 'countered';
+
+/**
+ * The terms on the table right after a history entry.
+ * Counters only overwrite the countering side's fields, so whoever countered last decides which set applies.
+ * @param {Trade} trade - The trade, for its parties and listing.
+ * @param {number} index - Position of the entry in trade.tradeHistory.
+ * @returns {TradeTermsAt | null} - null when the entry didn't put new terms on the table.
+ */
+export const getTradeTermsAtHistory = (trade: Trade, index: number): TradeTermsAt | null => {
+  const history = trade.tradeHistory || [];
+  const entry = history[index];
+  if (!entry || !isTermsEntry(entry)) return null;
+
+  const lastCounter = history.slice(0, index + 1).reverse().find(item => item.action === 'countered');
+
+  return getTradeTerms({
+    ...trade,
+    ...entry,
+    status: trade.status,
+    lastCounteredBy: lastCounter?.userId,
+    // Counter entries don't repeat the requested vehicles, which only the opening offer sets
+    requestedVehicleIds: entry.requestedVehicleIds?.length ? entry.requestedVehicleIds : trade.requestedVehicleIds,
+  });
+};
+
+/**
+ * What changed between two sets of terms.
+ * @param {TradeTermsAt} before - The earlier terms.
+ * @param {TradeTermsAt} after - The later terms.
+ * @returns {TradeTermsDiff} - Vehicles added and removed on each side and the change in cash.
+ */
+export const diffTradeTerms = (before: TradeTermsAt, after: TradeTermsAt): TradeTermsDiff => {
+  const added = (from: string[], to: string[]) => to.filter(id => !from.includes(id));
+
+  return {
+    offererAdded: added(before.offererGives, after.offererGives),
+    offererRemoved: added(after.offererGives, before.offererGives),
+    receiverAdded: added(before.receiverGives, after.receiverGives),
+    receiverRemoved: added(after.receiverGives, before.receiverGives),
+    cashChange: after.cashFromOfferer - before.cashFromOfferer,
+  };
+};
+
+export const isEmptyTermsDiff = (diff: TradeTermsDiff): boolean =>
+  diff.offererAdded.length === 0 && diff.offererRemoved.length === 0 &&
+  diff.receiverAdded.length === 0 && diff.receiverRemoved.length === 0 &&
+  diff.cashChange === 0;
+
+/**
+ * Every history entry in order, with the terms offers and counters set and how they differ from the one before.
+ * @param {Trade} trade - The trade.
+ * @returns {NegotiationStep[]} - One step per history entry.
+ */
+export const getNegotiationTimeline = (trade: Trade): NegotiationStep[] => {
+  let previousTerms: TradeTermsAt | null = null;
+
+  return (trade.tradeHistory || []).map((item, index) => {
+    const terms = getTradeTermsAtHistory(trade, index);
+    const diff = terms && previousTerms ? diffTradeTerms(previousTerms, terms) : null;
+    if (terms) previousTerms = terms;
+    return { index, item, terms, diff };
+  });
+};
@@ -0,0 +1,248 @@
+import { Trade } from '../types/index.ts';
+import {
+  TRADE_STATUSES,
+  TRADE_TRANSITIONS,
+  TradeEvent,
+  TradeStatus,
+  getTradeRole,
+  isTradeTurn,
+  getTradeEventForStatus,
+  getTradeEventError,
+  getAvailableTradeEvents,
+  getAcceptanceFlags,
+  getTradeTerms,
+  getChecklistItems,
+  isChecklistItemConfirmed,
+  isChecklistComplete,
+  isTerminalTradeStatus,
+} from './tradeStateMachine.ts';
+
+const OFFERER = 'offerer-id';
+const RECEIVER = 'receiver-id';
+const STRANGER = 'stranger-id';
+
+const makeTrade = (overrides: Partial<Trade> = {}): Trade => ({
+  id: 'trade-id',
+  offererUserId: OFFERER,
+  receiverUserId: RECEIVER,
+  status: 'pending',
+  offererCashAmount: 0,
+  offererVehicleIds: ['offerer-car'],
+  requestedVehicleIds: ['receiver-car'],
+  message: '',
+  tradeHistory: [],
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+const ALL_EVENTS: TradeEvent[] = ['accept', 'reject', 'counter', 'cancel', 'complete', 'decline', 'expire'];
+
+describe('TRADE_TRANSITIONS', () => {
+  const expected: Record<TradeStatus, Partial<Record<TradeEvent, TradeStatus>>> = {
+    pending: { accept: 'accepted', reject: 'rejected', counter: 'countered', cancel: 'cancelled', expire: 'expired' },
+    countered: { accept: 'accepted', reject: 'rejected', counter: 'countered', cancel: 'cancelled', expire: 'expired' },
+    accepted: { complete: 'completed', decline: 'declined' },
+    pending_acceptance: {},
+    rejected: {},
+    cancelled: {},
+    completed: {},
+    declined: {},
+    expired: {},
+  };
+
+  it('has an entry for every status', () => {
+    expect(Object.keys(TRADE_TRANSITIONS).sort()).toEqual([...TRADE_STATUSES].sort());
+  });
+
+  TRADE_STATUSES.forEach(from => {
+    ALL_EVENTS.forEach(event => {
+      const to = expected[from][event];
+      it(`${from} + ${event} → ${to || 'not allowed'}`, () => {
+        expect(TRADE_TRANSITIONS[from][event]).toBe(to);
+      });
+    });
+  });
+
+  it('maps a status change back to its event', () => {
+    TRADE_STATUSES.forEach(from => {
+      (Object.keys(expected[from]) as TradeEvent[]).forEach(event => {
+        expect(getTradeEventForStatus(from, expected[from][event]!)).toBe(event);
+      });
+    });
+    expect(getTradeEventForStatus('completed', 'pending')).toBeNull();
+  });
+
+  it('treats statuses without transitions as terminal', () => {
+    TRADE_STATUSES.forEach(status => {
+      expect(isTerminalTradeStatus(status)).toBe(Object.keys(expected[status]).length === 0);
+    });
+  });
+});
+
+describe('getTradeRole', () => {
+  it('finds each side from plain and populated ids', () => {
+    expect(getTradeRole(makeTrade(), OFFERER)).toBe('offerer');
+    expect(getTradeRole(makeTrade({ receiverUserId: { _id: RECEIVER } as any }), RECEIVER)).toBe('receiver');
+    expect(getTradeRole(makeTrade({ offererUserId: { id: OFFERER } as any }), OFFERER)).toBe('offerer');
+  });
+
+  it('returns null for outsiders and missing users', () => {
+    expect(getTradeRole(makeTrade(), STRANGER)).toBeNull();
+    expect(getTradeRole(makeTrade(), undefined)).toBeNull();
+  });
+});
+
+describe('isTradeTurn', () => {
+  it('gives a pending offer to the receiver', () => {
+    expect(isTradeTurn(makeTrade(), 'receiver')).toBe(true);
+    expect(isTradeTurn(makeTrade(), 'offerer')).toBe(false);
+  });
+
+  it('gives a counter to the side that did not make it', () => {
+    const trade = makeTrade({ status: 'countered', lastCounteredBy: RECEIVER });
+    expect(isTradeTurn(trade, 'offerer')).toBe(true);
+    expect(isTradeTurn(trade, 'receiver')).toBe(false);
+  });
+
+  it('falls back to the acceptance flags for counters without lastCounteredBy', () => {
+    const trade = makeTrade({ status: 'countered', offererAccepted: true, receiverAccepted: false });
+    expect(isTradeTurn(trade, 'receiver')).toBe(true);
+    expect(isTradeTurn(trade, 'offerer')).toBe(false);
+  });
+
+  it('treats a missing flag the same as false', () => {
+    const trade = makeTrade({ status: 'countered', offererAccepted: undefined, receiverAccepted: false });
+    expect(isTradeTurn(trade, 'offerer')).toBe(true);
+    expect(isTradeTurn(trade, 'receiver')).toBe(true);
+  });
+
+  it('is nobody\'s turn once the trade is no longer open', () => {
+    expect(isTradeTurn(makeTrade({ status: 'accepted' }), 'receiver')).toBe(false);
+    expect(isTradeTurn(makeTrade({ status: 'accepted' }), 'offerer')).toBe(false);
+  });
+});
+
+describe('getTradeEventError', () => {
+  it('rejects users outside the trade', () => {
+    expect(getTradeEventError(makeTrade(), 'accept', STRANGER)).toBe('Only parties involved in the trade can act on it');
+  });
+
+  it('rejects events the status does not allow', () => {
+    expect(getTradeEventError(makeTrade({ status: 'completed' }), 'accept', RECEIVER)).toBe('Cannot accept a trade that is completed');
+    expect(getTradeEventError(makeTrade(), 'complete', OFFERER)).toBe('Cannot complete a trade that is pending');
+  });
+
+  it('never lets a user expire a trade', () => {
+    expect(getTradeEventError(makeTrade(), 'expire', RECEIVER)).toBe('Trades only expire when their deadline passes');
+  });
+
+  (['accept', 'reject', 'counter'] as TradeEvent[]).forEach(event => {
+    it(`only lets the side whose turn it is ${event}`, () => {
+      expect(getTradeEventError(makeTrade(), event, RECEIVER)).toBeNull();
+      expect(getTradeEventError(makeTrade(), event, OFFERER)).toBe('It is not your turn to respond to this trade');
+    });
+  });
+
+  it('only lets the side whose terms are on the table cancel', () => {
+    expect(getTradeEventError(makeTrade(), 'cancel', OFFERER)).toBeNull();
+    expect(getTradeEventError(makeTrade(), 'cancel', RECEIVER)).toBe('Reject the offer instead of cancelling it');
+  });
+
+  it('only completes once both checklists are confirmed', () => {
+    const accepted = makeTrade({ status: 'accepted' });
+    expect(getTradeEventError(accepted, 'complete', OFFERER)).toBe('Both parties must confirm every checklist item first');
+
+    const confirmed = makeTrade({
+      status: 'accepted',
+      completionChecklist: [
+        ...['titleTransferred', 'keysHandedOver', 'inspectionDone'].map(item => ({ role: 'offerer', item })),
+        ...['titleTransferred', 'keysHandedOver', 'inspectionDone'].map(item => ({ role: 'receiver', item })),
+      ] as Trade['completionChecklist'],
+    });
+    expect(getTradeEventError(confirmed, 'complete', OFFERER)).toBeNull();
+  });
+
+  it('lets either side decline an accepted trade', () => {
+    expect(getTradeEventError(makeTrade({ status: 'accepted' }), 'decline', OFFERER)).toBeNull();
+    expect(getTradeEventError(makeTrade({ status: 'accepted' }), 'decline', RECEIVER)).toBeNull();
+  });
+
+  it('lists the events each side may fire', () => {
+    expect(getAvailableTradeEvents(makeTrade(), RECEIVER)).toEqual(['accept', 'reject', 'counter']);
+    expect(getAvailableTradeEvents(makeTrade(), OFFERER)).toEqual(['cancel']);
+    expect(getAvailableTradeEvents(makeTrade({ status: 'expired' }), OFFERER)).toEqual([]);
+  });
+});
+
+describe('getAcceptanceFlags', () => {
+  it('sets only the proposer\'s flag on a counter', () => {
+    expect(getAcceptanceFlags(makeTrade(), 'counter', 'receiver')).toEqual({ offererAccepted: false, receiverAccepted: true });
+    expect(getAcceptanceFlags(makeTrade(), 'counter', 'offerer')).toEqual({ offererAccepted: true, receiverAccepted: false });
+  });
+
+  it('sets both flags on accept and keeps them otherwise', () => {
+    expect(getAcceptanceFlags(makeTrade(), 'accept', 'receiver')).toEqual({ offererAccepted: true, receiverAccepted: true });
+    expect(getAcceptanceFlags(makeTrade({ offererAccepted: true }), 'reject', 'receiver')).toEqual({ offererAccepted: true, receiverAccepted: false });
+  });
+});
+
+describe('getTradeTerms', () => {
+  it('uses the offerer\'s terms until the receiver counters', () => {
+    expect(getTradeTerms(makeTrade({ offererCashAmount: 500 }))).toEqual({
+      offererGives: ['offerer-car'],
+      receiverGives: ['receiver-car'],
+      cashFromOfferer: 500,
+    });
+  });
+
+  it('uses the receiver\'s counter once they countered last', () => {
+    const trade = makeTrade({
+      status: 'countered',
+      lastCounteredBy: RECEIVER,
+      receiverVehicleIds: ['offerer-car', 'offerer-bike'],
+      receiverCashAmount: -250,
+    });
+    expect(getTradeTerms(trade)).toEqual({
+      offererGives: ['offerer-car', 'offerer-bike'],
+      receiverGives: ['receiver-car'],
+      cashFromOfferer: -250,
+    });
+  });
+
+  it('falls back to the listing vehicle for trades from before bundles', () => {
+    const trade = makeTrade({
+      requestedVehicleIds: undefined,
+      listingData: { title: 'Car', description: '', price: 1, vehicleId: 'listing-car', sellerId: RECEIVER, createdAt: '' },
+    });
+    expect(getTradeTerms(trade).receiverGives).toEqual(['listing-car']);
+    expect(getTradeTerms(makeTrade({ requestedVehicleIds: [] })).receiverGives).toEqual([]);
+  });
+});
+
+describe('checklist', () => {
+  it('asks the giving side for title and keys and the getting side for an inspection', () => {
+    const trade = makeTrade();
+    expect(getChecklistItems(trade, 'offerer')).toEqual(['titleTransferred', 'keysHandedOver', 'inspectionDone']);
+    expect(getChecklistItems(trade, 'receiver')).toEqual(['titleTransferred', 'keysHandedOver', 'inspectionDone']);
+  });
+
+  it('asks whoever is owed cash to confirm receiving it', () => {
+    expect(getChecklistItems(makeTrade({ offererCashAmount: 1000 }), 'receiver')).toContain('cashReceived');
+    expect(getChecklistItems(makeTrade({ offererCashAmount: 1000 }), 'offerer')).not.toContain('cashReceived');
+    expect(getChecklistItems(makeTrade({ offererCashAmount: -1000 }), 'offerer')).toContain('cashReceived');
+  });
+
+  it('skips title, keys and inspection for a cash-only side', () => {
+    const trade = makeTrade({ offererVehicleIds: [], offererCashAmount: 5000 });
+    expect(getChecklistItems(trade, 'offerer')).toEqual(['inspectionDone']);
+    expect(getChecklistItems(trade, 'receiver')).toEqual(['titleTransferred', 'keysHandedOver', 'cashReceived']);
+  });
+
+  it('tracks confirmations per side', () => {
+    const trade = makeTrade({ completionChecklist: [{ role: 'offerer', item: 'keysHandedOver' }] as Trade['completionChecklist'] });
+    expect(isChecklistItemConfirmed(trade, 'offerer', 'keysHandedOver')).toBe(true);
+    expect(isChecklistItemConfirmed(trade, 'receiver', 'keysHandedOver')).toBe(false);
+    expect(isChecklistComplete(trade)).toBe(false);
+  });
+});
@@ -0,0 +1,238 @@
+// Every trade status, the events that move between them, who may fire each event and what it sets off.
+// This is the only copy: backend/utils/tradeStateMachine.js is generated from it by scripts/generate-shared.js.
+import { Trade, TradeChecklistEntry } from '../types/index.ts';
+
+export type TradeStatus = Trade['status'];
+
+export type TradeEvent = 'accept' | 'reject' | 'counter' | 'cancel' | 'complete' | 'decline' | 'expire';
+
+export type TradeRole = 'offerer' | 'receiver';
+
+export type TradeChecklistItem = TradeChecklistEntry['item'];
+
+// Work the server does when an event lands; the UI uses these to know what to refresh
+export type TradeSideEffect =
+  | 'lockVehicles'            // take every vehicle in the deal off the market
+  | 'cancelOverlappingTrades' // cancel other open trades for the same vehicles
+  | 'transferVehicles'        // move ownership of every vehicle in one transaction
+  | 'markListingSold'
+  | 'recordSales'
+  | 'releaseVehicles';        // clear trade flags so the vehicles can be relisted
+
+export const TRADE_STATUSES: TradeStatus[] = [
+  'pending', 'countered', 'accepted', 'pending_acceptance', 'rejected', 'cancelled', 'completed', 'declined', 'expired'
+];
+
+export const TRADE_TRANSITIONS: Record<TradeStatus, Partial<Record<TradeEvent, TradeStatus>>> = {
+  pending: { accept: 'accepted', reject: 'rejected', counter: 'countered', cancel: 'cancelled', expire: 'expired' },
+  countered: { accept: 'accepted', reject: 'rejected', counter: 'countered', cancel: 'cancelled', expire: 'expired' },
+  accepted: { complete: 'completed', decline: 'declined' },
+  // Legacy status from before accepting moved straight to 'accepted'; it can only be cleaned up
+  pending_acceptance: {},
+  rejected: {},
+  cancelled: {},
+  completed: {},
+  declined: {},
+  expired: {},
+};
+
+export const TRADE_SIDE_EFFECTS: Record<TradeEvent, TradeSideEffect[]> = {
+  accept: ['lockVehicles', 'cancelOverlappingTrades'],
+  reject: ['releaseVehicles'],
+  counter: [],
+  cancel: ['releaseVehicles'],
+  complete: ['transferVehicles', 'markListingSold', 'recordSales'],
+  decline: ['releaseVehicles'],
+  expire: ['releaseVehicles'],
+};
+
+// Expiry windows offered when making an offer or counter
+export const TRADE_EXPIRY_HOURS = [24, 72, 168];
+
+// Hand-over steps each side confirms on an accepted trade before ownership moves
+export const TRADE_CHECKLIST_ITEMS: Record<TradeChecklistItem, string> = {
+  titleTransferred: 'Title transferred',
+  keysHandedOver: 'Keys handed over',
+  cashReceived: 'Cash received',
+  inspectionDone: 'Inspection done',
+};
+
+type TradeParties = Pick<Trade, 'status' | 'offererUserId' | 'receiverUserId' | 'lastCounteredBy' | 'offererAccepted' | 'receiverAccepted'> &
+  Partial<Pick<Trade,
+    'offererCashAmount' | 'offererVehicleIds' | 'receiverCashAmount' | 'receiverVehicleIds' |
+    'requestedVehicleIds' | 'listingData' | 'completionChecklist'
+  >>;
+
+// Populated users arrive as objects from the API and the WebSocket; the backend also passes raw ObjectIds
+const toId = (value: string | { _id?: string; id?: string } | undefined): string | undefined => {
+  if (!value) return undefined;
+  if (typeof value === 'string') return value;
+  return String(value._id || value.id || value);
+};
+
+/**
+ * Works out which side of the trade a user is on.
+ * @param {TradeParties} trade - The trade.
+ * @param {string} userId - The acting user.
+ * @returns {TradeRole | null} - null when the user isn't part of the trade.
+ */
+export const getTradeRole = (trade: TradeParties, userId?: string): TradeRole | null => {
+  if (!userId) return null;
+  if (toId(trade.offererUserId) === String(userId)) return 'offerer';
+  if (toId(trade.receiverUserId) === String(userId)) return 'receiver';
+  return null;
+};
+
+/**
+ * Whether it's this side's move on an open offer - the side that didn't make the terms on the table.
+ * @param {TradeParties} trade - The trade.
+ * @param {TradeRole} role - The side asking.
+ * @returns {boolean} - True when they may accept, reject or counter.
+ */
+export const isTradeTurn = (trade: TradeParties, role: TradeRole): boolean => {
+  if (trade.status === 'pending') return role === 'receiver';
+  if (trade.status !== 'countered') return false;
+
+  if (trade.lastCounteredBy) {
+    const counteredBy = toId(trade.lastCounteredBy) === toId(trade.offererUserId) ? 'offerer' : 'receiver';
+    return role !== counteredBy;
+  }
+
+  // Counters from before lastCounteredBy existed: whoever hasn't agreed to the current terms, else either side
+  if (!!trade.offererAccepted !== !!trade.receiverAccepted) {
+    return role === 'offerer' ? !trade.offererAccepted : !trade.receiverAccepted;
+  }
+  return true;
+};
+
+/**
+ * Finds the event that moves a trade between two statuses (the API receives the target status).
+ * @param {TradeStatus} from - The current status.
+ * @param {TradeStatus} to - The requested status.
+ * @returns {TradeEvent | null} - null when no event makes that move.
+ */
+export const getTradeEventForStatus = (from: TradeStatus, to: TradeStatus): TradeEvent | null => {
+  const transitions = TRADE_TRANSITIONS[from] || {};
+  const match = (Object.keys(transitions) as TradeEvent[]).find(event => transitions[event] === to);
+  return match || null;
+};
+
+/**
+ * Checks an event against the transition table and the guards.
+ * @param {TradeParties} trade - The trade.
+ * @param {TradeEvent} event - What the user wants to do.
+ * @param {string} userId - The acting user.
+ * @returns {string | null} - Why the event isn't allowed, or null when it is.
+ */
+export const getTradeEventError = (trade: TradeParties, event: TradeEvent, userId?: string): string | null => {
+  const role = getTradeRole(trade, userId);
+  if (!role) return 'Only parties involved in the trade can act on it';
+
+  const nextStatus = TRADE_TRANSITIONS[trade.status]?.[event];
+  if (!nextStatus) return `Cannot ${event} a trade that is ${trade.status}`;
+
+  switch (event) {
+    case 'expire':
+      return 'Trades only expire when their deadline passes';
+    case 'accept':
+    case 'reject':
+    case 'counter':
+      return isTradeTurn(trade, role) ? null : 'It is not your turn to respond to this trade';
+    case 'cancel':
+      // Withdrawing is for the side whose terms are on the table; the other side rejects instead
+      return isTradeTurn(trade, role) ? 'Reject the offer instead of cancelling it' : null;
+    case 'complete':
+      return isChecklistComplete(trade) ? null : 'Both parties must confirm every checklist item first';
+    case 'decline':
+      return null;
+  }
+};
+
+/**
+ * Lists the events a user may fire right now, for deciding which buttons to show.
+ * @param {TradeParties} trade - The trade.
+ * @param {string} userId - The current user.
+ * @returns {TradeEvent[]} - The allowed events.
+ */
+export const getAvailableTradeEvents = (trade: TradeParties, userId?: string): TradeEvent[] =>
+  (Object.keys(TRADE_TRANSITIONS[trade.status] || {}) as TradeEvent[])
+    .filter(event => getTradeEventError(trade, event, userId) === null);
+
+/**
+ * The acceptance flags after an event. Making an offer or counter means agreeing to those terms,
+ * so the proposer's flag is set and the other side's is cleared until they respond.
+ * @param {TradeParties} trade - The trade before the event.
+ * @param {TradeEvent} event - The event.
+ * @param {TradeRole} role - Who fired it.
+ * @returns {{ offererAccepted: boolean, receiverAccepted: boolean }} - The new flags.
+ */
+export const getAcceptanceFlags = (
+  trade: TradeParties,
+  event: TradeEvent,
+  role: TradeRole
+): { offererAccepted: boolean; receiverAccepted: boolean } => {
+  if (event === 'counter') {
+    return { offererAccepted: role === 'offerer', receiverAccepted: role === 'receiver' };
+  }
+  if (event === 'accept') {
+    return { offererAccepted: true, receiverAccepted: true };
+  }
+  return { offererAccepted: !!trade.offererAccepted, receiverAccepted: !!trade.receiverAccepted };
+};
+
+/**
+ * The terms that change hands on completion. The offerer gives whatever the latest counter settled on;
+ * the receiver gives every requested vehicle. Positive cash goes from the offerer to the receiver.
+ * @param {TradeParties} trade - The trade.
+ * @returns {{ offererGives: string[], receiverGives: string[], cashFromOfferer: number }} - The settled terms.
+ */
+export const getTradeTerms = (trade: TradeParties) => {
+  const receiverCounteredLast = !!trade.lastCounteredBy && toId(trade.lastCounteredBy) === toId(trade.receiverUserId);
+
+  // Trades created before bundles only ever asked for the listing vehicle
+  const receiverGives = trade.requestedVehicleIds && trade.requestedVehicleIds.length > 0
+    ? trade.requestedVehicleIds
+    : (trade.listingData?.vehicleId ? [trade.listingData.vehicleId] : []);
+
+  return {
+    offererGives: (receiverCounteredLast ? trade.receiverVehicleIds : trade.offererVehicleIds) || [],
+    receiverGives,
+    cashFromOfferer: (receiverCounteredLast ? trade.receiverCashAmount : trade.offererCashAmount) || 0,
+  };
+};
+
+/**
+ * The checklist items one side confirms: handing over title and keys for what they give,
+ * inspecting what they get and receiving any cash owed to them.
+ * @param {TradeParties} trade - The trade.
+ * @param {TradeRole} role - The side asking.
+ * @returns {TradeChecklistItem[]} - Their items, in hand-over order.
+ */
+export const getChecklistItems = (trade: TradeParties, role: TradeRole): TradeChecklistItem[] => {
+  const { offererGives, receiverGives, cashFromOfferer } = getTradeTerms(trade);
+  const gives = role === 'offerer' ? offererGives : receiverGives;
+  const gets = role === 'offerer' ? receiverGives : offererGives;
+  const cashIn = role === 'offerer' ? -cashFromOfferer : cashFromOfferer;
+
+  const items: TradeChecklistItem[] = [];
+  if (gives.length > 0) items.push('titleTransferred', 'keysHandedOver');
+  if (cashIn > 0) items.push('cashReceived');
+  if (gets.length > 0) items.push('inspectionDone');
+  return items;
+};
+
+export const isChecklistItemConfirmed = (trade: TradeParties, role: TradeRole, item: TradeChecklistItem): boolean =>
+  (trade.completionChecklist || []).some(entry => entry.role === role && entry.item === item);
+
+/**
+ * Whether both sides have confirmed every item on their checklist.
+ * @param {TradeParties} trade - The trade.
+ * @returns {boolean} - True once ownership may be transferred.
+ */
+export const isChecklistComplete = (trade: TradeParties): boolean =>
+  (['offerer', 'receiver'] as TradeRole[]).every(role =>
+    getChecklistItems(trade, role).every(item => isChecklistItemConfirmed(trade, role, item))
+  );
+
+export const isTerminalTradeStatus = (status: TradeStatus): boolean =>
+  Object.keys(TRADE_TRANSITIONS[status] || {}).length === 0;
@@ -0,0 +1,81 @@
+import { normalizeVin, computeVinCheckDigit, validateVin, decodeVin } from './vin.ts';
+
+// VINs with correct check digits
+const HONDA_ACCORD_2003 = '1HGCM82633A004352';
+const FORD_MUSTANG_2010 = '1ZVBP8AM1A5123456';
+const CHECK_DIGIT_X = '1M8GDM9AXKP042788';
+
+describe('normalizeVin', () => {
+  it('uppercases and strips the spaces and dashes people paste in', () => {
+    expect(normalizeVin(' 1hg-cm826 33a004352 ')).toBe(HONDA_ACCORD_2003);
+  });
+
+  it('treats a missing VIN as empty', () => {
+    expect(normalizeVin(undefined as unknown as string)).toBe('');
+  });
+});
+
+describe('computeVinCheckDigit', () => {
+  it('matches the 9th character of valid VINs', () => {
+    expect(computeVinCheckDigit(HONDA_ACCORD_2003)).toBe('3');
+    expect(computeVinCheckDigit(FORD_MUSTANG_2010)).toBe('1');
+  });
+
+  it('uses X for a remainder of 10', () => {
+    expect(computeVinCheckDigit(CHECK_DIGIT_X)).toBe('X');
+  });
+
+  it('transliterates letters the same as their digit values', () => {
+    // A=1, J=1 and S=2, B=2 share values, so swapping them keeps the check digit
+    expect(computeVinCheckDigit('1JGCM82633A004352')).toBe(computeVinCheckDigit('1AGCM82633A004352'));
+    expect(computeVinCheckDigit('1HGCM82633S004352')).toBe(computeVinCheckDigit('1HGCM82633B004352'));
+    // ...and the same as the digit they stand for
+    expect(computeVinCheckDigit('1HGCM826332004352')).toBe(computeVinCheckDigit('1HGCM82633B004352'));
+  });
+
+  it('ignores the check digit position itself', () => {
+    expect(computeVinCheckDigit('1HGCM8260' + HONDA_ACCORD_2003.slice(9))).toBe('3');
+  });
+});
+
+describe('validateVin', () => {
+  it('accepts valid VINs, including pasted formatting', () => {
+    expect(validateVin(HONDA_ACCORD_2003)).toEqual({ valid: true });
+    expect(validateVin('1hgcm8-2633a-004352')).toEqual({ valid: true });
+    expect(validateVin(CHECK_DIGIT_X)).toEqual({ valid: true });
+  });
+
+  it('requires exactly 17 characters', () => {
+    expect(validateVin('1HGCM82633A00435')).toEqual({ valid: false, error: 'VIN must be exactly 17 characters' });
+    expect(validateVin(HONDA_ACCORD_2003 + '1').valid).toBe(false);
+  });
+
+  it('rejects I, O and Q', () => {
+    expect(validateVin('1HGCM82633A00435O')).toEqual({
+      valid: false,
+      error: 'VIN can only contain letters and digits, excluding I, O and Q',
+    });
+  });
+
+  it('rejects a wrong check digit', () => {
+    expect(validateVin('1HGCM82643A004352')).toEqual({
+      valid: false,
+      error: 'VIN check digit does not match - please double-check the VIN',
+    });
+  });
+});
+
+describe('decodeVin', () => {
+  it('decodes the make from the WMI and the model year', () => {
+    expect(decodeVin(HONDA_ACCORD_2003)).toEqual({ make: 'Honda', year: 2003 });
+  });
+
+  it('uses the 2010+ cycle when position 7 is a letter', () => {
+    expect(decodeVin(FORD_MUSTANG_2010)).toEqual({ make: 'Ford', year: 2010 });
+  });
+
+  it('leaves out what it cannot decode', () => {
+    expect(decodeVin('ZZZCM82633A004352')).toEqual({ year: 2003 });
+    expect(decodeVin('not a vin')).toEqual({});
+  });
+});
@@ -0,0 +1,148 @@
+// VIN validation and offline decoding (ISO 3779 / 49 CFR 565).
+// backend/utils/vin.js is generated from this file by scripts/generate-shared.js.
+
+// I, O and Q are never used because they look like 1 and 0
+const VIN_PATTERN = /^[A-HJ-NPR-Z0-9]{17}$/;
+
+const TRANSLITERATION: Record<string, number> = {
+  A: 1, B: 2, C: 3, D: 4, E: 5, F: 6, G: 7, H: 8,
+  J: 1, K: 2, L: 3, M: 4, N: 5, P: 7, R: 9,
+  S: 2, T: 3, U: 4, V: 5, W: 6, X: 7, Y: 8, Z: 9,
+};
+
+const POSITION_WEIGHTS = [8, 7, 6, 5, 4, 3, 2, 10, 0, 9, 8, 7, 6, 5, 4, 3, 2];
+
+// World manufacturer identifiers (first three characters) for the makes in CarValuationService.
+// WMIs shared between brands (e.g. Stellantis' 1C4) are left out rather than guessed.
+const WMI_MAKES: Record<string, string> = {
+  '19U': 'Acura', JH4: 'Acura',
+  ZAR: 'Alfa Romeo', ZAS: 'Alfa Romeo',
+  SCF: 'Aston Martin',
+  WAU: 'Audi', WA1: 'Audi', WUA: 'Audi', TRU: 'Audi',
+  SCB: 'Bentley',
+  WBA: 'BMW', WBS: 'BMW', WBX: 'BMW', WBY: 'BMW', '5UX': 'BMW', '5UM': 'BMW', '4US': 'BMW',
+  '1G4': 'Buick', '2G4': 'Buick', '5GA': 'Buick', KL4: 'Buick',
+  '1G6': 'Cadillac', '1GY': 'Cadillac', '3GY': 'Cadillac',
+  '1G1': 'Chevrolet', '1GC': 'Chevrolet', '1GN': 'Chevrolet', '1GB': 'Chevrolet', '2G1': 'Chevrolet',
+  '2GN': 'Chevrolet', '3G1': 'Chevrolet', '3GC': 'Chevrolet', '3GN': 'Chevrolet', KL1: 'Chevrolet',
+  '2A4': 'Chrysler', '2A8': 'Chrysler',
+  '1B3': 'Dodge', '1B4': 'Dodge', '2B3': 'Dodge',
+  ZFF: 'Ferrari',
+  ZFA: 'Fiat',
+  '1FA': 'Ford', '1FB': 'Ford', '1FC': 'Ford', '1FD': 'Ford', '1FM': 'Ford', '1FT': 'Ford', '1ZV': 'Ford',
+  '2FA': 'Ford', '2FM': 'Ford', '2FT': 'Ford', '3FA': 'Ford', '3FM': 'Ford', '3FT': 'Ford', WF0: 'Ford',
+  KMT: 'Genesis',
+  '1GT': 'GMC', '1GK': 'GMC', '1GD': 'GMC', '2GT': 'GMC', '3GT': 'GMC',
+  '1HG': 'Honda', '2HG': 'Honda', '2HK': 'Honda', '3HG': 'Honda', '5FN': 'Honda', '5J6': 'Honda',
+  '19X': 'Honda', JHM: 'Honda', SHH: 'Honda',
+  KMH: 'Hyundai', KM8: 'Hyundai', '5NP': 'Hyundai', '5NM': 'Hyundai',
+  JNK: 'Infiniti', JNR: 'Infiniti', '5N3': 'Infiniti',
+  SAJ: 'Jaguar',
+  '1J4': 'Jeep', '1J8': 'Jeep',
+  KNA: 'Kia', KND: 'Kia', '5XX': 'Kia', '5XY': 'Kia', '3KP': 'Kia',
+  ZHW: 'Lamborghini',
+  SAL: 'Land Rover',
+  JTH: 'Lexus', JTJ: 'Lexus', '2T2': 'Lexus', '58A': 'Lexus',
+  '1LN': 'Lincoln', '2LM': 'Lincoln', '3LN': 'Lincoln', '5LM': 'Lincoln',
+  SCC: 'Lotus',
+  ZAM: 'Maserati',
+  JM1: 'Mazda', JM3: 'Mazda', '4F2': 'Mazda', '3MZ': 'Mazda', '3MV': 'Mazda',
+  SBM: 'McLaren',
+  WDB: 'Mercedes-Benz', WDC: 'Mercedes-Benz', WDD: 'Mercedes-Benz', WDF: 'Mercedes-Benz',
+  W1K: 'Mercedes-Benz', W1N: 'Mercedes-Benz', '4JG': 'Mercedes-Benz', '55S': 'Mercedes-Benz',
+  WMW: 'Mini',
+  JA3: 'Mitsubishi', JA4: 'Mitsubishi', '4A3': 'Mitsubishi', '4A4': 'Mitsubishi', ML3: 'Mitsubishi',
+  JN1: 'Nissan', JN8: 'Nissan', '1N4': 'Nissan', '1N6': 'Nissan', '3N1': 'Nissan', '3N6': 'Nissan', '5N1': 'Nissan',
+  LPS: 'Polestar',
+  WP0: 'Porsche', WP1: 'Porsche',
+  '1C6': 'Ram', '3C6': 'Ram', '3D7': 'Ram',
+  SCA: 'Rolls-Royce',
+  JF1: 'Subaru', JF2: 'Subaru', '4S3': 'Subaru', '4S4': 'Subaru',
+  '5YJ': 'Tesla', '7SA': 'Tesla', LRW: 'Tesla', XP7: 'Tesla',
+  JTD: 'Toyota', JTE: 'Toyota', JTK: 'Toyota', JTM: 'Toyota', JTN: 'Toyota', '2T1': 'Toyota', '2T3': 'Toyota',
+  '4T1': 'Toyota', '4T3': 'Toyota', '4T4': 'Toyota', '5TD': 'Toyota', '5TE': 'Toyota', '5TF': 'Toyota',
+  WVW: 'Volkswagen', WVG: 'Volkswagen', WV2: 'Volkswagen', '1VW': 'Volkswagen', '3VW': 'Volkswagen', '3VV': 'Volkswagen',
+  YV1: 'Volvo', YV4: 'Volvo', LYV: 'Volvo', '7JR': 'Volvo',
+};
+
+// Model-year codes (10th character) repeat every 30 years, starting from 1980
+const YEAR_CODES = 'ABCDEFGHJKLMNPRSTVWXY123456789';
+
+export interface VinValidation {
+  valid: boolean;
+  error?: string;
+}
+
+export interface DecodedVin {
+  make?: string;
+  year?: number;
+}
+
+/**
+ * Uppercases a VIN and drops the spaces and dashes people paste in.
+ * @param {string} vin - The VIN as entered.
+ * @returns {string} - The normalized VIN.
+ */
+export const normalizeVin = (vin: string): string => String(vin || '').toUpperCase().replace(/[\s-]/g, '');
+
+/**
+ * Computes the check digit (9th character), a weighted checksum of the other 16.
+ * @param {string} vin - A normalized 17-character VIN.
+ * @returns {string} - '0'-'9' or 'X'.
+ */
+export const computeVinCheckDigit = (vin: string): string => {
+  const sum = vin.split('').reduce((total, char, index) => {
+    const value = /\d/.test(char) ? Number(char) : TRANSLITERATION[char];
+    return total + value * POSITION_WEIGHTS[index];
+  }, 0);
+
+  const remainder = sum % 11;
+  return remainder === 10 ? 'X' : String(remainder);
+};
+
+/**
+ * Checks a VIN's length, characters and check digit.
+ * @param {string} vin - The VIN as entered.
+ * @returns {VinValidation} - Whether it is valid, with a message when it isn't.
+ */
+export const validateVin = (vin: string): VinValidation => {
+  const normalized = normalizeVin(vin);
+
+  if (normalized.length !== 17) {
+    return { valid: false, error: 'VIN must be exactly 17 characters' };
+  }
+  if (!VIN_PATTERN.test(normalized)) {
+    return { valid: false, error: 'VIN can only contain letters and digits, excluding I, O and Q' };
+  }
+  if (computeVinCheckDigit(normalized) !== normalized[8]) {
+    return { valid: false, error: 'VIN check digit does not match - please double-check the VIN' };
+  }
+
+  return { valid: true };
+};
+
+/**
+ * Decodes the make and model year from a VIN using the bundled tables, without any network lookup.
+ * @param {string} vin - The VIN as entered.
+ * @returns {DecodedVin} - Whatever could be decoded; fields are missing when unknown.
+ */
+export const decodeVin = (vin: string): DecodedVin => {
+  const normalized = normalizeVin(vin);
+  if (!VIN_PATTERN.test(normalized)) return {};
+
+  const decoded: DecodedVin = {};
+
+  const make = WMI_MAKES[normalized.substring(0, 3)];
+  if (make) decoded.make = make;
+
+  const yearIndex = YEAR_CODES.indexOf(normalized[9]);
+  if (yearIndex !== -1) {
+    // A letter in position 7 marks the 2010+ cycle on North American VINs
+    let year = 1980 + yearIndex + (/[A-Z]/.test(normalized[6]) ? 30 : 0);
+    // Never decode to a model year that can't exist yet
+    while (year > new Date().getFullYear() + 1) year -= 30;
+    decoded.year = year;
+  }
+
+  return decoded;
+};